@@ -1,26 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId, safeJsonParse } from '@/lib/utils'
-import anthropic, { SYSTEM_PROMPT, isConfigured } from '@/lib/claude'
+import { SYSTEM_PROMPT } from '@/lib/claude'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage, generateText, streamText, type CompletionResult } from '@/lib/llm'
+import { wantsEventStream, createEventStream } from '@/lib/sse'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { retrieveSourceChunks, formatSourceChunksForPrompt, toChunkReferences } from '@/lib/sources'
 import { composeSystemPrompt } from '@/lib/prompts/compose'
+import { splitIntoTweets } from '@/lib/thread'
+import { recordContentVersion } from '@/lib/versions'
 import { UI_MANIPULATION_TOOLS, ASSISTANT_SYSTEM_PROMPT, parseToolCalls } from '@/lib/claude/tools'
-import { generateImage, refineImage, type ReferenceImage } from '@/lib/gemini'
-import type { Message, Project, Output, AssistantAction, AssistantResponse, ContentType, VisualConcept, GeneratedImage } from '@/types'
+import { resolveImageSelection, isImageSelectionConfigured, imageNotConfiguredMessage, generateImages, refineImage, type AspectRatio, type ReferenceImage } from '@/lib/images'
+import type { Message, Project, Output, AssistantAction, AssistantResponse, ContentType, VisualConcept, GeneratedImage, NewsletterSection, SourceChunkReference } from '@/types'
 
 interface DbOutput {
   id: string
   project_id: string
   hooks: string
   body_content: string
+  thread: string
+  newsletter_sections: string
+  subject_lines: string
+  preview_texts: string
   intros: string
   titles: string
   ctas: string
+  hashtag_sets: string
   visual_concepts: string
   selected_hook_index: number
   selected_body_index: number
+  selected_subject_index: number
+  selected_preview_index: number
   selected_intro_index: number
   selected_title_index: number
   selected_cta_index: number
+  selected_hashtag_index: number
   selected_visual_index: number
 }
 
@@ -47,10 +61,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Claude is configured
-    if (!isConfigured()) {
+    // Check that the selected text provider is configured
+    const selection = resolveModelSelection(project_id)
+    if (!isSelectionConfigured(selection)) {
       return NextResponse.json(
-        { error: 'Claude API is not configured. Please set ANTHROPIC_API_KEY in .env.local' },
+        { error: notConfiguredMessage(selection) },
         { status: 503 }
       )
     }
@@ -83,7 +98,7 @@ export async function POST(request: NextRequest) {
     `)
     insertUserMsg.run(userMessageId, project_id, message, now)
 
-    // Build conversation history for Claude
+    // Build conversation history for the model
     const conversationHistory: { role: 'user' | 'assistant'; content: string }[] = []
 
     // Build context string with project info, sources, and images
@@ -97,26 +112,15 @@ export async function POST(request: NextRequest) {
 Current content:
 ${output ? formatCurrentContent(output) : 'No content generated yet.'}`
 
-    // Inject text sources
+    // Inject the source passages most relevant to this message
+    let sourceChunks: SourceChunkReference[] = []
     try {
-      const sourcesStmt = db.prepare(
-        'SELECT title, content FROM project_sources WHERE project_id = ? AND enabled = 1 ORDER BY created_at ASC'
-      )
-      const sources = sourcesStmt.all(project_id) as { title: string; content: string }[]
-      if (sources.length > 0) {
-        let totalChars = 0
-        const MAX_CHARS = 6000
+      const chunks = await retrieveSourceChunks(project_id, `${message}\n${project.topic}`, 6000)
+      if (chunks.length > 0) {
         contextString += '\n\n--- Reference Materials ---\n'
-        contextString += 'The user has uploaded these information sources:\n\n'
-        for (const source of sources) {
-          const available = MAX_CHARS - totalChars
-          if (available <= 0) break
-          const content = source.content.length > available
-            ? source.content.substring(0, available) + '...[truncated]'
-            : source.content
-          contextString += `### ${source.title}\n${content}\n\n`
-          totalChars += content.length
-        }
+        contextString += 'Passages from the user\'s uploaded sources that relate to this request:\n\n'
+        contextString += formatSourceChunksForPrompt(chunks) + '\n\n'
+        sourceChunks = toChunkReferences(chunks)
       }
     } catch (err) {
       console.error('Failed to load sources for assistant:', err)
@@ -235,7 +239,7 @@ ${output ? formatCurrentContent(output) : 'No content generated yet.'}`
       content: message
     })
 
-    // Ensure no consecutive same-role messages (Claude API requirement)
+    // Ensure no consecutive same-role messages (Anthropic API requirement, harmless elsewhere)
     const dedupedHistory: typeof conversationHistory = []
     for (const msg of conversationHistory) {
       if (dedupedHistory.length > 0 && dedupedHistory[dedupedHistory.length - 1].role === msg.role) {
@@ -247,148 +251,177 @@ ${output ? formatCurrentContent(output) : 'No content generated yet.'}`
     conversationHistory.length = 0
     conversationHistory.push(...dedupedHistory)
 
-    // Call Claude API with tools
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
+    const completionRequest = {
+      maxTokens: 4096,
       system: `${composeSystemPrompt(SYSTEM_PROMPT, project.platform)}\n\n${ASSISTANT_SYSTEM_PROMPT}`,
       tools: UI_MANIPULATION_TOOLS,
-      messages: conversationHistory
-    })
+      messages: conversationHistory,
+      task: 'assistant',
+    }
+    const userMessage = {
+      id: userMessageId,
+      project_id,
+      role: 'user' as const,
+      content: message,
+      created_at: now,
+    }
+
+    // Streamed reply: tokens and tool calls as they arrive, then the same payload as the JSON response
+    if (wantsEventStream(request)) {
+      return createEventStream(request, async (send, signal) => {
+        send('user_message', userMessage)
 
-    // Process response and extract tool calls
-    let assistantMessage = ''
-    const toolCalls: { name: string; input: Record<string, unknown> }[] = []
-
-    for (const block of response.content) {
-      if (block.type === 'text') {
-        assistantMessage += block.text
-      } else if (block.type === 'tool_use') {
-        toolCalls.push({
-          name: block.name,
-          input: block.input as Record<string, unknown>
+        const response = await streamText(selection, { ...completionRequest, signal }, (event) => {
+          if (event.type === 'text') {
+            send('token', { text: event.text })
+          } else {
+            send('tool_call', event.call)
+          }
         })
-      }
+        if (signal.aborted) return
+
+        send('done', await completeAssistantTurn(project_id, output, userMessage, response, sourceChunks))
+      })
     }
 
-    // Log for debugging tool usage
-    console.log('[Assistant] Stop reason:', response.stop_reason)
-    console.log('[Assistant] Tool calls:', toolCalls.length > 0 ? toolCalls.map(t => t.name) : 'none')
+    // Call the selected text provider with tools
+    const response = await generateText(selection, completionRequest)
 
-    // Handle truncated response
-    if (response.stop_reason === 'max_tokens' && !assistantMessage && toolCalls.length === 0) {
-      assistantMessage = 'My response was too long and got cut off. Could you try a more specific request?'
-    }
+    return NextResponse.json(await completeAssistantTurn(project_id, output, userMessage, response, sourceChunks))
+  } catch (error) {
+    console.error('Error in assistant:', error)
+    return NextResponse.json(
+      { error: 'Failed to process assistant request' },
+      { status: 500 }
+    )
+  }
+}
 
-    // Parse tool calls into actions
-    const actions = parseToolCalls(toolCalls)
-    console.log('[Assistant] Parsed actions:', actions.length > 0 ? actions.map(a => a.type) : 'none')
+// Run the model's tool calls, save the assistant reply and build the response payload
+async function completeAssistantTurn(
+  projectId: string,
+  output: DbOutput | undefined,
+  userMessage: { id: string; project_id: string; role: 'user'; content: string; created_at: string },
+  response: CompletionResult,
+  sourceChunks: SourceChunkReference[]
+) {
+  // Extract text and tool calls
+  let assistantMessage = response.text
+  const toolCalls = response.toolCalls
+
+  // Log for debugging tool usage
+  console.log('[Assistant] Stop reason:', response.stopReason)
+  console.log('[Assistant] Tool calls:', toolCalls.length > 0 ? toolCalls.map(t => t.name) : 'none')
+
+  // Handle truncated response
+  if (response.stopReason === 'max_tokens' && !assistantMessage && toolCalls.length === 0) {
+    assistantMessage = 'My response was too long and got cut off. Could you try a more specific request?'
+  }
 
-    // Separate image actions, carousel actions, and content actions
-    const carouselActionTypes = ['edit_carousel_slide', 'set_slide_image', 'remove_slide_image']
-    const imageActionTypes = ['generate_image', 'refine_image', 'generate_thumbnail']
-    const contentActions = actions.filter(a => !imageActionTypes.includes(a.type) && !carouselActionTypes.includes(a.type))
-    const imageActions = actions.filter(a => imageActionTypes.includes(a.type))
-    const carouselActions = actions.filter(a => carouselActionTypes.includes(a.type))
+  // Parse tool calls into actions
+  const actions = parseToolCalls(toolCalls)
+  console.log('[Assistant] Parsed actions:', actions.length > 0 ? actions.map(a => a.type) : 'none')
 
-    // Execute content actions on the database
-    if (contentActions.length > 0 && output) {
-      await executeActions(project_id, output, contentActions)
-    }
+  // Separate image actions, carousel actions, and content actions
+  const carouselActionTypes = ['edit_carousel_slide', 'set_slide_image', 'remove_slide_image']
+  const imageActionTypes = ['generate_image', 'refine_image', 'generate_thumbnail']
+  const contentActions = actions.filter(a => !imageActionTypes.includes(a.type) && !carouselActionTypes.includes(a.type))
+  const imageActions = actions.filter(a => imageActionTypes.includes(a.type))
+  const carouselActions = actions.filter(a => carouselActionTypes.includes(a.type))
 
-    // Execute carousel actions
-    let carouselUpdated = false
-    if (carouselActions.length > 0) {
-      carouselUpdated = await executeCarouselActions(project_id, carouselActions)
-    }
+  // Execute content actions on the database
+  if (contentActions.length > 0 && output) {
+    await executeActions(projectId, output, contentActions)
+  }
 
-    // Execute image actions
-    let generatedImageResult: Omit<GeneratedImage, 'image_data'> | undefined
-    if (imageActions.length > 0) {
-      console.log('[Assistant] Executing image actions:', imageActions.map(a => a.type))
-      for (const action of imageActions) {
-        try {
-          console.log('[Assistant] Executing:', action.type, action)
-          generatedImageResult = await executeImageAction(project_id, action)
-          console.log('[Assistant] Image generated:', generatedImageResult?.id)
-        } catch (err) {
-          console.error('Failed to execute image action:', err)
-          const errMsg = err instanceof Error ? err.message : 'Unknown error'
-          if (!assistantMessage) {
-            assistantMessage = `I tried to generate/refine the image but the model responded: "${errMsg}"`
-          } else {
-            assistantMessage += `\n\n(Note: The image generation model responded: "${errMsg}")`
-          }
+  // Execute carousel actions
+  let carouselUpdated = false
+  if (carouselActions.length > 0) {
+    carouselUpdated = await executeCarouselActions(projectId, carouselActions)
+  }
+
+  // Execute image actions
+  let generatedImageResult: Omit<GeneratedImage, 'image_data'> | undefined
+  if (imageActions.length > 0) {
+    console.log('[Assistant] Executing image actions:', imageActions.map(a => a.type))
+    for (const action of imageActions) {
+      try {
+        console.log('[Assistant] Executing:', action.type, action)
+        generatedImageResult = await executeImageAction(projectId, action)
+        console.log('[Assistant] Image generated:', generatedImageResult?.id)
+        if (generatedImageResult) {
+          const { id, prompt, width, height, model, parent_image_id, visual_concept_index } = generatedImageResult
+          emitProjectEvent('image.generated', projectId, {
+            action: action.type === 'refine_image' ? 'refined' : 'generated',
+            image: { id, prompt, width, height, model, parent_image_id: parent_image_id ?? null, visual_concept_index: visual_concept_index ?? null },
+          })
+        }
+      } catch (err) {
+        console.error('Failed to execute image action:', err)
+        const errMsg = err instanceof Error ? err.message : 'Unknown error'
+        if (!assistantMessage) {
+          assistantMessage = `I tried to generate/refine the image but the model responded: "${errMsg}"`
+        } else {
+          assistantMessage += `\n\n(Note: The image generation model responded: "${errMsg}")`
         }
       }
-    } else {
-      console.log('[Assistant] No image actions to execute')
     }
+  } else {
+    console.log('[Assistant] No image actions to execute')
+  }
 
-    // Ensure assistant message is never empty (Claude sometimes returns only tool_use blocks)
-    if (!assistantMessage.trim()) {
-      if (carouselUpdated) {
-        assistantMessage = 'Done — I\'ve updated the carousel slide.'
-      } else if (contentActions.length > 0) {
-        assistantMessage = 'Done — I\'ve updated the content.'
-      } else if (generatedImageResult) {
-        assistantMessage = 'Done — the image has been generated.'
-      } else if (imageActions.length > 0) {
-        // Image actions were attempted but all failed (errors already appended above)
-      } else {
-        assistantMessage = 'I processed your request.'
-      }
+  // Ensure assistant message is never empty (models sometimes return only tool calls)
+  if (!assistantMessage.trim()) {
+    if (carouselUpdated) {
+      assistantMessage = 'Done — I\'ve updated the carousel slide.'
+    } else if (contentActions.length > 0) {
+      assistantMessage = 'Done — I\'ve updated the content.'
+    } else if (generatedImageResult) {
+      assistantMessage = 'Done — the image has been generated.'
+    } else if (imageActions.length > 0) {
+      // Image actions were attempted but all failed (errors already appended above)
+    } else {
+      assistantMessage = 'I processed your request.'
     }
+  }
 
-    // Save assistant message
-    const assistantMessageId = generateId()
-    const assistantNow = new Date().toISOString()
-
-    const insertAssistantMsg = db.prepare(`
-      INSERT INTO messages (id, project_id, role, content, created_at)
-      VALUES (?, ?, 'assistant', ?, ?)
-    `)
-    insertAssistantMsg.run(assistantMessageId, project_id, assistantMessage, assistantNow)
-
-    // Get updated output if content actions were taken
-    let updatedOutput: Output | undefined
-    if (contentActions.length > 0) {
-      const refreshedOutput = outputStmt.get(project_id) as DbOutput | undefined
-      if (refreshedOutput) {
-        updatedOutput = parseDbOutput(refreshedOutput)
-      }
+  // Save assistant message
+  const assistantMessageId = generateId()
+  const assistantNow = new Date().toISOString()
+
+  const insertAssistantMsg = db.prepare(`
+    INSERT INTO messages (id, project_id, role, content, source_chunks, created_at)
+    VALUES (?, ?, 'assistant', ?, ?, ?)
+  `)
+  insertAssistantMsg.run(assistantMessageId, projectId, assistantMessage, JSON.stringify(sourceChunks), assistantNow)
+
+  // Get updated output if content actions were taken
+  let updatedOutput: Output | undefined
+  if (contentActions.length > 0) {
+    const refreshedOutput = db.prepare('SELECT * FROM outputs WHERE project_id = ?').get(projectId) as DbOutput | undefined
+    if (refreshedOutput) {
+      updatedOutput = parseDbOutput(refreshedOutput)
     }
+  }
 
-    const assistantResponse: AssistantResponse = {
-      message: assistantMessage,
-      actions: actions.length > 0 ? actions : undefined,
-    }
+  const assistantResponse: AssistantResponse = {
+    message: assistantMessage,
+    actions: actions.length > 0 ? actions : undefined,
+  }
 
-    return NextResponse.json({
-      userMessage: {
-        id: userMessageId,
-        project_id,
-        role: 'user',
-        content: message,
-        created_at: now,
-      },
-      assistantMessage: {
-        id: assistantMessageId,
-        project_id,
-        role: 'assistant',
-        content: assistantMessage,
-        created_at: assistantNow,
-      },
-      response: assistantResponse,
-      output: updatedOutput,
-      generatedImage: generatedImageResult,
-    })
-  } catch (error) {
-    console.error('Error in assistant:', error)
-    return NextResponse.json(
-      { error: 'Failed to process assistant request' },
-      { status: 500 }
-    )
+  return {
+    userMessage,
+    assistantMessage: {
+      id: assistantMessageId,
+      project_id: projectId,
+      role: 'assistant' as const,
+      content: assistantMessage,
+      source_chunks: sourceChunks,
+      created_at: assistantNow,
+    },
+    response: assistantResponse,
+    output: updatedOutput,
+    generatedImage: generatedImageResult,
   }
 }
 
@@ -398,6 +431,7 @@ function formatCurrentContent(output: DbOutput): string {
   const intros = safeJsonParse(output.intros, [])
   const titles = safeJsonParse(output.titles, [])
   const ctas = safeJsonParse(output.ctas, [])
+  const hashtagSets = safeJsonParse(output.hashtag_sets, [])
   const visuals = safeJsonParse(output.visual_concepts, [])
 
   let content = ''
@@ -409,10 +443,38 @@ function formatCurrentContent(output: DbOutput): string {
     })
   }
 
-  if (output.body_content) {
+  const thread = safeJsonParse<string[]>(output.thread, [])
+  const sections = safeJsonParse<NewsletterSection[]>(output.newsletter_sections, [])
+  if (sections.length > 0) {
+    content += `\nNewsletter sections (${sections.length}, edited in the section editor):\n`
+    sections.forEach((section, i) => {
+      content += `  ${i + 1}. ${section.heading}${section.body ? '' : ' (not drafted yet)'}\n`
+    })
+  } else if (thread.length > 0) {
+    content += `\nThread (${thread.length} tweets, edited as body content):\n`
+    thread.forEach((tweet, i) => {
+      content += `  ${i + 1}. ${tweet.substring(0, 100)}${tweet.length > 100 ? '...' : ''}\n`
+    })
+  } else if (output.body_content) {
     content += `\nBody content:\n  ${output.body_content.substring(0, 200)}...\n`
   }
 
+  const subjectLines = safeJsonParse<string[]>(output.subject_lines, [])
+  if (subjectLines.length > 0) {
+    content += '\nSubject lines:\n'
+    subjectLines.forEach((subject, i) => {
+      content += `  ${i + 1}. ${subject}${i === output.selected_subject_index ? ' (selected)' : ''}\n`
+    })
+  }
+
+  const previewTexts = safeJsonParse<string[]>(output.preview_texts, [])
+  if (previewTexts.length > 0) {
+    content += '\nPreview texts:\n'
+    previewTexts.forEach((preview, i) => {
+      content += `  ${i + 1}. ${preview}${i === output.selected_preview_index ? ' (selected)' : ''}\n`
+    })
+  }
+
   if (intros.length > 0) {
     content += '\nIntros:\n'
     intros.forEach((intro: string, i: number) => {
@@ -434,6 +496,13 @@ function formatCurrentContent(output: DbOutput): string {
     })
   }
 
+  if (hashtagSets.length > 0) {
+    content += '\nHashtag sets:\n'
+    hashtagSets.forEach((set: string, i: number) => {
+      content += `  ${i + 1}. ${set}${i === output.selected_hashtag_index ? ' (selected)' : ''}\n`
+    })
+  }
+
   if (visuals.length > 0) {
     content += '\nVisual concepts:\n'
     visuals.forEach((v: VisualConcept, i: number) => {
@@ -460,6 +529,12 @@ async function executeActions(projectId: string, output: DbOutput, actions: Assi
           // Body is a string, not array
           db.prepare('UPDATE outputs SET body_content = ?, updated_at = ? WHERE project_id = ?')
             .run(action.new_content, new Date().toISOString(), projectId)
+          recordContentVersion(projectId, 'body', 0, output.body_content, action.new_content, 'assistant')
+          // An X thread mirrors the body, so re-split the edited text into tweets
+          if (safeJsonParse<string[]>(output.thread, []).length > 0) {
+            db.prepare('UPDATE outputs SET thread = ? WHERE project_id = ?')
+              .run(JSON.stringify(splitIntoTweets(action.new_content)), projectId)
+          }
         } else {
           // Other content types are arrays
           const currentValue = (output as unknown as Record<string, string>)[mapping.arrayField]
@@ -499,7 +574,7 @@ async function executeActions(projectId: string, output: DbOutput, actions: Assi
       }
 
       // regenerate_section and add_more would be handled by the frontend
-      // since they require Claude to generate new content
+      // since they require the model to generate new content
     }
   }
 }
@@ -600,12 +675,17 @@ async function executeImageAction(
   projectId: string,
   action: AssistantAction
 ): Promise<Omit<GeneratedImage, 'image_data'>> {
+  const selection = resolveImageSelection()
+  if (!isImageSelectionConfigured(selection)) {
+    throw new Error(imageNotConfiguredMessage(selection))
+  }
+
   if (action.type === 'generate_image') {
     const referenceImages = action.use_references ? fetchReferenceImages(projectId) : undefined
 
-    const results = await generateImage({
+    const { images: results, model } = await generateImages(selection, {
       prompt: action.prompt,
-      aspectRatio: (action.aspect_ratio as '1:1' | '16:9' | '9:16' | '4:3') || '1:1',
+      aspectRatio: (action.aspect_ratio as AspectRatio) || '1:1',
       numberOfImages: 1,
       referenceImages,
     })
@@ -620,10 +700,10 @@ async function executeImageAction(
 
     const insertStmt = db.prepare(`
       INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana', 0, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)
     `)
     const imageBuffer = Buffer.from(result.base64Data, 'base64')
-    insertStmt.run(imageId, projectId, action.prompt, imageBuffer, result.width, result.height, now)
+    insertStmt.run(imageId, projectId, action.prompt, imageBuffer, result.width, result.height, model, now)
 
     return {
       id: imageId,
@@ -631,7 +711,7 @@ async function executeImageAction(
       prompt: action.prompt,
       width: result.width,
       height: result.height,
-      model: 'nano-banana',
+      model,
       is_upscaled: false,
       created_at: now,
     }
@@ -654,8 +734,8 @@ async function executeImageAction(
 
     const referenceImages = action.use_references ? fetchReferenceImages(projectId) : undefined
 
-    const results = await refineImage(
-      originalImage.prompt,
+    const { images: results, model } = await refineImage(
+      selection,
       action.refinement_prompt,
       originalImage.image_data.toString('base64'),
       referenceImages
@@ -673,10 +753,10 @@ async function executeImageAction(
     // Preserve the visual_concept_index from the original image
     const insertStmt = db.prepare(`
       INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, visual_concept_index, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana', 0, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
     `)
     const imageBuffer = Buffer.from(result.base64Data, 'base64')
-    insertStmt.run(imageId, projectId, combinedPrompt, imageBuffer, result.width, result.height, action.image_id, originalImage.visual_concept_index, now)
+    insertStmt.run(imageId, projectId, combinedPrompt, imageBuffer, result.width, result.height, model, action.image_id, originalImage.visual_concept_index, now)
 
     return {
       id: imageId,
@@ -684,7 +764,7 @@ async function executeImageAction(
       prompt: combinedPrompt,
       width: result.width,
       height: result.height,
-      model: 'nano-banana',
+      model,
       is_upscaled: false,
       parent_image_id: action.image_id,
       visual_concept_index: originalImage.visual_concept_index ?? undefined,
@@ -697,9 +777,9 @@ async function executeImageAction(
     // Convert 1-based thumbnail_index to 0-based visual_concept_index
     const visualConceptIndex = action.thumbnail_index - 1
 
-    const results = await generateImage({
+    const { images: results, model } = await generateImages(selection, {
       prompt: action.prompt,
-      aspectRatio: (action.aspect_ratio as '1:1' | '16:9' | '9:16' | '4:3') || '1:1',
+      aspectRatio: (action.aspect_ratio as AspectRatio) || '1:1',
       numberOfImages: 1,
       referenceImages,
     })
@@ -714,10 +794,10 @@ async function executeImageAction(
 
     const insertStmt = db.prepare(`
       INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, visual_concept_index, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana', 0, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
     `)
     const imageBuffer = Buffer.from(result.base64Data, 'base64')
-    insertStmt.run(imageId, projectId, action.prompt, imageBuffer, result.width, result.height, visualConceptIndex, now)
+    insertStmt.run(imageId, projectId, action.prompt, imageBuffer, result.width, result.height, model, visualConceptIndex, now)
 
     return {
       id: imageId,
@@ -725,7 +805,7 @@ async function executeImageAction(
       prompt: action.prompt,
       width: result.width,
       height: result.height,
-      model: 'nano-banana',
+      model,
       is_upscaled: false,
       visual_concept_index: visualConceptIndex,
       created_at: now,
@@ -746,6 +826,16 @@ function parseDbOutput(dbOutput: DbOutput): Output {
     body_content: dbOutput.body_content,
     body_content_original: '',
     selected_body_index: dbOutput.selected_body_index ?? -1,
+    thread: safeJsonParse(dbOutput.thread, []),
+    thread_original: [],
+    newsletter_sections: safeJsonParse(dbOutput.newsletter_sections, []),
+    newsletter_sections_original: [],
+    subject_lines: safeJsonParse(dbOutput.subject_lines, []),
+    subject_lines_original: [],
+    selected_subject_index: dbOutput.selected_subject_index ?? -1,
+    preview_texts: safeJsonParse(dbOutput.preview_texts, []),
+    preview_texts_original: [],
+    selected_preview_index: dbOutput.selected_preview_index ?? -1,
     intros: safeJsonParse(dbOutput.intros, []),
     intros_original: [],
     selected_intro_index: dbOutput.selected_intro_index ?? -1,
@@ -755,6 +845,9 @@ function parseDbOutput(dbOutput: DbOutput): Output {
     ctas: safeJsonParse(dbOutput.ctas, []),
     ctas_original: [],
     selected_cta_index: dbOutput.selected_cta_index ?? -1,
+    hashtag_sets: safeJsonParse(dbOutput.hashtag_sets, []),
+    hashtag_sets_original: [],
+    selected_hashtag_index: dbOutput.selected_hashtag_index ?? -1,
     visual_concepts: safeJsonParse(dbOutput.visual_concepts, []),
     visual_concepts_original: [],
     selected_visual_index: dbOutput.selected_visual_index ?? -1,
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarEntries, buildIcsCalendar } from '@/lib/calendar'
+
+// GET /api/calendar/ics - Get every dated post as an iCalendar feed (?platform= limits it to one platform)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams, origin } = new URL(request.url)
+    const platform = searchParams.get('platform')
+
+    const entries = getCalendarEntries().filter(entry => !platform || entry.platform === platform)
+
+    return new NextResponse(buildIcsCalendar(entries, origin), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="content-calendar.ics"',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting calendar:', error)
+    return NextResponse.json(
+      { error: 'Failed to export calendar' },
+      { status: 500 }
+    )
+  }
+}
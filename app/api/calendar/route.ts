@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarEntries, getUnscheduledEntries } from '@/lib/calendar'
+import type { CalendarResponse } from '@/types'
+
+// GET /api/calendar - Get posts dated between from and to (ISO dates), plus unscheduled projects
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (!from || !to || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO dates' },
+        { status: 400 }
+      )
+    }
+
+    const response: CalendarResponse = {
+      entries: getCalendarEntries({ from: new Date(from).toISOString(), to: new Date(to).toISOString() }),
+      unscheduled: getUnscheduledEntries(),
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error fetching calendar:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar' },
+      { status: 500 }
+    )
+  }
+}
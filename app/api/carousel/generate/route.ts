@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { v4 as uuidv4 } from 'uuid'
-import Anthropic from '@anthropic-ai/sdk'
 import db from '@/lib/db'
-import type { CarouselSlide } from '@/types'
-
-const anthropic = new Anthropic()
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage, generateText } from '@/lib/llm'
+import { getProjectPlatform } from '@/lib/platforms'
+import { stripCitationMarkers } from '@/lib/citations'
+import { CAROUSEL_DIMENSIONS } from '@/types'
+import type { CarouselSlide, CarouselAspectRatio, Platform } from '@/types'
 
 interface OutputRow {
   body_content: string
@@ -19,6 +20,7 @@ interface CarouselOutputRow {
   id: string
   project_id: string
   template_id: string | null
+  aspect_ratio: CarouselAspectRatio
   slides: string
   created_at: string
   updated_at: string
@@ -54,6 +56,14 @@ Rules:
 - Create a narrative arc across slides
 - Make the final slide drive action`
 
+// Carousels follow the platform's portrait format where it has one (Instagram's 4:5)
+// and are square everywhere else
+function defaultAspectRatio(projectId: string): CarouselAspectRatio {
+  const project = db.prepare('SELECT platform FROM projects WHERE id = ?')
+    .get(projectId) as { platform: Platform } | undefined
+  return project && getProjectPlatform(project.platform).aspectRatio.ratio === '4:5' ? '4:5' : '1:1'
+}
+
 /**
  * POST /api/carousel/generate
  * Generate carousel slide content from body content
@@ -61,12 +71,16 @@ Rules:
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { project_id, slide_count = 5, template_id, source_content } = body
+    const { project_id, slide_count = 5, template_id, source_content, aspect_ratio } = body
 
     if (!project_id) {
       return NextResponse.json({ error: 'project_id is required' }, { status: 400 })
     }
 
+    if (aspect_ratio !== undefined && !(aspect_ratio in CAROUSEL_DIMENSIONS)) {
+      return NextResponse.json({ error: 'aspect_ratio must be "1:1" or "4:5"' }, { status: 400 })
+    }
+
     // Get the body content from project outputs if not provided
     let contentToProcess = source_content
 
@@ -82,7 +96,7 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      contentToProcess = output.body_content
+      contentToProcess = stripCitationMarkers(output.body_content)
     }
 
     // Determine slide count from template if provided
@@ -97,10 +111,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate carousel content using Claude
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
+    const selection = resolveModelSelection(project_id)
+    if (!isSelectionConfigured(selection)) {
+      return NextResponse.json({ error: notConfiguredMessage(selection) }, { status: 503 })
+    }
+
+    // Generate carousel content with the selected text provider
+    const response = await generateText(selection, {
+      maxTokens: 2000,
+      task: 'carousel',
       messages: [
         {
           role: 'user',
@@ -118,10 +137,8 @@ Generate the carousel slides as a JSON array.`
       ]
     })
 
-    // Extract the text content
-    const textContent = response.content.find(block => block.type === 'text')
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from Claude')
+    if (!response.text) {
+      throw new Error('No text response from the model')
     }
 
     // Parse the JSON response
@@ -129,14 +146,14 @@ Generate the carousel slides as a JSON array.`
 
     try {
       // Extract JSON from response (handle markdown code blocks)
-      let jsonStr = textContent.text
+      let jsonStr = response.text
       const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
       if (jsonMatch) {
         jsonStr = jsonMatch[1].trim()
       }
       slidesData = JSON.parse(jsonStr)
     } catch {
-      console.error('Failed to parse carousel response:', textContent.text)
+      console.error('Failed to parse carousel response:', response.text)
       throw new Error('Failed to parse carousel content')
     }
 
@@ -155,27 +172,29 @@ Generate the carousel slides as a JSON array.`
     `).get(project_id) as { id: string } | undefined
 
     const carouselId = existingOutput?.id || uuidv4()
+    const aspectRatio: CarouselAspectRatio = aspect_ratio || defaultAspectRatio(project_id)
     const now = new Date().toISOString()
 
     if (existingOutput) {
       // Update existing
       db.prepare(`
         UPDATE carousel_outputs
-        SET template_id = ?, slides = ?, updated_at = ?
+        SET template_id = ?, aspect_ratio = ?, slides = ?, updated_at = ?
         WHERE id = ?
-      `).run(template_id || null, JSON.stringify(slides), now, carouselId)
+      `).run(template_id || null, aspectRatio, JSON.stringify(slides), now, carouselId)
     } else {
       // Create new
       db.prepare(`
-        INSERT INTO carousel_outputs (id, project_id, template_id, slides, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).run(carouselId, project_id, template_id || null, JSON.stringify(slides), now, now)
+        INSERT INTO carousel_outputs (id, project_id, template_id, aspect_ratio, slides, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(carouselId, project_id, template_id || null, aspectRatio, JSON.stringify(slides), now, now)
     }
 
     return NextResponse.json({
       id: carouselId,
       project_id,
       template_id: template_id || null,
+      aspect_ratio: aspectRatio,
       slides,
       created_at: now,
       updated_at: now
@@ -204,7 +223,7 @@ export async function GET(request: NextRequest) {
     }
 
     const carouselOutput = db.prepare(`
-      SELECT id, project_id, template_id, slides, created_at, updated_at
+      SELECT id, project_id, template_id, aspect_ratio, slides, created_at, updated_at
       FROM carousel_outputs
       WHERE project_id = ?
     `).get(project_id) as CarouselOutputRow | undefined
@@ -261,7 +280,7 @@ export async function PATCH(request: NextRequest) {
     `).run(JSON.stringify(slides), now, carousel_id)
 
     const updated = db.prepare(`
-      SELECT id, project_id, template_id, slides, created_at, updated_at
+      SELECT id, project_id, template_id, aspect_ratio, slides, created_at, updated_at
       FROM carousel_outputs
       WHERE id = ?
     `).get(carousel_id) as CarouselOutputRow
@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import sharp from 'sharp'
-import type { TextZone, CarouselSlide } from '@/types'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { CAROUSEL_DIMENSIONS } from '@/types'
+import type { TextZone, CarouselSlide, CarouselAspectRatio } from '@/types'
 
 interface CarouselOutputRow {
   id: string
   project_id: string
   template_id: string | null
+  aspect_ratio: CarouselAspectRatio
   slides: string
 }
 
+// Template text zones are laid out on a 1080×1080 square
+const TEMPLATE_SIZE = 1080
+
 interface TemplateSlideRow {
   id: string
   position: number
@@ -98,6 +104,32 @@ function escapeXml(text: string): string {
     .replace(/'/g, '&apos;')
 }
 
+/**
+ * Map template text zones onto a slide of another shape, scaling and cropping them the
+ * same way the template background is resized to cover the slide, then keeping each
+ * zone inside the slide so no text is cut off at the edges
+ */
+function coverZones(zones: TextZone[], slideWidth: number, slideHeight: number): TextZone[] {
+  const scale = Math.max(slideWidth / TEMPLATE_SIZE, slideHeight / TEMPLATE_SIZE)
+  if (scale === 1) return zones
+
+  const offsetX = (TEMPLATE_SIZE * scale - slideWidth) / 2
+  const offsetY = (TEMPLATE_SIZE * scale - slideHeight) / 2
+
+  return zones.map(zone => {
+    const width = Math.min(zone.width * scale, slideWidth)
+    const height = Math.min(zone.height * scale, slideHeight)
+    return {
+      ...zone,
+      x: Math.min(Math.max(zone.x * scale - offsetX, 0), slideWidth - width),
+      y: Math.min(Math.max(zone.y * scale - offsetY, 0), slideHeight - height),
+      width,
+      height,
+      fontSize: (zone.fontSize || 48) * scale,
+    }
+  })
+}
+
 /**
  * Render text onto a slide background
  */
@@ -203,7 +235,7 @@ async function renderSlide(
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { project_id, carousel_id } = body
+    const { project_id, carousel_id, aspect_ratio } = body
 
     if (!project_id || !carousel_id) {
       return NextResponse.json(
@@ -212,9 +244,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (aspect_ratio !== undefined && !(aspect_ratio in CAROUSEL_DIMENSIONS)) {
+      return NextResponse.json(
+        { error: 'aspect_ratio must be "1:1" or "4:5"' },
+        { status: 400 }
+      )
+    }
+
     // Get carousel output
     const carouselOutput = db.prepare(`
-      SELECT id, project_id, template_id, slides
+      SELECT id, project_id, template_id, aspect_ratio, slides
       FROM carousel_outputs
       WHERE id = ? AND project_id = ?
     `).get(carousel_id, project_id) as CarouselOutputRow | undefined
@@ -224,6 +263,8 @@ export async function POST(request: NextRequest) {
     }
 
     const slides: CarouselSlide[] = JSON.parse(carouselOutput.slides)
+    const aspectRatio: CarouselAspectRatio = aspect_ratio || carouselOutput.aspect_ratio || '1:1'
+    const { width, height } = CAROUSEL_DIMENSIONS[aspectRatio]
 
     // Get template slides if template is set
     let templateSlides: TemplateSlideRow[] = []
@@ -262,13 +303,15 @@ export async function POST(request: NextRequest) {
       }
 
       const textZones: TextZone[] = templateSlide ?
-        JSON.parse(templateSlide.text_zones) : []
+        coverZones(JSON.parse(templateSlide.text_zones), width, height) : []
 
       // Render the slide
       const renderedImage = await renderSlide(
         backgroundData,
         textZones,
-        slide
+        slide,
+        width,
+        height
       )
 
       renderedSlides.push({
@@ -281,14 +324,19 @@ export async function POST(request: NextRequest) {
     const now = new Date().toISOString()
     db.prepare(`
       UPDATE carousel_outputs
-      SET slides = ?, updated_at = ?
+      SET slides = ?, aspect_ratio = ?, updated_at = ?
       WHERE id = ?
-    `).run(JSON.stringify(renderedSlides), now, carousel_id)
+    `).run(JSON.stringify(renderedSlides), aspectRatio, now, carousel_id)
+
+    emitProjectEvent('carousel.rendered', project_id, {
+      carousel: { id: carousel_id, aspect_ratio: aspectRatio, slide_count: renderedSlides.length },
+    })
 
     return NextResponse.json({
       id: carousel_id,
       project_id,
       template_id: carouselOutput.template_id,
+      aspect_ratio: aspectRatio,
       slides: renderedSlides,
       updated_at: now
     })
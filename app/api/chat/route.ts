@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
-import anthropic, { SYSTEM_PROMPT, isConfigured } from '@/lib/claude'
+import { SYSTEM_PROMPT } from '@/lib/claude'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage, generateText } from '@/lib/llm'
 import { composeSystemPrompt } from '@/lib/prompts/compose'
-import type { Message, Project, Session, Platform } from '@/types'
+import { retrieveSourceChunks, formatSourceChunksForPrompt, toChunkReferences } from '@/lib/sources'
+import type { Message, Project, SourceChunkReference } from '@/types'
 
-// POST /api/chat - Send message to Claude, receive response
+// POST /api/chat - Send message to the text provider, receive response
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { session_id, project_id, message } = body
+    const { project_id, message } = body
 
     if (!message) {
       return NextResponse.json(
@@ -18,105 +20,64 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!session_id && !project_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'Either session_id or project_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    // Check if Claude is configured
-    if (!isConfigured()) {
+    // Check that the selected text provider is configured
+    const selection = resolveModelSelection(project_id)
+    if (!isSelectionConfigured(selection)) {
       return NextResponse.json(
-        { error: 'Claude API is not configured. Please set ANTHROPIC_API_KEY in .env.local' },
+        { error: notConfiguredMessage(selection) },
         { status: 503 }
       )
     }
 
-    let contextInfo: { topic: string; platform: Platform; targetAudience?: string; contentStyle?: string } | null = null
-    let existingMessages: Message[] = []
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    // Handle project-based chat (new)
-    if (project_id) {
-      const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
-      const project = projectStmt.get(project_id) as Project | undefined
-
-      if (!project) {
-        return NextResponse.json(
-          { error: 'Project not found' },
-          { status: 404 }
-        )
-      }
-
-      contextInfo = {
-        topic: project.topic,
-        platform: project.platform,
-        targetAudience: project.target_audience,
-        contentStyle: project.content_style,
-      }
-
-      const messagesStmt = db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY created_at ASC')
-      existingMessages = messagesStmt.all(project_id) as Message[]
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
     }
-    // Handle session-based chat (legacy)
-    else if (session_id) {
-      const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-      const session = sessionStmt.get(session_id) as Session | undefined
-
-      if (!session) {
-        return NextResponse.json(
-          { error: 'Session not found' },
-          { status: 404 }
-        )
-      }
 
-      contextInfo = {
-        topic: session.original_idea,
-        platform: 'linkedin', // Default for legacy sessions
-      }
-
-      const messagesStmt = db.prepare('SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC')
-      existingMessages = messagesStmt.all(session_id) as Message[]
+    const contextInfo = {
+      topic: project.topic,
+      platform: project.platform,
+      targetAudience: project.target_audience,
+      contentStyle: project.content_style,
     }
 
-    if (!contextInfo) {
-      return NextResponse.json(
-        { error: 'Unable to load context' },
-        { status: 500 }
-      )
-    }
+    const messagesStmt = db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY created_at ASC')
+    const existingMessages = messagesStmt.all(project_id) as Message[]
 
     // Save user message
     const userMessageId = generateId()
     const now = new Date().toISOString()
 
-    if (project_id) {
-      const insertUserMsg = db.prepare(`
-        INSERT INTO messages (id, project_id, role, content, created_at)
-        VALUES (?, ?, 'user', ?, ?)
-      `)
-      insertUserMsg.run(userMessageId, project_id, message, now)
-    } else {
-      const insertUserMsg = db.prepare(`
-        INSERT INTO messages (id, session_id, role, content, created_at)
-        VALUES (?, ?, 'user', ?, ?)
-      `)
-      insertUserMsg.run(userMessageId, session_id, message, now)
-    }
+    const insertUserMsg = db.prepare(`
+      INSERT INTO messages (id, project_id, role, content, created_at)
+      VALUES (?, ?, 'user', ?, ?)
+    `)
+    insertUserMsg.run(userMessageId, project_id, message, now)
 
     const userMessage: Message = {
       id: userMessageId,
-      session_id: session_id || undefined,
-      project_id: project_id || undefined,
+      project_id,
       role: 'user',
       content: message,
       created_at: now,
     }
 
-    // Build conversation history for Claude
+    // Build conversation history for the model
     const conversationHistory: { role: 'user' | 'assistant'; content: string }[] = []
 
-    // Build context message based on project/session info
+    // Build context message based on project info
     let contextMessage = `I want to create content for ${contextInfo.platform} about this topic: "${contextInfo.topic}"`
     if (contextInfo.targetAudience) {
       contextMessage += `\n\nTarget audience: ${contextInfo.targetAudience}`
@@ -125,30 +86,17 @@ export async function POST(request: NextRequest) {
       contextMessage += `\n\nContent style/tone: ${contextInfo.contentStyle}`
     }
 
-    // Add uploaded text sources to context
-    if (project_id) {
-      try {
-        const sourcesStmt = db.prepare(
-          'SELECT title, content FROM project_sources WHERE project_id = ? AND enabled = 1 ORDER BY created_at ASC'
-        )
-        const sources = sourcesStmt.all(project_id) as { title: string; content: string }[]
-        if (sources.length > 0) {
-          let totalChars = 0
-          const MAX_CHARS = 6000
-          contextMessage += '\n\n--- Reference Materials ---\n'
-          for (const source of sources) {
-            const available = MAX_CHARS - totalChars
-            if (available <= 0) break
-            const content = source.content.length > available
-              ? source.content.substring(0, available) + '...[truncated]'
-              : source.content
-            contextMessage += `### ${source.title}\n${content}\n\n`
-            totalChars += content.length
-          }
-        }
-      } catch (err) {
-        console.error('Failed to load project sources for chat:', err)
+    // Add the source passages most relevant to this message
+    let sourceChunks: SourceChunkReference[] = []
+    try {
+      const chunks = await retrieveSourceChunks(project_id, `${message}\n${contextInfo.topic}`, 6000)
+      if (chunks.length > 0) {
+        contextMessage += '\n\n--- Reference Materials ---\n'
+        contextMessage += formatSourceChunksForPrompt(chunks) + '\n\n'
+        sourceChunks = toChunkReferences(chunks)
       }
+    } catch (err) {
+      console.error('Failed to load project sources for chat:', err)
     }
 
     // Add context about the topic as the first message
@@ -182,43 +130,33 @@ export async function POST(request: NextRequest) {
     // Compose system prompt with voice, platform tone layers
     const enhancedSystemPrompt = composeSystemPrompt(SYSTEM_PROMPT, contextInfo.platform)
 
-    // Call Claude API
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
+    // Call the selected text provider
+    const response = await generateText(selection, {
+      maxTokens: 1024,
       system: enhancedSystemPrompt,
-      messages: conversationHistory
+      messages: conversationHistory,
+      task: 'chat',
     })
 
     // Extract assistant response
-    const assistantContent = response.content[0].type === 'text'
-      ? response.content[0].text
-      : 'I apologize, but I was unable to generate a response.'
+    const assistantContent = response.text || 'I apologize, but I was unable to generate a response.'
 
     // Save assistant message
     const assistantMessageId = generateId()
     const assistantNow = new Date().toISOString()
 
-    if (project_id) {
-      const insertAssistantMsg = db.prepare(`
-        INSERT INTO messages (id, project_id, role, content, created_at)
-        VALUES (?, ?, 'assistant', ?, ?)
-      `)
-      insertAssistantMsg.run(assistantMessageId, project_id, assistantContent, assistantNow)
-    } else {
-      const insertAssistantMsg = db.prepare(`
-        INSERT INTO messages (id, session_id, role, content, created_at)
-        VALUES (?, ?, 'assistant', ?, ?)
-      `)
-      insertAssistantMsg.run(assistantMessageId, session_id, assistantContent, assistantNow)
-    }
+    const insertAssistantMsg = db.prepare(`
+      INSERT INTO messages (id, project_id, role, content, source_chunks, created_at)
+      VALUES (?, ?, 'assistant', ?, ?, ?)
+    `)
+    insertAssistantMsg.run(assistantMessageId, project_id, assistantContent, JSON.stringify(sourceChunks), assistantNow)
 
     const assistantMessage: Message = {
       id: assistantMessageId,
-      session_id: session_id || undefined,
-      project_id: project_id || undefined,
+      project_id,
       role: 'assistant',
       content: assistantContent,
+      source_chunks: sourceChunks,
       created_at: assistantNow,
     }
 
@@ -1,19 +1,22 @@
 import { NextResponse } from 'next/server'
-import { isConfigured } from '@/lib/claude'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage } from '@/lib/llm'
 import type { ConnectionStatus } from '@/types'
 
-// GET /api/connection/status - Check Claude SDK connection status
+// GET /api/connection/status - Check that the globally selected text provider is configured
 export async function GET() {
   try {
-    const connected = isConfigured()
+    const selection = resolveModelSelection()
+    const connected = isSelectionConfigured(selection)
 
     const status: ConnectionStatus = {
       connected,
       last_checked: new Date().toISOString(),
+      provider: selection.provider,
+      model: selection.model,
     }
 
     if (!connected) {
-      status.error = 'ANTHROPIC_API_KEY not configured in .env.local'
+      status.error = notConfiguredMessage(selection)
     }
 
     return NextResponse.json(status)
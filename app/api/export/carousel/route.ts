@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import JSZip from 'jszip'
-import { jsPDF } from 'jspdf'
-import type { CarouselSlide } from '@/types'
+import { renderCarouselPdf } from '@/lib/carousel'
+import type { CarouselSlide, CarouselAspectRatio } from '@/types'
 
 interface CarouselOutputRow {
   id: string
   project_id: string
   template_id: string | null
+  aspect_ratio: CarouselAspectRatio
   slides: string
 }
 
@@ -50,7 +51,7 @@ export async function POST(request: NextRequest) {
 
     // Get carousel output
     const carouselOutput = db.prepare(`
-      SELECT id, project_id, template_id, slides
+      SELECT id, project_id, template_id, aspect_ratio, slides
       FROM carousel_outputs
       WHERE id = ? AND project_id = ?
     `).get(carousel_id, project_id) as CarouselOutputRow | undefined
@@ -78,26 +79,7 @@ export async function POST(request: NextRequest) {
 
     if (format === 'pdf') {
       // Generate PDF
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'px',
-        format: [1080, 1080]
-      })
-
-      for (let i = 0; i < slides.length; i++) {
-        const slide = slides[i]
-
-        if (i > 0) {
-          pdf.addPage([1080, 1080])
-        }
-
-        // Add image to page
-        const imageData = `data:image/png;base64,${slide.rendered_image}`
-        pdf.addImage(imageData, 'PNG', 0, 0, 1080, 1080)
-      }
-
-      const pdfData = pdf.output('arraybuffer')
-      const pdfBase64 = Buffer.from(pdfData).toString('base64')
+      const pdfBase64 = renderCarouselPdf(slides, carouselOutput.aspect_ratio).toString('base64')
 
       return NextResponse.json({
         filename: `${safeFilename}-carousel.pdf`,
@@ -119,6 +101,14 @@ export async function POST(request: NextRequest) {
         zip.file(filename, imageBuffer)
       }
 
+      // Alt text to paste in when uploading the slides
+      const altTexts = slides
+        .map((slide, i) => slide.alt_text ? `slide-${String(i + 1).padStart(2, '0')}.png: ${slide.alt_text}` : '')
+        .filter(Boolean)
+      if (altTexts.length > 0) {
+        zip.file('alt-text.txt', altTexts.join('\n') + '\n')
+      }
+
       const zipData = await zip.generateAsync({ type: 'nodebuffer' })
       const zipBase64 = zipData.toString('base64')
 
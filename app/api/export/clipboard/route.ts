@@ -1,46 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import type { Session } from '@/types'
+import { safeJsonParse } from '@/lib/utils'
+import { buildThread, formatThread } from '@/lib/thread'
+import { buildCaption } from '@/lib/caption'
+import { getProjectPlatform } from '@/lib/platforms'
+import { formatPost } from '@/lib/preview'
+import { formatSourcesComment, stripCitationMarkers } from '@/lib/citations'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
+import type { Citation, Project } from '@/types'
 
 interface DbOutput {
   id: string
-  session_id: string
+  project_id: string
   hooks: string
   body_content: string
+  thread: string
   ctas: string
+  hashtag_sets: string
+  citations: string
 }
 
 // POST /api/export/clipboard - Get formatted content for LinkedIn clipboard copy
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { session_id, hook_index = 0, cta_index = 0 } = body as {
-      session_id: string
+    const { project_id, hook_index = 0, cta_index = 0, hashtag_index = 0, override = false } = body as {
+      project_id: string
       hook_index?: number
       cta_index?: number
+      hashtag_index?: number
+      // Export even when the content breaks a platform rule
+      override?: boolean
     }
 
-    if (!session_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'session_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    // Verify session exists
-    const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-    const session = sessionStmt.get(session_id) as Session | undefined
+    // Verify project exists
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    if (!session) {
+    if (!project) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Project not found' },
         { status: 404 }
       )
     }
 
     // Get output
-    const outputStmt = db.prepare('SELECT * FROM outputs WHERE session_id = ?')
-    const dbOutput = outputStmt.get(session_id) as DbOutput | undefined
+    const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const dbOutput = outputStmt.get(project_id) as DbOutput | undefined
 
     if (!dbOutput) {
       return NextResponse.json(
@@ -59,30 +72,66 @@ export async function POST(request: NextRequest) {
 
     // Get selected content
     const hook = hooks[selectedHookIndex] || ''
-    const bodyContent = dbOutput.body_content || ''
+    // The post goes out without its citation markers; the sources they point at go in the first comment
+    const markedBody = dbOutput.body_content || ''
+    const bodyContent = stripCitationMarkers(markedBody)
+    const firstComment = formatSourcesComment(markedBody, safeJsonParse<Citation[]>(dbOutput.citations || '[]', []))
     const cta = ctas[selectedCtaIndex] || ''
 
+    const platform = getProjectPlatform(project.platform)
+    const { format } = platform
+
+    // X: the hook opens the thread and the CTA closes it, as numbered tweets
+    const thread = format === 'thread'
+      ? buildThread(hook, JSON.parse(dbOutput.thread || '[]') as string[], cta)
+      : null
+
+    // Captions (Instagram, Threads): one caption with the hashtag set at the end
+    const hashtagSets = JSON.parse(dbOutput.hashtag_sets || '[]') as string[]
+    const selectedHashtagIndex = Math.min(Math.max(0, hashtag_index), hashtagSets.length - 1)
+    const caption = format === 'caption'
+      ? buildCaption(hook, bodyContent, cta, hashtagSets[selectedHashtagIndex] || '')
+      : null
+
+    // Content that breaks a hard platform limit would be rejected or cut off when posted
+    const validation = validatePost(platform, {
+      hook,
+      body: bodyContent,
+      cta,
+      thread: thread ?? undefined,
+      hashtags: hashtagSets[selectedHashtagIndex] || '',
+    })
+    if (validation.blocking && !override) {
+      return NextResponse.json(
+        { error: describeBlockingIssues(validation.issues), issues: validation.issues },
+        { status: 422 }
+      )
+    }
+
+    // Newsletter: the drafted sections, which the body mirrors as Markdown
+    const article = format === 'newsletter' ? bodyContent : null
+
     // Format content for LinkedIn:
     // Hook at the top, then body, then CTA at the bottom
     // LinkedIn prefers short paragraphs with line breaks
-    const formattedContent = `${hook}
-
-${bodyContent}
-
-${cta}`
+    const formattedContent = thread ? formatThread(thread) : caption !== null ? caption : article !== null ? article : formatPost(hook, bodyContent, cta)
 
     return NextResponse.json({
       content: formattedContent,
+      first_comment: firstComment,
       selected: {
         hook_index: selectedHookIndex,
         cta_index: selectedCtaIndex,
+        ...(caption !== null ? { hashtag_index: selectedHashtagIndex } : {}),
       },
       metadata: {
-        session_id: session.id,
-        title: session.title,
+        project_id: project.id,
+        title: project.name,
         word_count: formattedContent.split(/\s+/).filter(w => w).length,
         character_count: formattedContent.length,
-      }
+        ...(thread ? { tweet_count: thread.length } : {}),
+      },
+      issues: validation.issues,
     })
   } catch (error) {
     console.error('Error exporting clipboard content:', error)
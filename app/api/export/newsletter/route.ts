@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { safeJsonParse } from '@/lib/utils'
+import { getProjectPlatform } from '@/lib/platforms'
+import { renderNewsletterHtml, renderNewsletterMarkdown, type NewsletterIssue } from '@/lib/newsletter'
+import type { NewsletterSection, Project, VisualConcept } from '@/types'
+
+interface DbOutput {
+  newsletter_sections: string
+  subject_lines: string
+  preview_texts: string
+  visual_concepts: string
+  selected_subject_index: number
+  selected_preview_index: number
+  selected_visual_index: number
+}
+
+interface ImageRow {
+  prompt: string
+  image_data: Buffer | null
+  image_url: string | null
+  visual_concept_index: number | null
+  alt_text: string
+}
+
+// POST /api/export/newsletter - Export a newsletter as an HTML email or a Markdown article
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { project_id, format = 'html' } = body as { project_id?: string; format?: string }
+
+    if (!project_id) {
+      return NextResponse.json(
+        { error: 'project_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (format !== 'html' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: 'format must be "html" or "markdown"' },
+        { status: 400 }
+      )
+    }
+
+    const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(project_id) as Project | undefined
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (getProjectPlatform(project.platform).format !== 'newsletter') {
+      return NextResponse.json(
+        { error: 'Only newsletter projects can be exported as an issue' },
+        { status: 400 }
+      )
+    }
+
+    const output = db.prepare('SELECT * FROM outputs WHERE project_id = ?').get(project_id) as DbOutput | undefined
+    const sections = output ? safeJsonParse<NewsletterSection[]>(output.newsletter_sections, []) : []
+
+    if (!output || sections.length === 0) {
+      return NextResponse.json(
+        { error: 'No content to export. Please generate an outline first.' },
+        { status: 404 }
+      )
+    }
+
+    // Unchosen subject lines and preview texts fall back to the first option
+    const subjectLines = safeJsonParse<string[]>(output.subject_lines, [])
+    const previewTexts = safeJsonParse<string[]>(output.preview_texts, [])
+    const issue: NewsletterIssue = {
+      title: project.name,
+      subject: subjectLines[output.selected_subject_index] ?? subjectLines[0] ?? '',
+      previewText: previewTexts[output.selected_preview_index] ?? previewTexts[0] ?? '',
+      sections,
+      heroImage: getHeroImage(project_id, output),
+    }
+
+    const isHtml = format === 'html'
+    const content = isHtml ? renderNewsletterHtml(issue) : renderNewsletterMarkdown(issue)
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': isHtml ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${sanitizeFilename(project.name)}.${isHtml ? 'html' : 'md'}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting newsletter:', error)
+    return NextResponse.json(
+      { error: 'Failed to export newsletter' },
+      { status: 500 }
+    )
+  }
+}
+
+// The selected visual's generated image, embedded so the file works on its own
+function getHeroImage(projectId: string, output: DbOutput): NewsletterIssue['heroImage'] {
+  const visuals = safeJsonParse<VisualConcept[]>(output.visual_concepts, [])
+  const visual = visuals[output.selected_visual_index]
+  if (!visual) return undefined
+
+  const images = db.prepare(`
+    SELECT prompt, image_data, image_url, visual_concept_index, alt_text
+    FROM generated_images
+    WHERE project_id = ?
+    ORDER BY created_at DESC
+  `).all(projectId) as ImageRow[]
+
+  const image = images.find(img => img.visual_concept_index === output.selected_visual_index) ||
+    images.find(img => img.visual_concept_index === null && img.prompt === visual.description)
+  if (!image) return undefined
+
+  const src = image.image_data
+    ? `data:image/png;base64,${image.image_data.toString('base64')}`
+    : image.image_url
+  if (!src) return undefined
+
+  return { src, alt: image.alt_text || visual.description }
+}
+
+function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[^a-z0-9\s-]/gi, '')
+    .replace(/\s+/g, '-')
+    .substring(0, 50)
+    .toLowerCase()
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import type { Session } from '@/types'
+import type { Citation, Project } from '@/types'
 import { jsPDF } from 'jspdf'
+import { renderBracketReferences, stripCitationMarkers, type Footnote } from '@/lib/citations'
+import { getProjectPlatform } from '@/lib/platforms'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
 
 interface DbOutput {
   id: string
-  session_id: string
+  project_id: string
   hooks: string
   hooks_original: string
   body_content: string
@@ -14,6 +17,7 @@ interface DbOutput {
   ctas_original: string
   visual_concepts: string
   visual_concepts_original: string
+  citations: string
   created_at: string
   updated_at: string
 }
@@ -23,41 +27,44 @@ interface VisualConcept {
   preview_data?: string
 }
 
-// POST /api/export/pdf - Export session content as PDF carousel
+// POST /api/export/pdf - Export project content as PDF carousel
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const {
-      session_id,
+      project_id,
       selected_hook_index = 0,
-      selected_cta_index = 0
+      selected_cta_index = 0,
+      override = false
     } = body as {
-      session_id: string
+      project_id: string
       selected_hook_index?: number
       selected_cta_index?: number
+      // Export even when the chosen content breaks a platform rule
+      override?: boolean
     }
 
-    if (!session_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'session_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    // Verify session exists
-    const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-    const session = sessionStmt.get(session_id) as Session | undefined
+    // Verify project exists
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    if (!session) {
+    if (!project) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Project not found' },
         { status: 404 }
       )
     }
 
     // Get output
-    const outputStmt = db.prepare('SELECT * FROM outputs WHERE session_id = ?')
-    const dbOutput = outputStmt.get(session_id) as DbOutput | undefined
+    const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const dbOutput = outputStmt.get(project_id) as DbOutput | undefined
 
     if (!dbOutput) {
       return NextResponse.json(
@@ -71,13 +78,33 @@ export async function POST(request: NextRequest) {
     const ctas = JSON.parse(dbOutput.ctas) as string[]
     const visuals = JSON.parse(dbOutput.visual_concepts) as VisualConcept[]
 
+    // The hook, body and CTA on the slides must fit the platform's hard limits
+    const validation = validatePost(getProjectPlatform(project.platform), {
+      hook: hooks[selected_hook_index] || hooks[0] || '',
+      body: stripCitationMarkers(dbOutput.body_content),
+      cta: ctas[selected_cta_index] || ctas[0] || null,
+    })
+    if (validation.blocking && !override) {
+      return NextResponse.json(
+        { error: describeBlockingIssues(validation.issues), issues: validation.issues },
+        { status: 422 }
+      )
+    }
+
+    // Citation markers become [1]-style references, listed on a closing sources slide
+    const { text: bodyContent, footnotes } = renderBracketReferences(
+      dbOutput.body_content,
+      JSON.parse(dbOutput.citations || '[]') as Citation[]
+    )
+
     // Generate PDF
     const pdfBuffer = generateCarouselPDF(
-      session,
+      project,
       hooks,
-      dbOutput.body_content,
+      bodyContent,
       ctas,
       visuals,
+      footnotes,
       selected_hook_index,
       selected_cta_index
     )
@@ -86,13 +113,13 @@ export async function POST(request: NextRequest) {
     return new NextResponse(new Uint8Array(pdfBuffer), {
       headers: {
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="${sanitizeFilename(session.title)}.pdf"`,
+        'Content-Disposition': `attachment; filename="${sanitizeFilename(project.name)}.pdf"`,
       },
     })
   } catch (error) {
-    console.error('Error exporting session as PDF:', error)
+    console.error('Error exporting project as PDF:', error)
     return NextResponse.json(
-      { error: 'Failed to export session as PDF' },
+      { error: 'Failed to export project as PDF' },
       { status: 500 }
     )
   }
@@ -107,11 +134,12 @@ function sanitizeFilename(filename: string): string {
 }
 
 function generateCarouselPDF(
-  session: Session,
+  project: Project,
   hooks: string[],
   bodyContent: string,
   ctas: string[],
   visuals: VisualConcept[],
+  footnotes: Footnote[],
   selectedHookIndex: number,
   selectedCtaIndex: number
 ): Buffer {
@@ -172,8 +200,8 @@ function generateCarouselPDF(
     bodySlides.push(bodyLines.slice(i, i + linesPerSlide))
   }
 
-  // Calculate total slides: 1 hook + body slides + 1 CTA + visual concepts
-  const totalSlides = 1 + bodySlides.length + 1 + (visuals.length > 0 ? 1 : 0)
+  // Calculate total slides: 1 hook + body slides + 1 CTA + visual concepts + sources
+  const totalSlides = 1 + bodySlides.length + 1 + (visuals.length > 0 ? 1 : 0) + (footnotes.length > 0 ? 1 : 0)
   let currentSlide = 1
 
   // ===== SLIDE 1: HOOK =====
@@ -290,6 +318,31 @@ function generateCarouselPDF(
     })
   }
 
+  // ===== SOURCES SLIDE (if the body cites any) =====
+  if (footnotes.length > 0) {
+    doc.addPage([200, 200])
+    currentSlide++
+    addSlideHeader(currentSlide, totalSlides)
+
+    // Sources label
+    doc.setFontSize(12)
+    doc.setTextColor(linkedInBlue)
+    doc.text('SOURCES', margin, margin + 20)
+
+    // One numbered entry per cited source, matching the [n] references in the body
+    yPos = margin + 40
+    footnotes.forEach(({ number, citation }) => {
+      const entryLines = wrapText(`[${number}] ${citation.title ? `${citation.title} - ` : ''}${citation.url}`, contentWidth, 10)
+      doc.setTextColor('#374151')
+      entryLines.slice(0, 3).forEach((line: string) => { // Limit to 3 lines per source
+        if (yPos > pageHeight - margin) return
+        doc.text(line, margin, yPos)
+        yPos += 5
+      })
+      yPos += 3
+    })
+  }
+
   // Convert to buffer
   const pdfOutput = doc.output('arraybuffer')
   return Buffer.from(pdfOutput)
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import type { Session } from '@/types'
+import type { Project } from '@/types'
 import { createCanvas, registerFont, CanvasRenderingContext2D } from 'canvas'
+import { stripCitationMarkers } from '@/lib/citations'
+import { getProjectPlatform } from '@/lib/platforms'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
 
 interface DbOutput {
   id: string
-  session_id: string
+  project_id: string
   hooks: string
   hooks_original: string
   body_content: string
@@ -14,6 +17,8 @@ interface DbOutput {
   ctas_original: string
   visual_concepts: string
   visual_concepts_original: string
+  selected_hook_index: number
+  selected_cta_index: number
   created_at: string
   updated_at: string
 }
@@ -27,32 +32,34 @@ interface VisualConcept {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { session_id, concept_index = 0 } = body as {
-      session_id: string
+    const { project_id, concept_index = 0, override = false } = body as {
+      project_id: string
       concept_index?: number
+      // Export even when the post breaks a platform rule
+      override?: boolean
     }
 
-    if (!session_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'session_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    // Verify session exists
-    const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-    const session = sessionStmt.get(session_id) as Session | undefined
+    // Verify project exists
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    if (!session) {
+    if (!project) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Project not found' },
         { status: 404 }
       )
     }
 
     // Get output
-    const outputStmt = db.prepare('SELECT * FROM outputs WHERE session_id = ?')
-    const dbOutput = outputStmt.get(session_id) as DbOutput | undefined
+    const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const dbOutput = outputStmt.get(project_id) as DbOutput | undefined
 
     if (!dbOutput) {
       return NextResponse.json(
@@ -71,16 +78,31 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // The image goes out with the post, so the post as chosen must fit the platform's hard limits
+    const hooks = JSON.parse(dbOutput.hooks) as string[]
+    const ctas = JSON.parse(dbOutput.ctas) as string[]
+    const validation = validatePost(getProjectPlatform(project.platform), {
+      hook: hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? '',
+      body: stripCitationMarkers(dbOutput.body_content),
+      cta: ctas[dbOutput.selected_cta_index] ?? null,
+    })
+    if (validation.blocking && !override) {
+      return NextResponse.json(
+        { error: describeBlockingIssues(validation.issues), issues: validation.issues },
+        { status: 422 }
+      )
+    }
+
     const concept = visuals[concept_index]
 
     // Generate PNG
-    const pngBuffer = generateConceptPNG(concept, concept_index, session.title)
+    const pngBuffer = generateConceptPNG(concept, concept_index)
 
     // Return the PNG content with appropriate headers for download
     return new NextResponse(new Uint8Array(pngBuffer), {
       headers: {
         'Content-Type': 'image/png',
-        'Content-Disposition': `attachment; filename="${sanitizeFilename(session.title)}-concept-${concept_index + 1}.png"`,
+        'Content-Disposition': `attachment; filename="${sanitizeFilename(project.name)}-concept-${concept_index + 1}.png"`,
       },
     })
   } catch (error) {
@@ -102,8 +124,7 @@ function sanitizeFilename(filename: string): string {
 
 function generateConceptPNG(
   concept: VisualConcept,
-  index: number,
-  sessionTitle: string
+  index: number
 ): Buffer {
   // Create a square canvas for social media (1080x1080 is LinkedIn recommended)
   const width = 1080
@@ -1,18 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import type { Session } from '@/types'
+import { buildThread, numberTweet, tweetLength, TWEET_LIMIT } from '@/lib/thread'
+import { buildCaption, captionLength, selectedHashtags } from '@/lib/caption'
+import { getProjectPlatform } from '@/lib/platforms'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
+import { formatSourcesComment, renderMarkdownFootnotes, stripCitationMarkers } from '@/lib/citations'
+import type { Citation, PlatformDefinition, Project } from '@/types'
 
 interface DbOutput {
   id: string
-  session_id: string
+  project_id: string
   hooks: string
   hooks_original: string
   body_content: string
   body_content_original: string
+  thread: string
   ctas: string
   ctas_original: string
+  titles: string
+  hashtag_sets: string
   visual_concepts: string
   visual_concepts_original: string
+  citations: string
+  subject_lines: string
+  preview_texts: string
+  selected_hook_index: number
+  selected_cta_index: number
+  selected_hashtag_index: number
+  selected_title_index: number
   created_at: string
   updated_at: string
 }
@@ -22,33 +37,52 @@ interface VisualConcept {
   preview_data?: string
 }
 
-// POST /api/export - Export session content as Markdown
+interface CaptionExport {
+  caption: string
+  limit: number | null
+  hashtagSets: string[]
+  altTexts: string[]
+  // The sources the body cites, as a block for the first comment
+  sources: string | null
+}
+
+interface NewsletterExport {
+  subjectLines: string[]
+  previewTexts: string[]
+}
+
+// POST /api/export - Export project content as Markdown
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { session_id, format = 'markdown' } = body as { session_id: string; format?: string }
+    const { project_id, format = 'markdown', override = false } = body as {
+      project_id: string
+      format?: string
+      // Export even when the chosen content breaks a platform rule
+      override?: boolean
+    }
 
-    if (!session_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'session_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    // Verify session exists
-    const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-    const session = sessionStmt.get(session_id) as Session | undefined
+    // Verify project exists
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    if (!session) {
+    if (!project) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Project not found' },
         { status: 404 }
       )
     }
 
     // Get output
-    const outputStmt = db.prepare('SELECT * FROM outputs WHERE session_id = ?')
-    const dbOutput = outputStmt.get(session_id) as DbOutput | undefined
+    const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const dbOutput = outputStmt.get(project_id) as DbOutput | undefined
 
     if (!dbOutput) {
       return NextResponse.json(
@@ -61,21 +95,86 @@ export async function POST(request: NextRequest) {
     const hooks = JSON.parse(dbOutput.hooks) as string[]
     const ctas = JSON.parse(dbOutput.ctas) as string[]
     const visuals = JSON.parse(dbOutput.visual_concepts) as VisualConcept[]
+    const citations = JSON.parse(dbOutput.citations || '[]') as Citation[]
+    // Validation and the caption use the body as posted, without citation markers
+    const bodyContent = stripCitationMarkers(dbOutput.body_content)
+
+    // The platform's format picks the formatter for the main content
+    const platform = getProjectPlatform(project.platform)
+
+    // X projects export the assembled thread (selected hook, tweets, selected CTA) in place of the body
+    const thread = platform.format === 'thread'
+      ? buildThread(
+          hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? '',
+          JSON.parse(dbOutput.thread || '[]') as string[],
+          ctas[dbOutput.selected_cta_index] ?? null
+        )
+      : null
+
+    // Caption projects (Instagram, Threads) export the assembled caption in place of the
+    // body, plus the hashtag sets and any alt text written for the images
+    let caption: CaptionExport | null = null
+    if (platform.format === 'caption') {
+      const hashtagSets = JSON.parse(dbOutput.hashtag_sets || '[]') as string[]
+      const images = db.prepare(`
+        SELECT alt_text FROM generated_images
+        WHERE project_id = ? AND alt_text != ''
+        ORDER BY created_at ASC
+      `).all(project_id) as { alt_text: string }[]
+      caption = {
+        caption: buildCaption(
+          hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? '',
+          bodyContent,
+          ctas[dbOutput.selected_cta_index] ?? null,
+          selectedHashtags(hashtagSets, dbOutput.selected_hashtag_index)
+        ),
+        limit: platform.characterLimit,
+        hashtagSets,
+        altTexts: images.map(image => image.alt_text),
+        sources: formatSourcesComment(dbOutput.body_content, citations),
+      }
+    }
+
+    // Newsletters export subject lines and preview texts in place of hooks and CTAs;
+    // the body already mirrors the drafted sections
+    const newsletter: NewsletterExport | null = platform.format === 'newsletter'
+      ? {
+          subjectLines: JSON.parse(dbOutput.subject_lines || '[]') as string[],
+          previewTexts: JSON.parse(dbOutput.preview_texts || '[]') as string[],
+        }
+      : null
+
+    // The chosen content as it would be posted must fit the platform's hard limits
+    const titles = JSON.parse(dbOutput.titles || '[]') as string[]
+    const validation = validatePost(platform, {
+      hook: hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? '',
+      body: bodyContent,
+      cta: ctas[dbOutput.selected_cta_index] ?? null,
+      title: titles[dbOutput.selected_title_index] ?? titles[0],
+      thread: thread ?? undefined,
+      hashtags: selectedHashtags(JSON.parse(dbOutput.hashtag_sets || '[]') as string[], dbOutput.selected_hashtag_index),
+    })
+    if (validation.blocking && !override) {
+      return NextResponse.json(
+        { error: describeBlockingIssues(validation.issues), issues: validation.issues },
+        { status: 422 }
+      )
+    }
 
-    // Generate Markdown content
-    const markdown = generateMarkdown(session, hooks, dbOutput.body_content, ctas, visuals)
+    // Generate Markdown content, with the body's citation markers as footnotes
+    const markdown = generateMarkdown(project, platform, hooks, renderMarkdownFootnotes(dbOutput.body_content, citations), ctas, visuals, thread, caption, newsletter)
 
     // Return the markdown content with appropriate headers for download
     return new NextResponse(markdown, {
       headers: {
         'Content-Type': 'text/markdown; charset=utf-8',
-        'Content-Disposition': `attachment; filename="${sanitizeFilename(session.title)}.md"`,
+        'Content-Disposition': `attachment; filename="${sanitizeFilename(project.name)}.md"`,
       },
     })
   } catch (error) {
-    console.error('Error exporting session:', error)
+    console.error('Error exporting project:', error)
     return NextResponse.json(
-      { error: 'Failed to export session' },
+      { error: 'Failed to export project' },
       { status: 500 }
     )
   }
@@ -90,66 +189,138 @@ function sanitizeFilename(filename: string): string {
 }
 
 function generateMarkdown(
-  session: Session,
+  project: Project,
+  platform: PlatformDefinition,
   hooks: string[],
   bodyContent: string,
   ctas: string[],
-  visuals: VisualConcept[]
+  visuals: VisualConcept[],
+  thread: string[] | null,
+  caption: CaptionExport | null,
+  newsletter: NewsletterExport | null
 ): string {
   const lines: string[] = []
 
   // Title
-  lines.push(`# ${session.title}`)
+  lines.push(`# ${project.name}`)
   lines.push('')
 
   // Metadata
-  lines.push('## Session Info')
+  lines.push('## Project Info')
   lines.push('')
-  lines.push(`- **Original Idea:** ${session.original_idea}`)
-  lines.push(`- **Status:** ${session.status}`)
-  lines.push(`- **Created:** ${new Date(session.created_at).toLocaleDateString()}`)
-  if (session.published_at) {
-    lines.push(`- **Published:** ${new Date(session.published_at).toLocaleDateString()}`)
+  lines.push(`- **Topic:** ${project.topic}`)
+  lines.push(`- **Platform:** ${platform.label}`)
+  lines.push(`- **Status:** ${project.status}`)
+  lines.push(`- **Created:** ${new Date(project.created_at).toLocaleDateString()}`)
+  if (project.published_at) {
+    lines.push(`- **Published:** ${new Date(project.published_at).toLocaleDateString()}`)
   }
   lines.push('')
   lines.push('---')
   lines.push('')
 
-  // Hooks Section
-  lines.push('## Hooks')
-  lines.push('')
-  lines.push('Choose one of the following attention-grabbing hooks:')
-  lines.push('')
-  hooks.forEach((hook, index) => {
-    lines.push(`### Hook ${index + 1}`)
+  if (newsletter) {
+    // Subject Lines and Preview Text Sections
+    lines.push('## Subject Lines')
     lines.push('')
-    lines.push(`> ${hook}`)
+    lines.push('Choose one of the following subject lines:')
     lines.push('')
-  })
+    newsletter.subjectLines.forEach((subject, index) => {
+      lines.push(`${index + 1}. ${subject}`)
+    })
+    lines.push('')
+    lines.push('## Preview Text')
+    lines.push('')
+    newsletter.previewTexts.forEach((preview, index) => {
+      lines.push(`${index + 1}. ${preview}`)
+    })
+    lines.push('')
+  } else {
+    // Hooks Section
+    lines.push('## Hooks')
+    lines.push('')
+    lines.push('Choose one of the following attention-grabbing hooks:')
+    lines.push('')
+    hooks.forEach((hook, index) => {
+      lines.push(`### Hook ${index + 1}`)
+      lines.push('')
+      lines.push(`> ${hook}`)
+      lines.push('')
+    })
+  }
   lines.push('---')
   lines.push('')
 
-  // Body Content Section
-  lines.push('## Body Content')
-  lines.push('')
-  lines.push(bodyContent)
-  lines.push('')
+  if (newsletter) {
+    // Article Section: the drafted sections, one level down
+    lines.push('## Article')
+    lines.push('')
+    lines.push(bodyContent.replace(/^## /gm, '### '))
+    lines.push('')
+  } else if (thread) {
+    // Thread Section: one numbered tweet per block, ready to post in order
+    lines.push('## Thread')
+    lines.push('')
+    thread.forEach((tweet, index) => {
+      const numbered = numberTweet(tweet, index, thread.length)
+      lines.push(`### Tweet ${index + 1} of ${thread.length} (${tweetLength(numbered)}/${TWEET_LIMIT})`)
+      lines.push('')
+      lines.push(numbered)
+      lines.push('')
+    })
+  } else if (caption) {
+    // Caption Section: hook, body, CTA and hashtags as posted
+    lines.push(`## Caption (${captionLength(caption.caption)}${caption.limit ? `/${caption.limit}` : ' characters'})`)
+    lines.push('')
+    lines.push(caption.caption)
+    lines.push('')
+    if (caption.sources) {
+      lines.push('### First Comment')
+      lines.push('')
+      lines.push(caption.sources)
+      lines.push('')
+    }
+  } else {
+    // Body Content Section
+    lines.push('## Body Content')
+    lines.push('')
+    lines.push(bodyContent)
+    lines.push('')
+  }
   lines.push('---')
   lines.push('')
 
-  // CTAs Section
-  lines.push('## Call to Actions')
-  lines.push('')
-  lines.push('Choose one of the following CTAs to close your post:')
-  lines.push('')
-  ctas.forEach((cta, index) => {
-    lines.push(`### CTA ${index + 1}`)
+  if (!newsletter) {
+    // CTAs Section
+    lines.push('## Call to Actions')
     lines.push('')
-    lines.push(`> ${cta}`)
+    lines.push('Choose one of the following CTAs to close your post:')
     lines.push('')
-  })
-  lines.push('---')
-  lines.push('')
+    ctas.forEach((cta, index) => {
+      lines.push(`### CTA ${index + 1}`)
+      lines.push('')
+      lines.push(`> ${cta}`)
+      lines.push('')
+    })
+    lines.push('---')
+    lines.push('')
+  }
+
+  if (caption && caption.hashtagSets.length > 0) {
+    // Hashtags Section
+    lines.push('## Hashtags')
+    lines.push('')
+    lines.push('Choose one of the following hashtag sets:')
+    lines.push('')
+    caption.hashtagSets.forEach((set, index) => {
+      lines.push(`### Set ${index + 1}`)
+      lines.push('')
+      lines.push(set)
+      lines.push('')
+    })
+    lines.push('---')
+    lines.push('')
+  }
 
   // Visual Concepts Section
   lines.push('## Visual Concepts')
@@ -165,6 +336,20 @@ function generateMarkdown(
   lines.push('---')
   lines.push('')
 
+  if (caption && caption.altTexts.length > 0) {
+    // Alt Text Section
+    lines.push('## Alt Text')
+    lines.push('')
+    caption.altTexts.forEach((altText, index) => {
+      lines.push(`### Image ${index + 1}`)
+      lines.push('')
+      lines.push(altText)
+      lines.push('')
+    })
+    lines.push('---')
+    lines.push('')
+  }
+
   // Footer
   lines.push('*Generated with LI-Creator*')
 
@@ -42,7 +42,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { type, content, source_session_id } = body
+    const { type, content, source_project_id } = body
 
     if (!type || !content) {
       return NextResponse.json(
@@ -63,17 +63,17 @@ export async function POST(request: NextRequest) {
     const now = new Date().toISOString()
 
     const stmt = db.prepare(`
-      INSERT INTO favorites (id, type, content, source_session_id, created_at)
+      INSERT INTO favorites (id, type, content, source_project_id, created_at)
       VALUES (?, ?, ?, ?, ?)
     `)
 
-    stmt.run(id, type, contentStr, source_session_id || null, now)
+    stmt.run(id, type, contentStr, source_project_id || null, now)
 
     const newFavorite: Favorite = {
       id,
       type,
       content,
-      source_session_id: source_session_id || null,
+      source_project_id: source_project_id || null,
       created_at: now,
     }
 
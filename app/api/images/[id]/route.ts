@@ -15,7 +15,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const format = searchParams.get('format')
 
     const stmt = db.prepare(`
-      SELECT id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, created_at
+      SELECT id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, alt_text, created_at
       FROM generated_images
       WHERE id = ?
     `)
@@ -30,6 +30,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       model: string
       is_upscaled: number
       parent_image_id: string | null
+      alt_text: string
       created_at: string
     } | undefined
 
@@ -60,6 +61,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       model: row.model,
       is_upscaled: row.is_upscaled === 1,
       parent_image_id: row.parent_image_id || undefined,
+      alt_text: row.alt_text,
       created_at: row.created_at,
     }
 
@@ -73,6 +75,39 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// PATCH /api/images/:id - Update an image's alt text
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    if (typeof body.alt_text !== 'string') {
+      return NextResponse.json(
+        { error: 'alt_text must be a string' },
+        { status: 400 }
+      )
+    }
+
+    const result = db.prepare('UPDATE generated_images SET alt_text = ? WHERE id = ?')
+      .run(body.alt_text.trim(), id)
+
+    if (result.changes === 0) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ id, alt_text: body.alt_text.trim() })
+  } catch (error) {
+    console.error('Error updating image:', error)
+    return NextResponse.json(
+      { error: 'Failed to update image' },
+      { status: 500 }
+    )
+  }
+}
+
 // DELETE /api/images/:id - Delete a generated image
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage, generateText } from '@/lib/llm'
+import { safeJsonParse } from '@/lib/utils'
+import type { CarouselSlide } from '@/types'
+
+const ALT_TEXT_PROMPT = `Write alt text for each image below, for people using screen readers.
+
+For each image:
+- Describe what it shows and any text on it, in plain language
+- Keep it under 125 characters where you can; never over 250
+- Don't start with "Image of" or "Picture of", and don't add hashtags or emojis
+
+Return a JSON array of strings in the same order as the images, one per image.`
+
+interface AltTextItem {
+  kind: 'image' | 'slide'
+  id: string
+  description: string
+}
+
+// POST /api/images/alt-text - Write alt text for generated images and carousel slides.
+// The model works from each image's generation prompt (and a slide's text), not the pixels.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { project_id, image_ids = [], slide_ids = [] } = body as {
+      project_id?: string
+      image_ids?: string[]
+      slide_ids?: string[]
+    }
+
+    if (!project_id) {
+      return NextResponse.json(
+        { error: 'project_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(image_ids) || !Array.isArray(slide_ids) || image_ids.length + slide_ids.length === 0) {
+      return NextResponse.json(
+        { error: 'image_ids or slide_ids is required' },
+        { status: 400 }
+      )
+    }
+
+    const project = db.prepare('SELECT id, topic FROM projects WHERE id = ?')
+      .get(project_id) as { id: string; topic: string } | undefined
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const selection = resolveModelSelection(project_id)
+    if (!isSelectionConfigured(selection)) {
+      return NextResponse.json(
+        { error: notConfiguredMessage(selection) },
+        { status: 503 }
+      )
+    }
+
+    const items: AltTextItem[] = []
+
+    if (image_ids.length > 0) {
+      const images = db.prepare(`
+        SELECT id, prompt FROM generated_images
+        WHERE project_id = ? AND id IN (${image_ids.map(() => '?').join(', ')})
+      `).all(project_id, ...image_ids) as { id: string; prompt: string }[]
+      for (const image of images) {
+        items.push({ kind: 'image', id: image.id, description: `Generated from the prompt: ${image.prompt}` })
+      }
+    }
+
+    const carousel = db.prepare('SELECT id, slides FROM carousel_outputs WHERE project_id = ?')
+      .get(project_id) as { id: string; slides: string } | undefined
+    const slides = carousel ? safeJsonParse<CarouselSlide[]>(carousel.slides, []) : []
+
+    for (const slide of slides) {
+      if (!slide_ids.includes(slide.id)) continue
+      const text = [slide.headline, slide.body, slide.cta].filter(Boolean).join(' / ')
+      const background = slide.visual_prompt ? ` Background: ${slide.visual_prompt}` : ''
+      items.push({ kind: 'slide', id: slide.id, description: `Carousel slide ${slide.position + 1} with the text "${text}".${background}` })
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No matching images or slides found' },
+        { status: 404 }
+      )
+    }
+
+    const response = await generateText(selection, {
+      maxTokens: 1024,
+      task: 'alt_text',
+      messages: [{
+        role: 'user',
+        content: `${ALT_TEXT_PROMPT}
+
+Post topic: "${project.topic}"
+
+${items.map((item, index) => `${index + 1}. ${item.description}`).join('\n')}`,
+      }],
+    })
+
+    let altTexts: string[] = []
+    try {
+      let jsonStr = response.text.trim()
+      const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
+      if (jsonMatch) {
+        jsonStr = jsonMatch[1].trim()
+      }
+      const parsed = JSON.parse(jsonStr)
+      if (Array.isArray(parsed)) {
+        altTexts = parsed.map(text => typeof text === 'string' ? text.trim() : '')
+      }
+    } catch {
+      console.error('Failed to parse alt text response:', response.text)
+    }
+
+    const updateImage = db.prepare('UPDATE generated_images SET alt_text = ? WHERE id = ?')
+    const updatedImages: { id: string; alt_text: string }[] = []
+    const slideAltTexts = new Map<string, string>()
+
+    items.forEach((item, index) => {
+      const altText = altTexts[index]
+      if (!altText) return
+      if (item.kind === 'image') {
+        updateImage.run(altText, item.id)
+        updatedImages.push({ id: item.id, alt_text: altText })
+      } else {
+        slideAltTexts.set(item.id, altText)
+      }
+    })
+
+    let updatedSlides: CarouselSlide[] | null = null
+    if (carousel && slideAltTexts.size > 0) {
+      updatedSlides = slides.map(slide => slideAltTexts.has(slide.id)
+        ? { ...slide, alt_text: slideAltTexts.get(slide.id) }
+        : slide)
+      db.prepare('UPDATE carousel_outputs SET slides = ?, updated_at = ? WHERE id = ?')
+        .run(JSON.stringify(updatedSlides), new Date().toISOString(), carousel.id)
+    }
+
+    if (updatedImages.length === 0 && !updatedSlides) {
+      return NextResponse.json(
+        { error: 'Failed to write alt text' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ images: updatedImages, slides: updatedSlides })
+  } catch (error) {
+    console.error('Error writing alt text:', error)
+    return NextResponse.json(
+      { error: 'Failed to write alt text' },
+      { status: 500 }
+    )
+  }
+}
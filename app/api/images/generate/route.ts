@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
-import { generateImage, isConfigured } from '@/lib/gemini'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { resolveImageSelection, isImageSelectionConfigured, imageNotConfiguredMessage, generateImages, aspectRatioForSize } from '@/lib/images'
 import type { GeneratedImage, GenerateImageRequest } from '@/types'
 
-// POST /api/images/generate - Generate a new image using Nano Banana
+// POST /api/images/generate - Generate a new image with the selected image provider
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as GenerateImageRequest
@@ -24,10 +25,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Gemini is configured
-    if (!isConfigured()) {
+    // Check that the selected image provider is configured
+    const selection = resolveImageSelection()
+    if (!isImageSelectionConfigured(selection)) {
       return NextResponse.json(
-        { error: 'Google API is not configured. Please set GOOGLE_API_KEY in .env.local' },
+        { error: imageNotConfiguredMessage(selection) },
         { status: 503 }
       )
     }
@@ -44,16 +46,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Determine aspect ratio based on dimensions
-    let aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4' = '1:1'
-    if (width > height * 1.5) {
-      aspectRatio = '16:9'
-    } else if (height > width * 1.5) {
-      aspectRatio = '9:16'
-    } else if (width > height) {
-      aspectRatio = '4:3'
-    } else if (height > width) {
-      aspectRatio = '3:4'
-    }
+    const aspectRatio = aspectRatioForSize(width, height)
 
     // Fetch reference images from project assets for multimodal generation
     let referenceImages: { base64Data: string; mimeType: string }[] | undefined
@@ -73,8 +66,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate the image
-    const results = await generateImage({
+    const { images: results, model } = await generateImages(selection, {
       prompt,
+      width,
+      height,
       aspectRatio,
       numberOfImages: 1,
       referenceImages,
@@ -95,12 +90,12 @@ export async function POST(request: NextRequest) {
 
     const insertStmt = db.prepare(`
       INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, visual_concept_index, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana', 0, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
     `)
 
     // Convert base64 to Buffer for storage
     const imageBuffer = Buffer.from(result.base64Data, 'base64')
-    insertStmt.run(imageId, project_id, prompt, imageBuffer, result.width, result.height, visual_concept_index ?? null, now)
+    insertStmt.run(imageId, project_id, prompt, imageBuffer, result.width, result.height, model, visual_concept_index ?? null, now)
 
     const generatedImage: GeneratedImage = {
       id: imageId,
@@ -109,12 +104,17 @@ export async function POST(request: NextRequest) {
       image_data: result.base64Data,
       width: result.width,
       height: result.height,
-      model: 'nano-banana',
+      model,
       is_upscaled: false,
       visual_concept_index,
       created_at: now,
     }
 
+    emitProjectEvent('image.generated', project_id, {
+      action: 'generated',
+      image: { id: imageId, prompt, width: result.width, height: result.height, model, visual_concept_index: visual_concept_index ?? null },
+    })
+
     return NextResponse.json(generatedImage, { status: 201 })
   } catch (error: unknown) {
     console.error('Error generating image:', error)
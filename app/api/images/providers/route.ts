@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { listImageProviders, resolveImageSelection } from '@/lib/images'
+
+// GET /api/images/providers - List image providers with their configuration status
+export async function GET() {
+  try {
+    return NextResponse.json({
+      providers: listImageProviders(),
+      selection: resolveImageSelection(),
+    })
+  } catch (error) {
+    console.error('Error listing image providers:', error)
+    return NextResponse.json(
+      { error: 'Failed to list image providers' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
-import { refineImage, isConfigured, type ReferenceImage } from '@/lib/gemini'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { resolveImageSelection, isImageSelectionConfigured, imageNotConfiguredMessage, refineImage, type ReferenceImage } from '@/lib/images'
 import type { GeneratedImage, RefineImageRequest } from '@/types'
 
 // POST /api/images/refine - Refine an existing image with a new prompt
@@ -24,10 +25,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Gemini is configured
-    if (!isConfigured()) {
+    // Check that the selected image provider is configured
+    const selection = resolveImageSelection()
+    if (!isImageSelectionConfigured(selection)) {
       return NextResponse.json(
-        { error: 'Google API is not configured. Please set GOOGLE_API_KEY in .env.local' },
+        { error: imageNotConfiguredMessage(selection) },
         { status: 503 }
       )
     }
@@ -69,8 +71,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Refine the image with the new prompt, original image, and reference images
-    const results = await refineImage(
-      originalImage.prompt,
+    const { images: results, model } = await refineImage(
+      selection,
       refinement_prompt,
       originalImage.image_data ? originalImage.image_data.toString('base64') : undefined,
       referenceImages
@@ -92,7 +94,7 @@ export async function POST(request: NextRequest) {
 
     const insertStmt = db.prepare(`
       INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana', 0, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
     `)
 
     const imageBuffer = Buffer.from(result.base64Data, 'base64')
@@ -103,6 +105,7 @@ export async function POST(request: NextRequest) {
       imageBuffer,
       result.width,
       result.height,
+      model,
       image_id,
       now
     )
@@ -114,12 +117,17 @@ export async function POST(request: NextRequest) {
       image_data: result.base64Data,
       width: result.width,
       height: result.height,
-      model: 'nano-banana',
+      model,
       is_upscaled: false,
       parent_image_id: image_id,
       created_at: now,
     }
 
+    emitProjectEvent('image.generated', originalImage.project_id, {
+      action: 'refined',
+      image: { id: newImageId, prompt: combinedPrompt, width: result.width, height: result.height, model, parent_image_id: image_id },
+    })
+
     return NextResponse.json(generatedImage, { status: 201 })
   } catch (error) {
     console.error('Error refining image:', error)
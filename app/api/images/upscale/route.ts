@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
-import { generateImage, isConfigured } from '@/lib/gemini'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { resolveUpscaleTarget, getUpscaleBackend, isUpscaleBackendId, readImageSize, upscaleImage } from '@/lib/images'
 import type { GeneratedImage, UpscaleImageRequest } from '@/types'
 
 // POST /api/images/upscale - Upscale an existing image to higher resolution
-// Implementation: Regenerate the image at higher resolution using the original prompt
+// Implementation: enlarge the stored image itself (local Lanczos by default, or a
+// super-resolution backend), so the composition never changes
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as UpscaleImageRequest
-    const { image_id } = body
+    const { image_id, target_width, target_height, backend: backendId } = body
 
     if (!image_id) {
       return NextResponse.json(
@@ -18,10 +20,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if Gemini is configured
-    if (!isConfigured()) {
+    if ((target_width !== undefined && !(target_width > 0)) || (target_height !== undefined && !(target_height > 0))) {
       return NextResponse.json(
-        { error: 'Google API is not configured. Please set GOOGLE_API_KEY in .env.local' },
+        { error: 'target_width and target_height must be positive numbers' },
+        { status: 400 }
+      )
+    }
+
+    if (backendId !== undefined && !isUpscaleBackendId(backendId)) {
+      return NextResponse.json(
+        { error: 'Invalid upscale backend' },
+        { status: 400 }
+      )
+    }
+
+    const backend = getUpscaleBackend(backendId)
+    if (!backend.isConfigured()) {
+      return NextResponse.json(
+        { error: `${backend.label} is not configured. ${backend.configurationHint}` },
         { status: 503 }
       )
     }
@@ -37,6 +53,7 @@ export async function POST(request: NextRequest) {
       height: number
       model: string
       is_upscaled: number
+      visual_concept_index: number | null
     } | undefined
 
     if (!originalImage) {
@@ -53,43 +70,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Add "4K high resolution" qualifier to the prompt for better quality
-    const upscalePrompt = `${originalImage.prompt}\n\n[HIGH RESOLUTION 4K UHD quality, extremely detailed, sharp focus, professional photography]`
-
-    // Generate a new high-resolution image using the enhanced prompt
-    const results = await generateImage({
-      prompt: upscalePrompt,
-      numberOfImages: 1,
-      aspectRatio: '16:9', // Use 16:9 for YouTube thumbnails
-    })
+    if (!originalImage.image_data) {
+      return NextResponse.json(
+        { error: 'Image data not available for upscaling. Try regenerating the image first.' },
+        { status: 400 }
+      )
+    }
 
-    if (results.length === 0) {
+    // The stored width/height of older images is the size that was requested, not the real one
+    const current = await readImageSize(originalImage.image_data)
+    const target = resolveUpscaleTarget(current.width, current.height, target_width, target_height)
+    if (target.width <= current.width || target.height <= current.height) {
       return NextResponse.json(
-        { error: 'Failed to generate upscaled image' },
-        { status: 500 }
+        { error: `Target size ${target.width}x${target.height} is not larger than the current ${current.width}x${current.height}` },
+        { status: 400 }
       )
     }
 
-    const result = results[0]
+    const result = await upscaleImage(originalImage.image_data, target, backend)
 
     // Save the upscaled image to the database
     const newImageId = generateId()
     const now = new Date().toISOString()
 
     const insertStmt = db.prepare(`
-      INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'nano-banana-4k', 1, ?, ?)
+      INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model, is_upscaled, parent_image_id, visual_concept_index, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
     `)
 
-    const imageBuffer = Buffer.from(result.base64Data, 'base64')
     insertStmt.run(
       newImageId,
       originalImage.project_id,
       originalImage.prompt, // Keep the original prompt for reference
-      imageBuffer,
+      result.data,
       result.width,
       result.height,
+      result.model,
       image_id, // parent_image_id
+      originalImage.visual_concept_index, // Stays in the same thumbnail slot
       now
     )
 
@@ -97,15 +115,21 @@ export async function POST(request: NextRequest) {
       id: newImageId,
       project_id: originalImage.project_id,
       prompt: originalImage.prompt,
-      image_data: result.base64Data,
+      image_data: result.data.toString('base64'),
       width: result.width,
       height: result.height,
-      model: 'nano-banana-4k',
+      model: result.model,
       is_upscaled: true,
       parent_image_id: image_id,
+      visual_concept_index: originalImage.visual_concept_index ?? undefined,
       created_at: now,
     }
 
+    emitProjectEvent('image.generated', originalImage.project_id, {
+      action: 'upscaled',
+      image: { id: newImageId, prompt: originalImage.prompt, width: result.width, height: result.height, model: result.model, parent_image_id: image_id },
+    })
+
     return NextResponse.json(upscaledImage, { status: 201 })
   } catch (error) {
     console.error('Error upscaling image:', error)
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { listTextProviders, resolveModelSelection } from '@/lib/llm'
+
+// GET /api/llm/providers - List text providers with their configuration status
+export async function GET() {
+  try {
+    return NextResponse.json({
+      providers: listTextProviders(),
+      selection: resolveModelSelection(),
+    })
+  } catch (error) {
+    console.error('Error listing text providers:', error)
+    return NextResponse.json(
+      { error: 'Failed to list text providers' },
+      { status: 500 }
+    )
+  }
+}
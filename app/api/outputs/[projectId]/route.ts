@@ -0,0 +1,367 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import type { Output, Platform } from '@/types'
+import { safeJsonParse } from '@/lib/utils'
+import { TWEET_LIMIT, buildThread, numberedTweetLength } from '@/lib/thread'
+import { normalizeSections, sectionsToMarkdown } from '@/lib/newsletter'
+import { buildCaption, captionLength, parseHashtags, selectedHashtags } from '@/lib/caption'
+import { getProjectPlatform } from '@/lib/platforms'
+import { stripCitationMarkers } from '@/lib/citations'
+import { recordContentVersion } from '@/lib/versions'
+
+interface DbOutput {
+  id: string
+  project_id: string
+  hooks: string
+  hooks_original: string
+  body_content: string
+  body_content_original: string
+  thread: string
+  thread_original: string
+  newsletter_sections: string
+  newsletter_sections_original: string
+  subject_lines: string
+  subject_lines_original: string
+  preview_texts: string
+  preview_texts_original: string
+  intros: string
+  intros_original: string
+  titles: string
+  titles_original: string
+  ctas: string
+  ctas_original: string
+  hashtag_sets: string
+  hashtag_sets_original: string
+  visual_concepts: string
+  visual_concepts_original: string
+  selected_hook_index: number
+  selected_body_index: number
+  selected_subject_index: number
+  selected_preview_index: number
+  selected_intro_index: number
+  selected_title_index: number
+  selected_cta_index: number
+  selected_hashtag_index: number
+  selected_visual_index: number
+  examples_used: string
+  source_chunks_used: string
+  citations: string
+  created_at: string
+  updated_at: string
+}
+
+// Parse a DB output row to an Output object
+function parseDbOutput(dbOutput: DbOutput): Output {
+  return {
+    id: dbOutput.id,
+    project_id: dbOutput.project_id,
+    hooks: safeJsonParse(dbOutput.hooks, []),
+    hooks_original: safeJsonParse(dbOutput.hooks_original, []),
+    selected_hook_index: dbOutput.selected_hook_index ?? -1,
+    body_content: dbOutput.body_content || '',
+    body_content_original: dbOutput.body_content_original || '',
+    selected_body_index: dbOutput.selected_body_index ?? -1,
+    thread: safeJsonParse(dbOutput.thread, []),
+    thread_original: safeJsonParse(dbOutput.thread_original, []),
+    newsletter_sections: safeJsonParse(dbOutput.newsletter_sections, []),
+    newsletter_sections_original: safeJsonParse(dbOutput.newsletter_sections_original, []),
+    subject_lines: safeJsonParse(dbOutput.subject_lines, []),
+    subject_lines_original: safeJsonParse(dbOutput.subject_lines_original, []),
+    selected_subject_index: dbOutput.selected_subject_index ?? -1,
+    preview_texts: safeJsonParse(dbOutput.preview_texts, []),
+    preview_texts_original: safeJsonParse(dbOutput.preview_texts_original, []),
+    selected_preview_index: dbOutput.selected_preview_index ?? -1,
+    intros: safeJsonParse(dbOutput.intros, []),
+    intros_original: safeJsonParse(dbOutput.intros_original, []),
+    selected_intro_index: dbOutput.selected_intro_index ?? -1,
+    titles: safeJsonParse(dbOutput.titles, []),
+    titles_original: safeJsonParse(dbOutput.titles_original, []),
+    selected_title_index: dbOutput.selected_title_index ?? -1,
+    ctas: safeJsonParse(dbOutput.ctas, []),
+    ctas_original: safeJsonParse(dbOutput.ctas_original, []),
+    selected_cta_index: dbOutput.selected_cta_index ?? -1,
+    hashtag_sets: safeJsonParse(dbOutput.hashtag_sets, []),
+    hashtag_sets_original: safeJsonParse(dbOutput.hashtag_sets_original, []),
+    selected_hashtag_index: dbOutput.selected_hashtag_index ?? -1,
+    visual_concepts: safeJsonParse(dbOutput.visual_concepts, []),
+    visual_concepts_original: safeJsonParse(dbOutput.visual_concepts_original, []),
+    selected_visual_index: dbOutput.selected_visual_index ?? -1,
+    examples_used: safeJsonParse(dbOutput.examples_used, []),
+    source_chunks_used: safeJsonParse(dbOutput.source_chunks_used, []),
+    citations: safeJsonParse(dbOutput.citations, []),
+    created_at: dbOutput.created_at,
+    updated_at: dbOutput.updated_at,
+  }
+}
+
+// Find the first thread tweet that is over the limit once numbered in the full thread
+// (the selected hook opens it and the selected CTA, if any, closes it)
+function findOverLimitTweet(dbOutput: DbOutput, thread: string[]): { index: number; length: number } | null {
+  const hooks = safeJsonParse<string[]>(dbOutput.hooks, [])
+  const ctas = safeJsonParse<string[]>(dbOutput.ctas, [])
+  const hook = hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? ''
+  const cta = ctas[dbOutput.selected_cta_index] ?? null
+  const total = buildThread(hook, thread, cta).length
+  const offset = hook.trim() ? 1 : 0
+
+  for (let i = 0; i < thread.length; i++) {
+    const length = numberedTweetLength(thread[i].trim(), i + offset, total)
+    if (length > TWEET_LIMIT) return { index: i, length }
+  }
+  return null
+}
+
+// Length of the caption once the body or hashtag sets are replaced
+// (the selected hook opens it and the selected CTA and hashtag set close it)
+function captionLengthWith(dbOutput: DbOutput, bodyContent: string, hashtagSets: string[], selectedHashtagIndex: number): number {
+  const hooks = safeJsonParse<string[]>(dbOutput.hooks, [])
+  const ctas = safeJsonParse<string[]>(dbOutput.ctas, [])
+  const hook = hooks[dbOutput.selected_hook_index] ?? hooks[0] ?? ''
+  const cta = ctas[dbOutput.selected_cta_index] ?? null
+  const hashtags = selectedHashtags(hashtagSets, selectedHashtagIndex)
+  return captionLength(buildCaption(hook, stripCitationMarkers(bodyContent), cta, hashtags))
+}
+
+// GET /api/outputs/:projectId - Get output for a project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params
+
+    const stmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const dbOutput = stmt.get(projectId) as DbOutput | undefined
+
+    if (!dbOutput) {
+      return NextResponse.json(
+        { error: 'Output not found' },
+        { status: 404 }
+      )
+    }
+
+    const output = parseDbOutput(dbOutput)
+    return NextResponse.json({ output })
+  } catch (error) {
+    console.error('Error fetching output:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch output' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/outputs/:projectId - Update output (for editing)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params
+    const body = await request.json()
+
+    const existingStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const existingOutput = existingStmt.get(projectId) as DbOutput | undefined
+
+    if (!existingOutput) {
+      return NextResponse.json(
+        { error: 'Output not found' },
+        { status: 404 }
+      )
+    }
+
+    const project = db.prepare('SELECT platform FROM projects WHERE id = ?')
+      .get(projectId) as { platform: Platform } | undefined
+    // Caption platforms limit the hashtags in a set and the length of the whole caption
+    const platform = project ? getProjectPlatform(project.platform) : null
+    const captionPlatform = platform?.format === 'caption' ? platform : null
+
+    const updates: string[] = []
+    const values: (string | number | null)[] = []
+
+    // Content arrays
+    if (body.hooks !== undefined) {
+      updates.push('hooks = ?')
+      values.push(JSON.stringify(body.hooks))
+    }
+    if (body.body_content !== undefined) {
+      updates.push('body_content = ?')
+      values.push(body.body_content)
+    }
+    if (body.thread !== undefined) {
+      if (!Array.isArray(body.thread) || body.thread.some((tweet: unknown) => typeof tweet !== 'string')) {
+        return NextResponse.json(
+          { error: 'thread must be an array of strings' },
+          { status: 400 }
+        )
+      }
+      const thread = (body.thread as string[]).filter(tweet => tweet.trim())
+      const overLimit = findOverLimitTweet(existingOutput, thread)
+      if (overLimit) {
+        return NextResponse.json(
+          { error: `Tweet ${overLimit.index + 1} is ${overLimit.length} characters with numbering; the limit is ${TWEET_LIMIT}` },
+          { status: 400 }
+        )
+      }
+      updates.push('thread = ?')
+      values.push(JSON.stringify(thread))
+      // The body mirrors the thread so word counts and exports stay in step
+      if (body.body_content === undefined) {
+        updates.push('body_content = ?')
+        values.push(thread.map(tweet => tweet.trim()).join('\n\n'))
+      }
+    }
+    if (body.newsletter_sections !== undefined) {
+      if (!Array.isArray(body.newsletter_sections)) {
+        return NextResponse.json(
+          { error: 'newsletter_sections must be an array' },
+          { status: 400 }
+        )
+      }
+      const sections = normalizeSections(body.newsletter_sections)
+      updates.push('newsletter_sections = ?')
+      values.push(JSON.stringify(sections))
+      // The body mirrors the drafted sections so word counts and exports stay in step
+      if (body.body_content === undefined) {
+        updates.push('body_content = ?')
+        values.push(sectionsToMarkdown(sections))
+      }
+    }
+    if (body.hashtag_sets !== undefined) {
+      if (!Array.isArray(body.hashtag_sets) || body.hashtag_sets.some((set: unknown) => typeof set !== 'string')) {
+        return NextResponse.json(
+          { error: 'hashtag_sets must be an array of strings' },
+          { status: 400 }
+        )
+      }
+      // Store each set as "#a #b #c" however it was typed
+      const hashtagSets = (body.hashtag_sets as string[]).map(set => parseHashtags(set).join(' '))
+      if (captionPlatform?.hashtagLimit) {
+        const limit = captionPlatform.hashtagLimit
+        const overLimit = hashtagSets.findIndex(set => parseHashtags(set).length > limit)
+        if (overLimit >= 0) {
+          return NextResponse.json(
+            { error: `Hashtag set ${overLimit + 1} has ${parseHashtags(hashtagSets[overLimit]).length} hashtags; ${captionPlatform.label} allows ${limit}` },
+            { status: 400 }
+          )
+        }
+      }
+      updates.push('hashtag_sets = ?')
+      values.push(JSON.stringify(hashtagSets))
+      body.hashtag_sets = hashtagSets
+    }
+
+    // Edits to the caption body or hashtags must keep the whole caption within the platform limit
+    if (captionPlatform?.characterLimit && (typeof body.body_content === 'string' || body.hashtag_sets !== undefined)) {
+      const length = captionLengthWith(
+        existingOutput,
+        typeof body.body_content === 'string' ? body.body_content : existingOutput.body_content || '',
+        body.hashtag_sets ?? safeJsonParse<string[]>(existingOutput.hashtag_sets, []),
+        body.selected_hashtag_index ?? existingOutput.selected_hashtag_index ?? -1
+      )
+      if (length > captionPlatform.characterLimit) {
+        return NextResponse.json(
+          { error: `The caption would be ${length.toLocaleString()} characters; the ${captionPlatform.label} limit is ${captionPlatform.characterLimit.toLocaleString()}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (body.subject_lines !== undefined) {
+      updates.push('subject_lines = ?')
+      values.push(JSON.stringify(body.subject_lines))
+    }
+    if (body.preview_texts !== undefined) {
+      updates.push('preview_texts = ?')
+      values.push(JSON.stringify(body.preview_texts))
+    }
+    if (body.intros !== undefined) {
+      updates.push('intros = ?')
+      values.push(JSON.stringify(body.intros))
+    }
+    if (body.titles !== undefined) {
+      updates.push('titles = ?')
+      values.push(JSON.stringify(body.titles))
+    }
+    if (body.ctas !== undefined) {
+      updates.push('ctas = ?')
+      values.push(JSON.stringify(body.ctas))
+    }
+    if (body.visual_concepts !== undefined) {
+      updates.push('visual_concepts = ?')
+      values.push(JSON.stringify(body.visual_concepts))
+    }
+
+    // Selection indexes
+    if (body.selected_hook_index !== undefined) {
+      updates.push('selected_hook_index = ?')
+      values.push(body.selected_hook_index)
+    }
+    if (body.selected_body_index !== undefined) {
+      updates.push('selected_body_index = ?')
+      values.push(body.selected_body_index)
+    }
+    if (body.selected_subject_index !== undefined) {
+      updates.push('selected_subject_index = ?')
+      values.push(body.selected_subject_index)
+    }
+    if (body.selected_preview_index !== undefined) {
+      updates.push('selected_preview_index = ?')
+      values.push(body.selected_preview_index)
+    }
+    if (body.selected_intro_index !== undefined) {
+      updates.push('selected_intro_index = ?')
+      values.push(body.selected_intro_index)
+    }
+    if (body.selected_title_index !== undefined) {
+      updates.push('selected_title_index = ?')
+      values.push(body.selected_title_index)
+    }
+    if (body.selected_cta_index !== undefined) {
+      updates.push('selected_cta_index = ?')
+      values.push(body.selected_cta_index)
+    }
+    if (body.selected_hashtag_index !== undefined) {
+      updates.push('selected_hashtag_index = ?')
+      values.push(body.selected_hashtag_index)
+    }
+    if (body.selected_visual_index !== undefined) {
+      updates.push('selected_visual_index = ?')
+      values.push(body.selected_visual_index)
+    }
+
+    if (updates.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      )
+    }
+
+    updates.push('updated_at = ?')
+    values.push(new Date().toISOString())
+    values.push(projectId)
+
+    const updateStmt = db.prepare(`
+      UPDATE outputs SET ${updates.join(', ')} WHERE project_id = ?
+    `)
+    updateStmt.run(...values)
+
+    // Body edits go into its history, so an edit that drops citation markers can be undone
+    if (typeof body.body_content === 'string') {
+      recordContentVersion(projectId, 'body', 0, existingOutput.body_content, body.body_content, 'user')
+    }
+
+    // Fetch updated output
+    const getStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const updatedDbOutput = getStmt.get(projectId) as DbOutput
+
+    const output = parseDbOutput(updatedDbOutput)
+    return NextResponse.json({ output })
+  } catch (error) {
+    console.error('Error updating output:', error)
+    return NextResponse.json(
+      { error: 'Failed to update output' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
+import { METRIC_NAMES, hasAnyMetric, parseSnapshotMetrics, recordSnapshot } from '@/lib/analytics'
 
 interface PerformanceNote {
   id: string
-  session_id: string
+  project_id: string
   views: number | null
   likes: number | null
   comments: number | null
@@ -14,16 +15,16 @@ interface PerformanceNote {
 }
 
 interface RouteParams {
-  params: Promise<{ sessionId: string }>
+  params: Promise<{ projectId: string }>
 }
 
-// GET /api/performance-notes/:sessionId - Get performance notes for a session
+// GET /api/performance-notes/:projectId - Get performance notes for a project
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const { sessionId } = await params
+    const { projectId } = await params
 
-    const stmt = db.prepare('SELECT * FROM performance_notes WHERE session_id = ?')
-    const note = stmt.get(sessionId) as PerformanceNote | undefined
+    const stmt = db.prepare('SELECT * FROM performance_notes WHERE project_id = ?')
+    const note = stmt.get(projectId) as PerformanceNote | undefined
 
     if (!note) {
       return NextResponse.json({ note: null })
@@ -39,72 +40,89 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// POST /api/performance-notes/:sessionId - Create or update performance notes
+// POST /api/performance-notes/:projectId - Create or update performance notes
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    const { sessionId } = await params
+    const { projectId } = await params
     const body = await request.json()
-    const { views, likes, comments, reposts, notes } = body
+    const { notes } = body
 
-    // Verify session exists and is published
-    const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-    const session = sessionStmt.get(sessionId) as { id: string; status: string } | undefined
+    // Verify project exists and is published
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(projectId) as { id: string; status: string } | undefined
 
-    if (!session) {
+    if (!project) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Project not found' },
         { status: 404 }
       )
     }
 
-    if (session.status !== 'published') {
+    if (project.status !== 'published') {
       return NextResponse.json(
-        { error: 'Performance notes can only be added to published sessions' },
+        { error: 'Performance notes can only be added to published projects' },
         { status: 400 }
       )
     }
 
+    // Same checks as /api/performance/snapshots, since changed numbers become a snapshot too
+    const parsed = parseSnapshotMetrics(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+    const { metrics } = parsed
+    const { views, likes, comments, reposts } = metrics
+
     // Check if performance notes already exist
-    const existingStmt = db.prepare('SELECT id FROM performance_notes WHERE session_id = ?')
-    const existing = existingStmt.get(sessionId) as { id: string } | undefined
+    const existingStmt = db.prepare('SELECT * FROM performance_notes WHERE project_id = ?')
+    const existing = existingStmt.get(projectId) as PerformanceNote | undefined
 
     if (existing) {
       // Update existing notes
       const updateStmt = db.prepare(`
         UPDATE performance_notes
         SET views = ?, likes = ?, comments = ?, reposts = ?, notes = ?, recorded_at = ?
-        WHERE session_id = ?
+        WHERE project_id = ?
       `)
       updateStmt.run(
-        views ?? null,
-        likes ?? null,
-        comments ?? null,
-        reposts ?? null,
+        views,
+        likes,
+        comments,
+        reposts,
         notes ?? '',
         new Date().toISOString(),
-        sessionId
+        projectId
       )
     } else {
       // Create new notes
       const insertStmt = db.prepare(`
-        INSERT INTO performance_notes (id, session_id, views, likes, comments, reposts, notes, recorded_at)
+        INSERT INTO performance_notes (id, project_id, views, likes, comments, reposts, notes, recorded_at)
         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `)
       insertStmt.run(
         generateId(),
-        sessionId,
-        views ?? null,
-        likes ?? null,
-        comments ?? null,
-        reposts ?? null,
+        projectId,
+        views,
+        likes,
+        comments,
+        reposts,
         notes ?? '',
         new Date().toISOString()
       )
     }
 
+    // Changed numbers also go into the metric history
+    const metricsChanged = !existing || METRIC_NAMES.some(name => existing[name] !== metrics[name])
+    if (metricsChanged && hasAnyMetric(metrics)) {
+      recordSnapshot(projectId, metrics)
+    }
+
     // Fetch updated notes
-    const noteStmt = db.prepare('SELECT * FROM performance_notes WHERE session_id = ?')
-    const note = noteStmt.get(sessionId) as PerformanceNote
+    const noteStmt = db.prepare('SELECT * FROM performance_notes WHERE project_id = ?')
+    const note = noteStmt.get(projectId) as PerformanceNote
 
     return NextResponse.json({ note })
   } catch (error) {
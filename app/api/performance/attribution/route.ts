@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildAttributionReport } from '@/lib/analytics/attribution'
+import { getPlatform } from '@/lib/platforms'
+import type { AttributionMetric, Platform } from '@/types'
+
+// GET /api/performance/attribution?metric=engagement_rate&tzOffset=-60&platform=linkedin
+// Compare published posts' results by hook, CTA, length, media and publish timing
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const metric = (searchParams.get('metric') || 'engagement_rate') as AttributionMetric
+    const platform = searchParams.get('platform') as Platform | null
+    const tzOffset = Number(searchParams.get('tzOffset') || 0)
+
+    if (!['engagement_rate', 'views', 'engagements'].includes(metric)) {
+      return NextResponse.json(
+        { error: 'metric must be one of: engagement_rate, views, engagements' },
+        { status: 400 }
+      )
+    }
+
+    if (platform && !getPlatform(platform)) {
+      return NextResponse.json(
+        { error: 'Invalid platform' },
+        { status: 400 }
+      )
+    }
+
+    // Date.getTimezoneOffset() ranges from -840 (UTC+14) to 720 (UTC-12)
+    if (!Number.isInteger(tzOffset) || Math.abs(tzOffset) > 840) {
+      return NextResponse.json(
+        { error: 'tzOffset must be a whole number of minutes' },
+        { status: 400 }
+      )
+    }
+
+    const report = buildAttributionReport(metric, { platform, tzOffsetMinutes: tzOffset })
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Error building attribution report:', error)
+    return NextResponse.json(
+      { error: 'Failed to build attribution report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { hasAnyMetric, parseSnapshotMetrics, recordSnapshot, type SnapshotMetrics } from '@/lib/analytics'
+
+// POST /api/performance/import/apply - Save reviewed import rows as each project's current metrics
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { rows } = body as { rows?: Record<string, unknown>[] }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'rows are required' },
+        { status: 400 }
+      )
+    }
+
+    const projectStmt = db.prepare('SELECT status FROM projects WHERE id = ?')
+    const updates: { projectId: string; metrics: SnapshotMetrics }[] = []
+    const seen = new Set<string>()
+
+    for (const row of rows) {
+      const projectId = row.project_id
+      if (typeof projectId !== 'string' || !projectId) {
+        return NextResponse.json(
+          { error: 'Each row needs a project_id' },
+          { status: 400 }
+        )
+      }
+
+      if (seen.has(projectId)) {
+        return NextResponse.json(
+          { error: 'Each project can only be imported once per file' },
+          { status: 400 }
+        )
+      }
+      seen.add(projectId)
+
+      const project = projectStmt.get(projectId) as { status: string } | undefined
+      if (!project) {
+        return NextResponse.json(
+          { error: `Project not found: ${projectId}` },
+          { status: 404 }
+        )
+      }
+      if (project.status !== 'published') {
+        return NextResponse.json(
+          { error: 'Metrics can only be imported for published projects' },
+          { status: 400 }
+        )
+      }
+
+      const parsed = parseSnapshotMetrics(row)
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        )
+      }
+      if (hasAnyMetric(parsed.metrics)) {
+        updates.push({ projectId, metrics: parsed.metrics })
+      }
+    }
+
+    // All or nothing, so a failed import can simply be retried
+    db.transaction(() => {
+      for (const update of updates) {
+        recordSnapshot(update.projectId, update.metrics, { source: 'import' })
+      }
+    })()
+
+    return NextResponse.json({ imported: updates.length })
+  } catch (error) {
+    console.error('Error applying analytics import:', error)
+    return NextResponse.json(
+      { error: 'Failed to import analytics' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildImportPreview, parseAnalyticsFile } from '@/lib/analytics/import'
+
+// Exports are small; anything bigger is almost certainly the wrong file
+const MAX_FILE_BYTES = 10 * 1024 * 1024
+
+// POST /api/performance/import - Parse a LinkedIn analytics export and match its rows to published projects.
+// Nothing is saved; the reviewed rows are sent to /api/performance/import/apply.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { filename, data } = body as {
+      filename?: string
+      data?: string // Base64-encoded file data
+    }
+
+    if (!filename || !data) {
+      return NextResponse.json(
+        { error: 'filename and data are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!/\.(csv|xlsx)$/i.test(filename)) {
+      return NextResponse.json(
+        { error: 'Only .csv and .xlsx analytics exports are supported' },
+        { status: 400 }
+      )
+    }
+
+    const buffer = Buffer.from(data, 'base64')
+    if (buffer.length > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: 'File is too large (max 10MB)' },
+        { status: 400 }
+      )
+    }
+
+    let parsed
+    try {
+      parsed = await parseAnalyticsFile(buffer, filename)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(buildImportPreview(filename, parsed.sheet, parsed.rows))
+  } catch (error) {
+    console.error('Error parsing analytics import:', error)
+    return NextResponse.json(
+      { error: 'Failed to parse analytics export' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import {
+  deleteSnapshot,
+  getProjectSeries,
+  hasAnyMetric,
+  parseSnapshotMetrics,
+  recordSnapshot,
+} from '@/lib/analytics'
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>
+}
+
+// GET /api/performance/snapshots/:projectId - Metric history with engagement rate and velocity
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params
+
+    const series = getProjectSeries(projectId)
+    if (!series) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ series })
+  } catch (error) {
+    console.error('Error fetching metric snapshots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch metric snapshots' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/performance/snapshots/:projectId - Record the project's current metrics
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params
+    const body = await request.json()
+
+    const project = db.prepare('SELECT status, published_at FROM projects WHERE id = ?')
+      .get(projectId) as { status: string; published_at: string | null } | undefined
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (project.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Metrics can only be recorded for published projects' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseSnapshotMetrics(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+    const { metrics } = parsed
+
+    if (!hasAnyMetric(metrics)) {
+      return NextResponse.json(
+        { error: 'At least one metric is required' },
+        { status: 400 }
+      )
+    }
+
+    // Backfilling is allowed (e.g. numbers noted down earlier), but not future timestamps
+    let recordedAt: string | undefined
+    if (body.recorded_at) {
+      const timestamp = new Date(body.recorded_at)
+      if (isNaN(timestamp.getTime()) || timestamp.getTime() > Date.now()) {
+        return NextResponse.json(
+          { error: 'recorded_at must be a valid time that is not in the future' },
+          { status: 400 }
+        )
+      }
+      recordedAt = timestamp.toISOString()
+    }
+
+    const snapshot = recordSnapshot(projectId, metrics, { recordedAt })
+
+    return NextResponse.json({ snapshot, series: getProjectSeries(projectId) }, { status: 201 })
+  } catch (error) {
+    console.error('Error recording metric snapshot:', error)
+    return NextResponse.json(
+      { error: 'Failed to record metric snapshot' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/performance/snapshots/:projectId?snapshotId=... - Remove a mistaken snapshot
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params
+    const snapshotId = request.nextUrl.searchParams.get('snapshotId')
+
+    if (!snapshotId) {
+      return NextResponse.json(
+        { error: 'snapshotId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!deleteSnapshot(projectId, snapshotId)) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ series: getProjectSeries(projectId) })
+  } catch (error) {
+    console.error('Error deleting metric snapshot:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete metric snapshot' },
+      { status: 500 }
+    )
+  }
+}
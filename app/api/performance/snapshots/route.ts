@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublishedSeries } from '@/lib/analytics'
+
+// GET /api/performance/snapshots?ids=a,b - Metric history for published projects, for comparing posts
+export async function GET(request: NextRequest) {
+  try {
+    const ids = request.nextUrl.searchParams.get('ids')
+    const projectIds = ids ? ids.split(',').map(id => id.trim()).filter(Boolean) : undefined
+
+    return NextResponse.json({ series: getPublishedSeries(projectIds) })
+  } catch (error) {
+    console.error('Error fetching metric snapshots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch metric snapshots' },
+      { status: 500 }
+    )
+  }
+}
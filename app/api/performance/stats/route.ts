@@ -3,7 +3,7 @@ import db from '@/lib/db'
 
 interface PerformanceNote {
   id: string
-  session_id: string
+  project_id: string
   views: number | null
   likes: number | null
   comments: number | null
@@ -14,7 +14,7 @@ interface PerformanceNote {
 
 interface AggregateStats {
   total_published: number
-  sessions_with_metrics: number
+  projects_with_metrics: number
   totals: {
     views: number
     likes: number
@@ -28,28 +28,28 @@ interface AggregateStats {
     reposts: number
   }
   best_performing: {
-    by_views: { session_id: string; title: string; value: number } | null
-    by_likes: { session_id: string; title: string; value: number } | null
-    by_comments: { session_id: string; title: string; value: number } | null
-    by_reposts: { session_id: string; title: string; value: number } | null
+    by_views: { project_id: string; title: string; value: number } | null
+    by_likes: { project_id: string; title: string; value: number } | null
+    by_comments: { project_id: string; title: string; value: number } | null
+    by_reposts: { project_id: string; title: string; value: number } | null
   }
 }
 
 // GET /api/performance/stats - Get aggregate performance statistics
 export async function GET() {
   try {
-    // Get count of published sessions
+    // Get count of published projects
     const publishedCountStmt = db.prepare(`
-      SELECT COUNT(*) as count FROM sessions WHERE status = 'published'
+      SELECT COUNT(*) as count FROM projects WHERE status = 'published'
     `)
     const { count: totalPublished } = publishedCountStmt.get() as { count: number }
 
-    // Get all performance notes with session titles (only for published sessions)
+    // Get all performance notes with project names (only for published projects)
     const notesStmt = db.prepare(`
-      SELECT pn.*, s.title
+      SELECT pn.*, p.name AS title
       FROM performance_notes pn
-      JOIN sessions s ON pn.session_id = s.id
-      WHERE s.status = 'published'
+      JOIN projects p ON pn.project_id = p.id
+      WHERE p.status = 'published'
     `)
     const notes = notesStmt.all() as (PerformanceNote & { title: string })[]
 
@@ -64,45 +64,45 @@ export async function GET() {
     let repostsCount = 0
 
     // Track best performing
-    let bestByViews: { session_id: string; title: string; value: number } | null = null
-    let bestByLikes: { session_id: string; title: string; value: number } | null = null
-    let bestByComments: { session_id: string; title: string; value: number } | null = null
-    let bestByReposts: { session_id: string; title: string; value: number } | null = null
+    let bestByViews: { project_id: string; title: string; value: number } | null = null
+    let bestByLikes: { project_id: string; title: string; value: number } | null = null
+    let bestByComments: { project_id: string; title: string; value: number } | null = null
+    let bestByReposts: { project_id: string; title: string; value: number } | null = null
 
     for (const note of notes) {
       if (note.views !== null) {
         totalViews += note.views
         viewsCount++
         if (!bestByViews || note.views > bestByViews.value) {
-          bestByViews = { session_id: note.session_id, title: note.title, value: note.views }
+          bestByViews = { project_id: note.project_id, title: note.title, value: note.views }
         }
       }
       if (note.likes !== null) {
         totalLikes += note.likes
         likesCount++
         if (!bestByLikes || note.likes > bestByLikes.value) {
-          bestByLikes = { session_id: note.session_id, title: note.title, value: note.likes }
+          bestByLikes = { project_id: note.project_id, title: note.title, value: note.likes }
         }
       }
       if (note.comments !== null) {
         totalComments += note.comments
         commentsCount++
         if (!bestByComments || note.comments > bestByComments.value) {
-          bestByComments = { session_id: note.session_id, title: note.title, value: note.comments }
+          bestByComments = { project_id: note.project_id, title: note.title, value: note.comments }
         }
       }
       if (note.reposts !== null) {
         totalReposts += note.reposts
         repostsCount++
         if (!bestByReposts || note.reposts > bestByReposts.value) {
-          bestByReposts = { session_id: note.session_id, title: note.title, value: note.reposts }
+          bestByReposts = { project_id: note.project_id, title: note.title, value: note.reposts }
         }
       }
     }
 
     const stats: AggregateStats = {
       total_published: totalPublished,
-      sessions_with_metrics: notes.length,
+      projects_with_metrics: notes.length,
       totals: {
         views: totalViews,
         likes: totalLikes,
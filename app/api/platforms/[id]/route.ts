@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { invalidatePromptCache } from '@/lib/prompts/compose'
+import { getBuiltInPlatform, getPlatform, parseCustomPlatform, toneSettingKey, type CustomPlatformRow } from '@/lib/platforms'
+import type { CustomPlatformRequest } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+function countProjects(platformId: string): number {
+  const row = db.prepare('SELECT COUNT(*) as count FROM projects WHERE platform = ?').get(platformId) as { count: number }
+  return row.count
+}
+
+// GET /api/platforms/:id - Get a platform definition
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const platform = getPlatform(id)
+
+    if (!platform) {
+      return NextResponse.json(
+        { error: 'Platform not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(platform)
+  } catch (error) {
+    console.error('Error fetching platform:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch platform' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/platforms/:id - Update a custom platform
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    if (getBuiltInPlatform(id)) {
+      return NextResponse.json(
+        { error: 'Built-in platforms cannot be changed' },
+        { status: 400 }
+      )
+    }
+
+    const existing = db.prepare('SELECT * FROM custom_platforms WHERE id = ?').get(id) as CustomPlatformRow | undefined
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Platform not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json() as CustomPlatformRequest
+
+    const parsed = parseCustomPlatform(body, existing)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { values } = parsed
+
+    // Projects already made have outputs shaped for the current format
+    if (values.format !== existing.format) {
+      const projectCount = countProjects(id)
+      if (projectCount > 0) {
+        return NextResponse.json(
+          { error: `The format can't change while ${projectCount} project${projectCount === 1 ? ' uses' : 's use'} this platform` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const now = new Date().toISOString()
+
+    const update = db.transaction(() => {
+      db.prepare(`
+        UPDATE custom_platforms SET
+          label = ?, description = ?, format = ?, steps = ?, character_limit = ?, hashtag_limit = ?,
+          aspect_ratio = ?, width = ?, height = ?, generation_prompt = ?, output_focus = ?, updated_at = ?
+        WHERE id = ?
+      `).run(
+        values.label,
+        values.description,
+        values.format,
+        values.steps,
+        values.character_limit,
+        values.hashtag_limit,
+        values.aspect_ratio,
+        values.width,
+        values.height,
+        values.generation_prompt,
+        values.output_focus,
+        now,
+        id
+      )
+
+      if (body.tone_prompt !== undefined) {
+        db.prepare('UPDATE settings SET value = ?, updated_at = ? WHERE key = ?')
+          .run(String(body.tone_prompt).trim(), now, toneSettingKey(id))
+      }
+    })
+    update()
+    invalidatePromptCache()
+
+    return NextResponse.json(getPlatform(id))
+  } catch (error) {
+    console.error('Error updating platform:', error)
+    return NextResponse.json(
+      { error: 'Failed to update platform' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/platforms/:id - Delete a custom platform no project uses
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    if (getBuiltInPlatform(id)) {
+      return NextResponse.json(
+        { error: 'Built-in platforms cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
+    const exists = db.prepare('SELECT id FROM custom_platforms WHERE id = ?').get(id)
+
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Platform not found' },
+        { status: 404 }
+      )
+    }
+
+    const projectCount = countProjects(id)
+    if (projectCount > 0) {
+      return NextResponse.json(
+        { error: `${projectCount} project${projectCount === 1 ? ' uses' : 's use'} this platform; delete or move ${projectCount === 1 ? 'it' : 'them'} first` },
+        { status: 409 }
+      )
+    }
+
+    const remove = db.transaction(() => {
+      db.prepare('DELETE FROM custom_platforms WHERE id = ?').run(id)
+      db.prepare('DELETE FROM settings WHERE key = ?').run(toneSettingKey(id))
+    })
+    remove()
+    invalidatePromptCache()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting platform:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete platform' },
+      { status: 500 }
+    )
+  }
+}
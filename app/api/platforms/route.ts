@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { invalidatePromptCache } from '@/lib/prompts/compose'
+import { getPlatform, listPlatforms, parseCustomPlatform, slugifyPlatformId, toneSettingKey, validateNewPlatformId } from '@/lib/platforms'
+import type { CustomPlatformRequest } from '@/types'
+
+// GET /api/platforms - List built-in and custom platforms
+export async function GET() {
+  try {
+    return NextResponse.json(listPlatforms())
+  } catch (error) {
+    console.error('Error fetching platforms:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch platforms' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/platforms - Create a custom platform
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as CustomPlatformRequest
+
+    const parsed = parseCustomPlatform(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const id = body.id ? String(body.id).trim() : slugifyPlatformId(parsed.values.label)
+    const idError = validateNewPlatformId(id)
+    if (idError) {
+      return NextResponse.json(
+        { error: idError },
+        { status: getPlatform(id) ? 409 : 400 }
+      )
+    }
+
+    const { values } = parsed
+    const now = new Date().toISOString()
+
+    const create = db.transaction(() => {
+      db.prepare(`
+        INSERT INTO custom_platforms (
+          id, label, description, format, steps, character_limit, hashtag_limit,
+          aspect_ratio, width, height, generation_prompt, output_focus, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        values.label,
+        values.description,
+        values.format,
+        values.steps,
+        values.character_limit,
+        values.hashtag_limit,
+        values.aspect_ratio,
+        values.width,
+        values.height,
+        values.generation_prompt,
+        values.output_focus,
+        now,
+        now
+      )
+
+      // Its tone modifier is edited on the settings page like the built-in ones
+      const toneKey = toneSettingKey(id)
+      db.prepare(`
+        INSERT INTO settings (id, key, value, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `).run(toneKey, toneKey, body.tone_prompt ? String(body.tone_prompt).trim() : '', now)
+    })
+    create()
+    invalidatePromptCache()
+
+    return NextResponse.json(getPlatform(id), { status: 201 })
+  } catch (error) {
+    console.error('Error creating platform:', error)
+    return NextResponse.json(
+      { error: 'Failed to create platform' },
+      { status: 500 }
+    )
+  }
+}
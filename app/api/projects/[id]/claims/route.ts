@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage } from '@/lib/llm'
+import { collectCheckableText, getClaimVerification, verifyProjectClaims } from '@/lib/claims'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/:id/claims - The project's latest claim check, or null if it hasn't been checked
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(id)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ verification: getClaimVerification(id) })
+  } catch (error) {
+    console.error('Error fetching claim verification:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch claim verification' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/:id/claims - Check the factual claims in the body, hooks and slides against the sources and research
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(id)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (collectCheckableText(id).length === 0) {
+      return NextResponse.json(
+        { error: 'No content to check. Generate the hooks or body first.' },
+        { status: 400 }
+      )
+    }
+
+    const selection = resolveModelSelection(id)
+    if (!isSelectionConfigured(selection)) {
+      return NextResponse.json(
+        { error: notConfiguredMessage(selection) },
+        { status: 503 }
+      )
+    }
+
+    const verification = await verifyProjectClaims(selection, id)
+
+    return NextResponse.json({ verification })
+  } catch (error) {
+    console.error('Error verifying claims:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to verify claims' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId, safeJsonParse } from '@/lib/utils'
+import { getProjectPlatform } from '@/lib/platforms'
+import { emitProjectEvent } from '@/lib/webhooks'
 import type { Project, Output } from '@/types'
 
 interface RouteParams {
@@ -28,8 +30,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Create new project as a remix
     const insertProjectStmt = db.prepare(`
-      INSERT INTO projects (id, name, topic, target_audience, content_style, platform, status, current_step, created_at, updated_at, remix_of_project_id)
-      VALUES (?, ?, ?, ?, ?, ?, 'in_progress', 'hooks', ?, ?, ?)
+      INSERT INTO projects (id, name, topic, target_audience, content_style, platform, status, current_step, created_at, updated_at, remix_of_project_id, llm_provider, llm_model, use_performance_examples)
+      VALUES (?, ?, ?, ?, ?, ?, 'in_progress', ?, ?, ?, ?, ?, ?, ?)
     `)
 
     insertProjectStmt.run(
@@ -39,9 +41,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       sourceProject.target_audience,
       sourceProject.content_style,
       sourceProject.platform,
+      getProjectPlatform(sourceProject.platform).steps[1],
       now,
       now,
-      id
+      id,
+      sourceProject.llm_provider ?? null,
+      sourceProject.llm_model ?? null,
+      sourceProject.use_performance_examples ?? 0
     )
 
     // Copy outputs if they exist
@@ -49,8 +55,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const sourceOutput = outputStmt.get(id) as (Output & {
       hooks: string
       hooks_original: string
+      thread: string
+      thread_original: string
+      newsletter_sections: string
+      newsletter_sections_original: string
+      subject_lines: string
+      subject_lines_original: string
+      preview_texts: string
+      preview_texts_original: string
       ctas: string
       ctas_original: string
+      hashtag_sets: string
+      hashtag_sets_original: string
       visual_concepts: string
       visual_concepts_original: string
       intros: string
@@ -64,12 +80,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       const insertOutputStmt = db.prepare(`
         INSERT INTO outputs (
           id, project_id, hooks, hooks_original, body_content, body_content_original,
+          thread, thread_original, newsletter_sections, newsletter_sections_original,
+          subject_lines, subject_lines_original, preview_texts, preview_texts_original,
           intros, intros_original, titles, titles_original,
-          ctas, ctas_original, visual_concepts, visual_concepts_original,
-          selected_hook_index, selected_body_index, selected_intro_index, selected_title_index,
-          selected_cta_index, selected_visual_index, created_at, updated_at
+          ctas, ctas_original, hashtag_sets, hashtag_sets_original, visual_concepts, visual_concepts_original,
+          selected_hook_index, selected_body_index, selected_subject_index, selected_preview_index,
+          selected_intro_index, selected_title_index,
+          selected_cta_index, selected_hashtag_index, selected_visual_index, created_at, updated_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `)
 
       insertOutputStmt.run(
@@ -79,19 +98,32 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         sourceOutput.hooks_original,
         sourceOutput.body_content,
         sourceOutput.body_content_original,
+        sourceOutput.thread,
+        sourceOutput.thread_original,
+        sourceOutput.newsletter_sections,
+        sourceOutput.newsletter_sections_original,
+        sourceOutput.subject_lines,
+        sourceOutput.subject_lines_original,
+        sourceOutput.preview_texts,
+        sourceOutput.preview_texts_original,
         sourceOutput.intros,
         sourceOutput.intros_original,
         sourceOutput.titles,
         sourceOutput.titles_original,
         sourceOutput.ctas,
         sourceOutput.ctas_original,
+        sourceOutput.hashtag_sets,
+        sourceOutput.hashtag_sets_original,
         sourceOutput.visual_concepts,
         sourceOutput.visual_concepts_original,
         sourceOutput.selected_hook_index,
         sourceOutput.selected_body_index,
+        sourceOutput.selected_subject_index,
+        sourceOutput.selected_preview_index,
         sourceOutput.selected_intro_index,
         sourceOutput.selected_title_index,
         sourceOutput.selected_cta_index,
+        sourceOutput.selected_hashtag_index,
         sourceOutput.selected_visual_index,
         now,
         now
@@ -100,6 +132,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Get the new project
     const newProject = db.prepare('SELECT * FROM projects WHERE id = ?').get(newId) as Project
+    emitProjectEvent('project.created', newId, { remix_of_project_id: id })
 
     return NextResponse.json(newProject, { status: 201 })
   } catch (error) {
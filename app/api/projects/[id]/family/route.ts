@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { getProjectFamily } from '@/lib/repurpose'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/:id/family - The original project and every variant repurposed from it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(id)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(getProjectFamily(id))
+  } catch (error) {
+    console.error('Error fetching project family:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project family' },
+      { status: 500 }
+    )
+  }
+}
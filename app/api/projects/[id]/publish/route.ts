@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import {
+  PublishError,
+  cancelPublish,
+  getProjectPublishState,
+  getPublisher,
+  isPublisherId,
+  publisherSupportsPlatform,
+  schedulePublish,
+} from '@/lib/publishing'
+import { assemblePublishablePost } from '@/lib/publishing/post'
+import { getProjectPlatform } from '@/lib/platforms'
+import type { Project, SchedulePublishRequest } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/projects/:id/publish - The project's publish job and its attempts
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(id)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(getProjectPublishState(id))
+  } catch (error) {
+    console.error('Error fetching publish state:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch publish state' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/:id/publish - Queue the post for automatic publishing at its planned time
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json() as SchedulePublishRequest
+
+    const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(id) as Project | undefined
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (project.status === 'published') {
+      return NextResponse.json(
+        { error: 'Project is already published' },
+        { status: 409 }
+      )
+    }
+
+    if (!isPublisherId(body.publisher)) {
+      return NextResponse.json(
+        { error: 'Invalid publisher' },
+        { status: 400 }
+      )
+    }
+
+    const publisher = getPublisher(body.publisher)
+    if (!publisher.isConfigured()) {
+      return NextResponse.json(
+        { error: `${publisher.label} is not configured. ${publisher.configurationHint}` },
+        { status: 400 }
+      )
+    }
+
+    const platform = getProjectPlatform(project.platform)
+    if (!publisherSupportsPlatform(publisher, platform.id)) {
+      return NextResponse.json(
+        { error: `${publisher.label} cannot publish ${platform.label} posts` },
+        { status: 400 }
+      )
+    }
+
+    if (body.scheduled_at && isNaN(Date.parse(body.scheduled_at))) {
+      return NextResponse.json(
+        { error: 'Invalid scheduled_at' },
+        { status: 400 }
+      )
+    }
+
+    // Catch missing content and hard limit breaches now rather than at publish time
+    try {
+      assemblePublishablePost(id)
+    } catch (error) {
+      if (error instanceof PublishError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 422 }
+        )
+      }
+      throw error
+    }
+
+    // An explicit time also becomes the planned date, so the calendar shows when it goes out
+    const at = new Date(body.scheduled_at || project.scheduled_at || Date.now()).toISOString()
+    if (body.scheduled_at) {
+      db.prepare('UPDATE projects SET scheduled_at = ?, updated_at = ? WHERE id = ?')
+        .run(at, new Date().toISOString(), id)
+    }
+
+    schedulePublish(id, body.publisher, at)
+
+    return NextResponse.json(getProjectPublishState(id), { status: 201 })
+  } catch (error) {
+    console.error('Error scheduling publish:', error)
+    return NextResponse.json(
+      { error: 'Failed to schedule publish' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/:id/publish - Cancel a publish job that hasn't gone out yet
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(id)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!cancelPublish(id)) {
+      return NextResponse.json(
+        { error: 'Nothing to cancel' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(getProjectPublishState(id))
+  } catch (error) {
+    console.error('Error cancelling publish:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel publish' },
+      { status: 500 }
+    )
+  }
+}
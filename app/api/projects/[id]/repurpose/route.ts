@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage } from '@/lib/llm'
+import { getPlatform, getProjectPlatform } from '@/lib/platforms'
+import { describeSourceContent } from '@/lib/repurpose'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { generateStructuredContent, saveGeneratedContent } from '@/lib/generation'
+import type { PlatformDefinition, Project, RepurposeProjectRequest, RepurposedProject } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/projects/:id/repurpose - Create linked projects for other platforms and generate their content from this one
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json() as RepurposeProjectRequest
+
+    const sourceProject = db.prepare('SELECT * FROM projects WHERE id = ?').get(id) as Project | undefined
+
+    if (!sourceProject) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!Array.isArray(body.platforms) || body.platforms.length === 0) {
+      return NextResponse.json(
+        { error: 'platforms must be a non-empty array of platform ids' },
+        { status: 400 }
+      )
+    }
+
+    const targets: PlatformDefinition[] = []
+    for (const platformId of body.platforms) {
+      const platform = getPlatform(String(platformId))
+      if (!platform) {
+        return NextResponse.json(
+          { error: `Unknown platform: ${platformId}` },
+          { status: 400 }
+        )
+      }
+      if (platform.id === sourceProject.platform) {
+        return NextResponse.json(
+          { error: `The project is already for ${platform.label}; duplicate it instead` },
+          { status: 400 }
+        )
+      }
+      if (!targets.some(target => target.id === platform.id)) targets.push(platform)
+    }
+
+    if (!describeSourceContent(id)) {
+      return NextResponse.json(
+        { error: 'No content to repurpose. Generate and choose this project\'s content first.' },
+        { status: 400 }
+      )
+    }
+
+    // Variants inherit the source's model override, so one check covers them all
+    const selection = resolveModelSelection(id)
+    if (!isSelectionConfigured(selection)) {
+      return NextResponse.json(
+        { error: notConfiguredMessage(selection) },
+        { status: 503 }
+      )
+    }
+
+    const sourceLabel = getProjectPlatform(sourceProject.platform).label
+    const insertProjectStmt = db.prepare(`
+      INSERT INTO projects (id, name, topic, target_audience, content_style, platform, status, current_step, created_at, updated_at, repurposed_from_project_id, llm_provider, llm_model, use_performance_examples)
+      VALUES (?, ?, ?, ?, ?, ?, 'in_progress', ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    const results: RepurposedProject[] = []
+
+    // One at a time: each variant is a full generation call
+    for (const platform of targets) {
+      const newId = generateId()
+      const now = new Date().toISOString()
+      // "Launch recap (LinkedIn)" becomes "Launch recap (YouTube)", not "Launch recap (LinkedIn) (YouTube)"
+      const baseName = sourceProject.name.endsWith(` (${sourceLabel})`)
+        ? sourceProject.name.slice(0, -(sourceLabel.length + 3))
+        : sourceProject.name
+
+      insertProjectStmt.run(
+        newId,
+        `${baseName} (${platform.label})`,
+        sourceProject.topic,
+        sourceProject.target_audience,
+        sourceProject.content_style,
+        platform.id,
+        platform.steps[1],
+        now,
+        now,
+        id,
+        sourceProject.llm_provider ?? null,
+        sourceProject.llm_model ?? null,
+        sourceProject.use_performance_examples ?? 0
+      )
+
+      const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(newId) as Project
+      emitProjectEvent('project.created', newId, { repurposed_from_project_id: id })
+
+      try {
+        const generatedContent = await generateStructuredContent(
+          selection,
+          {
+            topic: project.topic,
+            platform: project.platform,
+            targetAudience: project.target_audience,
+            contentStyle: project.content_style,
+          },
+          [],
+          newId
+        )
+        results.push({ project, output: saveGeneratedContent(generatedContent, project.topic, { projectId: newId }) })
+      } catch (error) {
+        // Keep the project; its content can be generated from its own page
+        console.error(`Error generating repurposed ${platform.label} content:`, error)
+        results.push({ project, output: null, error: 'Failed to generate content' })
+      }
+    }
+
+    return NextResponse.json({ projects: results }, { status: 201 })
+  } catch (error) {
+    console.error('Error repurposing project:', error)
+    return NextResponse.json(
+      { error: 'Failed to repurpose project' },
+      { status: 500 }
+    )
+  }
+}
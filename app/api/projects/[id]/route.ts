@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import type { Project, Message, Output, UpdateProjectRequest, GeneratedImage, ProjectAsset } from '@/types'
 import { safeJsonParse, generateId } from '@/lib/utils'
+import { isTextProviderId } from '@/lib/llm'
+import { getPlatform, getProjectPlatform } from '@/lib/platforms'
+import { syncPublishSchedule } from '@/lib/publishing'
+import { emitProjectEvent } from '@/lib/webhooks'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -24,15 +28,29 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Get messages
     const messagesStmt = db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY created_at ASC')
-    const messages = messagesStmt.all(id) as Message[]
+    const messages: Message[] = (messagesStmt.all(id) as (Omit<Message, 'source_chunks'> & { source_chunks: string | null })[])
+      .map(row => ({
+        ...row,
+        source_chunks: row.source_chunks ? safeJsonParse(row.source_chunks, []) : undefined,
+      }))
 
     // Get output with JSON parsing
     const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
-    const outputRow = outputStmt.get(id) as (Omit<Output, 'hooks' | 'hooks_original' | 'ctas' | 'ctas_original' | 'visual_concepts' | 'visual_concepts_original' | 'intros' | 'intros_original' | 'titles' | 'titles_original'> & {
+    const outputRow = outputStmt.get(id) as (Omit<Output, 'hooks' | 'hooks_original' | 'thread' | 'thread_original' | 'newsletter_sections' | 'newsletter_sections_original' | 'subject_lines' | 'subject_lines_original' | 'preview_texts' | 'preview_texts_original' | 'ctas' | 'ctas_original' | 'hashtag_sets' | 'hashtag_sets_original' | 'visual_concepts' | 'visual_concepts_original' | 'intros' | 'intros_original' | 'titles' | 'titles_original'> & {
       hooks: string
       hooks_original: string
+      thread: string
+      thread_original: string
+      newsletter_sections: string
+      newsletter_sections_original: string
+      subject_lines: string
+      subject_lines_original: string
+      preview_texts: string
+      preview_texts_original: string
       ctas: string
       ctas_original: string
+      hashtag_sets: string
+      hashtag_sets_original: string
       visual_concepts: string
       visual_concepts_original: string
       intros: string
@@ -45,7 +63,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     if (outputRow) {
       output = {
         id: outputRow.id,
-        session_id: outputRow.session_id,
         project_id: outputRow.project_id,
         hooks: safeJsonParse(outputRow.hooks, []),
         hooks_original: safeJsonParse(outputRow.hooks_original, []),
@@ -53,6 +70,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         body_content: outputRow.body_content || '',
         body_content_original: outputRow.body_content_original || '',
         selected_body_index: outputRow.selected_body_index ?? -1,
+        thread: safeJsonParse(outputRow.thread, []),
+        thread_original: safeJsonParse(outputRow.thread_original, []),
+        newsletter_sections: safeJsonParse(outputRow.newsletter_sections, []),
+        newsletter_sections_original: safeJsonParse(outputRow.newsletter_sections_original, []),
+        subject_lines: safeJsonParse(outputRow.subject_lines, []),
+        subject_lines_original: safeJsonParse(outputRow.subject_lines_original, []),
+        selected_subject_index: outputRow.selected_subject_index ?? -1,
+        preview_texts: safeJsonParse(outputRow.preview_texts, []),
+        preview_texts_original: safeJsonParse(outputRow.preview_texts_original, []),
+        selected_preview_index: outputRow.selected_preview_index ?? -1,
         intros: safeJsonParse(outputRow.intros, []),
         intros_original: safeJsonParse(outputRow.intros_original, []),
         selected_intro_index: outputRow.selected_intro_index ?? -1,
@@ -62,11 +89,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         ctas: safeJsonParse(outputRow.ctas, []),
         ctas_original: safeJsonParse(outputRow.ctas_original, []),
         selected_cta_index: outputRow.selected_cta_index ?? -1,
+        hashtag_sets: safeJsonParse(outputRow.hashtag_sets, []),
+        hashtag_sets_original: safeJsonParse(outputRow.hashtag_sets_original, []),
+        selected_hashtag_index: outputRow.selected_hashtag_index ?? -1,
         visual_concepts: safeJsonParse(outputRow.visual_concepts, []),
         visual_concepts_original: safeJsonParse(outputRow.visual_concepts_original, []),
         selected_visual_index: outputRow.selected_visual_index ?? -1,
         research_context: outputRow.research_context ? safeJsonParse(outputRow.research_context as unknown as string, undefined) : undefined,
         citations: safeJsonParse(outputRow.citations as unknown as string, []),
+        examples_used: safeJsonParse(outputRow.examples_used as unknown as string, []),
+        source_chunks_used: safeJsonParse(outputRow.source_chunks_used as unknown as string, []),
         created_at: outputRow.created_at,
         updated_at: outputRow.updated_at,
       }
@@ -74,7 +106,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Get generated images (including image data for display)
     const imagesStmt = db.prepare(`
-      SELECT id, project_id, prompt, image_data, image_url, width, height, model, is_upscaled, parent_image_id, visual_concept_index, created_at
+      SELECT id, project_id, prompt, image_data, image_url, width, height, model, is_upscaled, parent_image_id, visual_concept_index, alt_text, created_at
       FROM generated_images
       WHERE project_id = ?
       ORDER BY created_at DESC
@@ -91,6 +123,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       is_upscaled: number
       parent_image_id: string | null
       visual_concept_index: number | null
+      alt_text: string
       created_at: string
     }>
 
@@ -107,6 +140,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       is_upscaled: img.is_upscaled === 1,
       parent_image_id: img.parent_image_id,
       visual_concept_index: img.visual_concept_index ?? undefined,
+      alt_text: img.alt_text,
       created_at: img.created_at,
     }))
 
@@ -121,6 +155,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       project,
+      // The platform's steps, limits and image size, so the page needs no platform switches
+      platform: getProjectPlatform(project.platform),
       messages,
       output,
       generatedImages,
@@ -142,10 +178,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const body = await request.json() as UpdateProjectRequest
 
     // Verify project exists
-    const checkStmt = db.prepare('SELECT id FROM projects WHERE id = ?')
-    const exists = checkStmt.get(id)
+    const checkStmt = db.prepare('SELECT id, status FROM projects WHERE id = ?')
+    const existing = checkStmt.get(id) as Pick<Project, 'id' | 'status'> | undefined
 
-    if (!exists) {
+    if (!existing) {
       return NextResponse.json(
         { error: 'Project not found' },
         { status: 404 }
@@ -153,7 +189,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const updates: string[] = []
-    const values: (string | null)[] = []
+    const values: (string | number | null)[] = []
 
     if (body.name !== undefined) {
       updates.push('name = ?')
@@ -176,7 +212,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     if (body.platform !== undefined) {
-      if (!['linkedin', 'youtube', 'facebook'].includes(body.platform)) {
+      if (!getPlatform(body.platform)) {
         return NextResponse.json(
           { error: 'Invalid platform' },
           { status: 400 }
@@ -203,7 +239,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     if (body.current_step !== undefined) {
-      const validSteps = ['setup', 'hooks', 'body', 'intros', 'titles', 'ctas', 'visuals', 'thumbnails', 'carousel', 'complete']
+      const validSteps = ['setup', 'hooks', 'body', 'thread', 'caption', 'outline', 'sections', 'subject_lines', 'preview_texts', 'intros', 'titles', 'ctas', 'hashtags', 'visuals', 'alt_text', 'thumbnails', 'carousel', 'complete']
       if (!validSteps.includes(body.current_step)) {
         return NextResponse.json(
           { error: 'Invalid current_step' },
@@ -214,6 +250,40 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       values.push(body.current_step)
     }
 
+    // Planned publish date: null (or empty) takes the project off the calendar
+    if (body.scheduled_at !== undefined) {
+      if (body.scheduled_at && isNaN(Date.parse(body.scheduled_at))) {
+        return NextResponse.json(
+          { error: 'Invalid scheduled_at' },
+          { status: 400 }
+        )
+      }
+      updates.push('scheduled_at = ?')
+      values.push(body.scheduled_at ? new Date(body.scheduled_at).toISOString() : null)
+    }
+
+    // Text provider override: null (or empty) clears it back to the global setting
+    if (body.llm_provider !== undefined) {
+      if (body.llm_provider && !isTextProviderId(body.llm_provider)) {
+        return NextResponse.json(
+          { error: 'Invalid llm_provider' },
+          { status: 400 }
+        )
+      }
+      updates.push('llm_provider = ?')
+      values.push(body.llm_provider || null)
+    }
+
+    if (body.llm_model !== undefined) {
+      updates.push('llm_model = ?')
+      values.push(body.llm_model?.trim() || null)
+    }
+
+    if (body.use_performance_examples !== undefined) {
+      updates.push('use_performance_examples = ?')
+      values.push(body.use_performance_examples ? 1 : 0)
+    }
+
     if (updates.length === 0) {
       return NextResponse.json(
         { error: 'No valid fields to update' },
@@ -228,9 +298,19 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const updateStmt = db.prepare(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`)
     updateStmt.run(...values)
 
+    // A queued auto-publish follows the planned date
+    if (body.scheduled_at !== undefined) {
+      syncPublishSchedule(id, body.scheduled_at ? new Date(body.scheduled_at).toISOString() : null)
+    }
+
     const getStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
     const updatedProject = getStmt.get(id) as Project
 
+    if (body.status !== undefined && body.status !== existing.status) {
+      if (body.status === 'complete') emitProjectEvent('project.completed', id)
+      if (body.status === 'published') emitProjectEvent('project.published', id, { publisher: null })
+    }
+
     return NextResponse.json(updatedProject)
   } catch (error) {
     console.error('Error updating project:', error)
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
+import { isTextProviderId } from '@/lib/llm'
+import { getPlatform } from '@/lib/platforms'
+import { emitProjectEvent } from '@/lib/webhooks'
 import type { Project, ProjectStatus, Platform, CreateProjectRequest } from '@/types'
 
 // GET /api/projects - List all projects with optional filters
@@ -53,7 +56,9 @@ export async function POST(request: NextRequest) {
       topic,
       target_audience = '',
       content_style = '',
-      platform = 'linkedin'
+      platform = 'linkedin',
+      llm_provider = null,
+      llm_model = null
     } = body
 
     if (!name || typeof name !== 'string') {
@@ -70,23 +75,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate platform
-    if (!['linkedin', 'youtube', 'facebook'].includes(platform)) {
+    // Validate platform against the registry (built-in or custom)
+    const platformDefinition = getPlatform(platform)
+    if (!platformDefinition) {
       return NextResponse.json(
-        { error: 'Invalid platform. Must be linkedin, youtube, or facebook' },
+        { error: `Unknown platform: ${platform}` },
+        { status: 400 }
+      )
+    }
+
+    if (llm_provider && !isTextProviderId(llm_provider)) {
+      return NextResponse.json(
+        { error: 'Invalid llm_provider' },
         { status: 400 }
       )
     }
 
     const id = generateId()
     const now = new Date().toISOString()
+    // The step after setup: hooks for posts, the outline for newsletters
+    const firstStep = platformDefinition.steps[1]
+    const providerOverride = llm_provider || null
+    const modelOverride = llm_model?.trim() || null
 
     const stmt = db.prepare(`
-      INSERT INTO projects (id, name, topic, target_audience, content_style, platform, status, current_step, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'in_progress', 'hooks', ?, ?)
+      INSERT INTO projects (id, name, topic, target_audience, content_style, platform, status, current_step, created_at, updated_at, llm_provider, llm_model)
+      VALUES (?, ?, ?, ?, ?, ?, 'in_progress', ?, ?, ?, ?, ?)
     `)
 
-    stmt.run(id, name, topic, target_audience, content_style, platform, now, now)
+    stmt.run(id, name, topic, target_audience, content_style, platform, firstStep, now, now, providerOverride, modelOverride)
 
     const newProject: Project = {
       id,
@@ -96,13 +113,19 @@ export async function POST(request: NextRequest) {
       content_style,
       platform,
       status: 'in_progress',
-      current_step: 'hooks',
+      current_step: firstStep,
       created_at: now,
       updated_at: now,
       published_at: null,
+      scheduled_at: null,
       remix_of_project_id: null,
+      repurposed_from_project_id: null,
+      llm_provider: providerOverride,
+      llm_model: modelOverride,
     }
 
+    emitProjectEvent('project.created', id)
+
     return NextResponse.json(newProject, { status: 201 })
   } catch (error) {
     console.error('Error creating project:', error)
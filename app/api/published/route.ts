@@ -1,23 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import type { Session } from '@/types'
+import type { PerformanceNotes, Project, PublishedProject } from '@/types'
 
-interface PerformanceNote {
-  id: string
-  session_id: string
-  views: number | null
-  likes: number | null
-  comments: number | null
-  reposts: number | null
-  notes: string
-  recorded_at: string
-}
-
-export interface PublishedSession extends Session {
-  performance: PerformanceNote | null
-}
-
-// GET /api/published - Get all published sessions with performance metrics
+// GET /api/published - Get all published projects with performance metrics
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -42,27 +27,27 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get all published sessions
-    const sessionsStmt = db.prepare(`
-      SELECT * FROM sessions
+    // Get all published projects
+    const projectsStmt = db.prepare(`
+      SELECT * FROM projects
       WHERE status = 'published'
       ORDER BY published_at DESC
     `)
-    const sessions = sessionsStmt.all() as Session[]
+    const projects = projectsStmt.all() as Project[]
 
-    // Get performance notes for all these sessions
-    const performanceStmt = db.prepare('SELECT * FROM performance_notes WHERE session_id = ?')
+    // Get performance notes for all these projects
+    const performanceStmt = db.prepare('SELECT * FROM performance_notes WHERE project_id = ?')
 
-    const publishedSessions: PublishedSession[] = sessions.map(session => {
-      const performance = performanceStmt.get(session.id) as PerformanceNote | undefined
+    const publishedProjects: PublishedProject[] = projects.map(project => {
+      const performance = performanceStmt.get(project.id) as PerformanceNotes | undefined
       return {
-        ...session,
+        ...project,
         performance: performance || null,
       }
     })
 
     // Sort by the requested field
-    publishedSessions.sort((a, b) => {
+    publishedProjects.sort((a, b) => {
       let aVal: number | string | null
       let bVal: number | string | null
 
@@ -71,8 +56,8 @@ export async function GET(request: NextRequest) {
         bVal = b.published_at || ''
       } else {
         // Sort by performance metrics
-        aVal = a.performance?.[sortBy as keyof PerformanceNote] as number | null ?? null
-        bVal = b.performance?.[sortBy as keyof PerformanceNote] as number | null ?? null
+        aVal = a.performance?.[sortBy as keyof PerformanceNotes] as number | null ?? null
+        bVal = b.performance?.[sortBy as keyof PerformanceNotes] as number | null ?? null
       }
 
       // Handle nulls - put them at the end
@@ -88,11 +73,11 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    return NextResponse.json({ sessions: publishedSessions })
+    return NextResponse.json({ projects: publishedProjects })
   } catch (error) {
-    console.error('Error fetching published sessions:', error)
+    console.error('Error fetching published projects:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch published sessions' },
+      { error: 'Failed to fetch published projects' },
       { status: 500 }
     )
   }
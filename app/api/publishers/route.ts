@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { listPublishers } from '@/lib/publishing'
+
+// GET /api/publishers - List publishers with their configuration status
+export async function GET() {
+  try {
+    return NextResponse.json({ publishers: listPublishers() })
+  } catch (error) {
+    console.error('Error listing publishers:', error)
+    return NextResponse.json(
+      { error: 'Failed to list publishers' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,32 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
-import anthropic, { SYSTEM_PROMPT, SECTION_PROMPTS, isConfigured } from '@/lib/claude'
+import { SYSTEM_PROMPT, SECTION_PROMPTS } from '@/lib/claude'
+import { resolveModelSelection, isSelectionConfigured, notConfiguredMessage, generateText, type ModelSelection } from '@/lib/llm'
 import { composeSystemPrompt } from '@/lib/prompts/compose'
-import type { Output, Message, VisualConcept, Project, Session, Platform, RegenerateSection } from '@/types'
+import { mergeGenerationExamples, selectGenerationExamples, usesPerformanceExamples } from '@/lib/prompts/examples'
+import { fitTweets, splitIntoTweets } from '@/lib/thread'
+import { normalizeHashtagSet } from '@/lib/caption'
+import { getProjectPlatform } from '@/lib/platforms'
+import { formatOutlineForPrompt, normalizeSections, sectionsToMarkdown } from '@/lib/newsletter'
+import { buildGenerationQuery, retrieveSourceChunks, formatSourceChunksForPrompt, toChunkReferences, type RetrievedChunk } from '@/lib/sources'
+import { formatCitationsForPrompt } from '@/lib/citations'
+import { recordContentVersion } from '@/lib/versions'
+import type { Output, Message, VisualConcept, Project, Platform, RegenerateSection, GenerationExample, NewsletterSection, Citation } from '@/types'
 import { safeJsonParse } from '@/lib/utils'
 
 interface DbOutput {
   id: string
-  session_id?: string
-  project_id?: string
+  project_id: string
   hooks: string
   hooks_original: string
   body_content: string
   body_content_original: string
+  thread: string
+  thread_original: string
+  newsletter_sections: string
+  newsletter_sections_original: string
+  subject_lines: string
+  subject_lines_original: string
+  preview_texts: string
+  preview_texts_original: string
   intros: string
   intros_original: string
   titles: string
   titles_original: string
   ctas: string
   ctas_original: string
+  hashtag_sets: string
+  hashtag_sets_original: string
   visual_concepts: string
   visual_concepts_original: string
   selected_hook_index: number
   selected_body_index: number
+  selected_subject_index: number
+  selected_preview_index: number
   selected_intro_index: number
   selected_title_index: number
   selected_cta_index: number
+  selected_hashtag_index: number
   selected_visual_index: number
+  examples_used: string
+  source_chunks_used: string
+  citations: string
   created_at: string
   updated_at: string
 }
@@ -49,130 +73,178 @@ Return as a JSON array of strings.`,
 - Create curiosity without being clickbait
 - Accurately represent the content
 Return as a JSON array of strings.`,
+  thread: `Write the tweets of an X (Twitter) thread that follows the opening hook. The thread should:
+- Have 4-8 tweets, each under 270 characters
+- Make one clear point per tweet, readable on its own
+- Flow from the hook to a natural closing point (the call to action is added separately)
+- Not number the tweets or use hashtags
+Return as a JSON array of strings, one per tweet.`,
+  outline: `Outline a newsletter issue or long-form article. The outline should:
+- Have four to seven sections in reading order, from why the topic matters to what readers should do next
+- Give each section a specific, scannable heading
+- Summarize in one or two sentences what each section covers
+Return as a JSON array of objects like {"heading": "...", "summary": "..."}.`,
+  sections: `Write the newsletter sections marked [WRITE THIS SECTION] in the outline below. Each section should:
+- Be two hundred to four hundred words in short paragraphs, following its heading and summary
+- Lead into the next section without repeating earlier ones
+- Use "- " bullet lists where they help, and no headings (the heading is added separately)
+Return as a JSON array of strings, one per marked section, in outline order.`,
+  subject_lines: `Generate 5 email subject lines for the newsletter. Each subject line should:
+- Be under sixty characters so it isn't cut off in the inbox
+- Make the reader want to open without being clickbait
+- Avoid ALL CAPS and spammy words like "free" or "act now"
+Return as a JSON array of strings.`,
+  preview_texts: `Generate 3 preview texts (the line shown after the subject line in the inbox). Each should:
+- Be under a hundred and ten characters
+- Add to the subject line rather than repeat it
+- Give a concrete reason to open
+Return as a JSON array of strings.`,
+  hashtags: `Generate 3 alternative hashtag sets for the post. Each set should:
+- On Instagram, have ten to twenty relevant hashtags mixing broad and niche tags
+- On Threads, be a single topic tag
+- Use no spaces inside a tag
+Return as a JSON array of strings, each a space-separated set like "#tag #another".`,
 }
 
 // POST /api/regenerate - Regenerate a specific section of the output
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { session_id, project_id, section, append = false } = body as {
-      session_id?: string
+    const { project_id, section, section_id, append = false } = body as {
       project_id?: string
       section: RegenerateSection
+      section_id?: string // For 'sections': draft only this newsletter section
       append?: boolean // If true, append new content to existing instead of replacing
     }
 
-    if (!session_id && !project_id) {
+    if (!project_id) {
       return NextResponse.json(
-        { error: 'Either session_id or project_id is required' },
+        { error: 'project_id is required' },
         { status: 400 }
       )
     }
 
-    const validSections: RegenerateSection[] = ['hooks', 'body', 'intros', 'titles', 'ctas', 'visuals']
+    const validSections: RegenerateSection[] = ['hooks', 'body', 'thread', 'outline', 'sections', 'subject_lines', 'preview_texts', 'intros', 'titles', 'ctas', 'hashtags', 'visuals']
     if (!section || !validSections.includes(section)) {
       return NextResponse.json(
-        { error: 'Valid section is required (hooks, body, intros, titles, ctas, or visuals)' },
+        { error: 'Valid section is required (hooks, body, thread, outline, sections, subject_lines, preview_texts, intros, titles, ctas, hashtags, or visuals)' },
         { status: 400 }
       )
     }
 
-    // Check if Claude is configured
-    if (!isConfigured()) {
+    // Check that the selected text provider is configured
+    const selection = resolveModelSelection(project_id)
+    if (!isSelectionConfigured(selection)) {
       return NextResponse.json(
-        { error: 'Claude API is not configured. Please set ANTHROPIC_API_KEY in .env.local' },
+        { error: notConfiguredMessage(selection) },
         { status: 503 }
       )
     }
 
-    let contextInfo: { topic: string; platform: Platform; targetAudience?: string; contentStyle?: string } | null = null
-    let messages: Message[] = []
-    let existingOutput: DbOutput | undefined
+    const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
+    const project = projectStmt.get(project_id) as Project | undefined
 
-    // Handle project-based regeneration (new)
-    if (project_id) {
-      const projectStmt = db.prepare('SELECT * FROM projects WHERE id = ?')
-      const project = projectStmt.get(project_id) as Project | undefined
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
 
-      if (!project) {
-        return NextResponse.json(
-          { error: 'Project not found' },
-          { status: 404 }
-        )
-      }
+    const contextInfo = {
+      topic: project.topic,
+      platform: project.platform,
+      targetAudience: project.target_audience,
+      contentStyle: project.content_style,
+    }
 
-      contextInfo = {
-        topic: project.topic,
-        platform: project.platform,
-        targetAudience: project.target_audience,
-        contentStyle: project.content_style,
-      }
+    const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const existingOutput = outputStmt.get(project_id) as DbOutput | undefined
 
-      const outputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
-      existingOutput = outputStmt.get(project_id) as DbOutput | undefined
+    const messagesStmt = db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY created_at ASC')
+    const messages = messagesStmt.all(project_id) as Message[]
 
-      const messagesStmt = db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY created_at ASC')
-      messages = messagesStmt.all(project_id) as Message[]
+    if (!existingOutput) {
+      return NextResponse.json(
+        { error: 'Output not found. Please generate content first.' },
+        { status: 404 }
+      )
     }
-    // Handle session-based regeneration (legacy)
-    else if (session_id) {
-      const sessionStmt = db.prepare('SELECT * FROM sessions WHERE id = ?')
-      const session = sessionStmt.get(session_id) as Session | undefined
 
-      if (!session) {
+    // Newsletter sections are drafted from the current outline: all of them, or just one
+    const newsletterSections = safeJsonParse<NewsletterSection[]>(existingOutput.newsletter_sections, [])
+    let draftIds: string[] = []
+    if (section === 'sections') {
+      if (newsletterSections.length === 0) {
         return NextResponse.json(
-          { error: 'Session not found' },
-          { status: 404 }
+          { error: 'Create an outline before drafting sections' },
+          { status: 400 }
         )
       }
-
-      contextInfo = {
-        topic: session.original_idea,
-        platform: 'linkedin',
+      if (section_id && !newsletterSections.some(s => s.id === section_id)) {
+        return NextResponse.json(
+          { error: 'Newsletter section not found' },
+          { status: 404 }
+        )
       }
-
-      const outputStmt = db.prepare('SELECT * FROM outputs WHERE session_id = ?')
-      existingOutput = outputStmt.get(session_id) as DbOutput | undefined
-
-      const messagesStmt = db.prepare('SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC')
-      messages = messagesStmt.all(session_id) as Message[]
+      draftIds = section_id ? [section_id] : newsletterSections.map(s => s.id)
     }
 
-    if (!existingOutput) {
-      return NextResponse.json(
-        { error: 'Output not found. Please generate content first.' },
-        { status: 404 }
-      )
-    }
+    // Few-shot examples from our own top posts and favorites, if the project opted in
+    const examples = usesPerformanceExamples(project_id)
+      ? selectGenerationExamples(project_id, project.platform, section)
+      : []
 
-    if (!contextInfo) {
-      return NextResponse.json(
-        { error: 'Unable to load context' },
-        { status: 500 }
-      )
+    // Generate new content for the specific section
+    const outline = section === 'sections' ? formatOutlineForPrompt(newsletterSections, draftIds) : undefined
+
+    // The source passages most relevant to this section (a newsletter's outline says what it covers)
+    let sourceChunks: RetrievedChunk[] = []
+    try {
+      sourceChunks = await retrieveSourceChunks(project_id, buildGenerationQuery(contextInfo, messages, outline), 8000)
+    } catch (err) {
+      console.error('Failed to load project sources:', err)
     }
 
-    // Generate new content for the specific section using Claude
-    const regeneratedContent = await regenerateSection(section, contextInfo, messages, project_id, append ? 2 : undefined)
+    const regeneratedContent = await regenerateSection(selection, section, contextInfo, messages, project_id, examples, sourceChunks, append ? 2 : undefined, outline)
 
     const now = new Date().toISOString()
-    const idColumn = project_id ? 'project_id' : 'session_id'
-    const idValue = project_id || session_id
 
     // Map section to database column
     const sectionToColumn: Record<RegenerateSection, string> = {
       hooks: 'hooks',
       body: 'body_content',
+      thread: 'thread',
+      outline: 'newsletter_sections',
+      sections: 'newsletter_sections',
+      subject_lines: 'subject_lines',
+      preview_texts: 'preview_texts',
       intros: 'intros',
       titles: 'titles',
       ctas: 'ctas',
+      hashtags: 'hashtag_sets',
       visuals: 'visual_concepts',
     }
 
     const column = sectionToColumn[section]
     let value: string
 
-    if (append && section !== 'body') {
+    // Drafts fill in the bodies of the targeted sections, in outline order
+    let sectionsValue: NewsletterSection[] | null = null
+    if (section === 'sections') {
+      const drafts = regeneratedContent as string[]
+      sectionsValue = newsletterSections.map(s => {
+        const draftIndex = draftIds.indexOf(s.id)
+        return draftIndex >= 0 && drafts[draftIndex] ? { ...s, body: drafts[draftIndex] } : s
+      })
+    } else if (section === 'outline') {
+      // A new outline always replaces the old one; its sections start undrafted
+      sectionsValue = regeneratedContent as NewsletterSection[]
+    }
+
+    if (sectionsValue) {
+      value = JSON.stringify(sectionsValue)
+    } else if (append && section !== 'body' && section !== 'thread') {
       // Append new content to existing
       const existingContent = safeJsonParse(existingOutput[column as keyof DbOutput] as string, [])
       const newContent = [...existingContent, ...(regeneratedContent as unknown[])]
@@ -181,16 +253,32 @@ export async function POST(request: NextRequest) {
       value = section === 'body' ? regeneratedContent as string : JSON.stringify(regeneratedContent)
     }
 
-    const updateStmt = db.prepare(`UPDATE outputs SET ${column} = ?, updated_at = ? WHERE ${idColumn} = ?`)
-    updateStmt.run(value, now, idValue)
+    const updateStmt = db.prepare(`UPDATE outputs SET ${column} = ?, examples_used = ?, source_chunks_used = ?, updated_at = ? WHERE project_id = ?`)
+    const examplesUsed = mergeGenerationExamples(safeJsonParse<GenerationExample[]>(existingOutput.examples_used, []), examples, section)
+    updateStmt.run(value, JSON.stringify(examplesUsed), JSON.stringify(toChunkReferences(sourceChunks)), now, project_id)
+
+    if (section === 'body') {
+      recordContentVersion(project_id, 'body', 0, existingOutput.body_content, value, 'assistant')
+    }
+
+    // The body mirrors an X thread so word counts and exports stay in step
+    if (section === 'thread') {
+      db.prepare('UPDATE outputs SET body_content = ? WHERE project_id = ?')
+        .run((regeneratedContent as string[]).join('\n\n'), project_id)
+    }
+
+    // The body mirrors a newsletter's drafted sections the same way
+    if (sectionsValue) {
+      db.prepare('UPDATE outputs SET body_content = ? WHERE project_id = ?')
+        .run(sectionsToMarkdown(sectionsValue), project_id)
+    }
 
     // Fetch updated output
-    const outputStmt = db.prepare(`SELECT * FROM outputs WHERE ${idColumn} = ?`)
-    const updatedDbOutput = outputStmt.get(idValue) as DbOutput
+    const updatedOutputStmt = db.prepare('SELECT * FROM outputs WHERE project_id = ?')
+    const updatedDbOutput = updatedOutputStmt.get(project_id) as DbOutput
 
     const output: Output = {
       id: updatedDbOutput.id,
-      session_id: updatedDbOutput.session_id,
       project_id: updatedDbOutput.project_id,
       hooks: safeJsonParse(updatedDbOutput.hooks, []),
       hooks_original: safeJsonParse(updatedDbOutput.hooks_original, []),
@@ -198,6 +286,16 @@ export async function POST(request: NextRequest) {
       body_content: updatedDbOutput.body_content,
       body_content_original: updatedDbOutput.body_content_original,
       selected_body_index: updatedDbOutput.selected_body_index ?? -1,
+      thread: safeJsonParse(updatedDbOutput.thread, []),
+      thread_original: safeJsonParse(updatedDbOutput.thread_original, []),
+      newsletter_sections: safeJsonParse(updatedDbOutput.newsletter_sections, []),
+      newsletter_sections_original: safeJsonParse(updatedDbOutput.newsletter_sections_original, []),
+      subject_lines: safeJsonParse(updatedDbOutput.subject_lines, []),
+      subject_lines_original: safeJsonParse(updatedDbOutput.subject_lines_original, []),
+      selected_subject_index: updatedDbOutput.selected_subject_index ?? -1,
+      preview_texts: safeJsonParse(updatedDbOutput.preview_texts, []),
+      preview_texts_original: safeJsonParse(updatedDbOutput.preview_texts_original, []),
+      selected_preview_index: updatedDbOutput.selected_preview_index ?? -1,
       intros: safeJsonParse(updatedDbOutput.intros, []),
       intros_original: safeJsonParse(updatedDbOutput.intros_original, []),
       selected_intro_index: updatedDbOutput.selected_intro_index ?? -1,
@@ -207,9 +305,15 @@ export async function POST(request: NextRequest) {
       ctas: safeJsonParse(updatedDbOutput.ctas, []),
       ctas_original: safeJsonParse(updatedDbOutput.ctas_original, []),
       selected_cta_index: updatedDbOutput.selected_cta_index ?? -1,
+      hashtag_sets: safeJsonParse(updatedDbOutput.hashtag_sets, []),
+      hashtag_sets_original: safeJsonParse(updatedDbOutput.hashtag_sets_original, []),
+      selected_hashtag_index: updatedDbOutput.selected_hashtag_index ?? -1,
       visual_concepts: safeJsonParse(updatedDbOutput.visual_concepts, []),
       visual_concepts_original: safeJsonParse(updatedDbOutput.visual_concepts_original, []),
       selected_visual_index: updatedDbOutput.selected_visual_index ?? -1,
+      examples_used: safeJsonParse(updatedDbOutput.examples_used, []),
+      source_chunks_used: safeJsonParse(updatedDbOutput.source_chunks_used, []),
+      citations: safeJsonParse(updatedDbOutput.citations, []),
       created_at: updatedDbOutput.created_at,
       updated_at: updatedDbOutput.updated_at,
     }
@@ -224,14 +328,18 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Regenerate a specific section using Claude API
+// Regenerate a specific section using the selected text provider
 async function regenerateSection(
+  selection: ModelSelection,
   section: RegenerateSection,
   contextInfo: { topic: string; platform: Platform; targetAudience?: string; contentStyle?: string },
   messages: Message[],
-  projectId?: string,
-  count?: number // Optional count for generating fewer items (used in append mode)
-): Promise<string[] | string | VisualConcept[]> {
+  projectId: string,
+  examples: GenerationExample[],
+  sourceChunks: RetrievedChunk[],
+  count?: number, // Optional count for generating fewer items (used in append mode)
+  outline?: string // The newsletter outline, for drafting sections
+): Promise<string[] | string | VisualConcept[] | NewsletterSection[]> {
   // Build conversation context
   const conversationContext = messages.map(m => `${m.role}: ${m.content}`).join('\n\n')
 
@@ -243,53 +351,47 @@ async function regenerateSection(
   if (contextInfo.contentStyle) {
     contextDesc += `\nContent style/tone: ${contextInfo.contentStyle}`
   }
-  contextDesc += `\nPlatform: ${contextInfo.platform}`
+  const platform = getProjectPlatform(contextInfo.platform)
+  contextDesc += `\nPlatform: ${platform.label}`
+
+  // Add the source passages picked for this section
+  if (sourceChunks.length > 0) {
+    contextDesc += '\n\n--- Reference Materials ---\n'
+    contextDesc += 'Use these sources to inform your content:\n\n'
+    contextDesc += formatSourceChunksForPrompt(sourceChunks) + '\n\n'
+  }
 
-  // Add uploaded text sources if available
-  if (projectId) {
-    try {
-      const sourcesStmt = db.prepare(
-        'SELECT title, content FROM project_sources WHERE project_id = ? AND enabled = 1 ORDER BY created_at ASC'
+  try {
+    if (section === 'visuals') {
+      const assetsStmt = db.prepare(
+        'SELECT type, filename FROM project_assets WHERE project_id = ?'
       )
-      const sources = sourcesStmt.all(projectId) as { title: string; content: string }[]
-
-      if (sources.length > 0) {
-        let totalChars = 0
-        const MAX_CHARS = 8000
-        contextDesc += '\n\n--- Reference Materials ---\n'
-        contextDesc += 'Use these sources to inform your content:\n\n'
-        for (const source of sources) {
-          const available = MAX_CHARS - totalChars
-          if (available <= 0) break
-          const content = source.content.length > available
-            ? source.content.substring(0, available) + '...[truncated]'
-            : source.content
-          contextDesc += `### ${source.title}\n${content}\n\n`
-          totalChars += content.length
-        }
-      }
-
-      if (section === 'visuals') {
-        const assetsStmt = db.prepare(
-          'SELECT type, filename FROM project_assets WHERE project_id = ?'
-        )
-        const assets = assetsStmt.all(projectId) as { type: string; filename: string }[]
-        if (assets.length > 0) {
-          contextDesc += '\n\n--- Visual References ---\n'
-          contextDesc += 'Reference images provided: '
-          contextDesc += assets.map(a => `${a.filename} (${a.type.replace('_', ' ')})`).join(', ')
-          contextDesc += '\nUse their style/branding in visual concept descriptions.\n'
-        }
+      const assets = assetsStmt.all(projectId) as { type: string; filename: string }[]
+      if (assets.length > 0) {
+        contextDesc += '\n\n--- Visual References ---\n'
+        contextDesc += 'Reference images provided: '
+        contextDesc += assets.map(a => `${a.filename} (${a.type.replace('_', ' ')})`).join(', ')
+        contextDesc += '\nUse their style/branding in visual concept descriptions.\n'
       }
-    } catch (err) {
-      console.error('Failed to load project sources:', err)
     }
+  } catch (err) {
+    console.error('Failed to load project assets:', err)
   }
 
   let sectionPrompt = EXTENDED_SECTION_PROMPTS[section]
 
+  // A post or caption body keeps marking the sentences that use the project's research
+  if (section === 'body' && (platform.format === 'post' || platform.format === 'caption')) {
+    const stored = db.prepare('SELECT citations FROM outputs WHERE project_id = ?').get(projectId) as { citations: string } | undefined
+    contextDesc += formatCitationsForPrompt(safeJsonParse<Citation[]>(stored?.citations || '[]', []))
+  }
+
+  if (outline) {
+    sectionPrompt += `\n\nOutline:\n${outline}`
+  }
+
   // If count is specified, modify the prompt to generate fewer items
-  if (count && section !== 'body') {
+  if (count && section !== 'body' && section !== 'thread' && section !== 'sections') {
     sectionPrompt = sectionPrompt.replace(/\d+ /g, (match) => {
       const num = parseInt(match)
       if (num > 2) return `${count} `
@@ -304,14 +406,15 @@ ${conversationContext || 'No conversation yet.'}
 
 Task: ${sectionPrompt}`
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 1024,
-    system: composeSystemPrompt(SYSTEM_PROMPT, contextInfo.platform, section),
-    messages: [{ role: 'user', content: prompt }]
+  const response = await generateText(selection, {
+    // Drafting several long newsletter sections needs more room than a list of options
+    maxTokens: section === 'sections' ? 4096 : 1024,
+    system: composeSystemPrompt(SYSTEM_PROMPT, contextInfo.platform, section, examples),
+    messages: [{ role: 'user', content: prompt }],
+    task: `regenerate:${section}`,
   })
 
-  const responseText = response.content[0].type === 'text' ? response.content[0].text : ''
+  const responseText = response.text
 
   // For body content, return as string
   if (section === 'body') {
@@ -341,9 +444,30 @@ Task: ${sectionPrompt}`
     }
     jsonStr = jsonStr.trim()
 
-    return JSON.parse(jsonStr)
+    const parsed = JSON.parse(jsonStr)
+    if (section === 'thread') {
+      if (!Array.isArray(parsed)) throw new Error('Thread response is not an array')
+      return fitTweets(parsed.filter((tweet): tweet is string => typeof tweet === 'string'))
+    }
+    if (section === 'outline') {
+      const sections = normalizeSections(parsed)
+      if (sections.length === 0) throw new Error('Outline response has no sections')
+      return sections
+    }
+    if (section === 'sections') {
+      if (!Array.isArray(parsed)) throw new Error('Sections response is not an array')
+      return parsed.map(draft => typeof draft === 'string' ? draft.trim() : '')
+    }
+    if (section === 'hashtags') {
+      if (!Array.isArray(parsed)) throw new Error('Hashtag response is not an array')
+      return parsed
+        .filter((set): set is string => typeof set === 'string')
+        .map(set => platform.format === 'caption' ? normalizeHashtagSet(set, platform.hashtagLimit) : set.trim())
+        .filter(Boolean)
+    }
+    return parsed
   } catch {
-    console.error('Failed to parse Claude response as JSON:', responseText)
+    console.error('Failed to parse model response as JSON:', responseText)
 
     // Return fallback based on section type
     switch (section) {
@@ -353,6 +477,33 @@ Task: ${sectionPrompt}`
           'I used to think this was complicated. Then I learned this...',
           'What if everything you knew about this was wrong?'
         ]
+      case 'thread':
+        // Keep whatever prose came back, split into tweets
+        return splitIntoTweets(responseText)
+      case 'outline':
+        return normalizeSections([
+          { heading: 'Why this matters now', summary: 'The problem and why readers should care.' },
+          { heading: 'What most people get wrong', summary: 'The common approach and where it falls short.' },
+          { heading: 'A better way', summary: 'The core idea, with an example.' },
+          { heading: 'What to do next', summary: 'Concrete steps readers can take this week.' }
+        ])
+      case 'sections':
+        // A single section can come back as plain prose
+        return outline && outline.split('[WRITE THIS SECTION]').length === 2 ? [responseText.trim()] : []
+      case 'subject_lines':
+        return [
+          'The one change that made the difference',
+          'What I wish I had known sooner',
+          'A better way to think about this',
+          'Three lessons from this week',
+          'Before you try this, read this'
+        ]
+      case 'preview_texts':
+        return [
+          'The short version, plus what to do about it this week.',
+          'What worked, what didn\'t, and the one thing I\'d do differently.',
+          'A five-minute read that might save you a few hours.'
+        ]
       case 'intros':
         return [
           'Hey everyone! Welcome back to the channel. Today we\'re diving into something exciting...',
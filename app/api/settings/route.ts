@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { invalidatePromptCache } from '@/lib/prompts/compose'
+import { isTextProviderId } from '@/lib/llm'
+import { isImageProviderId } from '@/lib/images'
 import type { Setting, SettingKey } from '@/types'
 
 // GET /api/settings - Get all settings or specific setting by key
@@ -49,6 +51,20 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    if (key === 'llm_provider' && !isTextProviderId(value)) {
+      return NextResponse.json(
+        { error: 'Invalid text provider' },
+        { status: 400 }
+      )
+    }
+
+    if (key === 'image_provider' && !isImageProviderId(value)) {
+      return NextResponse.json(
+        { error: 'Invalid image provider' },
+        { status: 400 }
+      )
+    }
+
     // Validate that the setting exists
     const checkStmt = db.prepare('SELECT id FROM settings WHERE key = ?')
     const exists = checkStmt.get(key)
@@ -147,6 +163,36 @@ Prohibitions:
 - Share a viewpoint and personal reaction; avoid corporate tone entirely
 - Storytelling-first: lead with personal anecdotes or relatable observations
 - It's fine to be opinionated and direct — the audience values authenticity over polish`,
+      x_tone_prompt: `X tone modifier:
+- Punchy, direct, and conversational — every tweet earns the next one
+- One idea per tweet; cut every word that doesn't carry weight
+- Lead with the sharpest claim or number; no throat-clearing
+- Plain language over jargon; line breaks for rhythm, not decoration
+- Take a clear position; threads that hedge don't get read to the end
+- No hashtags or emojis unless they add meaning
+- Close with one clear ask — a reply, a follow, or a link, never all three`,
+      instagram_tone_prompt: `Instagram tone modifier:
+- Visual-first: the caption supports the image or carousel, it doesn't repeat it
+- Front-load the first line — only about 125 characters show before "more"
+- Warm, personal, and conversational; short paragraphs with breathing room
+- Emojis are welcome as signposts, not decoration
+- Give people a reason to save or share: a tip, a framework, a takeaway
+- Keep hashtags out of the body; they go in the hashtag set
+- Close with one clear ask — save, share, or comment`,
+      threads_tone_prompt: `Threads tone modifier:
+- Conversational and quick, like the start of a conversation rather than a broadcast
+- Short: one idea, said plainly, well inside the 500-character limit
+- Casual phrasing and contractions; a little humor goes a long way
+- Invite replies with a genuine question or an opinion people can push back on
+- At most one topic tag, chosen for discovery rather than decoration
+- No link-bait or engagement-bait phrasing`,
+      newsletter_tone_prompt: `Newsletter tone modifier:
+- Written for readers who chose to subscribe: generous, specific, and worth the open
+- Each section earns its place; cut anything that doesn't move the issue forward
+- Scannable: clear headings, short paragraphs, and lists where they help
+- Personal and direct, like a letter from someone who knows the subject well
+- Subject lines promise exactly what the issue delivers; no clickbait
+- Close with one clear next step — reply, share, or try something this week`,
       hooks_agent_prompt: `You are an expert content hook writer specializing in attention-grabbing opening lines.
 Your hooks should:
 - Stop the scroll immediately
@@ -189,10 +235,16 @@ Your thumbnail concepts should:
 - Use bold colors and clear text
 - Feature the creator when appropriate
 - Stand out in a crowded feed`,
+      llm_provider: process.env.LLM_PROVIDER || 'anthropic',
+      llm_model: '',
+      image_provider: process.env.IMAGE_PROVIDER || 'gemini',
+      image_model: '',
+      profile_name: '',
+      profile_headline: '',
     }
 
     const defaultValue = defaultPrompts[key]
-    if (!defaultValue) {
+    if (defaultValue === undefined) {
       return NextResponse.json(
         { error: 'Unknown setting key' },
         { status: 400 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
+import { embedSourceChunks, indexSource } from '@/lib/sources'
 import type { ProjectSource } from '@/types'
 
 interface SourceRow {
@@ -12,6 +13,7 @@ interface SourceRow {
   original_url?: string
   mime_type?: string
   enabled: number
+  parent_source_id: string | null
   created_at: string
 }
 
@@ -41,6 +43,7 @@ export async function GET(
       original_url: row.original_url,
       mime_type: row.mime_type,
       enabled: Boolean(row.enabled),
+      parent_source_id: row.parent_source_id,
       created_at: row.created_at,
     }
 
@@ -106,6 +109,17 @@ export async function PATCH(
     const updateStmt = db.prepare(`UPDATE project_sources SET ${updates.join(', ')} WHERE id = ?`)
     updateStmt.run(...values)
 
+    // Switching a crawled site on or off switches all its pages
+    if (enabled !== undefined) {
+      db.prepare('UPDATE project_sources SET enabled = ? WHERE parent_source_id = ?').run(enabled ? 1 : 0, params.id)
+    }
+
+    // Edited text is split into passages again
+    if (content !== undefined) {
+      indexSource(params.id)
+      await embedSourceChunks(params.id)
+    }
+
     // Return updated source
     const getStmt = db.prepare('SELECT * FROM project_sources WHERE id = ?')
     const updatedRow = getStmt.get(params.id) as SourceRow
@@ -120,6 +134,7 @@ export async function PATCH(
       original_url: updatedRow.original_url,
       mime_type: updatedRow.mime_type,
       enabled: Boolean(updatedRow.enabled),
+      parent_source_id: updatedRow.parent_source_id,
       created_at: updatedRow.created_at,
     }
 
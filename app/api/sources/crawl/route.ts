@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { crawlSite, type CrawlResult } from '@/lib/crawl'
+import { parseWebUrl } from '@/lib/extract'
+import { embedSourceChunks, indexSource } from '@/lib/sources'
+import { generateId } from '@/lib/utils'
+import {
+  CRAWL_DEFAULT_DEPTH,
+  CRAWL_DEFAULT_PAGES,
+  CRAWL_MAX_DEPTH,
+  CRAWL_MAX_PAGES,
+  type CrawlSourceRequest,
+  type CrawlSourceResponse,
+  type ProjectSource,
+} from '@/types'
+
+function clampInteger(value: unknown, fallback: number, min: number, max: number): number {
+  const number = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback
+  return Math.min(Math.max(number, min), max)
+}
+
+// POST /api/sources/crawl - Crawl a site into a source with one child source per page
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as CrawlSourceRequest
+    const { project_id, url, mode = 'links' } = body
+
+    if (!project_id) {
+      return NextResponse.json(
+        { error: 'project_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!url?.trim()) {
+      return NextResponse.json(
+        { error: 'url is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!['links', 'sitemap'].includes(mode)) {
+      return NextResponse.json(
+        { error: 'mode must be "links" or "sitemap"' },
+        { status: 400 }
+      )
+    }
+
+    let startUrl: URL
+    try {
+      startUrl = parseWebUrl(url.trim())
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid URL' },
+        { status: 400 }
+      )
+    }
+
+    const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(project_id)
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    let crawl: CrawlResult
+    try {
+      crawl = await crawlSite(startUrl.href, {
+        mode,
+        maxDepth: clampInteger(body.max_depth, CRAWL_DEFAULT_DEPTH, 0, CRAWL_MAX_DEPTH),
+        maxPages: clampInteger(body.max_pages, CRAWL_DEFAULT_PAGES, 1, CRAWL_MAX_PAGES),
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to crawl site' },
+        { status: 422 }
+      )
+    }
+
+    if (crawl.pages.length === 0) {
+      return NextResponse.json(
+        { error: 'No pages could be imported from this site', skipped: crawl.skipped },
+        { status: 422 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const startPage = crawl.pages[0].url === startUrl.href ? crawl.pages[0] : null
+
+    // The parent only groups the pages: it has no text of its own, so retrieval never returns
+    // it, and its enabled flag is passed on to the pages
+    const parent: ProjectSource = {
+      id: generateId(),
+      project_id,
+      type: 'url',
+      title: startPage?.title || startUrl.hostname,
+      content: '',
+      original_url: startUrl.href,
+      enabled: true,
+      parent_source_id: null,
+      created_at: now,
+    }
+
+    const pages: ProjectSource[] = crawl.pages.map(page => ({
+      id: generateId(),
+      project_id,
+      type: 'url',
+      title: page.title,
+      content: page.content,
+      original_url: page.url,
+      enabled: true,
+      parent_source_id: parent.id,
+      created_at: now,
+    }))
+
+    const insertStmt = db.prepare(`
+      INSERT INTO project_sources (id, project_id, type, title, content, original_url, enabled, parent_source_id, created_at)
+      VALUES (?, ?, 'url', ?, ?, ?, 1, ?, ?)
+    `)
+
+    db.transaction(() => {
+      for (const source of [parent, ...pages]) {
+        insertStmt.run(source.id, project_id, source.title, source.content, source.original_url, source.parent_source_id, now)
+      }
+    })()
+
+    // Split into passages for retrieval
+    for (const source of pages) {
+      indexSource(source.id)
+      await embedSourceChunks(source.id)
+    }
+
+    const response: CrawlSourceResponse = { source: parent, pages, skipped: crawl.skipped }
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Error crawling source:', error)
+    return NextResponse.json(
+      { error: 'Failed to crawl source' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import db from '@/lib/db'
 import { generateId } from '@/lib/utils'
+import { embedSourceChunks, indexSource } from '@/lib/sources'
 import type { ProjectSource, CreateSourceRequest } from '@/types'
 
 // POST /api/sources - Create a new text source
@@ -68,6 +69,10 @@ export async function POST(request: NextRequest) {
       now
     )
 
+    // Split into passages for retrieval
+    indexSource(sourceId)
+    await embedSourceChunks(sourceId)
+
     const source: ProjectSource = {
       id: sourceId,
       project_id,
@@ -107,7 +112,7 @@ export async function GET(request: NextRequest) {
     const stmt = db.prepare(`
       SELECT id, project_id, type, title,
              LENGTH(content) as content_length,
-             original_filename, original_url, mime_type, enabled, created_at
+             original_filename, original_url, mime_type, enabled, parent_source_id, created_at
       FROM project_sources
       WHERE project_id = ?
       ORDER BY created_at ASC
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookEndpoint, listWebhookDeliveries } from '@/lib/webhooks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/webhooks/:id/deliveries - The endpoint's recent deliveries, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    if (!getWebhookEndpoint(id)) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(listWebhookDeliveries(id))
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { generateWebhookSecret, getWebhookEndpoint, parseWebhookEndpoint } from '@/lib/webhooks'
+import type { WebhookEndpointRequest } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH /api/webhooks/:id - Update a webhook endpoint (rotate_secret issues a new secret)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const existing = getWebhookEndpoint(id)
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json() as WebhookEndpointRequest
+
+    const parsed = parseWebhookEndpoint(body, existing)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { values } = parsed
+    db.prepare(`
+      UPDATE webhook_endpoints SET url = ?, description = ?, secret = ?, events = ?, enabled = ?, updated_at = ? WHERE id = ?
+    `).run(
+      values.url,
+      values.description,
+      body.rotate_secret ? generateWebhookSecret() : existing.secret,
+      values.events,
+      values.enabled,
+      new Date().toISOString(),
+      id
+    )
+
+    return NextResponse.json(getWebhookEndpoint(id))
+  } catch (error) {
+    console.error('Error updating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/webhooks/:id - Delete a webhook endpoint and its delivery log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const result = db.prepare('DELETE FROM webhook_endpoints WHERE id = ?').run(id)
+
+    if (result.changes === 0) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWebhookEndpoint, sendTestWebhook } from '@/lib/webhooks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/webhooks/:id/test - Send a signed ping to the endpoint and return the delivery
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const endpoint = getWebhookEndpoint(id)
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ delivery: await sendTestWebhook(endpoint) })
+  } catch (error) {
+    console.error('Error sending test webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to send test webhook' },
+      { status: 500 }
+    )
+  }
+}
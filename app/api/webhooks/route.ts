@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { generateWebhookSecret, getWebhookEndpoint, listWebhookEndpoints, parseWebhookEndpoint } from '@/lib/webhooks'
+import type { WebhookEndpointRequest } from '@/types'
+
+// GET /api/webhooks - List webhook endpoints
+export async function GET() {
+  try {
+    return NextResponse.json(listWebhookEndpoints())
+  } catch (error) {
+    console.error('Error fetching webhooks:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/webhooks - Add a webhook endpoint with a new signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as WebhookEndpointRequest
+
+    const parsed = parseWebhookEndpoint(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { values } = parsed
+    const id = generateId()
+    const now = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO webhook_endpoints (id, url, description, secret, events, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, values.url, values.description, generateWebhookSecret(), values.events, values.enabled, now, now)
+
+    return NextResponse.json(getWebhookEndpoint(id), { status: 201 })
+  } catch (error) {
+    console.error('Error creating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    )
+  }
+}
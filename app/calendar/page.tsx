@@ -0,0 +1,374 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ChevronLeft, ChevronRight, AlertTriangle, Download, Link2, Check } from 'lucide-react'
+import Sidebar from '@/components/layout/Sidebar'
+import { PlatformIcon } from '@/components/ui/PlatformIcon'
+import { cn } from '@/lib/utils'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
+import { type CalendarView, viewRange, shiftAnchor, daysBetween, dayKey, moveToDay, findConflicts, startOfDay } from '@/lib/calendar/dates'
+import type { CalendarEntry, CalendarResponse, PlatformDefinition, Project } from '@/types'
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const KIND_STYLES: Record<CalendarEntry['kind'], string> = {
+  draft: 'border-dashed border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300',
+  scheduled: 'border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  published: 'border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+}
+
+function viewTitle(view: CalendarView, anchor: Date): string {
+  if (view === 'month') return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+  if (view === 'day') return anchor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+  const { start, end } = viewRange('week', anchor)
+  const last = new Date(end.getTime() - 1)
+  return `${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+}
+
+export default function CalendarPage() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [platforms, setPlatforms] = useState<PlatformDefinition[]>(BUILT_IN_PLATFORMS)
+  const [view, setView] = useState<CalendarView>('month')
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()))
+  const [platformFilter, setPlatformFilter] = useState('all')
+  const [calendar, setCalendar] = useState<CalendarResponse>({ entries: [], unscheduled: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [copiedFeed, setCopiedFeed] = useState(false)
+
+  const { start, end } = viewRange(view, anchor)
+
+  // Fetch all projects for the sidebar
+  useEffect(() => {
+    fetchProjects()
+    fetch('/api/platforms')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setPlatforms(result) })
+      .catch(err => console.error('Failed to load platforms:', err))
+  }, [])
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (!response.ok) throw new Error('Failed to fetch projects')
+      const data = await response.json()
+      setProjects(data)
+    } catch (err) {
+      console.error('Error fetching projects:', err)
+    }
+  }
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const range = viewRange(view, anchor)
+      const params = new URLSearchParams({ from: range.start.toISOString(), to: range.end.toISOString() })
+      const response = await fetch(`/api/calendar?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch calendar')
+      setCalendar(await response.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [view, anchor])
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [fetchCalendar])
+
+  const filterEntries = (entries: CalendarEntry[]) =>
+    platformFilter === 'all' ? entries : entries.filter(entry => entry.platform === platformFilter)
+  const entries = filterEntries(calendar.entries)
+  const unscheduled = filterEntries(calendar.unscheduled)
+  const conflicts = findConflicts(entries)
+  const conflictDays = new Set(conflicts.map(conflict => conflict.day))
+  const days = daysBetween(start, end)
+
+  const entriesByDay: Record<string, CalendarEntry[]> = {}
+  for (const entry of entries) {
+    if (!entry.date) continue
+    const key = dayKey(new Date(entry.date))
+    entriesByDay[key] = [...(entriesByDay[key] || []), entry]
+  }
+
+  const findEntry = (projectId: string) =>
+    calendar.entries.find(entry => entry.project_id === projectId) ||
+    calendar.unscheduled.find(entry => entry.project_id === projectId)
+
+  // Move a post to another day (or off the calendar), keeping its time of day
+  const handleReschedule = async (projectId: string, day: Date | null) => {
+    const entry = findEntry(projectId)
+    if (!entry || entry.kind === 'published') return
+    const scheduledAt = day ? moveToDay(entry.date, day) : null
+    if (scheduledAt === entry.date) return
+
+    // Show the move right away; the refetch puts it back if saving fails
+    setCalendar(prev => {
+      const moved = { ...entry, date: scheduledAt }
+      const others = (list: CalendarEntry[]) => list.filter(e => e.project_id !== projectId)
+      return scheduledAt
+        ? { entries: [...others(prev.entries), moved], unscheduled: others(prev.unscheduled) }
+        : { entries: others(prev.entries), unscheduled: [moved, ...others(prev.unscheduled)] }
+    })
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduled_at: scheduledAt }),
+      })
+      if (!response.ok) throw new Error('Failed to reschedule')
+    } catch (err) {
+      console.error('Error rescheduling project:', err)
+      alert(err instanceof Error ? err.message : 'Failed to reschedule')
+    } finally {
+      fetchCalendar()
+    }
+  }
+
+  const dropHandlers = (target: string, day: Date | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      if (dropTarget !== target) setDropTarget(target)
+    },
+    onDragLeave: () => setDropTarget(prev => prev === target ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      const projectId = e.dataTransfer.getData('text/plain')
+      if (projectId) handleReschedule(projectId, day)
+    },
+  })
+
+  const feedUrl = () => {
+    const url = new URL('/api/calendar/ics', window.location.origin)
+    if (platformFilter !== 'all') url.searchParams.set('platform', platformFilter)
+    return url.toString()
+  }
+
+  const handleCopyFeed = async () => {
+    await navigator.clipboard.writeText(feedUrl())
+    setCopiedFeed(true)
+    setTimeout(() => setCopiedFeed(false), 2000)
+  }
+
+  const renderEntry = (entry: CalendarEntry, compact: boolean) => {
+    const draggable = entry.kind !== 'published'
+    return (
+      <Link
+        key={entry.project_id}
+        href={`/project/${entry.project_id}`}
+        draggable={draggable}
+        onDragStart={draggable ? (e) => {
+          e.dataTransfer.setData('text/plain', entry.project_id)
+          e.dataTransfer.effectAllowed = 'move'
+        } : undefined}
+        title={`${entry.name} · ${entry.platform_label} · ${entry.kind}`}
+        className={cn(
+          'flex items-center gap-1.5 px-2 py-1 text-xs rounded-md border transition-shadow hover:shadow-sm',
+          draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer',
+          KIND_STYLES[entry.kind]
+        )}
+      >
+        <PlatformIcon platform={entry.platform} className="w-3.5 h-3.5 flex-shrink-0" />
+        {entry.date && <span className="flex-shrink-0 opacity-70">{formatTime(entry.date)}</span>}
+        <span className={cn('min-w-0', compact ? 'truncate' : 'break-words')}>{entry.name}</span>
+      </Link>
+    )
+  }
+
+  const today = dayKey(new Date())
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar projects={projects} onRefresh={fetchProjects} />
+      <main className="flex-1 overflow-auto bg-light-bg-primary dark:bg-dark-bg-primary">
+        <div className="max-w-7xl mx-auto p-6">
+          {/* Header */}
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
+                Content Calendar
+              </h1>
+              <p className="text-light-text-secondary dark:text-dark-text-secondary mt-1">
+                Plan when each post goes out. Drag posts between days, or onto the calendar from the unscheduled list.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleCopyFeed} className="btn-secondary whitespace-nowrap gap-1.5" title="Subscribe to this URL in your calendar app">
+                {copiedFeed ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                {copiedFeed ? 'Copied' : 'Copy ICS Feed URL'}
+              </button>
+              <a
+                href={`/api/calendar/ics${platformFilter !== 'all' ? `?platform=${encodeURIComponent(platformFilter)}` : ''}`}
+                download="content-calendar.ics"
+                className="btn-secondary whitespace-nowrap gap-1.5"
+              >
+                <Download className="w-4 h-4" />
+                Download .ics
+              </a>
+            </div>
+          </div>
+
+          {/* Toolbar */}
+          <div className="mb-4 flex flex-wrap items-center gap-3">
+            <button onClick={() => setAnchor(startOfDay(new Date()))} className="btn-secondary">
+              Today
+            </button>
+            <div className="flex items-center">
+              <button
+                onClick={() => setAnchor(prev => shiftAnchor(view, prev, -1))}
+                className="p-2 rounded-lg text-light-text-secondary dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-gray-800"
+                aria-label="Previous"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setAnchor(prev => shiftAnchor(view, prev, 1))}
+                className="p-2 rounded-lg text-light-text-secondary dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-gray-800"
+                aria-label="Next"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+            <h2 className="text-lg font-semibold text-light-text-primary dark:text-dark-text-primary mr-auto">
+              {viewTitle(view, anchor)}
+            </h2>
+            <select
+              value={platformFilter}
+              onChange={(e) => setPlatformFilter(e.target.value)}
+              className="input text-sm w-auto"
+            >
+              <option value="all">All platforms</option>
+              {platforms.map(platform => (
+                <option key={platform.id} value={platform.id}>{platform.label}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1 p-0.5 bg-gray-100 dark:bg-gray-800 rounded-lg">
+              {(['day', 'week', 'month'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={cn(
+                    'px-3 py-1 text-sm font-medium rounded-md capitalize transition-colors',
+                    view === option
+                      ? 'bg-white dark:bg-gray-700 text-light-text-primary dark:text-dark-text-primary shadow-sm'
+                      : 'text-light-text-secondary dark:text-dark-text-secondary hover:text-light-text-primary dark:hover:text-dark-text-primary'
+                  )}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 mb-4 space-y-1">
+              {conflicts.map(conflict => {
+                const names = conflict.project_ids.map(id => findEntry(id)?.name).filter(Boolean)
+                const day = new Date(`${conflict.day}T00:00:00`)
+                return (
+                  <p key={`${conflict.day}-${conflict.platform}`} className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-300">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {conflict.project_ids.length} {conflict.platform_label} posts on {day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}: {names.join(', ')}
+                    </span>
+                  </p>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-col lg:flex-row gap-4">
+            {/* Calendar Grid */}
+            <div className={cn('flex-1 min-w-0', isLoading && 'opacity-50')}>
+              {view !== 'day' && (
+                <div className="grid grid-cols-7 mb-1">
+                  {WEEKDAYS.map(weekday => (
+                    <div key={weekday} className="px-2 py-1 text-xs font-medium text-light-text-secondary dark:text-dark-text-secondary">
+                      {weekday}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className={cn(
+                'grid gap-px bg-gray-200 dark:bg-gray-800 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden',
+                view === 'day' ? 'grid-cols-1' : 'grid-cols-7'
+              )}>
+                {days.map(day => {
+                  const key = dayKey(day)
+                  const dayEntries = entriesByDay[key] || []
+                  const outsideMonth = view === 'month' && day.getMonth() !== anchor.getMonth()
+                  return (
+                    <div
+                      key={key}
+                      {...dropHandlers(key, day)}
+                      className={cn(
+                        'p-1.5 space-y-1 bg-light-bg-secondary dark:bg-dark-bg-secondary transition-colors',
+                        view === 'month' ? 'min-h-[110px]' : view === 'week' ? 'min-h-[360px]' : 'min-h-[240px]',
+                        outsideMonth && 'bg-gray-50 dark:bg-gray-900/60',
+                        conflictDays.has(key) && 'ring-2 ring-inset ring-amber-400',
+                        dropTarget === key && 'bg-blue-50 dark:bg-blue-900/20'
+                      )}
+                    >
+                      <div className={cn(
+                        'text-xs font-medium px-1',
+                        key === today ? 'text-linkedin' : outsideMonth ? 'text-gray-400 dark:text-gray-600' : 'text-light-text-secondary dark:text-dark-text-secondary'
+                      )}>
+                        {view === 'day' ? day.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' }) : day.getDate()}
+                      </div>
+                      {dayEntries.map(entry => renderEntry(entry, view === 'month'))}
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="mt-2 flex gap-4 text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                {(Object.keys(KIND_STYLES) as CalendarEntry['kind'][]).map(kind => (
+                  <span key={kind} className="flex items-center gap-1.5 capitalize">
+                    <span className={cn('w-3 h-3 rounded border', KIND_STYLES[kind])} />
+                    {kind}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Unscheduled */}
+            <div
+              {...dropHandlers('unscheduled', null)}
+              className={cn(
+                'lg:w-64 flex-shrink-0 p-3 rounded-lg border border-gray-200 dark:border-gray-800 bg-light-bg-secondary dark:bg-dark-bg-secondary space-y-2 self-start',
+                dropTarget === 'unscheduled' && 'bg-blue-50 dark:bg-blue-900/20'
+              )}
+            >
+              <h3 className="text-sm font-semibold text-light-text-primary dark:text-dark-text-primary">
+                Unscheduled ({unscheduled.length})
+              </h3>
+              <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                Drag onto a day to schedule; drop a post here to take it off the calendar.
+              </p>
+              <div className="space-y-1 max-h-[480px] overflow-y-auto scrollbar-thin">
+                {unscheduled.map(entry => renderEntry(entry, true))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
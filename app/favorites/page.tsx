@@ -4,12 +4,12 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Sidebar from '@/components/layout/Sidebar'
 import { cn, formatRelativeTime } from '@/lib/utils'
-import type { Session, Favorite, FavoriteType } from '@/types'
+import type { Project, Favorite, FavoriteType } from '@/types'
 
 export default function FavoritesPage() {
   const router = useRouter()
   const [favorites, setFavorites] = useState<Favorite[]>([])
-  const [sessions, setSessions] = useState<Session[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedType, setSelectedType] = useState<FavoriteType | 'all'>('all')
@@ -19,7 +19,7 @@ export default function FavoritesPage() {
 
   useEffect(() => {
     fetchFavorites()
-    fetchSessions()
+    fetchProjects()
   }, [selectedType])
 
   // Filter favorites by search query
@@ -63,12 +63,12 @@ export default function FavoritesPage() {
     }
   }
 
-  const fetchSessions = async () => {
+  const fetchProjects = async () => {
     try {
-      const response = await fetch('/api/sessions')
+      const response = await fetch('/api/projects')
       if (response.ok) {
         const data = await response.json()
-        setSessions(data)
+        setProjects(data)
       }
     } catch {
       // Silently fail
@@ -109,12 +109,6 @@ export default function FavoritesPage() {
     setDeleteConfirmId(null)
   }
 
-  const getSessionTitle = (sessionId: string | null) => {
-    if (!sessionId) return null
-    const session = sessions.find(s => s.id === sessionId)
-    return session?.title || 'Unknown Session'
-  }
-
   const getTypeIcon = (type: FavoriteType) => {
     switch (type) {
       case 'hook':
@@ -233,7 +227,7 @@ export default function FavoritesPage() {
 
   return (
     <div className="flex h-screen overflow-hidden">
-      <Sidebar sessions={sessions} onRefresh={fetchSessions} />
+      <Sidebar projects={projects} onRefresh={fetchProjects} />
       <main className="flex-1 overflow-auto">
         {/* Breadcrumbs */}
         <nav className="px-8 py-2 bg-gray-50 dark:bg-gray-900/50 border-b border-gray-200 dark:border-gray-800">
@@ -354,13 +348,13 @@ export default function FavoritesPage() {
                 No favorites yet
               </h3>
               <p className="text-light-text-secondary dark:text-dark-text-secondary mb-4 max-w-sm mx-auto">
-                Save hooks, CTAs, body content, and visual concepts from your sessions to build your favorites library.
+                Save hooks, CTAs, body content, and visual concepts from your projects to build your favorites library.
               </p>
               <button
-                onClick={() => router.push('/session/new')}
+                onClick={() => router.push('/project/new')}
                 className="btn-primary"
               >
-                Create New Session
+                Create New Project
               </button>
             </div>
           ) : filteredFavorites.length === 0 ? (
@@ -444,11 +438,11 @@ export default function FavoritesPage() {
                     <span className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
                       {formatRelativeTime(favorite.created_at)}
                     </span>
-                    {favorite.source_session_id && (
+                    {favorite.source_project_id && (
                       <button
-                        onClick={() => router.push(`/session/${favorite.source_session_id}`)}
+                        onClick={() => router.push(`/project/${favorite.source_project_id}`)}
                         className="text-xs text-linkedin hover:underline flex items-center gap-1"
-                        title="View source session"
+                        title="View source project"
                       >
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
@@ -2,21 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { Plus, Search, Filter, Linkedin, Youtube, Facebook, MoreHorizontal, Copy, Trash2, Settings, Loader2, Pencil } from 'lucide-react'
-import type { Project, Platform, ProjectStatus, CreateProjectRequest } from '@/types'
+import { Plus, Search, Filter, MoreHorizontal, Copy, Trash2, Settings, Loader2, Pencil, CalendarDays } from 'lucide-react'
+import type { Project, Platform, PlatformDefinition, ProjectStatus, CreateProjectRequest } from '@/types'
 import { ProjectForm } from '@/components/modals/ProjectForm'
-
-const PLATFORM_ICONS = {
-  linkedin: Linkedin,
-  youtube: Youtube,
-  facebook: Facebook,
-}
-
-const PLATFORM_COLORS = {
-  linkedin: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
-  youtube: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
-  facebook: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
-}
+import { PlatformIcon, platformColor } from '@/components/ui/PlatformIcon'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
 
 const STATUS_BADGES = {
   in_progress: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
@@ -34,11 +24,20 @@ export default function Home() {
   const [platformFilter, setPlatformFilter] = useState<Platform | ''>('')
   const [openMenu, setOpenMenu] = useState<string | null>(null)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [platforms, setPlatforms] = useState<PlatformDefinition[]>(BUILT_IN_PLATFORMS)
 
   useEffect(() => {
     fetchProjects()
   }, [statusFilter, platformFilter])
 
+  // Custom platforms join the built-ins once loaded
+  useEffect(() => {
+    fetch('/api/platforms')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setPlatforms(result) })
+      .catch(err => console.error('Failed to load platforms:', err))
+  }, [])
+
   const fetchProjects = async () => {
     try {
       setIsLoading(true)
@@ -139,6 +138,13 @@ export default function Home() {
             </div>
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/calendar')}
+                className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Content calendar"
+              >
+                <CalendarDays className="w-5 h-5" />
+              </button>
               <button
                 onClick={() => router.push('/settings')}
                 className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -191,9 +197,9 @@ export default function Home() {
             className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="">All Platforms</option>
-            <option value="linkedin">LinkedIn</option>
-            <option value="youtube">YouTube</option>
-            <option value="facebook">Facebook</option>
+            {platforms.map(platform => (
+              <option key={platform.id} value={platform.id}>{platform.label}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -236,8 +242,6 @@ export default function Home() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredProjects.map((project) => {
-              const PlatformIcon = PLATFORM_ICONS[project.platform]
-
               return (
                 <div
                   key={project.id}
@@ -247,8 +251,8 @@ export default function Home() {
                   {/* Card Header */}
                   <div className="p-5 border-b border-gray-100 dark:border-gray-700">
                     <div className="flex items-start justify-between mb-3">
-                      <div className={`p-2 rounded-lg ${PLATFORM_COLORS[project.platform]}`}>
-                        <PlatformIcon className="w-5 h-5" />
+                      <div className={`p-2 rounded-lg ${platformColor(project.platform)}`}>
+                        <PlatformIcon platform={project.platform} className="w-5 h-5" />
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -343,6 +347,7 @@ export default function Home() {
         isOpen={!!editingProject}
         onClose={() => setEditingProject(null)}
         onSubmit={handleEditSubmit}
+        platforms={platforms}
         initialData={editingProject ? {
           name: editingProject.name,
           topic: editingProject.topic,
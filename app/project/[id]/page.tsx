@@ -1,13 +1,21 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { ArrowLeft, Settings, Loader2, Sun, Moon } from 'lucide-react'
 import { useTheme } from '@/contexts/ThemeContext'
 import { ProgressIndicator } from '@/components/workflow/ProgressIndicator'
 import { StepContainer } from '@/components/workflow/StepContainer'
 import { CompleteSummary } from '@/components/workflow/CompleteSummary'
+import { ProjectFamilyBar } from '@/components/workflow/ProjectFamilyBar'
+import { StreamingPreview, type StreamingContent } from '@/components/workflow/StreamingPreview'
+import { ClaimChecks } from '@/components/workflow/ClaimChecks'
 import { ContentCard } from '@/components/cards/ContentCard'
+import { ThreadEditor } from '@/components/cards/ThreadEditor'
+import { CaptionEditor } from '@/components/cards/CaptionEditor'
+import { AltTextEditor, type AltTextItem } from '@/components/cards/AltTextEditor'
+import { OutlineEditor } from '@/components/cards/OutlineEditor'
+import { SectionDraftEditor } from '@/components/cards/SectionDraftEditor'
 import { ImageCard } from '@/components/cards/ImageCard'
 import { CustomContentCard, SkipOptionCard } from '@/components/cards/CustomContentCard'
 import { AssistantPanel } from '@/components/assistant/AssistantPanel'
@@ -17,13 +25,19 @@ import { ContentHistoryModal } from '@/components/modals/ContentHistoryModal'
 import { RefineImageModal } from '@/components/modals/RefineImageModal'
 import { ThumbnailHistoryModal } from '@/components/modals/ThumbnailHistoryModal'
 import { UpscaleModal } from '@/components/modals/UpscaleModal'
-import type { Project, Output, Message, WorkflowStep, GeneratedImage, VisualConcept, ContentType, CarouselSlide, CarouselTemplate } from '@/types'
-import { WORKFLOW_CONFIGS, STEP_LABELS, PLATFORM_ASPECT_RATIOS, ASPECT_RATIO_OPTIONS } from '@/types'
+import { PerformanceModal } from '@/components/modals/PerformanceModal'
+import type { Project, Output, Message, WorkflowStep, PlatformDefinition, GeneratedImage, VisualConcept, ContentType, CarouselSlide, CarouselTemplate, CarouselAspectRatio, TextProviderInfo, ValidatedField } from '@/types'
+import { STEP_LABELS, ASPECT_RATIO_OPTIONS } from '@/types'
 import { VisualConceptCard } from '@/components/cards/VisualConceptCard'
 import { CarouselEditor, TemplateImporter } from '@/components/carousel'
+import { readEventStream, isAbortError } from '@/lib/sse'
+import { selectedHashtags } from '@/lib/caption'
+import { stripCitationMarkers } from '@/lib/citations'
+import { validateField, fieldCharacterLimit } from '@/lib/validation'
 
 interface ProjectData {
   project: Project
+  platform: PlatformDefinition
   messages: Message[]
   output: Output | null
   generatedImages: Omit<GeneratedImage, 'image_data'>[]
@@ -33,6 +47,40 @@ interface CarouselData {
   id: string
   slides: CarouselSlide[]
   template_id?: string
+  aspect_ratio: CarouselAspectRatio
+}
+
+// The images an Instagram or Threads post goes out with: the chosen visual's image and
+// any rendered carousel slides
+function altTextItemsFor(
+  output: Output | null,
+  generatedImages: Omit<GeneratedImage, 'image_data'>[],
+  carousel: CarouselData | null
+): AltTextItem[] {
+  const items: AltTextItem[] = []
+
+  const selectedIndex = output?.selected_visual_index ?? -1
+  const concept = output?.visual_concepts[selectedIndex]
+  if (concept) {
+    const image = generatedImages.find(img => img.visual_concept_index === selectedIndex) ||
+      generatedImages.find(img => img.visual_concept_index === undefined && img.prompt === concept.description)
+    if (image) {
+      items.push({ kind: 'image', id: image.id, label: 'Post image', src: `/api/images/${image.id}?format=image`, alt_text: image.alt_text || '' })
+    }
+  }
+
+  for (const slide of carousel?.slides || []) {
+    if (!slide.rendered_image) continue
+    items.push({
+      kind: 'slide',
+      id: slide.id,
+      label: `Carousel slide ${slide.position + 1}`,
+      src: `data:image/png;base64,${slide.rendered_image}`,
+      alt_text: slide.alt_text || '',
+    })
+  }
+
+  return items
 }
 
 export default function ProjectPage() {
@@ -45,6 +93,10 @@ export default function ProjectPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isGenerating, setIsGenerating] = useState(false)
   const [isChatLoading, setIsChatLoading] = useState(false)
+  const [streamingOutput, setStreamingOutput] = useState<StreamingContent | null>(null)
+  const [assistantStatus, setAssistantStatus] = useState<string | undefined>(undefined)
+  const generateAbortRef = useRef<AbortController | null>(null)
+  const chatAbortRef = useRef<AbortController | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   // Lightbox state
@@ -80,6 +132,11 @@ export default function ProjectPage() {
     height: number
   } | null>(null)
 
+  const [performanceModalOpen, setPerformanceModalOpen] = useState(false)
+
+  // Bumped after repurposing so the variants bar picks up the new projects
+  const [familyRefreshKey, setFamilyRefreshKey] = useState(0)
+
   // Generating image index (for per-card loading state)
   const [generatingImageIndex, setGeneratingImageIndex] = useState<number | null>(null)
 
@@ -92,6 +149,9 @@ export default function ProjectPage() {
   // Track completed steps based on actual user selections
   const [completedSteps, setCompletedSteps] = useState<WorkflowStep[]>([])
 
+  // Text providers available for the per-project model override
+  const [textProviders, setTextProviders] = useState<TextProviderInfo[]>([])
+
   // Aspect ratio for image generation
   const [selectedAspectRatio, setSelectedAspectRatio] = useState<typeof ASPECT_RATIO_OPTIONS[0]>(ASPECT_RATIO_OPTIONS[0])
 
@@ -99,7 +159,7 @@ export default function ProjectPage() {
   useEffect(() => {
     const output = data?.output
     const project = data?.project
-    const config = project?.platform ? WORKFLOW_CONFIGS[project.platform] : null
+    const platform = data?.platform
 
     const completed: WorkflowStep[] = []
 
@@ -120,8 +180,26 @@ export default function ProjectPage() {
 
     // Body: completed if user has accepted it (selected_body_index >= 0)
     // This is set when user clicks "Next" from the body step
+    // An X thread and an Instagram/Threads caption mirror the body, so accepting them works the same way
     if (output.selected_body_index !== undefined && output.selected_body_index >= 0) {
-      completed.push('body')
+      completed.push('body', 'thread', 'caption')
+    }
+
+    // Newsletter outline: completed once it has sections; sections: once every one is drafted
+    const newsletterSections = output.newsletter_sections || []
+    if (newsletterSections.length > 0) {
+      completed.push('outline')
+      if (newsletterSections.every(section => section.body.trim())) {
+        completed.push('sections')
+      }
+    }
+
+    // Subject lines and preview text: completed only if user explicitly selected (>= 0)
+    if (output.selected_subject_index !== undefined && output.selected_subject_index >= 0) {
+      completed.push('subject_lines')
+    }
+    if (output.selected_preview_index !== undefined && output.selected_preview_index >= 0) {
+      completed.push('preview_texts')
     }
 
     // CTAs: completed if user selected (>= 0) OR explicitly skipped (-2)
@@ -129,6 +207,11 @@ export default function ProjectPage() {
       completed.push('ctas')
     }
 
+    // Hashtags: completed if user selected (>= 0) OR explicitly skipped (-2)
+    if (output.selected_hashtag_index !== undefined && (output.selected_hashtag_index >= 0 || output.selected_hashtag_index === -2)) {
+      completed.push('hashtags')
+    }
+
     // Titles: completed only if user explicitly selected (>= 0)
     if (output.selected_title_index !== undefined && output.selected_title_index >= 0) {
       completed.push('titles')
@@ -147,9 +230,14 @@ export default function ProjectPage() {
       completed.push('thumbnails')
     }
 
+    // Alt text: completed once every image the post goes out with has it
+    if (altTextItemsFor(output, data?.generatedImages || [], carousel).every(item => item.alt_text.trim())) {
+      completed.push('alt_text')
+    }
+
     // Summary (complete): marked done when all prior workflow steps are completed
-    if (config) {
-      const requiredSteps = config.steps.filter(s => s !== 'complete' && s !== 'setup')
+    if (platform) {
+      const requiredSteps = platform.steps.filter(s => s !== 'complete' && s !== 'setup')
       const allPriorStepsComplete = requiredSteps.every(step => completed.includes(step))
       if (allPriorStepsComplete) {
         completed.push('complete')
@@ -157,7 +245,7 @@ export default function ProjectPage() {
     }
 
     setCompletedSteps(completed)
-  }, [data?.output, data?.project?.current_step, data?.project?.platform, data?.project?.topic])
+  }, [data?.output, data?.project?.current_step, data?.platform, data?.project?.topic, data?.generatedImages, carousel])
 
   // Fetch project data
   const fetchProject = useCallback(async () => {
@@ -190,10 +278,17 @@ export default function ProjectPage() {
     fetchProject()
   }, [fetchProject])
 
+  useEffect(() => {
+    fetch('/api/llm/providers')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setTextProviders(result.providers) })
+      .catch(err => console.error('Failed to load text providers:', err))
+  }, [])
+
   // Set default aspect ratio based on platform when project loads
   useEffect(() => {
-    if (data?.project?.platform) {
-      const platformDefault = PLATFORM_ASPECT_RATIOS[data.project.platform]
+    if (data?.platform) {
+      const platformDefault = data.platform.aspectRatio
       const matchingOption = ASPECT_RATIO_OPTIONS.find(
         opt => opt.width === platformDefault.width && opt.height === platformDefault.height
       )
@@ -201,33 +296,60 @@ export default function ProjectPage() {
         setSelectedAspectRatio(matchingOption)
       }
     }
-  }, [data?.project?.platform])
+  }, [data?.platform])
 
-  // Generate content for current step
+  // Generate content for current step, streaming partial cards as they are written
   const handleGenerate = async () => {
     if (!data) return
 
+    const controller = new AbortController()
+    generateAbortRef.current = controller
     setIsGenerating(true)
+    setStreamingOutput({})
     try {
       const response = await fetch('/api/outputs', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
         body: JSON.stringify({ project_id: projectId }),
+        signal: controller.signal,
       })
 
       if (!response.ok) {
         throw new Error('Failed to generate content')
       }
 
-      const result = await response.json()
-      setData(prev => prev ? { ...prev, output: result.output } : null)
+      const result: { output?: Output; error?: string } = {}
+      await readEventStream(response, (event, payload) => {
+        if (event === 'partial') {
+          setStreamingOutput(payload as StreamingContent)
+        } else if (event === 'done') {
+          result.output = (payload as { output: Output }).output
+        } else if (event === 'error') {
+          result.error = (payload as { error: string }).error
+        }
+      })
+
+      if (result.error || !result.output) {
+        throw new Error(result.error || 'Failed to generate content')
+      }
+      const output = result.output
+      setData(prev => prev ? { ...prev, output } : null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate content')
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to generate content')
+      }
     } finally {
+      generateAbortRef.current = null
+      setStreamingOutput(null)
       setIsGenerating(false)
     }
   }
 
+  // Stop an in-progress generation; nothing is saved
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort()
+  }
+
   // Regenerate a specific section
   const handleRegenerate = async (section: string) => {
     if (!data) return
@@ -261,8 +383,8 @@ export default function ProjectPage() {
     // Map current step to section name for API
     const section = currentStep === 'thumbnails' ? 'visuals' : currentStep
 
-    // Don't allow adding more for body content (single item) or complete step
-    if (section === 'body' || section === 'complete') return
+    // Don't allow adding more for body content, a thread or caption (single item), a newsletter outline or its sections, alt text or complete step
+    if (section === 'body' || section === 'thread' || section === 'caption' || section === 'outline' || section === 'sections' || section === 'alt_text' || section === 'complete') return
 
     setIsGenerating(true)
     try {
@@ -307,22 +429,81 @@ export default function ProjectPage() {
     }
   }
 
+  // Mark the project as published so its performance can be tracked
+  const handleMarkPublished = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'published' }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to mark as published')
+      }
+
+      const updatedProject = await response.json()
+      setData(prev => prev ? { ...prev, project: updatedProject } : null)
+    } catch (err) {
+      console.error('Failed to mark as published:', err)
+    }
+  }
+
+  // Set or clear the planned publish date shown on the content calendar
+  const handleSchedule = async (scheduledAt: string | null) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduled_at: scheduledAt }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to schedule project')
+      }
+
+      const updatedProject = await response.json()
+      setData(prev => prev ? { ...prev, project: updatedProject } : null)
+    } catch (err) {
+      console.error('Failed to schedule project:', err)
+    }
+  }
+
+  const handleToggleExamples = async (enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ use_performance_examples: enabled }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update example setting')
+      }
+
+      const updatedProject = await response.json()
+      setData(prev => prev ? { ...prev, project: updatedProject } : null)
+    } catch (err) {
+      console.error('Failed to update example setting:', err)
+    }
+  }
+
   // Handle next step
   const handleNext = async () => {
     if (!data) return
 
-    const config = WORKFLOW_CONFIGS[data.project.platform]
+    const { steps } = data.platform
     const currentStep = data.project.current_step
-    const currentIndex = config.steps.indexOf(currentStep)
+    const currentIndex = steps.indexOf(currentStep)
 
     // When advancing from body step, mark it as accepted (selected_body_index = 0)
     // Body has only one card, so accepting it means selecting index 0
-    if (currentStep === 'body' && data.output?.body_content) {
+    if ((currentStep === 'body' || currentStep === 'thread' || currentStep === 'caption') && data.output?.body_content) {
       await handleOutputUpdate({ selected_body_index: 0 })
     }
 
-    if (currentIndex < config.steps.length - 1) {
-      await handleStepChange(config.steps[currentIndex + 1])
+    if (currentIndex < steps.length - 1) {
+      await handleStepChange(steps[currentIndex + 1])
     }
   }
 
@@ -330,19 +511,20 @@ export default function ProjectPage() {
   const handlePrevious = () => {
     if (!data) return
 
-    const config = WORKFLOW_CONFIGS[data.project.platform]
-    const currentIndex = config.steps.indexOf(data.project.current_step)
+    const { steps } = data.platform
+    const currentIndex = steps.indexOf(data.project.current_step)
     if (currentIndex > 0) {
-      handleStepChange(config.steps[currentIndex - 1])
+      handleStepChange(steps[currentIndex - 1])
     }
   }
 
-  // Send chat message via assistant (tool-capable)
+  // Send chat message via assistant (tool-capable), streaming the reply
   const handleSendMessage = async (message: string) => {
     if (!data) return
 
     // Optimistic update: show user message immediately
     const tempId = `temp-${Date.now()}`
+    const streamingId = `streaming-${Date.now()}`
     const tempUserMessage: Message = {
       id: tempId,
       project_id: projectId,
@@ -353,27 +535,69 @@ export default function ProjectPage() {
     setData(prev => prev ? { ...prev, messages: [...prev.messages, tempUserMessage] } : null)
     setIsChatLoading(true)
 
+    const controller = new AbortController()
+    chatAbortRef.current = controller
+
+    // Append streamed tokens to a placeholder assistant message
+    const appendToken = (text: string) => {
+      setData(prev => {
+        if (!prev) return null
+        const existing = prev.messages.find(m => m.id === streamingId)
+        if (existing) {
+          return {
+            ...prev,
+            messages: prev.messages.map(m => m.id === streamingId ? { ...m, content: m.content + text } : m),
+          }
+        }
+        const streamingMessage: Message = {
+          id: streamingId,
+          project_id: projectId,
+          role: 'assistant',
+          content: text,
+          created_at: new Date().toISOString(),
+        }
+        return { ...prev, messages: [...prev.messages, streamingMessage] }
+      })
+    }
+
     try {
       const response = await fetch('/api/assistant', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
         body: JSON.stringify({ project_id: projectId, message }),
+        signal: controller.signal,
       })
 
       if (!response.ok) {
         throw new Error('Failed to send message')
       }
 
-      const result = await response.json()
+      const result: { done?: { userMessage: Message; assistantMessage: Message; output?: Output }; error?: string } = {}
+      await readEventStream(response, (event, payload) => {
+        if (event === 'token') {
+          appendToken((payload as { text: string }).text)
+        } else if (event === 'tool_call') {
+          setAssistantStatus(`Applying ${(payload as { name: string }).name.replace(/_/g, ' ')}...`)
+        } else if (event === 'done') {
+          result.done = payload as typeof result.done
+        } else if (event === 'error') {
+          result.error = (payload as { error: string }).error
+        }
+      })
+
+      const done = result.done
+      if (result.error || !done) {
+        throw new Error(result.error || 'Failed to send message')
+      }
 
       setData(prev => {
         if (!prev) return null
-        // Replace temp message with real user message + add assistant message
-        const withoutTemp = prev.messages.filter(m => m.id !== tempId)
+        // Replace temp and streaming messages with the saved user and assistant messages
+        const withoutTemp = prev.messages.filter(m => m.id !== tempId && m.id !== streamingId)
         return {
           ...prev,
-          messages: [...withoutTemp, result.userMessage, result.assistantMessage],
-          output: result.output || prev.output,
+          messages: [...withoutTemp, done.userMessage, done.assistantMessage],
+          output: done.output || prev.output,
         }
       })
 
@@ -381,6 +605,15 @@ export default function ProjectPage() {
       // This ensures we get the latest images even if the response structure changes
       await fetchProject()
     } catch (err) {
+      if (isAbortError(err)) {
+        // Keep whatever was streamed so far, marked as stopped (the reply isn't saved)
+        setData(prev => prev ? {
+          ...prev,
+          messages: prev.messages.map(m => m.id === streamingId ? { ...m, content: `${m.content}\n\n(Stopped)` } : m),
+        } : null)
+        return
+      }
+
       console.error('Chat error:', err)
       // Show error in chat, remove temp user message
       const errorMessage: Message = {
@@ -392,14 +625,21 @@ export default function ProjectPage() {
       }
       setData(prev => {
         if (!prev) return null
-        const withoutTemp = prev.messages.filter(m => m.id !== tempId)
+        const withoutTemp = prev.messages.filter(m => m.id !== tempId && m.id !== streamingId)
         return { ...prev, messages: [...withoutTemp, tempUserMessage, errorMessage] }
       })
     } finally {
+      chatAbortRef.current = null
+      setAssistantStatus(undefined)
       setIsChatLoading(false)
     }
   }
 
+  // Stop the assistant mid-reply
+  const handleCancelMessage = () => {
+    chatAbortRef.current?.abort()
+  }
+
   // Update output selection or content
   const handleOutputUpdate = async (updates: Partial<Output>) => {
     if (!data?.output) return
@@ -590,8 +830,8 @@ export default function ProjectPage() {
     setUpscaleModalOpen(true)
   }
 
-  // Upscale an image to 4K
-  const handleUpscaleImage = async () => {
+  // Upscale an image to the size chosen in the modal
+  const handleUpscaleImage = async (target: { width: number; height: number }) => {
     if (!upscaleImageData) return
 
     try {
@@ -600,11 +840,14 @@ export default function ProjectPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           image_id: upscaleImageData.id,
+          target_width: target.width,
+          target_height: target.height,
         }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to upscale image')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to upscale image')
       }
 
       // Refresh to get the upscaled image
@@ -641,7 +884,8 @@ export default function ProjectPage() {
         body: JSON.stringify({
           project_id: projectId,
           slide_count: 5,
-          template_id: carouselTemplate?.id
+          template_id: carouselTemplate?.id,
+          aspect_ratio: carousel?.aspect_ratio
         })
       })
 
@@ -680,7 +924,7 @@ export default function ProjectPage() {
     }
   }
 
-  const handleRenderCarousel = async () => {
+  const handleRenderCarousel = async (aspectRatio: CarouselAspectRatio) => {
     if (!carousel) return
 
     setIsCarouselLoading(true)
@@ -690,7 +934,8 @@ export default function ProjectPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           project_id: projectId,
-          carousel_id: carousel.id
+          carousel_id: carousel.id,
+          aspect_ratio: aspectRatio
         })
       })
 
@@ -749,6 +994,92 @@ export default function ProjectPage() {
     setShowTemplateImporter(false)
   }
 
+  // Save alt text typed in for an image or carousel slide
+  const handleSaveAltText = async (item: AltTextItem, altText: string) => {
+    if (item.kind === 'slide') {
+      if (!carousel) return
+      await handleUpdateCarouselSlides(carousel.slides.map(slide =>
+        slide.id === item.id ? { ...slide, alt_text: altText } : slide
+      ))
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/images/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alt_text: altText }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save alt text')
+      }
+
+      setData(prev => prev ? {
+        ...prev,
+        generatedImages: prev.generatedImages.map(img => img.id === item.id ? { ...img, alt_text: altText } : img),
+      } : null)
+    } catch (err) {
+      console.error('Failed to save alt text:', err)
+    }
+  }
+
+  // Have the model write alt text for images and slides
+  const handleWriteAltText = async (items: AltTextItem[]) => {
+    try {
+      const response = await fetch('/api/images/alt-text', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          image_ids: items.filter(item => item.kind === 'image').map(item => item.id),
+          slide_ids: items.filter(item => item.kind === 'slide').map(item => item.id),
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to write alt text')
+      }
+
+      const result: { images: { id: string; alt_text: string }[]; slides: CarouselSlide[] | null } = await response.json()
+      setData(prev => prev ? {
+        ...prev,
+        generatedImages: prev.generatedImages.map(img => {
+          const updated = result.images.find(i => i.id === img.id)
+          return updated ? { ...img, alt_text: updated.alt_text } : img
+        }),
+      } : null)
+      if (result.slides) {
+        const slides = result.slides
+        setCarousel(prev => prev ? { ...prev, slides } : null)
+      }
+    } catch (err) {
+      console.error('Alt text error:', err)
+    }
+  }
+
+  // Draft one newsletter section from the outline, or all of them
+  const handleDraftSections = async (sectionId?: string) => {
+    try {
+      const response = await fetch('/api/regenerate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project_id: projectId, section: 'sections', section_id: sectionId }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to draft sections')
+      }
+
+      const result = await response.json()
+      setData(prev => prev ? { ...prev, output: result.output } : null)
+    } catch (err) {
+      console.error('Section draft error:', err)
+    }
+  }
+
   // Delete a generated image
   const handleDeleteImage = async (image: GeneratedImage) => {
     if (!confirm('Delete this thumbnail? This cannot be undone.')) return
@@ -795,7 +1126,7 @@ export default function ProjectPage() {
   const getStepContent = () => {
     if (!data) return null
 
-    const { output, project } = data
+    const { output, project, platform } = data
     const currentStep = project.current_step
 
     // Setup stage - show editable project info
@@ -834,7 +1165,7 @@ export default function ProjectPage() {
                 Platform
               </label>
               <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg text-gray-700 dark:text-gray-300">
-                {project.platform.charAt(0).toUpperCase() + project.platform.slice(1)}
+                {platform.label}
                 <span className="text-xs text-gray-500 ml-2">(cannot be changed after creation)</span>
               </div>
             </div>
@@ -918,6 +1249,61 @@ export default function ProjectPage() {
                 className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Text Model
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select
+                  value={project.llm_provider || ''}
+                  onChange={async (e) => {
+                    try {
+                      const response = await fetch(`/api/projects/${projectId}`, {
+                        method: 'PATCH',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ llm_provider: e.target.value || null, llm_model: null }),
+                      })
+                      if (response.ok) {
+                        const updated = await response.json()
+                        setData(prev => prev ? { ...prev, project: updated } : null)
+                      }
+                    } catch (err) {
+                      console.error('Failed to update text provider:', err)
+                    }
+                  }}
+                  className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="">Use global setting</option>
+                  {textProviders.map(p => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}{p.configured ? '' : ' (not configured)'}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={project.llm_model || ''}
+                  onChange={async (e) => {
+                    try {
+                      const response = await fetch(`/api/projects/${projectId}`, {
+                        method: 'PATCH',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ llm_model: e.target.value }),
+                      })
+                      if (response.ok) {
+                        const updated = await response.json()
+                        setData(prev => prev ? { ...prev, project: updated } : null)
+                      }
+                    } catch (err) {
+                      console.error('Failed to update model:', err)
+                    }
+                  }}
+                  placeholder={textProviders.find(p => p.id === project.llm_provider)?.defaultModel || 'Model (optional)'}
+                  className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+                />
+              </div>
+            </div>
           </div>
 
           <div className="text-center text-sm text-gray-500 dark:text-gray-400">
@@ -927,6 +1313,17 @@ export default function ProjectPage() {
       )
     }
 
+    // Show cards as they stream in
+    if (!output && streamingOutput && currentStep !== 'complete') {
+      return (
+        <StreamingPreview
+          step={currentStep}
+          content={streamingOutput}
+          onCancel={handleCancelGenerate}
+        />
+      )
+    }
+
     // Check if we need to generate content first
     if (!output && currentStep !== 'complete' && currentStep !== 'setup') {
       return (
@@ -935,7 +1332,7 @@ export default function ProjectPage() {
             Generate Content
           </h3>
           <p className="text-gray-500 dark:text-gray-400 mb-6 max-w-md">
-            Click below to generate {STEP_LABELS[currentStep].toLowerCase()} for your {project.platform} content.
+            Click below to generate {STEP_LABELS[currentStep].toLowerCase()} for your {platform.label} content.
           </p>
           <button
             onClick={handleGenerate}
@@ -959,9 +1356,16 @@ export default function ProjectPage() {
       return (
         <CompleteSummary
           project={project}
+          platform={platform}
           output={output}
           onNavigateToStep={(step) => handleStepChange(step as WorkflowStep)}
           generatedImages={data.generatedImages}
+          carousel={carousel}
+          onMarkPublished={handleMarkPublished}
+          onSchedule={handleSchedule}
+          onPublishChanged={fetchProject}
+          onTrackPerformance={() => setPerformanceModalOpen(true)}
+          onRepurposed={() => setFamilyRefreshKey(key => key + 1)}
         />
       )
     }
@@ -974,6 +1378,41 @@ export default function ProjectPage() {
       )
     }
 
+    if (currentStep === 'alt_text') {
+      return (
+        <AltTextEditor
+          items={altTextItemsFor(output, data.generatedImages, carousel)}
+          onSave={handleSaveAltText}
+          onWrite={handleWriteAltText}
+        />
+      )
+    }
+
+    if (currentStep === 'outline') {
+      return (
+        <div className="max-w-2xl mx-auto">
+          <OutlineEditor
+            sections={output?.newsletter_sections || []}
+            originalSections={output?.newsletter_sections_original}
+            onChange={(sections) => handleOutputUpdate({ newsletter_sections: sections })}
+          />
+        </div>
+      )
+    }
+
+    if (currentStep === 'sections') {
+      return (
+        <div className="max-w-3xl mx-auto">
+          <SectionDraftEditor
+            sections={output?.newsletter_sections || []}
+            originalSections={output?.newsletter_sections_original}
+            onChange={(sections) => handleOutputUpdate({ newsletter_sections: sections })}
+            onDraft={handleDraftSections}
+          />
+        </div>
+      )
+    }
+
     // Render content based on step
     const sectionMap: Record<string, {
       items: string[] | VisualConcept[]
@@ -984,9 +1423,14 @@ export default function ProjectPage() {
     }> = {
       hooks: { items: output?.hooks || [], originalItems: output?.hooks_original || [], selectedIndex: output?.selected_hook_index ?? -1, indexKey: 'selected_hook_index', itemsKey: 'hooks' },
       body: { items: [output?.body_content || ''], originalItems: [output?.body_content_original || ''], selectedIndex: output?.selected_body_index ?? -1, indexKey: 'selected_body_index', itemsKey: 'body_content' },
+      thread: { items: output?.thread || [], originalItems: output?.thread_original || [], selectedIndex: output?.selected_body_index ?? -1, indexKey: 'selected_body_index', itemsKey: 'thread' },
+      caption: { items: [output?.body_content || ''], originalItems: [output?.body_content_original || ''], selectedIndex: output?.selected_body_index ?? -1, indexKey: 'selected_body_index', itemsKey: 'body_content' },
+      subject_lines: { items: output?.subject_lines || [], originalItems: output?.subject_lines_original || [], selectedIndex: output?.selected_subject_index ?? -1, indexKey: 'selected_subject_index', itemsKey: 'subject_lines' },
+      preview_texts: { items: output?.preview_texts || [], originalItems: output?.preview_texts_original || [], selectedIndex: output?.selected_preview_index ?? -1, indexKey: 'selected_preview_index', itemsKey: 'preview_texts' },
       intros: { items: output?.intros || [], originalItems: output?.intros_original || [], selectedIndex: output?.selected_intro_index ?? -1, indexKey: 'selected_intro_index', itemsKey: 'intros' },
       titles: { items: output?.titles || [], originalItems: output?.titles_original || [], selectedIndex: output?.selected_title_index ?? -1, indexKey: 'selected_title_index', itemsKey: 'titles' },
       ctas: { items: output?.ctas || [], originalItems: output?.ctas_original || [], selectedIndex: output?.selected_cta_index ?? -1, indexKey: 'selected_cta_index', itemsKey: 'ctas' },
+      hashtags: { items: output?.hashtag_sets || [], originalItems: output?.hashtag_sets_original || [], selectedIndex: output?.selected_hashtag_index ?? -1, indexKey: 'selected_hashtag_index', itemsKey: 'hashtag_sets' },
       visuals: { items: output?.visual_concepts || [], originalItems: output?.visual_concepts_original || [], selectedIndex: output?.selected_visual_index ?? -1, indexKey: 'selected_visual_index', itemsKey: 'visual_concepts' },
       thumbnails: { items: output?.visual_concepts || [], originalItems: output?.visual_concepts_original || [], selectedIndex: output?.selected_visual_index ?? -1, indexKey: 'selected_visual_index', itemsKey: 'visual_concepts' },
     }
@@ -1166,7 +1610,7 @@ export default function ProjectPage() {
     // For body content, show single card
     if (currentStep === 'body') {
       return (
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-2xl mx-auto space-y-4">
           <ContentCard
             index={0}
             content={output?.body_content || ''}
@@ -1175,8 +1619,58 @@ export default function ProjectPage() {
             originalContent={output?.body_content_original}
             onEdit={(newContent) => handleOutputUpdate({ body_content: newContent })}
             onRevert={() => handleOutputUpdate({ body_content: output?.body_content_original })}
+            onHistory={() => {
+              setHistoryModalData({
+                contentType: 'body',
+                contentIndex: 0,
+                currentContent: output?.body_content || '',
+                originalContent: output?.body_content_original || '',
+              })
+              setHistoryModalOpen(true)
+            }}
             showIndex={false}
             maxLines={20}
+            citations={output?.citations}
+            characterLimit={fieldCharacterLimit(platform, 'body')}
+            issues={validateField(platform, 'body', stripCitationMarkers(output?.body_content || ''))}
+          />
+          <ClaimChecks projectId={projectId} location="body" refreshKey={output?.body_content} />
+        </div>
+      )
+    }
+
+    // For an X thread, edit the tweets in order between the chosen hook and CTA
+    if (currentStep === 'thread') {
+      const hooks = output?.hooks || []
+      const ctas = output?.ctas || []
+      return (
+        <div className="max-w-2xl mx-auto">
+          <ThreadEditor
+            hook={hooks[output?.selected_hook_index ?? -1] ?? hooks[0] ?? ''}
+            cta={ctas[output?.selected_cta_index ?? -1] ?? null}
+            tweets={output?.thread || []}
+            originalTweets={output?.thread_original}
+            onChange={(tweets) => handleOutputUpdate({ thread: tweets })}
+          />
+        </div>
+      )
+    }
+
+    // For a caption (Instagram, Threads), edit the body between the chosen hook, CTA and hashtags
+    if (currentStep === 'caption' && platform.format === 'caption') {
+      const hooks = output?.hooks || []
+      const ctas = output?.ctas || []
+      return (
+        <div className="max-w-2xl mx-auto">
+          <CaptionEditor
+            limit={platform.characterLimit}
+            hook={hooks[output?.selected_hook_index ?? -1] ?? hooks[0] ?? ''}
+            body={output?.body_content || ''}
+            originalBody={output?.body_content_original}
+            cta={ctas[output?.selected_cta_index ?? -1] ?? null}
+            hashtags={selectedHashtags(output?.hashtag_sets || [], output?.selected_hashtag_index ?? -1)}
+            citations={output?.citations}
+            onChange={(body) => handleOutputUpdate({ body_content: body })}
           />
         </div>
       )
@@ -1185,7 +1679,20 @@ export default function ProjectPage() {
     // For other content types, show cards
     const originalItems = section.originalItems as string[] || []
     const isCTA = currentStep === 'ctas'
-    const isSkipped = isCTA && section.selectedIndex === -2  // -2 means explicitly skipped
+    const isHashtags = currentStep === 'hashtags'
+    const isSkipped = (isCTA || isHashtags) && section.selectedIndex === -2  // -2 means explicitly skipped
+    // Map step to the field the platform rules check, e.g. the fold for hooks
+    const stepToField: Partial<Record<WorkflowStep, ValidatedField>> = {
+      hooks: 'hook',
+      intros: 'intro',
+      titles: 'title',
+      ctas: 'cta',
+      hashtags: 'hashtags',
+      subject_lines: 'subject_line',
+      preview_texts: 'preview_text',
+    }
+    const field = stepToField[currentStep]
+    const characterLimit = field ? fieldCharacterLimit(platform, field) : undefined
 
     // Map step to content type for history
     const stepToContentType: Record<string, ContentType> = {
@@ -1232,6 +1739,16 @@ export default function ProjectPage() {
           />
         )}
 
+        {/* Skip option for hashtags */}
+        {isHashtags && (
+          <SkipOptionCard
+            isSelected={isSkipped}
+            onSelect={() => handleOutputUpdate({ selected_hashtag_index: -2 })}
+            label="No Hashtags"
+            description="Continue without hashtags"
+          />
+        )}
+
         {(section.items as string[]).map((item, index) => {
           const originalContent = originalItems[index]
           const isEdited = originalContent !== undefined && item !== originalContent
@@ -1255,6 +1772,8 @@ export default function ProjectPage() {
                 handleOutputUpdate({ [section.itemsKey]: items })
               } : undefined}
               onHistory={contentType ? () => openHistoryModal(index, item, originalContent || item) : undefined}
+              characterLimit={characterLimit}
+              issues={field ? validateField(platform, field, item) : undefined}
             />
           )
         })}
@@ -1293,8 +1812,11 @@ export default function ProjectPage() {
     )
   }
 
-  const { project, messages, output } = data
-  const sectionToRegenerate = project.current_step === 'thumbnails' ? 'visuals' : project.current_step
+  const { project, platform, messages, output } = data
+  const sectionToRegenerate = project.current_step === 'thumbnails' ? 'visuals'
+    : project.current_step === 'caption' ? 'body'
+    : project.current_step
+  const isSingleItemStep = ['body', 'thread', 'caption', 'outline', 'sections', 'alt_text', 'complete'].includes(project.current_step)
 
   return (
     <div className="h-screen bg-gray-50 dark:bg-gray-900 flex flex-col overflow-hidden">
@@ -1313,7 +1835,7 @@ export default function ProjectPage() {
                 {project.name}
               </h1>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                {project.platform.charAt(0).toUpperCase() + project.platform.slice(1)} • {project.topic.substring(0, 50)}...
+                {platform.label} • {project.topic.substring(0, 50)}...
               </p>
             </div>
           </div>
@@ -1339,10 +1861,13 @@ export default function ProjectPage() {
         {/* Progress Indicator */}
         <ProgressIndicator
           currentStep={project.current_step}
-          platform={project.platform}
+          steps={platform.steps}
           onStepClick={handleStepChange}
           completedSteps={completedSteps}
         />
+
+        {/* The original and its variants for other platforms */}
+        <ProjectFamilyBar projectId={projectId} refreshKey={familyRefreshKey} />
       </header>
 
       {/* Main Content */}
@@ -1351,19 +1876,25 @@ export default function ProjectPage() {
         <div className="flex-1 flex flex-col min-w-0">
           {/* Context Panel - relative z-10 ensures it stays above other content */}
           <div className="px-6 pt-4 flex-shrink-0 relative z-10">
-            <ContextPanel projectId={projectId} />
+            <ContextPanel
+              projectId={projectId}
+              examplesEnabled={project.use_performance_examples === 1}
+              onToggleExamples={handleToggleExamples}
+              examplesUsed={output?.examples_used}
+              sourceChunksUsed={output?.source_chunks_used}
+            />
           </div>
 
           <StepContainer
             currentStep={project.current_step}
-            platform={project.platform}
+            steps={platform.steps}
             onNext={handleNext}
             onPrevious={handlePrevious}
-            onRegenerate={output ? () => handleRegenerate(sectionToRegenerate) : undefined}
-            onAddMore={output && project.current_step !== 'body' && project.current_step !== 'complete' ? handleAddMore : undefined}
+            onRegenerate={output && project.current_step !== 'alt_text' ? () => handleRegenerate(sectionToRegenerate) : undefined}
+            onAddMore={output && !isSingleItemStep ? handleAddMore : undefined}
             isLoading={isGenerating}
             canProceed={!!output}
-            showAddMore={project.current_step !== 'body' && project.current_step !== 'complete'}
+            showAddMore={!isSingleItemStep}
           >
             {getStepContent()}
           </StepContainer>
@@ -1374,10 +1905,12 @@ export default function ProjectPage() {
           <AssistantPanel
             messages={messages}
             onSendMessage={handleSendMessage}
+            onCancel={handleCancelMessage}
             isLoading={isChatLoading}
+            status={assistantStatus}
             projectContext={{
               topic: project.topic,
-              platform: project.platform,
+              platform: platform.label,
               currentStep: STEP_LABELS[project.current_step],
             }}
           />
@@ -1466,6 +1999,12 @@ export default function ProjectPage() {
           onUpscale={handleUpscaleImage}
         />
       )}
+
+      <PerformanceModal
+        isOpen={performanceModalOpen}
+        onClose={() => setPerformanceModalOpen(false)}
+        projectId={projectId}
+      />
     </div>
   )
 }
@@ -1,30 +1,11 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Linkedin, Youtube, Facebook } from 'lucide-react'
-import type { Platform, CreateProjectRequest } from '@/types'
-
-const PLATFORMS: { value: Platform; label: string; icon: typeof Linkedin; description: string }[] = [
-  {
-    value: 'linkedin',
-    label: 'LinkedIn',
-    icon: Linkedin,
-    description: 'Professional posts with hooks, body content, CTAs, and visuals'
-  },
-  {
-    value: 'youtube',
-    label: 'YouTube',
-    icon: Youtube,
-    description: 'Video content with hooks, intros, titles, and thumbnails'
-  },
-  {
-    value: 'facebook',
-    label: 'Facebook',
-    icon: Facebook,
-    description: 'Social posts with hooks, body content, CTAs, and visuals'
-  },
-]
+import { ArrowLeft } from 'lucide-react'
+import { PlatformIcon } from '@/components/ui/PlatformIcon'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
+import type { Platform, PlatformDefinition, CreateProjectRequest } from '@/types'
 
 export default function NewProjectPage() {
   const router = useRouter()
@@ -35,6 +16,15 @@ export default function NewProjectPage() {
   const [platform, setPlatform] = useState<Platform>('linkedin')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [platforms, setPlatforms] = useState<PlatformDefinition[]>(BUILT_IN_PLATFORMS)
+
+  // Custom platforms join the built-ins once loaded
+  useEffect(() => {
+    fetch('/api/platforms')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setPlatforms(result) })
+      .catch(err => console.error('Failed to load platforms:', err))
+  }, [])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -113,8 +103,8 @@ export default function NewProjectPage() {
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
                 Select Platform
               </label>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {PLATFORMS.map(({ value, label, icon: Icon, description }) => (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {platforms.map(({ id: value, label, description }) => (
                   <button
                     key={value}
                     type="button"
@@ -134,7 +124,7 @@ export default function NewProjectPage() {
                         : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
                       }
                     `}>
-                      <Icon className="w-6 h-6" />
+                      <PlatformIcon platform={value} className="w-6 h-6" />
                     </div>
                     <div className="text-center">
                       <span className={`
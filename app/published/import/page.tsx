@@ -0,0 +1,332 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import Sidebar from '@/components/layout/Sidebar'
+import { cn, formatDate, truncate } from '@/lib/utils'
+import type { AnalyticsImportPreview, AnalyticsImportRow, ImportMatchStatus, Project } from '@/types'
+
+const STATUS_LABELS: Record<ImportMatchStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Needs review',
+  unmatched: 'No match',
+}
+
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = reader.result as string
+      // Remove data:...;base64, prefix
+      resolve(result.split(',')[1])
+    }
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
+
+function formatNumber(num: number | null): string {
+  return num === null ? '-' : num.toLocaleString()
+}
+
+export default function ImportAnalyticsPage() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [preview, setPreview] = useState<AnalyticsImportPreview | null>(null)
+  // Chosen project per row index ('' = skip)
+  const [selections, setSelections] = useState<Record<number, string>>({})
+  const [showOnlyReview, setShowOnlyReview] = useState(false)
+  const [isParsing, setIsParsing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importedCount, setImportedCount] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    fetchProjects()
+  }, [])
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (!response.ok) throw new Error('Failed to fetch projects')
+      const data = await response.json()
+      setProjects(data)
+    } catch (err) {
+      console.error('Error fetching projects:', err)
+    }
+  }
+
+  const handleFileSelected = async (file: File) => {
+    setIsParsing(true)
+    setError(null)
+    setPreview(null)
+    setImportedCount(null)
+    try {
+      const response = await fetch('/api/performance/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, data: await fileToBase64(file) }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to read file')
+
+      const result = data as AnalyticsImportPreview
+      setPreview(result)
+      setSelections(Object.fromEntries(result.rows.map((row, index) => [index, row.project_id || ''])))
+      setShowOnlyReview(result.rows.some(row => row.status !== 'matched'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file')
+    } finally {
+      setIsParsing(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  // Projects chosen for more than one row
+  const duplicateProjectIds = (() => {
+    const counts = new Map<string, number>()
+    Object.values(selections).forEach(projectId => {
+      if (projectId) counts.set(projectId, (counts.get(projectId) || 0) + 1)
+    })
+    return new Set(Array.from(counts.entries()).filter(([, count]) => count > 1).map(([projectId]) => projectId))
+  })()
+
+  const selectedRows = preview
+    ? preview.rows.map((row, index) => ({ row, projectId: selections[index] })).filter(item => item.projectId)
+    : []
+
+  const handleImport = async () => {
+    if (!preview || selectedRows.length === 0 || duplicateProjectIds.size > 0) return
+
+    setIsImporting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/performance/import/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: selectedRows.map(({ row, projectId }) => ({
+            project_id: projectId,
+            views: row.views,
+            likes: row.likes,
+            comments: row.comments,
+            reposts: row.reposts,
+          })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to import analytics')
+
+      setImportedCount(data.imported)
+      setPreview(null)
+      setSelections({})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import analytics')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const projectName = (projectId: string) =>
+    preview?.projects.find(p => p.id === projectId)?.name || 'Unknown project'
+
+  // Candidates first (with their scores), then every other published project
+  const renderProjectOptions = (row: AnalyticsImportRow) => {
+    const candidateIds = new Set(row.candidates.map(c => c.project_id))
+    return (
+      <>
+        <option value="">Skip this row</option>
+        {row.candidates.length > 0 && (
+          <optgroup label="Suggested">
+            {row.candidates.map(candidate => (
+              <option key={candidate.project_id} value={candidate.project_id}>
+                {truncate(projectName(candidate.project_id), 50)} ({Math.round(candidate.score * 100)}%)
+              </option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="All published">
+          {preview?.projects.filter(p => !candidateIds.has(p.id)).map(p => (
+            <option key={p.id} value={p.id}>
+              {truncate(p.name, 50)}{p.published_at ? ` · ${formatDate(p.published_at)}` : ''}
+            </option>
+          ))}
+        </optgroup>
+      </>
+    )
+  }
+
+  const counts = preview
+    ? {
+        matched: preview.rows.filter(r => r.status === 'matched').length,
+        ambiguous: preview.rows.filter(r => r.status === 'ambiguous').length,
+        unmatched: preview.rows.filter(r => r.status === 'unmatched').length,
+      }
+    : null
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar projects={projects} onRefresh={fetchProjects} />
+      <main className="flex-1 overflow-auto bg-light-bg-primary dark:bg-dark-bg-primary">
+        <div className="max-w-6xl mx-auto p-6">
+          {/* Header */}
+          <div className="mb-6">
+            <Link href="/published" className="text-sm text-linkedin hover:underline">
+              &larr; Published Posts
+            </Link>
+            <h1 className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary mt-2">
+              Import LinkedIn Analytics
+            </h1>
+            <p className="text-light-text-secondary dark:text-dark-text-secondary mt-1">
+              Upload a CSV or XLSX export from LinkedIn analytics. Rows are matched to your published posts by their text; check the matches before importing.
+            </p>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {importedCount !== null && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 mb-6">
+              <p className="text-green-700 dark:text-green-400">
+                Imported metrics for {importedCount} post{importedCount === 1 ? '' : 's'}.{' '}
+                <Link href="/published" className="underline">View published posts</Link>
+              </p>
+            </div>
+          )}
+
+          {/* Upload */}
+          <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-dashed border-gray-300 dark:border-gray-700 p-6 mb-6 text-center">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFileSelected(file)
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isParsing}
+              className="btn-primary inline-flex gap-2"
+            >
+              {isParsing ? 'Reading file...' : preview ? 'Choose a different file' : 'Choose file'}
+            </button>
+            {preview && (
+              <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mt-2">
+                {preview.filename}{preview.sheet ? ` · sheet "${preview.sheet}"` : ''} · {preview.rows.length} posts
+              </p>
+            )}
+          </div>
+
+          {/* Review */}
+          {preview && counts && (
+            <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="px-2 py-0.5 rounded bg-success/10 text-success">{counts.matched} matched</span>
+                  <span className="px-2 py-0.5 rounded bg-warning/10 text-warning">{counts.ambiguous} need review</span>
+                  <span className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-light-text-secondary dark:text-dark-text-secondary">{counts.unmatched} not matched</span>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={showOnlyReview}
+                    onChange={(e) => setShowOnlyReview(e.target.checked)}
+                  />
+                  Only rows needing review
+                </label>
+              </div>
+
+              {preview.rows.length === 0 ? (
+                <p className="p-6 text-center text-light-text-secondary dark:text-dark-text-secondary">
+                  The file has no post rows with metrics.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700 text-light-text-secondary dark:text-dark-text-secondary">
+                        <th className="text-left font-medium px-4 py-3">Post in export</th>
+                        <th className="text-center font-medium px-2 py-3">Impressions</th>
+                        <th className="text-center font-medium px-2 py-3">Likes</th>
+                        <th className="text-center font-medium px-2 py-3">Comments</th>
+                        <th className="text-center font-medium px-2 py-3">Reposts</th>
+                        <th className="text-left font-medium px-4 py-3">Project</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row, index) => {
+                        if (showOnlyReview && row.status === 'matched') return null
+                        const selected = selections[index] || ''
+                        const isDuplicate = !!selected && duplicateProjectIds.has(selected)
+                        return (
+                          <tr key={index} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                            <td className="px-4 py-3 max-w-sm">
+                              <span className={cn(
+                                'text-xs px-1.5 py-0.5 rounded',
+                                row.status === 'matched' && 'bg-success/10 text-success',
+                                row.status === 'ambiguous' && 'bg-warning/10 text-warning',
+                                row.status === 'unmatched' && 'bg-gray-100 dark:bg-gray-800 text-light-text-secondary dark:text-dark-text-secondary'
+                              )}>
+                                {STATUS_LABELS[row.status]}
+                              </span>
+                              <p className="mt-1 text-light-text-primary dark:text-dark-text-primary">
+                                {row.text ? truncate(row.text, 120) : row.post_url ? truncate(row.post_url, 60) : `Row ${row.row}`}
+                              </p>
+                              {row.posted_at && (
+                                <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                                  Posted {formatDate(row.posted_at)}
+                                </p>
+                              )}
+                            </td>
+                            <td className="px-2 py-3 text-center">{formatNumber(row.views)}</td>
+                            <td className="px-2 py-3 text-center">{formatNumber(row.likes)}</td>
+                            <td className="px-2 py-3 text-center">{formatNumber(row.comments)}</td>
+                            <td className="px-2 py-3 text-center">{formatNumber(row.reposts)}</td>
+                            <td className="px-4 py-3">
+                              <select
+                                value={selected}
+                                onChange={(e) => setSelections(prev => ({ ...prev, [index]: e.target.value }))}
+                                className={cn('input text-sm w-64', isDuplicate && 'border-red-500')}
+                              >
+                                {renderProjectOptions(row)}
+                              </select>
+                              {isDuplicate && (
+                                <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                                  Chosen for another row too
+                                </p>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-200 dark:border-gray-700">
+                <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                  Imported numbers replace each post&apos;s current metrics and are added to its history.
+                </p>
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting || selectedRows.length === 0 || duplicateProjectIds.size > 0}
+                  className="btn-primary"
+                >
+                  {isImporting ? 'Importing...' : `Import ${selectedRows.length} post${selectedRows.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import Sidebar from '@/components/layout/Sidebar'
+import { cn, formatDate, truncate } from '@/lib/utils'
+import type { AttributionGroup, AttributionMetric, AttributionReport, Project } from '@/types'
+
+const METRIC_OPTIONS: { value: AttributionMetric; label: string }[] = [
+  { value: 'engagement_rate', label: 'Engagement rate' },
+  { value: 'engagements', label: 'Engagements' },
+  { value: 'views', label: 'Views' },
+]
+
+function formatMetric(value: number | null, metric: AttributionMetric): string {
+  if (value === null) return '-'
+  if (metric === 'engagement_rate') return `${(value * 100).toFixed(1)}%`
+  return Math.round(value).toLocaleString()
+}
+
+function formatLift(lift: number | null): string {
+  if (lift === null) return ''
+  const percent = Math.round(lift * 100)
+  return `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+function describeCorrelation(r: number | null): string {
+  if (r === null) return 'Not enough data'
+  const strength = Math.abs(r) >= 0.5 ? 'Strong' : Math.abs(r) >= 0.3 ? 'Moderate' : Math.abs(r) >= 0.1 ? 'Weak' : 'No'
+  if (strength === 'No') return 'No clear relationship'
+  return `${strength} ${r > 0 ? 'positive' : 'negative'}`
+}
+
+export default function InsightsPage() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [metric, setMetric] = useState<AttributionMetric>('engagement_rate')
+  const [report, setReport] = useState<AttributionReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchProjects()
+  }, [])
+
+  useEffect(() => {
+    fetchReport(metric)
+  }, [metric])
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (!response.ok) throw new Error('Failed to fetch projects')
+      const data = await response.json()
+      setProjects(data)
+    } catch (err) {
+      console.error('Error fetching projects:', err)
+    }
+  }
+
+  const fetchReport = async (selectedMetric: AttributionMetric) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      // Weekday and time of day are grouped in the viewer's timezone
+      const tzOffset = new Date().getTimezoneOffset()
+      const response = await fetch(`/api/performance/attribution?metric=${selectedMetric}&tzOffset=${tzOffset}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load insights')
+      setReport(data.report)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load insights')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const renderGroup = (group: AttributionGroup, maxAverage: number) => (
+    <div key={group.value} className={cn('text-sm', group.low_sample && 'opacity-60')}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-light-text-primary dark:text-dark-text-primary">{group.label}</span>
+        <span className="text-light-text-secondary dark:text-dark-text-secondary whitespace-nowrap">
+          {formatMetric(group.average, metric)}
+          {group.lift !== null && (
+            <span className={cn(
+              'ml-2 font-medium',
+              group.lift > 0.05 && 'text-success',
+              group.lift < -0.05 && 'text-red-600 dark:text-red-400'
+            )}>
+              {formatLift(group.lift)}
+            </span>
+          )}
+          <span className="ml-2 text-xs">n={group.posts}</span>
+        </span>
+      </div>
+      <div className="h-2 rounded bg-gray-100 dark:bg-gray-800">
+        <div
+          className="h-2 rounded bg-linkedin"
+          style={{ width: `${maxAverage > 0 ? (group.average / maxAverage) * 100 : 0}%` }}
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar projects={projects} onRefresh={fetchProjects} />
+      <main className="flex-1 overflow-auto bg-light-bg-primary dark:bg-dark-bg-primary">
+        <div className="max-w-6xl mx-auto p-6">
+          {/* Header */}
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div>
+              <Link href="/published" className="text-sm text-linkedin hover:underline">
+                &larr; Published Posts
+              </Link>
+              <h1 className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary mt-2">
+                What Works For You
+              </h1>
+              <p className="text-light-text-secondary dark:text-dark-text-secondary mt-1">
+                How your published posts performed by the hook, CTA, length, media and timing you chose
+              </p>
+            </div>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as AttributionMetric)}
+              className="input text-sm w-48"
+            >
+              {METRIC_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {isLoading && !report ? (
+            <div className="text-center py-12 text-light-text-secondary dark:text-dark-text-secondary">
+              Loading insights...
+            </div>
+          ) : report && report.posts_with_metrics === 0 ? (
+            <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 p-8 text-center">
+              <p className="text-light-text-primary dark:text-dark-text-primary font-medium">
+                No metrics to analyse yet
+              </p>
+              <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mt-1">
+                {report.total_published === 0
+                  ? 'Publish a few posts and track their performance to see patterns here.'
+                  : 'Add metrics to your published posts, or import them from LinkedIn analytics.'}
+              </p>
+            </div>
+          ) : report && (
+            <>
+              {/* Summary */}
+              <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 p-4 mb-6">
+                <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                  Based on {report.posts_with_metrics} of {report.total_published} published posts.
+                  Average {METRIC_OPTIONS.find(o => o.value === metric)?.label.toLowerCase()}:{' '}
+                  <span className="font-medium text-light-text-primary dark:text-dark-text-primary">
+                    {formatMetric(report.overall_average, metric)}
+                  </span>.
+                  Percentages compare each group with that average; faded groups have fewer than 3 posts.
+                  These are patterns in your own posts, not proof of cause.
+                </p>
+              </div>
+
+              {/* Breakdowns */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                {report.breakdowns.filter(breakdown => breakdown.groups.length > 0).map(breakdown => {
+                  const maxAverage = Math.max(...breakdown.groups.map(group => group.average))
+                  return (
+                    <div
+                      key={breakdown.dimension}
+                      className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 p-4"
+                    >
+                      <h2 className="font-semibold text-light-text-primary dark:text-dark-text-primary mb-3">
+                        {breakdown.label}
+                      </h2>
+                      <div className="space-y-3">
+                        {breakdown.groups.map(group => renderGroup(group, maxAverage))}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+
+              {/* Correlations */}
+              <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 p-4 mb-6">
+                <h2 className="font-semibold text-light-text-primary dark:text-dark-text-primary mb-3">
+                  Correlations
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {report.correlations.map(correlation => (
+                    <div key={correlation.feature}>
+                      <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">{correlation.label}</p>
+                      <p className="text-xl font-bold text-light-text-primary dark:text-dark-text-primary">
+                        {correlation.r === null ? '-' : correlation.r.toFixed(2)}
+                      </p>
+                      <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                        {describeCorrelation(correlation.r)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Posts */}
+              <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+                <h2 className="font-semibold text-light-text-primary dark:text-dark-text-primary p-4 border-b border-gray-200 dark:border-gray-700">
+                  Posts by {METRIC_OPTIONS.find(o => o.value === metric)?.label.toLowerCase()}
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700 text-light-text-secondary dark:text-dark-text-secondary">
+                        <th className="text-left font-medium px-4 py-3">Post</th>
+                        <th className="text-left font-medium px-4 py-3">Hook</th>
+                        <th className="text-left font-medium px-4 py-3">CTA</th>
+                        <th className="text-center font-medium px-2 py-3">Views</th>
+                        <th className="text-center font-medium px-2 py-3">Engagements</th>
+                        <th className="text-center font-medium px-2 py-3">Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.posts.map(post => (
+                        <tr key={post.project_id} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                          <td className="px-4 py-3">
+                            <Link href={`/project/${post.project_id}`} className="text-linkedin hover:underline">
+                              {truncate(post.name, 40)}
+                            </Link>
+                            {post.published_at && (
+                              <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                                {formatDate(post.published_at)}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 max-w-xs text-light-text-primary dark:text-dark-text-primary">
+                            {post.hook ? truncate(post.hook, 90) : '-'}
+                          </td>
+                          <td className="px-4 py-3 max-w-xs text-light-text-secondary dark:text-dark-text-secondary">
+                            {post.cta ? truncate(post.cta, 60) : 'None'}
+                          </td>
+                          <td className="px-2 py-3 text-center">{formatMetric(post.views, 'views')}</td>
+                          <td className="px-2 py-3 text-center">{formatMetric(post.engagements, 'engagements')}</td>
+                          <td className="px-2 py-3 text-center">{formatMetric(post.engagement_rate, 'engagement_rate')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,69 +1,75 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 import Sidebar from '@/components/layout/Sidebar'
 import { cn, formatRelativeTime, truncate } from '@/lib/utils'
-import type { Session } from '@/types'
-
-interface PerformanceNote {
-  id: string
-  session_id: string
-  views: number | null
-  likes: number | null
-  comments: number | null
-  reposts: number | null
-  notes: string
-  recorded_at: string
-}
-
-interface PublishedSession extends Session {
-  performance: PerformanceNote | null
-}
+import { PerformanceModal } from '@/components/modals/PerformanceModal'
+import { PostAgeChart } from '@/components/analytics/PostAgeChart'
+import type { Project, ProjectMetricSeries, PublishedProject } from '@/types'
 
 type SortField = 'published_at' | 'views' | 'likes' | 'comments' | 'reposts'
 
 export default function PublishedPostsPage() {
-  const [sessions, setSessions] = useState<Session[]>([])
-  const [publishedSessions, setPublishedSessions] = useState<PublishedSession[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [publishedProjects, setPublishedProjects] = useState<PublishedProject[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [sortBy, setSortBy] = useState<SortField>('published_at')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [trackingProjectId, setTrackingProjectId] = useState<string | null>(null)
+  const [metricSeries, setMetricSeries] = useState<ProjectMetricSeries[] | null>(null)
 
-  // Fetch all sessions for the sidebar
+  // Fetch all projects for the sidebar
   useEffect(() => {
-    fetchSessions()
+    fetchProjects()
+    fetchMetricSeries()
   }, [])
 
-  // Fetch published sessions whenever sort changes
-  useEffect(() => {
-    fetchPublishedSessions()
-  }, [sortBy, sortOrder])
-
-  const fetchSessions = async () => {
+  const fetchProjects = async () => {
     try {
-      const response = await fetch('/api/sessions')
-      if (!response.ok) throw new Error('Failed to fetch sessions')
+      const response = await fetch('/api/projects')
+      if (!response.ok) throw new Error('Failed to fetch projects')
       const data = await response.json()
-      setSessions(data)
+      setProjects(data)
     } catch (err) {
-      console.error('Error fetching sessions:', err)
+      console.error('Error fetching projects:', err)
     }
   }
 
-  const fetchPublishedSessions = async () => {
+  const fetchPublishedProjects = useCallback(async () => {
     try {
       setIsLoading(true)
       const response = await fetch(`/api/published?sortBy=${sortBy}&sortOrder=${sortOrder}`)
-      if (!response.ok) throw new Error('Failed to fetch published sessions')
+      if (!response.ok) throw new Error('Failed to fetch published projects')
       const data = await response.json()
-      setPublishedSessions(data.sessions)
+      setPublishedProjects(data.projects)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setIsLoading(false)
     }
+  }, [sortBy, sortOrder])
+
+  // Fetch published projects whenever sort changes
+  useEffect(() => {
+    fetchPublishedProjects()
+  }, [fetchPublishedProjects])
+
+  const fetchMetricSeries = async () => {
+    try {
+      const response = await fetch('/api/performance/snapshots')
+      if (!response.ok) throw new Error('Failed to fetch metric history')
+      const data = await response.json()
+      setMetricSeries(data.series)
+    } catch (err) {
+      console.error('Error fetching metric history:', err)
+    }
+  }
+
+  const handleMetricsSaved = () => {
+    fetchPublishedProjects()
+    fetchMetricSeries()
   }
 
   const handleSort = (field: SortField) => {
@@ -105,17 +111,27 @@ export default function PublishedPostsPage() {
 
   return (
     <div className="flex h-screen overflow-hidden">
-      <Sidebar sessions={sessions} onRefresh={fetchSessions} />
+      <Sidebar projects={projects} onRefresh={fetchProjects} />
       <main className="flex-1 overflow-auto bg-light-bg-primary dark:bg-dark-bg-primary">
         <div className="max-w-6xl mx-auto p-6">
           {/* Header */}
-          <div className="mb-6">
-            <h1 className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
-              Published Posts
-            </h1>
-            <p className="text-light-text-secondary dark:text-dark-text-secondary mt-1">
-              Track engagement metrics for your published LinkedIn content
-            </p>
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
+                Published Posts
+              </h1>
+              <p className="text-light-text-secondary dark:text-dark-text-secondary mt-1">
+                Track engagement metrics for your published LinkedIn content
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Link href="/published/insights" className="btn-secondary whitespace-nowrap">
+                Insights
+              </Link>
+              <Link href="/published/import" className="btn-secondary whitespace-nowrap">
+                Import Analytics
+              </Link>
+            </div>
           </div>
 
           {/* Error State */}
@@ -130,7 +146,7 @@ export default function PublishedPostsPage() {
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-linkedin"></div>
             </div>
-          ) : publishedSessions.length === 0 ? (
+          ) : publishedProjects.length === 0 ? (
             /* Empty State */
             <div className="text-center py-12">
               <svg
@@ -152,7 +168,7 @@ export default function PublishedPostsPage() {
               <p className="text-light-text-secondary dark:text-dark-text-secondary mb-4">
                 Once you publish your content, track its performance here.
               </p>
-              <Link href="/session/new" className="btn-primary inline-flex">
+              <Link href="/project/new" className="btn-primary inline-flex">
                 Create New Content
               </Link>
             </div>
@@ -217,71 +233,79 @@ export default function PublishedPostsPage() {
                     </tr>
                   </thead>
                   <tbody>
-                    {publishedSessions.map((session) => (
+                    {publishedProjects.map((project) => (
                       <tr
-                        key={session.id}
+                        key={project.id}
                         className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
                       >
                         <td className="px-4 py-3">
                           <div>
                             <p className="font-medium text-light-text-primary dark:text-dark-text-primary">
-                              {truncate(session.title, 40)}
+                              {truncate(project.name, 40)}
                             </p>
                             <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
-                              {truncate(session.original_idea, 60)}
+                              {truncate(project.topic, 60)}
                             </p>
                           </div>
                         </td>
                         <td className="px-4 py-3 text-center text-sm text-light-text-secondary dark:text-dark-text-secondary">
-                          {session.published_at ? formatRelativeTime(session.published_at) : '-'}
+                          {project.published_at ? formatRelativeTime(project.published_at) : '-'}
                         </td>
                         <td className="px-4 py-3 text-center">
                           <span className={cn(
                             'font-medium',
-                            session.performance?.views
+                            project.performance?.views
                               ? 'text-light-text-primary dark:text-dark-text-primary'
                               : 'text-gray-400'
                           )}>
-                            {formatNumber(session.performance?.views)}
+                            {formatNumber(project.performance?.views)}
                           </span>
                         </td>
                         <td className="px-4 py-3 text-center">
                           <span className={cn(
                             'font-medium',
-                            session.performance?.likes
+                            project.performance?.likes
                               ? 'text-light-text-primary dark:text-dark-text-primary'
                               : 'text-gray-400'
                           )}>
-                            {formatNumber(session.performance?.likes)}
+                            {formatNumber(project.performance?.likes)}
                           </span>
                         </td>
                         <td className="px-4 py-3 text-center">
                           <span className={cn(
                             'font-medium',
-                            session.performance?.comments
+                            project.performance?.comments
                               ? 'text-light-text-primary dark:text-dark-text-primary'
                               : 'text-gray-400'
                           )}>
-                            {formatNumber(session.performance?.comments)}
+                            {formatNumber(project.performance?.comments)}
                           </span>
                         </td>
                         <td className="px-4 py-3 text-center">
                           <span className={cn(
                             'font-medium',
-                            session.performance?.reposts
+                            project.performance?.reposts
                               ? 'text-light-text-primary dark:text-dark-text-primary'
                               : 'text-gray-400'
                           )}>
-                            {formatNumber(session.performance?.reposts)}
+                            {formatNumber(project.performance?.reposts)}
                           </span>
                         </td>
                         <td className="px-4 py-3 text-right">
-                          <Link
-                            href={`/session/${session.id}`}
-                            className="text-linkedin hover:text-linkedin-dark text-sm font-medium"
-                          >
-                            View
-                          </Link>
+                          <div className="flex items-center justify-end gap-3">
+                            <button
+                              onClick={() => setTrackingProjectId(project.id)}
+                              className="text-light-text-secondary dark:text-dark-text-secondary hover:text-linkedin text-sm font-medium"
+                            >
+                              {project.performance ? 'Edit Metrics' : 'Track Metrics'}
+                            </button>
+                            <Link
+                              href={`/project/${project.id}`}
+                              className="text-linkedin hover:text-linkedin-dark text-sm font-medium"
+                            >
+                              View
+                            </Link>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -292,38 +316,60 @@ export default function PublishedPostsPage() {
           )}
 
           {/* Summary Stats */}
-          {publishedSessions.length > 0 && (
+          {publishedProjects.length > 0 && (
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
               <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg p-4 border border-gray-200 dark:border-gray-800">
                 <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">Total Posts</p>
                 <p className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
-                  {publishedSessions.length}
+                  {publishedProjects.length}
                 </p>
               </div>
               <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg p-4 border border-gray-200 dark:border-gray-800">
                 <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">Total Views</p>
                 <p className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
-                  {formatNumber(publishedSessions.reduce((sum, s) => sum + (s.performance?.views || 0), 0))}
+                  {formatNumber(publishedProjects.reduce((sum, s) => sum + (s.performance?.views || 0), 0))}
                 </p>
               </div>
               <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg p-4 border border-gray-200 dark:border-gray-800">
                 <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">Total Likes</p>
                 <p className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
-                  {formatNumber(publishedSessions.reduce((sum, s) => sum + (s.performance?.likes || 0), 0))}
+                  {formatNumber(publishedProjects.reduce((sum, s) => sum + (s.performance?.likes || 0), 0))}
                 </p>
               </div>
               <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg p-4 border border-gray-200 dark:border-gray-800">
                 <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">Total Engagement</p>
                 <p className="text-2xl font-bold text-light-text-primary dark:text-dark-text-primary">
-                  {formatNumber(publishedSessions.reduce((sum, s) =>
+                  {formatNumber(publishedProjects.reduce((sum, s) =>
                     sum + (s.performance?.likes || 0) + (s.performance?.comments || 0) + (s.performance?.reposts || 0), 0
                   ))}
                 </p>
               </div>
             </div>
           )}
+
+          {/* Growth by post age */}
+          {publishedProjects.length > 0 && metricSeries && (
+            <div className="bg-light-bg-secondary dark:bg-dark-bg-secondary rounded-lg p-4 border border-gray-200 dark:border-gray-800 mt-6">
+              <h2 className="text-lg font-semibold text-light-text-primary dark:text-dark-text-primary mb-1">
+                Growth by Post Age
+              </h2>
+              <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mb-4">
+                Compare posts at the same age since publishing. Each time you track metrics, a snapshot is added.
+              </p>
+              <PostAgeChart series={metricSeries} />
+            </div>
+          )}
         </div>
       </main>
+
+      {trackingProjectId && (
+        <PerformanceModal
+          isOpen
+          onClose={() => setTrackingProjectId(null)}
+          projectId={trackingProjectId}
+          onSaved={handleMetricsSaved}
+        />
+      )}
     </div>
   )
 }
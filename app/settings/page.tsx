@@ -2,35 +2,34 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Save, RotateCcw, Loader2, Check, ChevronDown } from 'lucide-react'
-import type { Setting, SettingKey } from '@/types'
+import { ArrowLeft, Save, RotateCcw, Loader2, Check, ChevronDown, Plus, Edit2, Trash2 } from 'lucide-react'
+import { PlatformForm } from '@/components/modals/PlatformForm'
+import { WebhookSettings } from '@/components/settings/WebhookSettings'
+import { PlatformIcon, platformColor } from '@/components/ui/PlatformIcon'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
+import type { CustomPlatformRequest, PlatformDefinition, Setting, SettingKey, TextProviderInfo, ImageProviderInfo } from '@/types'
 
-const VOICE_STYLE_PROMPTS: { key: SettingKey; label: string; description: string; rows: number }[] = [
-  {
-    key: 'master_voice_prompt',
-    label: 'Master Voice & Style',
-    description: 'Your universal writing DNA — applied to ALL content across every platform',
-    rows: 10,
-  },
-  {
-    key: 'linkedin_tone_prompt',
-    label: 'LinkedIn Tone',
-    description: 'Platform-specific tone modifier layered on top of your master voice for LinkedIn content',
-    rows: 6,
-  },
-  {
-    key: 'youtube_tone_prompt',
-    label: 'YouTube Tone',
-    description: 'Platform-specific tone modifier layered on top of your master voice for YouTube content',
-    rows: 6,
-  },
-  {
-    key: 'facebook_tone_prompt',
-    label: 'Facebook Tone',
-    description: 'Platform-specific tone modifier layered on top of your master voice for Facebook content',
-    rows: 6,
-  },
-]
+const MASTER_VOICE_PROMPT = {
+  key: 'master_voice_prompt' as SettingKey,
+  label: 'Master Voice & Style',
+  description: 'Your universal writing DNA — applied to ALL content across every platform',
+  rows: 10,
+}
+
+// One tone modifier per platform, custom platforms included
+function voiceStylePrompts(platforms: PlatformDefinition[]): { key: SettingKey; label: string; description: string; rows: number; resettable: boolean }[] {
+  return [
+    { ...MASTER_VOICE_PROMPT, resettable: true },
+    ...platforms.map(platform => ({
+      key: platform.toneSettingKey,
+      label: `${platform.label} Tone`,
+      description: `Platform-specific tone modifier layered on top of your master voice for ${platform.label} content`,
+      rows: 6,
+      // Custom platforms have no shipped default to go back to
+      resettable: platform.builtIn,
+    })),
+  ]
+}
 
 const AGENT_PROMPTS: { key: SettingKey; label: string; description: string }[] = [
   {
@@ -74,6 +73,14 @@ export default function SettingsPage() {
   const [savedKeys, setSavedKeys] = useState<Set<string>>(new Set())
   const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
+  const [textProviders, setTextProviders] = useState<TextProviderInfo[]>([])
+  const [imageProviders, setImageProviders] = useState<ImageProviderInfo[]>([])
+  const [platforms, setPlatforms] = useState<PlatformDefinition[]>(BUILT_IN_PLATFORMS)
+  // null while closed; 'new' for a new platform, otherwise the platform being edited
+  const [platformForm, setPlatformForm] = useState<PlatformDefinition | 'new' | null>(null)
+  const [deletingPlatformId, setDeletingPlatformId] = useState<string | null>(null)
+
+  const customPlatforms = platforms.filter(p => !p.builtIn)
 
   const toggleExpanded = (key: string) => {
     setExpandedKeys(prev => {
@@ -107,6 +114,199 @@ export default function SettingsPage() {
     fetchSettings()
   }, [])
 
+  // Fetch available text and image providers and their configuration status
+  useEffect(() => {
+    async function fetchProviders() {
+      try {
+        const [textResponse, imageResponse] = await Promise.all([
+          fetch('/api/llm/providers'),
+          fetch('/api/images/providers'),
+        ])
+        if (textResponse.ok) {
+          const data = await textResponse.json()
+          setTextProviders(data.providers)
+        }
+        if (imageResponse.ok) {
+          const data = await imageResponse.json()
+          setImageProviders(data.providers)
+        }
+      } catch (err) {
+        console.error('Failed to load providers:', err)
+      }
+    }
+    fetchProviders()
+  }, [])
+
+  // Fetch built-in and custom platforms for the tone prompts and the platform list
+  useEffect(() => {
+    async function fetchPlatforms() {
+      try {
+        const response = await fetch('/api/platforms')
+        if (response.ok) {
+          setPlatforms(await response.json())
+        }
+      } catch (err) {
+        console.error('Failed to load platforms:', err)
+      }
+    }
+    fetchPlatforms()
+  }, [])
+
+  // Pick up a setting changed outside this page's own save/reset, keeping other unsaved edits
+  const refreshSetting = async (key: SettingKey) => {
+    const response = await fetch(`/api/settings?key=${encodeURIComponent(key)}`)
+    if (!response.ok) return
+    const setting = await response.json() as Setting
+    setSettings(prev => prev.some(s => s.key === key) ? prev.map(s => s.key === key ? setting : s) : [...prev, setting])
+    setEditedValues(prev => ({ ...prev, [key]: setting.value }))
+  }
+
+  // Create or update a custom platform; errors are shown in the form
+  const handleSavePlatform = async (data: CustomPlatformRequest) => {
+    const editing = platformForm !== 'new' ? platformForm : null
+    const response = await fetch(editing ? `/api/platforms/${editing.id}` : '/api/platforms', {
+      method: editing ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error || 'Failed to save platform')
+
+    const saved = result as PlatformDefinition
+    setPlatforms(prev => editing ? prev.map(p => p.id === saved.id ? saved : p) : [...prev, saved])
+    await refreshSetting(saved.toneSettingKey)
+  }
+
+  const handleDeletePlatform = async (platform: PlatformDefinition) => {
+    if (!confirm(`Delete the ${platform.label} platform and its tone prompt?`)) return
+
+    setDeletingPlatformId(platform.id)
+    try {
+      const response = await fetch(`/api/platforms/${platform.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete platform')
+      }
+      setPlatforms(prev => prev.filter(p => p.id !== platform.id))
+      setSettings(prev => prev.filter(s => s.key !== platform.toneSettingKey))
+    } catch (err) {
+      // Platforms still used by projects can't be deleted; say why without leaving the page
+      alert(err instanceof Error ? err.message : 'Failed to delete platform')
+    } finally {
+      setDeletingPlatformId(null)
+    }
+  }
+
+  // Save a pair of settings together, e.g. a global provider + model (model may be empty = provider default)
+  const handleSaveSettingPair = async (firstKey: SettingKey, secondKey: SettingKey) => {
+    setIsSaving(prev => ({ ...prev, [firstKey]: true }))
+    try {
+      for (const key of [firstKey, secondKey]) {
+        if (!isModified(key)) continue
+        const response = await fetch('/api/settings', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ key, value: editedValues[key] ?? '' }),
+        })
+        if (!response.ok) throw new Error('Failed to save settings')
+        const updatedSetting = await response.json()
+        setSettings(prev => prev.map(s => s.key === key ? updatedSetting : s))
+      }
+
+      setSavedKeys(prev => new Set(Array.from(prev).concat([firstKey])))
+      setTimeout(() => {
+        setSavedKeys(prev => {
+          const newSet = new Set(prev)
+          newSet.delete(firstKey)
+          return newSet
+        })
+      }, 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(prev => ({ ...prev, [firstKey]: false }))
+    }
+  }
+
+  // Provider select + model input + save button for a provider/model settings pair
+  const renderModelSelection = (
+    providerKey: SettingKey,
+    modelKey: SettingKey,
+    providers: (TextProviderInfo | ImageProviderInfo)[],
+    fallbackProvider: string
+  ) => {
+    const providerId = editedValues[providerKey] || fallbackProvider
+    const provider = providers.find(p => p.id === providerId)
+    const modelModified = isModified(providerKey) || isModified(modelKey)
+    const saving = isSaving[providerKey]
+
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 px-6 py-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Provider
+            </label>
+            <select
+              value={providerId}
+              onChange={(e) => setEditedValues(prev => ({ ...prev, [providerKey]: e.target.value, [modelKey]: '' }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>
+                  {p.label}{p.configured ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Model
+            </label>
+            <input
+              type="text"
+              value={editedValues[modelKey] || ''}
+              onChange={(e) => setEditedValues(prev => ({ ...prev, [modelKey]: e.target.value }))}
+              placeholder={provider?.defaultModel || 'Provider default'}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 font-mono text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className={`text-xs ${provider && !provider.configured ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            {provider ? provider.configurationHint : ''}
+          </p>
+          <div className="flex items-center gap-2">
+            {savedKeys.has(providerKey) && (
+              <span className="flex items-center gap-1 text-green-600 dark:text-green-400 text-xs">
+                <Check className="w-3 h-3" />
+                Saved
+              </span>
+            )}
+            <button
+              onClick={() => handleSaveSettingPair(providerKey, modelKey)}
+              disabled={saving || !modelModified}
+              className={`
+                px-4 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center gap-1.5
+                ${modelModified
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-400 cursor-not-allowed'
+                }
+              `}
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // Save a specific setting
   const handleSave = async (key: SettingKey) => {
     const value = editedValues[key]
@@ -193,7 +393,7 @@ export default function SettingsPage() {
               Settings
             </h1>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              Customize AI agent system prompts
+              Choose the text model, manage platforms and customize AI agent system prompts
             </p>
           </div>
         </div>
@@ -207,6 +407,169 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {/* Text Model Section */}
+        <div className="mb-8">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Text Model</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Provider and model used for all text generation. Projects can override this in their setup step.
+          </p>
+          {renderModelSelection('llm_provider', 'llm_model', textProviders, 'anthropic')}
+        </div>
+
+        {/* Image Model Section */}
+        <div className="mb-8">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Image Model</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Provider and model used to generate, refine and upscale images. The local placeholder works without any API key.
+          </p>
+          {renderModelSelection('image_provider', 'image_model', imageProviders, 'gemini')}
+        </div>
+
+        <hr className="border-gray-200 dark:border-gray-700 my-8" />
+
+        {/* Platforms Section */}
+        <div className="mb-8">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Platforms</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Add your own platforms with their own steps, limits, image shape and prompts. Built-in platforms can&apos;t be changed.
+              </p>
+            </div>
+            <button
+              onClick={() => setPlatformForm('new')}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex-shrink-0"
+            >
+              <Plus className="w-4 h-4" />
+              Add Platform
+            </button>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+            {platforms.map(platform => (
+              <div key={platform.id} className="px-6 py-4 flex items-center gap-4">
+                <div className={`p-2 rounded-lg flex-shrink-0 ${platformColor(platform.id)}`}>
+                  <PlatformIcon platform={platform.id} className="w-5 h-5" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{platform.label}</h3>
+                    {platform.builtIn && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                        Built-in
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                    {platform.description || `${platform.steps.length - 2} steps`}
+                    {platform.characterLimit && ` · ${platform.characterLimit.toLocaleString()} characters`}
+                  </p>
+                </div>
+                {!platform.builtIn && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setPlatformForm(platform)}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeletePlatform(platform)}
+                      disabled={deletingPlatformId === platform.id}
+                      className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                      title="Delete"
+                    >
+                      {deletingPlatformId === platform.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {customPlatforms.length === 0 && (
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+              No custom platforms yet.
+            </p>
+          )}
+        </div>
+
+        <hr className="border-gray-200 dark:border-gray-700 my-8" />
+
+        {/* Webhooks Section */}
+        <div className="mb-8">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Webhooks</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Send project events to other tools as JSON, signed with each endpoint&apos;s secret in the X-Webhook-Signature header. Failed deliveries are retried for about 15 minutes.
+          </p>
+          <WebhookSettings />
+        </div>
+
+        <hr className="border-gray-200 dark:border-gray-700 my-8" />
+
+        {/* Feed Preview Profile Section */}
+        <div className="mb-8">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Feed Preview Profile</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            The name and headline shown above LinkedIn and Facebook feed previews on the summary step.
+          </p>
+          <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 px-6 py-5 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={editedValues.profile_name || ''}
+                  onChange={(e) => setEditedValues(prev => ({ ...prev, profile_name: e.target.value }))}
+                  placeholder="Your Name"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Headline
+                </label>
+                <input
+                  type="text"
+                  value={editedValues.profile_headline || ''}
+                  onChange={(e) => setEditedValues(prev => ({ ...prev, profile_headline: e.target.value }))}
+                  placeholder="e.g. Founder at Acme · Writing about product"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              {savedKeys.has('profile_name') && (
+                <span className="flex items-center gap-1 text-green-600 dark:text-green-400 text-xs">
+                  <Check className="w-3 h-3" />
+                  Saved
+                </span>
+              )}
+              <button
+                onClick={() => handleSaveSettingPair('profile_name', 'profile_headline')}
+                disabled={isSaving.profile_name || !(isModified('profile_name') || isModified('profile_headline'))}
+                className={`
+                  px-4 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center gap-1.5
+                  ${isModified('profile_name') || isModified('profile_headline')
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-400 cursor-not-allowed'
+                  }
+                `}
+              >
+                {isSaving.profile_name ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4" />
+                )}
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <hr className="border-gray-200 dark:border-gray-700 my-8" />
+
         {/* Voice & Style Section */}
         <div className="mb-8">
           <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Voice & Style</h2>
@@ -214,7 +577,7 @@ export default function SettingsPage() {
             Define your writing voice and platform-specific tones. These are layered into every generation call.
           </p>
           <div className="space-y-3">
-            {VOICE_STYLE_PROMPTS.map(({ key, label, description, rows }) => {
+            {voiceStylePrompts(platforms).map(({ key, label, description, rows, resettable }) => {
               const value = editedValues[key] || ''
               const modified = isModified(key)
               const saving = isSaving[key]
@@ -272,15 +635,17 @@ export default function SettingsPage() {
                         onClick={(e) => e.stopPropagation()}
                       />
                       <div className="flex items-center justify-end gap-2 mt-3">
-                        <button
-                          onClick={(e) => { e.stopPropagation(); handleReset(key) }}
-                          disabled={saving}
-                          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors flex items-center gap-1.5"
-                          title="Reset to default"
-                        >
-                          <RotateCcw className="w-4 h-4" />
-                          Reset
-                        </button>
+                        {resettable && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleReset(key) }}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors flex items-center gap-1.5"
+                            title="Reset to default"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                            Reset
+                          </button>
+                        )}
                         <button
                           onClick={(e) => { e.stopPropagation(); handleSave(key) }}
                           disabled={saving || !modified}
@@ -411,6 +776,14 @@ export default function SettingsPage() {
           </div>
         </div>
       </main>
+
+      <PlatformForm
+        isOpen={platformForm !== null}
+        onClose={() => setPlatformForm(null)}
+        onSubmit={handleSavePlatform}
+        platform={platformForm !== 'new' ? platformForm : null}
+        tonePrompt={platformForm && platformForm !== 'new' ? settings.find(s => s.key === platformForm.toneSettingKey)?.value : ''}
+      />
     </div>
   )
 }
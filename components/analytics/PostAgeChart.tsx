@@ -0,0 +1,248 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { cn, truncate } from '@/lib/utils'
+import { AGE_CHECKPOINTS, METRIC_NAMES, engagementRate, metricAtAge } from '@/lib/analytics/metrics'
+import type { MetricName, ProjectMetricSeries } from '@/types'
+
+interface PostAgeChartProps {
+  series: ProjectMetricSeries[]
+}
+
+const METRIC_LABELS: Record<MetricName, string> = {
+  views: 'Views',
+  likes: 'Likes',
+  comments: 'Comments',
+  reposts: 'Reposts',
+}
+
+const HORIZONS: { hours: number; label: string }[] = [
+  { hours: 24, label: '24h' },
+  { hours: 24 * 7, label: '7d' },
+  { hours: 24 * 30, label: '30d' },
+]
+
+const LINE_COLORS = ['#0A66C2', '#E16745', '#057642', '#915907', '#8F5849', '#5F6BB4', '#C37D16', '#B24020']
+const MAX_DEFAULT_VISIBLE = 5
+
+const WIDTH = 640
+const HEIGHT = 240
+const PADDING = { top: 12, right: 16, bottom: 28, left: 48 }
+
+function formatCount(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
+  return Math.round(value).toString()
+}
+
+function formatAge(hours: number): string {
+  return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`
+}
+
+/**
+ * Compares published posts at equal post age: x is hours since publishing, y is the
+ * cumulative metric, so a post published last week lines up with one published today.
+ */
+export function PostAgeChart({ series }: PostAgeChartProps) {
+  const [metric, setMetric] = useState<MetricName>('views')
+  const [horizon, setHorizon] = useState(HORIZONS[1].hours)
+
+  // Only posts with at least one dated snapshot can be placed on the age axis
+  const chartable = useMemo(
+    () => series.filter(s => s.published_at && s.snapshots.some(snap => snap.age_hours !== null && snap.age_hours >= 0)),
+    [series]
+  )
+  const [hidden, setHidden] = useState<Set<string>>(
+    () => new Set(chartable.slice(MAX_DEFAULT_VISIBLE).map(s => s.project_id))
+  )
+
+  const colorFor = (projectId: string) =>
+    LINE_COLORS[chartable.findIndex(s => s.project_id === projectId) % LINE_COLORS.length]
+
+  const lines = chartable
+    .filter(s => !hidden.has(s.project_id))
+    .map(s => {
+      const points: { age: number; value: number }[] = [{ age: 0, value: 0 }]
+      for (const snapshot of s.snapshots) {
+        const value = snapshot[metric]
+        if (snapshot.age_hours === null || snapshot.age_hours < 0 || value === null) continue
+        if (snapshot.age_hours > horizon) {
+          // Cut the line at the right edge instead of dropping the segment
+          const atHorizon = metricAtAge(s.snapshots, metric, horizon)
+          if (atHorizon !== null) points.push({ age: horizon, value: atHorizon })
+          break
+        }
+        points.push({ age: snapshot.age_hours, value })
+      }
+      return { projectId: s.project_id, points }
+    })
+    .filter(line => line.points.length > 1)
+
+  const maxValue = Math.max(1, ...lines.flatMap(line => line.points.map(p => p.value)))
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (age: number) => PADDING.left + (age / horizon) * plotWidth
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight
+
+  const toggle = (projectId: string) => {
+    setHidden(prev => {
+      const next = new Set(prev)
+      if (next.has(projectId)) {
+        next.delete(projectId)
+      } else {
+        next.add(projectId)
+      }
+      return next
+    })
+  }
+
+  if (chartable.length === 0) {
+    return (
+      <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+        Track metrics for a published post a few times (e.g. after 1 hour, 1 day and 1 week) to see how it grows.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1">
+          {METRIC_NAMES.map(name => (
+            <button
+              key={name}
+              onClick={() => setMetric(name)}
+              className={cn(
+                'px-3 py-1 rounded-lg text-sm transition-colors',
+                metric === name
+                  ? 'bg-linkedin/10 text-linkedin font-medium'
+                  : 'text-light-text-secondary dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-gray-800'
+              )}
+            >
+              {METRIC_LABELS[name]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {HORIZONS.map(option => (
+            <button
+              key={option.hours}
+              onClick={() => setHorizon(option.hours)}
+              className={cn(
+                'px-3 py-1 rounded-lg text-sm transition-colors',
+                horizon === option.hours
+                  ? 'bg-linkedin/10 text-linkedin font-medium'
+                  : 'text-light-text-secondary dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-gray-800'
+              )}
+            >
+              First {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Chart */}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${METRIC_LABELS[metric]} by post age`}>
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+              strokeDasharray={fraction === 0 ? undefined : '4 4'}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(maxValue * fraction) + 4}
+              textAnchor="end"
+              className="fill-gray-500 text-[10px]"
+            >
+              {formatCount(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+        {[0, 0.25, 0.5, 0.75, 1].map(fraction => (
+          <text
+            key={fraction}
+            x={x(horizon * fraction)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatAge(horizon * fraction)}
+          </text>
+        ))}
+        {lines.map(line => (
+          <g key={line.projectId}>
+            <polyline
+              fill="none"
+              stroke={colorFor(line.projectId)}
+              strokeWidth={2}
+              points={line.points.map(p => `${x(p.age)},${y(p.value)}`).join(' ')}
+            />
+            {line.points.slice(1).map((p, i) => (
+              <circle key={i} cx={x(p.age)} cy={y(p.value)} r={3} fill={colorFor(line.projectId)} />
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend and age checkpoints */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-light-text-secondary dark:text-dark-text-secondary">
+              <th className="text-left font-medium py-1">Post</th>
+              {AGE_CHECKPOINTS.map(checkpoint => (
+                <th key={checkpoint.hours} className="text-center font-medium py-1">
+                  {METRIC_LABELS[metric]} @ {checkpoint.label}
+                </th>
+              ))}
+              <th className="text-center font-medium py-1">Engagement rate</th>
+              <th className="text-center font-medium py-1">Views / hour</th>
+            </tr>
+          </thead>
+          <tbody>
+            {chartable.map(s => {
+              const latest = s.snapshots[s.snapshots.length - 1]
+              const rate = latest ? engagementRate(latest) : null
+              const velocity = latest?.views_per_hour ?? null
+              const isHidden = hidden.has(s.project_id)
+              return (
+                <tr key={s.project_id} className="border-t border-gray-100 dark:border-gray-800">
+                  <td className="py-1.5">
+                    <button
+                      onClick={() => toggle(s.project_id)}
+                      className={cn('flex items-center gap-2 text-left', isHidden && 'opacity-40')}
+                      title={isHidden ? 'Show on chart' : 'Hide from chart'}
+                    >
+                      <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: colorFor(s.project_id) }} />
+                      <span className="text-light-text-primary dark:text-dark-text-primary">{truncate(s.name, 40)}</span>
+                    </button>
+                  </td>
+                  {AGE_CHECKPOINTS.map(checkpoint => {
+                    const value = metricAtAge(s.snapshots, metric, checkpoint.hours)
+                    return (
+                      <td key={checkpoint.hours} className="py-1.5 text-center text-light-text-primary dark:text-dark-text-primary">
+                        {value === null ? <span className="text-gray-400">-</span> : formatCount(value)}
+                      </td>
+                    )
+                  })}
+                  <td className="py-1.5 text-center text-light-text-primary dark:text-dark-text-primary">
+                    {rate === null ? <span className="text-gray-400">-</span> : `${(rate * 100).toFixed(1)}%`}
+                  </td>
+                  <td className="py-1.5 text-center text-light-text-primary dark:text-dark-text-primary">
+                    {velocity === null ? <span className="text-gray-400">-</span> : formatCount(velocity)}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
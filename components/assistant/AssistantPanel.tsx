@@ -1,13 +1,16 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Sparkles, Lightbulb, MessageSquare, Wand2, HelpCircle, RefreshCw, Plus, Pencil } from 'lucide-react'
+import { Send, Loader2, Sparkles, Lightbulb, MessageSquare, Wand2, HelpCircle, RefreshCw, Plus, Pencil, Square } from 'lucide-react'
 import type { Message } from '@/types'
 
 interface AssistantPanelProps {
   messages: Message[]
   onSendMessage: (message: string) => Promise<void>
+  onCancel?: () => void
   isLoading?: boolean
+  // Progress note shown while a reply is in flight (e.g. a tool being applied)
+  status?: string
   suggestions?: string[]
   projectContext?: {
     topic: string
@@ -27,7 +30,9 @@ const getTopicRef = (topic: string) => {
 export function AssistantPanel({
   messages,
   onSendMessage,
+  onCancel,
   isLoading = false,
+  status,
   suggestions = [],
   projectContext,
 }: AssistantPanelProps) {
@@ -74,6 +79,10 @@ export function AssistantPanel({
 
   const displaySuggestions = suggestions.length > 0 ? suggestions : defaultSuggestions
 
+  // Once reply tokens arrive they render as the last message, so the spinner bubble isn't needed
+  const lastMessage = messages[messages.length - 1]
+  const isStreamingReply = isLoading && lastMessage?.role === 'assistant' && !!lastMessage.content
+
   return (
     <div className="flex flex-col h-full bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
       {/* Header */}
@@ -194,19 +203,41 @@ export function AssistantPanel({
                 `}
               >
                 <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.source_chunks && message.source_chunks.length > 0 && (
+                  <details className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <summary className="cursor-pointer select-none">
+                      {message.source_chunks.length} source passage{message.source_chunks.length !== 1 ? 's' : ''} used
+                    </summary>
+                    <ul className="mt-1.5 space-y-1">
+                      {message.source_chunks.map(chunk => (
+                        <li key={chunk.chunk_id} className="truncate" title={chunk.excerpt}>
+                          {chunk.source_title}{chunk.heading && ` › ${chunk.heading}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
             </div>
           ))
         )}
 
-        {isLoading && (
+        {isLoading && !isStreamingReply && (
           <div className="flex justify-start">
-            <div className="bg-gray-100 dark:bg-gray-700 rounded-2xl rounded-bl-md px-4 py-3">
+            <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 rounded-2xl rounded-bl-md px-4 py-3">
               <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+              {status && <span className="text-xs text-gray-500 dark:text-gray-400">{status}</span>}
             </div>
           </div>
         )}
 
+        {isStreamingReply && status && (
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {status}
+          </div>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
 
@@ -246,17 +277,28 @@ export function AssistantPanel({
               style={{ maxHeight: '120px' }}
             />
           </div>
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="p-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </button>
+          {isLoading && onCancel ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              title="Stop"
+              className="p-2.5 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() || isLoading}
+              className="p-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,139 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Sparkles } from 'lucide-react'
+
+// Screen readers read alt text in full, but most guidance keeps it under this length
+const RECOMMENDED_LENGTH = 125
+
+export interface AltTextItem {
+  kind: 'image' | 'slide'
+  id: string
+  label: string
+  src: string
+  alt_text: string
+}
+
+interface AltTextEditorProps {
+  items: AltTextItem[]
+  onSave: (item: AltTextItem, altText: string) => Promise<void>
+  onWrite: (items: AltTextItem[]) => Promise<void>
+}
+
+export function AltTextEditor({ items, onSave, onWrite }: AltTextEditorProps) {
+  // Unsaved edits, keyed by item id
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  // Ids of the items being written by the model
+  const [writingIds, setWritingIds] = useState<string[]>([])
+
+  const missing = items.filter(item => !item.alt_text.trim())
+
+  const handleWrite = async (targets: AltTextItem[]) => {
+    setWritingIds(targets.map(item => item.id))
+    try {
+      await onWrite(targets)
+      setDrafts(prev => {
+        const next = { ...prev }
+        for (const item of targets) delete next[item.id]
+        return next
+      })
+    } finally {
+      setWritingIds([])
+    }
+  }
+
+  const handleSave = async (item: AltTextItem) => {
+    const value = drafts[item.id]
+    if (value === undefined) return
+    await onSave(item, value.trim())
+    setDrafts(prev => {
+      const next = { ...prev }
+      delete next[item.id]
+      return next
+    })
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center p-8">
+        <p className="text-gray-500 dark:text-gray-400">
+          No images to describe. Pick a visual or make a carousel, or continue without one.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {missing.length === 0
+            ? 'Every image has alt text'
+            : `${missing.length} of ${items.length} image${items.length === 1 ? '' : 's'} still need${missing.length === 1 ? 's' : ''} alt text`}
+        </p>
+        {missing.length > 0 && (
+          <button
+            onClick={() => handleWrite(missing)}
+            disabled={writingIds.length > 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {writingIds.length > 1 ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+            Write all missing
+          </button>
+        )}
+      </div>
+
+      {items.map(item => {
+        const value = drafts[item.id] ?? item.alt_text
+        const isDirty = drafts[item.id] !== undefined && drafts[item.id] !== item.alt_text
+        const isWriting = writingIds.includes(item.id)
+        return (
+          <div
+            key={item.id}
+            className="flex gap-4 rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4"
+          >
+            <img
+              src={item.src}
+              alt={item.alt_text || item.label}
+              className="w-28 h-28 flex-shrink-0 object-cover rounded-lg bg-gray-100 dark:bg-gray-700"
+            />
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-500 dark:text-gray-400">{item.label}</span>
+                <span className={`text-xs font-medium ${value.length > RECOMMENDED_LENGTH ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                  {value.length}/{RECOMMENDED_LENGTH}
+                </span>
+              </div>
+              <textarea
+                value={value}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                rows={3}
+                placeholder="Describe the image for people using screen readers..."
+                disabled={isWriting}
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => handleWrite([item])}
+                  disabled={writingIds.length > 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {isWriting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+                  Write with AI
+                </button>
+                {isDirty && (
+                  <button
+                    onClick={() => handleSave(item)}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Save
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Edit2, RotateCcw } from 'lucide-react'
+import { buildCaption, captionLength } from '@/lib/caption'
+import { stripCitationMarkers } from '@/lib/citations'
+import { CitedText } from '@/components/research/CitedText'
+import type { Citation } from '@/types'
+
+interface CaptionEditorProps {
+  // The platform's caption limit (null for no limit)
+  limit: number | null
+  hook: string
+  body: string
+  originalBody?: string
+  cta: string | null
+  hashtags: string
+  // The research the body's citation markers point at
+  citations?: Citation[]
+  onChange: (body: string) => void
+}
+
+function LengthCounter({ length, limit }: { length: number; limit: number | null }) {
+  return (
+    <span className={`text-xs font-medium ${limit !== null && length > limit ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+      {limit !== null ? `${length.toLocaleString()}/${limit.toLocaleString()}` : `${length.toLocaleString()} characters`}
+    </span>
+  )
+}
+
+export function CaptionEditor({ limit, hook, body, originalBody, cta, hashtags, citations = [], onChange }: CaptionEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editValue, setEditValue] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  // The limit applies to the caption as posted, so count the hook, CTA and hashtags too
+  // (but not the citation markers, which are for the exports)
+  const caption = buildCaption(hook, stripCitationMarkers(isEditing ? editValue : body), cta, hashtags)
+  const length = captionLength(caption)
+  const isOver = limit !== null && length > limit
+  const isEdited = originalBody !== undefined && originalBody !== body
+
+  const handleStartEdit = () => {
+    setEditValue(body)
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = () => {
+    setIsEditing(false)
+    const value = editValue.trim()
+    if (value !== body) onChange(value)
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(caption)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const renderFixedPart = (label: string, text: string) => (
+    <div className="rounded-xl border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50 p-4">
+      <span className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">{label}</span>
+      <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap">{text}</p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <LengthCounter length={length} limit={limit} />
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            characters, hook{cta?.trim() ? ', CTA' : ''}{hashtags.trim() ? ' and hashtags' : ''} included
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {isEdited && (
+            <button
+              onClick={() => onChange(originalBody || '')}
+              className="p-1.5 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Revert to original"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Copy caption"
+          >
+            {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {hook.trim() && renderFixedPart('Hook', hook.trim())}
+
+      {isEditing ? (
+        <div className="rounded-xl border-2 border-blue-500 bg-white dark:bg-gray-800 p-4 space-y-3">
+          <textarea
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            className="w-full p-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            rows={12}
+            autoFocus
+          />
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-red-600 dark:text-red-400">
+              {isOver && `Over the ${limit.toLocaleString()}-character caption limit`}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={isOver}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div
+          className={`relative group rounded-xl border-2 bg-white dark:bg-gray-800 p-4 ${
+            isOver ? 'border-red-400 dark:border-red-600' : 'border-gray-200 dark:border-gray-700'
+          }`}
+        >
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap pr-10"><CitedText text={body} citations={citations} /></p>
+          <button
+            onClick={handleStartEdit}
+            className="absolute bottom-3 right-3 p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+            title="Edit"
+          >
+            <Edit2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {cta?.trim() && renderFixedPart('Call to action', cta.trim())}
+      {hashtags.trim() && renderFixedPart('Hashtags', hashtags.trim())}
+    </div>
+  )
+}
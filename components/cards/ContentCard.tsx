@@ -1,8 +1,10 @@
 'use client'
 
 import { useState } from 'react'
-import { Check, Copy, Edit2, Trash2, RotateCcw, X, Globe, ExternalLink, History } from 'lucide-react'
-import type { Citation } from '@/types'
+import { Check, Copy, Edit2, Trash2, RotateCcw, X, Globe, ExternalLink, History, AlertCircle, AlertTriangle } from 'lucide-react'
+import { stripCitationMarkers } from '@/lib/citations'
+import { CitedText } from '@/components/research/CitedText'
+import type { Citation, ValidationIssue } from '@/types'
 
 interface ContentCardProps {
   index: number
@@ -19,6 +21,8 @@ interface ContentCardProps {
   showIndex?: boolean
   maxLines?: number
   citations?: Citation[]
+  characterLimit?: number // Shows a length counter, e.g. for email subject lines
+  issues?: ValidationIssue[] // Platform rule checks, e.g. the "see more" fold for hooks
 }
 
 export function ContentCard({
@@ -36,6 +40,8 @@ export function ContentCard({
   showIndex = true,
   maxLines,
   citations = [],
+  characterLimit,
+  issues = [],
 }: ContentCardProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(content)
@@ -58,8 +64,9 @@ export function ContentCard({
     setIsEditing(false)
   }
 
+  // Citation markers aren't part of the posted text, so they're left out of copies and counts
   const handleCopy = async () => {
-    await navigator.clipboard.writeText(content)
+    await navigator.clipboard.writeText(stripCitationMarkers(content))
     setCopied(true)
     onCopy?.()
     setTimeout(() => setCopied(false), 2000)
@@ -118,7 +125,12 @@ export function ContentCard({
               rows={maxLines || 4}
               autoFocus
             />
-            <div className="flex justify-end gap-2">
+            <div className="flex items-center justify-end gap-2">
+              {characterLimit && (
+                <span className={`mr-auto text-xs font-medium ${stripCitationMarkers(editValue.trim()).length > characterLimit ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                  {stripCitationMarkers(editValue.trim()).length}/{characterLimit}
+                </span>
+              )}
               <button
                 onClick={handleCancelEdit}
                 className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -138,9 +150,32 @@ export function ContentCard({
             <p
               className={`text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap ${maxLines ? `line-clamp-${maxLines}` : ''}`}
             >
-              {content}
+              {citations.length > 0 ? <CitedText text={content} citations={citations} /> : content}
             </p>
 
+            {characterLimit && (
+              <span className={`block mt-2 text-xs font-medium ${stripCitationMarkers(content).length > characterLimit ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                {stripCitationMarkers(content).length}/{characterLimit}
+              </span>
+            )}
+
+            {/* Platform checks */}
+            {issues.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {issues.map((issue, idx) => (
+                  <li
+                    key={idx}
+                    className={`flex items-start gap-1.5 text-xs ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}
+                  >
+                    {issue.severity === 'error'
+                      ? <AlertCircle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                      : <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />}
+                    <span>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {/* Citations */}
             {citations.length > 0 && (
               <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
@@ -99,7 +99,7 @@ export function ImageCard({
       {/* Upscaled badge */}
       {image?.is_upscaled && (
         <div className="absolute top-10 right-3 z-10 px-2 py-0.5 text-xs font-medium bg-green-500 text-white rounded">
-          4K
+          Upscaled
         </div>
       )}
 
@@ -211,7 +211,7 @@ export function ImageCard({
           )}
 
           {onUpscale && !image?.is_upscaled && (
-            <Tooltip text="Upscale to 4K">
+            <Tooltip text="Upscale (2× or 4K)">
               <button
                 onClick={onUpscale}
                 className="p-1.5 bg-black/50 text-white rounded-lg hover:bg-black/70 transition-colors"
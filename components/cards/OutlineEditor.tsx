@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Edit2, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { MAX_SECTIONS } from '@/lib/newsletter'
+import { generateId } from '@/lib/utils'
+import type { NewsletterSection } from '@/types'
+
+interface OutlineEditorProps {
+  sections: NewsletterSection[]
+  originalSections?: NewsletterSection[]
+  onChange: (sections: NewsletterSection[]) => void
+}
+
+export function OutlineEditor({ sections, originalSections, onChange }: OutlineEditorProps) {
+  // Id being edited; 'new' means a new section at the end
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [heading, setHeading] = useState('')
+  const [summary, setSummary] = useState('')
+
+  const isEdited = !!originalSections && originalSections.length > 0 &&
+    JSON.stringify(originalSections.map(s => [s.heading, s.summary])) !== JSON.stringify(sections.map(s => [s.heading, s.summary]))
+
+  const handleStartEdit = (section?: NewsletterSection) => {
+    setHeading(section?.heading ?? '')
+    setSummary(section?.summary ?? '')
+    setEditingId(section?.id ?? 'new')
+  }
+
+  const handleSaveEdit = () => {
+    const value = heading.trim()
+    if (!value) return
+    if (editingId === 'new') {
+      onChange([...sections, { id: generateId(), heading: value, summary: summary.trim(), body: '' }])
+    } else {
+      onChange(sections.map(s => s.id === editingId ? { ...s, heading: value, summary: summary.trim() } : s))
+    }
+    setEditingId(null)
+  }
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const next = [...sections]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + direction, 0, moved)
+    onChange(next)
+  }
+
+  const handleDelete = (id: string) => {
+    onChange(sections.filter(s => s.id !== id))
+  }
+
+  const renderEditor = () => (
+    <div className="rounded-xl border-2 border-blue-500 bg-white dark:bg-gray-800 p-4 space-y-3">
+      <input
+        type="text"
+        value={heading}
+        onChange={(e) => setHeading(e.target.value)}
+        placeholder="Section heading"
+        className="w-full p-2 text-sm font-medium border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        autoFocus
+      />
+      <textarea
+        value={summary}
+        onChange={(e) => setSummary(e.target.value)}
+        placeholder="What this section covers..."
+        className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        rows={3}
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveEdit}
+          disabled={!heading.trim()}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {sections.length} section{sections.length === 1 ? '' : 's'} · drafted one by one in the next step
+        </p>
+        {isEdited && (
+          <button
+            onClick={() => onChange(originalSections || [])}
+            className="p-1.5 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Revert to original"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {sections.map((section, index) => {
+        if (editingId === section.id) {
+          return <div key={section.id}>{renderEditor()}</div>
+        }
+        return (
+          <div
+            key={section.id}
+            className="relative group rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4"
+          >
+            <span className="block text-xs font-medium text-gray-400 dark:text-gray-500 mb-1">Section {index + 1}</span>
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white pr-32">{section.heading}</h4>
+            {section.summary && (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap pr-32">{section.summary}</p>
+            )}
+            <div className="absolute top-3 right-3 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={index === sections.length - 1}
+                className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleStartEdit(section)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Edit"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(section.id)}
+                className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Remove section"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      {editingId === 'new' ? (
+        renderEditor()
+      ) : sections.length < MAX_SECTIONS && (
+        <button
+          onClick={() => handleStartEdit()}
+          className="w-full flex items-center justify-center gap-2 p-3 text-sm text-gray-500 dark:text-gray-400 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add section
+        </button>
+      )}
+    </div>
+  )
+}
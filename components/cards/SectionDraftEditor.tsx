@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Edit2, Loader2, RotateCcw, Sparkles } from 'lucide-react'
+import type { NewsletterSection } from '@/types'
+
+interface SectionDraftEditorProps {
+  sections: NewsletterSection[]
+  originalSections?: NewsletterSection[]
+  onChange: (sections: NewsletterSection[]) => void
+  // Draft one section, or every section when no id is given
+  onDraft: (sectionId?: string) => Promise<void>
+}
+
+function wordCount(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0
+}
+
+export function SectionDraftEditor({ sections, originalSections, onChange, onDraft }: SectionDraftEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState('')
+  // 'all' while every section is being drafted, otherwise the id of the one being drafted
+  const [draftingId, setDraftingId] = useState<string | null>(null)
+
+  const drafted = sections.filter(s => s.body.trim())
+  const totalWords = sections.reduce((sum, s) => sum + wordCount(s.body), 0)
+
+  const handleDraft = async (sectionId?: string) => {
+    setDraftingId(sectionId ?? 'all')
+    try {
+      await onDraft(sectionId)
+    } finally {
+      setDraftingId(null)
+    }
+  }
+
+  const handleStartEdit = (section: NewsletterSection) => {
+    setEditValue(section.body)
+    setEditingId(section.id)
+  }
+
+  const handleSaveEdit = () => {
+    const value = editValue.trim()
+    const current = sections.find(s => s.id === editingId)
+    setEditingId(null)
+    if (current && value !== current.body) {
+      onChange(sections.map(s => s.id === current.id ? { ...s, body: value } : s))
+    }
+  }
+
+  if (sections.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center p-8">
+        <p className="text-gray-500 dark:text-gray-400">
+          No outline yet. Go back to the outline step and add a few sections first.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {drafted.length} of {sections.length} section{sections.length === 1 ? '' : 's'} drafted
+          {totalWords > 0 && ` · ${totalWords.toLocaleString()} words`}
+        </p>
+        <button
+          onClick={() => handleDraft()}
+          disabled={draftingId !== null}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {draftingId === 'all' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          {drafted.length === 0 ? 'Draft all sections' : 'Redraft all sections'}
+        </button>
+      </div>
+
+      {sections.map((section, index) => {
+        const original = originalSections?.find(s => s.id === section.id)
+        const isEdited = !!original?.body && original.body !== section.body
+        const isDrafting = draftingId === 'all' || draftingId === section.id
+        return (
+          <div
+            key={section.id}
+            className="rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 space-y-3"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <span className="block text-xs font-medium text-gray-400 dark:text-gray-500 mb-1">
+                  Section {index + 1}{section.body && ` · ${wordCount(section.body)} words`}
+                </span>
+                <h4 className="text-base font-semibold text-gray-900 dark:text-white">{section.heading}</h4>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {isEdited && (
+                  <button
+                    onClick={() => onChange(sections.map(s => s.id === section.id ? { ...s, body: original.body } : s))}
+                    className="p-1.5 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Revert to original"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+                {section.body && editingId !== section.id && (
+                  <button
+                    onClick={() => handleStartEdit(section)}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDraft(section.id)}
+                  disabled={draftingId !== null}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {isDrafting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+                  {section.body ? 'Regenerate' : 'Draft'}
+                </button>
+              </div>
+            </div>
+
+            {editingId === section.id ? (
+              <div className="space-y-3">
+                <textarea
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  className="w-full p-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  rows={12}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveEdit}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : section.body ? (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{section.body}</p>
+            ) : (
+              <p className="text-sm italic text-gray-400 dark:text-gray-500">{section.summary || 'Not drafted yet'}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
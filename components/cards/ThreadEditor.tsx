@@ -0,0 +1,232 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Edit2, Trash2, RotateCcw, Plus, Scissors } from 'lucide-react'
+import { TWEET_LIMIT, buildThread, formatThread, numberedTweetLength, splitIntoTweets } from '@/lib/thread'
+
+interface ThreadEditorProps {
+  hook: string
+  cta: string | null
+  tweets: string[]
+  originalTweets?: string[]
+  onChange: (tweets: string[]) => void
+}
+
+function LengthCounter({ length }: { length: number }) {
+  return (
+    <span className={`text-xs font-medium ${length > TWEET_LIMIT ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+      {length}/{TWEET_LIMIT}
+    </span>
+  )
+}
+
+export function ThreadEditor({ hook, cta, tweets, originalTweets, onChange }: ThreadEditorProps) {
+  // Index being edited; tweets.length means a new tweet at the end
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [editValue, setEditValue] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  // Numbering runs across the whole thread: hook first, then these tweets, then the CTA
+  const thread = buildThread(hook, tweets, cta)
+  const offset = hook.trim() ? 1 : 0
+  const total = editingIndex === tweets.length ? thread.length + 1 : thread.length
+  const isEdited = !!originalTweets && JSON.stringify(originalTweets) !== JSON.stringify(tweets)
+
+  const handleStartEdit = (index: number) => {
+    setEditValue(tweets[index] ?? '')
+    setEditingIndex(index)
+  }
+
+  const handleSaveEdit = () => {
+    if (editingIndex === null) return
+    const value = editValue.trim()
+    const next = [...tweets]
+    if (editingIndex === tweets.length) {
+      if (value) next.push(value)
+    } else if (value) {
+      next[editingIndex] = value
+    } else {
+      next.splice(editingIndex, 1)
+    }
+    setEditingIndex(null)
+    if (JSON.stringify(next) !== JSON.stringify(tweets)) onChange(next)
+  }
+
+  // Replace the tweet being edited with as many tweets as it needs
+  const handleSplitEdit = () => {
+    if (editingIndex === null) return
+    const parts = splitIntoTweets(editValue)
+    const next = [...tweets]
+    next.splice(editingIndex, editingIndex === tweets.length ? 0 : 1, ...parts)
+    setEditingIndex(null)
+    onChange(next)
+  }
+
+  const handleSplit = (index: number) => {
+    const next = [...tweets]
+    next.splice(index, 1, ...splitIntoTweets(tweets[index]))
+    onChange(next)
+  }
+
+  const handleDelete = (index: number) => {
+    onChange(tweets.filter((_, i) => i !== index))
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(formatThread(thread))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const renderFixedTweet = (label: string, text: string, position: number) => (
+    <div className="rounded-xl border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          {position + 1}/{total} · {label}
+        </span>
+        <LengthCounter length={numberedTweetLength(text, position, total)} />
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap">{text}</p>
+    </div>
+  )
+
+  const renderEditor = (position: number) => {
+    const length = numberedTweetLength(editValue.trim(), position, total)
+    const isOver = length > TWEET_LIMIT
+    return (
+      <div className="rounded-xl border-2 border-blue-500 bg-white dark:bg-gray-800 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-500 dark:text-gray-400">{position + 1}/{total}</span>
+          <LengthCounter length={length} />
+        </div>
+        <textarea
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          className="w-full p-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          rows={5}
+          autoFocus
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-red-600 dark:text-red-400">
+            {isOver && `Over the ${TWEET_LIMIT}-character limit once numbered`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditingIndex(null)}
+              className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            {isOver && (
+              <button
+                onClick={handleSplitEdit}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                <Scissors className="w-3.5 h-3.5" />
+                Split
+              </button>
+            )}
+            <button
+              onClick={handleSaveEdit}
+              disabled={isOver}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {thread.length} tweet{thread.length === 1 ? '' : 's'} · numbered when copied or exported
+        </p>
+        <div className="flex items-center gap-1">
+          {isEdited && (
+            <button
+              onClick={() => onChange(originalTweets || [])}
+              className="p-1.5 text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              title="Revert to original"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Copy thread"
+          >
+            {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {hook.trim() && renderFixedTweet('Hook', hook.trim(), 0)}
+
+      {tweets.map((tweet, index) => {
+        const position = index + offset
+        if (editingIndex === index) {
+          return <div key={index}>{renderEditor(position)}</div>
+        }
+        const length = numberedTweetLength(tweet, position, total)
+        return (
+          <div
+            key={index}
+            className={`relative group rounded-xl border-2 bg-white dark:bg-gray-800 p-4 ${
+              length > TWEET_LIMIT ? 'border-red-400 dark:border-red-600' : 'border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-medium text-gray-400 dark:text-gray-500">{position + 1}/{total}</span>
+              <LengthCounter length={length} />
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap pr-24">{tweet}</p>
+            <div className="absolute bottom-3 right-3 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {length > TWEET_LIMIT && (
+                <button
+                  onClick={() => handleSplit(index)}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  title="Split into tweets"
+                >
+                  <Scissors className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => handleStartEdit(index)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Edit"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(index)}
+                className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Remove tweet"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      {editingIndex === tweets.length ? (
+        renderEditor(tweets.length + offset)
+      ) : (
+        <button
+          onClick={() => handleStartEdit(tweets.length)}
+          className="w-full flex items-center justify-center gap-2 p-3 text-sm text-gray-500 dark:text-gray-400 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add tweet
+        </button>
+      )}
+
+      {cta?.trim() && renderFixedTweet('Call to action', cta.trim(), total - 1)}
+    </div>
+  )
+}
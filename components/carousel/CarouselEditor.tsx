@@ -15,7 +15,7 @@ import {
   RefreshCw,
   Upload
 } from 'lucide-react'
-import type { CarouselSlide, CarouselTemplate, TextZone } from '@/types'
+import type { CarouselSlide, CarouselTemplate, CarouselAspectRatio, TextZone } from '@/types'
 
 interface CarouselEditorProps {
   projectId: string
@@ -23,11 +23,12 @@ interface CarouselEditorProps {
     id: string
     slides: CarouselSlide[]
     template_id?: string
+    aspect_ratio?: CarouselAspectRatio
   } | null
   template?: CarouselTemplate | null
   onUpdate: (slides: CarouselSlide[]) => void
   onGenerate: () => Promise<void>
-  onRender: () => Promise<void>
+  onRender: (aspectRatio: CarouselAspectRatio) => Promise<void>
   onExport: (format: 'pdf' | 'png-zip') => Promise<void>
   isLoading?: boolean
 }
@@ -45,7 +46,11 @@ export default function CarouselEditor({
   const [selectedSlideIndex, setSelectedSlideIndex] = useState(0)
   const [isPreviewMode, setIsPreviewMode] = useState(false)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  // Shape for the next render; until one is picked, the shape the carousel was last rendered at
+  const [chosenAspectRatio, setAspectRatio] = useState<CarouselAspectRatio | null>(null)
   const slidesContainerRef = useRef<HTMLDivElement>(null)
+  const aspectRatio = chosenAspectRatio || carousel?.aspect_ratio || '1:1'
+  const aspectClass = aspectRatio === '4:5' ? 'aspect-[4/5]' : 'aspect-square'
 
   const slides = carousel?.slides || []
   const selectedSlide = slides[selectedSlideIndex]
@@ -197,7 +202,7 @@ export default function CarouselEditor({
         </button>
 
         {/* Slide */}
-        <div className="w-full max-w-2xl aspect-square mx-4">
+        <div className={`w-full max-w-2xl ${aspectClass} mx-4`}>
           {selectedSlide.rendered_image ? (
             <img
               src={`data:image/png;base64,${selectedSlide.rendered_image}`}
@@ -248,13 +253,27 @@ export default function CarouselEditor({
             Regenerate
           </button>
           <button
-            onClick={onRender}
+            onClick={() => onRender(aspectRatio)}
             disabled={isLoading}
             className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
           >
             <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
             Render Slides
           </button>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm" title="Slide shape">
+            {(['1:1', '4:5'] as CarouselAspectRatio[]).map(ratio => (
+              <button
+                key={ratio}
+                onClick={() => setAspectRatio(ratio)}
+                disabled={isLoading}
+                className={`px-3 py-2 disabled:opacity-50 ${
+                  aspectRatio === ratio ? 'bg-gray-900 text-white' : 'hover:bg-gray-50'
+                }`}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div className="flex items-center gap-2">
@@ -297,7 +316,7 @@ export default function CarouselEditor({
             onDragOver={(e) => handleDragOver(e, index)}
             onDrop={(e) => handleDrop(e, index)}
             onClick={() => setSelectedSlideIndex(index)}
-            className={`relative flex-shrink-0 w-40 aspect-square rounded-lg border-2 cursor-pointer transition-all group ${
+            className={`relative flex-shrink-0 w-40 ${aspectClass} rounded-lg border-2 cursor-pointer transition-all group ${
               selectedSlideIndex === index
                 ? 'border-blue-500 ring-2 ring-blue-200'
                 : 'border-gray-200 hover:border-gray-300'
@@ -307,7 +326,7 @@ export default function CarouselEditor({
             {slide.rendered_image ? (
               <img
                 src={`data:image/png;base64,${slide.rendered_image}`}
-                alt={`Slide ${index + 1}`}
+                alt={slide.alt_text || `Slide ${index + 1}`}
                 className="w-full h-full object-cover rounded-md"
               />
             ) : (
@@ -346,7 +365,7 @@ export default function CarouselEditor({
         {/* Add Slide Button */}
         <button
           onClick={handleAddSlide}
-          className="flex-shrink-0 w-40 aspect-square rounded-lg border-2 border-dashed border-gray-300 hover:border-gray-400 flex flex-col items-center justify-center gap-2 text-gray-500 hover:text-gray-600 transition-colors"
+          className={`flex-shrink-0 w-40 ${aspectClass} rounded-lg border-2 border-dashed border-gray-300 hover:border-gray-400 flex flex-col items-center justify-center gap-2 text-gray-500 hover:text-gray-600 transition-colors`}
         >
           <Plus className="w-6 h-6" />
           <span className="text-xs">Add Slide</span>
@@ -358,7 +377,7 @@ export default function CarouselEditor({
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Preview */}
           <div className="bg-gray-100 rounded-lg p-4">
-            <div className="aspect-square rounded-lg overflow-hidden bg-white shadow-sm">
+            <div className={`${aspectClass} rounded-lg overflow-hidden bg-white shadow-sm`}>
               {selectedSlide.rendered_image ? (
                 <img
                   src={`data:image/png;base64,${selectedSlide.rendered_image}`}
@@ -439,6 +458,24 @@ export default function CarouselEditor({
               />
             </div>
 
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  Alt Text
+                </label>
+                <span className={`text-xs ${(selectedSlide.alt_text || '').length > 125 ? 'text-amber-600' : 'text-gray-400'}`}>
+                  {(selectedSlide.alt_text || '').length}/125
+                </span>
+              </div>
+              <textarea
+                value={selectedSlide.alt_text || ''}
+                onChange={(e) => handleSlideEdit(selectedSlideIndex, 'alt_text', e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
+                placeholder="Describe the slide for screen readers..."
+              />
+            </div>
+
             {/* Background Color (for slides without template) */}
             {!template && (
               <div>
@@ -1,12 +1,12 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { Paperclip, ChevronDown, Plus, Globe, Loader2 } from 'lucide-react'
+import { Paperclip, ChevronDown, Plus, Globe, Loader2, TrendingUp } from 'lucide-react'
 import { SourceItem } from './SourceItem'
 import { SourceUploadModal } from './SourceUploadModal'
 import { ReferenceImageItem } from './ReferenceImageItem'
 import { ReferenceImageUpload } from './ReferenceImageUpload'
-import type { ProjectAsset } from '@/types'
+import type { GenerationExample, ProjectAsset, SourceChunkReference } from '@/types'
 
 interface SourceListItem {
   id: string
@@ -17,6 +17,7 @@ interface SourceListItem {
   original_filename?: string
   original_url?: string
   enabled: boolean
+  parent_source_id: string | null
   created_at: string
 }
 
@@ -28,13 +29,28 @@ interface SearchSettings {
 
 interface ContextPanelProps {
   projectId: string
+  examplesEnabled: boolean
+  onToggleExamples: (enabled: boolean) => Promise<void>
+  examplesUsed?: GenerationExample[]
+  sourceChunksUsed?: SourceChunkReference[]
 }
 
-export function ContextPanel({ projectId }: ContextPanelProps) {
+const EXAMPLE_KIND_LABELS: Record<GenerationExample['kind'], string> = {
+  post: 'Post',
+  hook: 'Hook',
+  cta: 'CTA',
+  body: 'Body',
+  intro: 'Intro',
+  title: 'Title',
+  visual: 'Visual',
+}
+
+export function ContextPanel({ projectId, examplesEnabled, onToggleExamples, examplesUsed = [], sourceChunksUsed = [] }: ContextPanelProps) {
   const [sources, setSources] = useState<SourceListItem[]>([])
   const [assets, setAssets] = useState<(ProjectAsset & { thumbnailUrl?: string })[]>([])
   const [collapsed, setCollapsed] = useState(true)
   const [showSourceModal, setShowSourceModal] = useState(false)
+  const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set())
   const [previewContent, setPreviewContent] = useState<{ title: string; content: string } | null>(null)
 
   // Search settings state
@@ -44,6 +60,7 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
     max_searches: 5,
   })
   const [isUpdatingSearch, setIsUpdatingSearch] = useState(false)
+  const [isUpdatingExamples, setIsUpdatingExamples] = useState(false)
 
   const fetchSources = useCallback(async () => {
     try {
@@ -124,6 +141,15 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
     }
   }
 
+  const handleToggleExamples = async () => {
+    setIsUpdatingExamples(true)
+    try {
+      await onToggleExamples(!examplesEnabled)
+    } finally {
+      setIsUpdatingExamples(false)
+    }
+  }
+
   useEffect(() => {
     fetchSources()
     fetchAssets()
@@ -137,7 +163,8 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled }),
       })
-      setSources(prev => prev.map(s => s.id === id ? { ...s, enabled } : s))
+      // A crawled site's pages follow it
+      setSources(prev => prev.map(s => s.id === id || s.parent_source_id === id ? { ...s, enabled } : s))
     } catch (err) {
       console.error('Failed to toggle source:', err)
     }
@@ -146,13 +173,24 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
   const handleDeleteSource = async (id: string) => {
     try {
       await fetch(`/api/sources/${id}`, { method: 'DELETE' })
-      setSources(prev => prev.filter(s => s.id !== id))
+      setSources(prev => prev.filter(s => s.id !== id && s.parent_source_id !== id))
     } catch (err) {
       console.error('Failed to delete source:', err)
     }
   }
 
   const handlePreviewSource = async (id: string) => {
+    // A crawled site has no text of its own: list its pages instead
+    const pages = sources.filter(s => s.parent_source_id === id)
+    if (pages.length > 0) {
+      const site = sources.find(s => s.id === id)
+      setPreviewContent({
+        title: site?.title ?? 'Crawled site',
+        content: pages.map(page => `${page.title}\n${page.original_url ?? ''}`).join('\n\n'),
+      })
+      return
+    }
+
     try {
       const response = await fetch(`/api/sources/${id}`)
       if (response.ok) {
@@ -164,6 +202,15 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
     }
   }
 
+  const handleToggleExpanded = (id: string) => {
+    setExpandedSources(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
   const handleDeleteAsset = async (id: string) => {
     try {
       await fetch(`/api/assets/${id}`, { method: 'DELETE' })
@@ -173,14 +220,23 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
     }
   }
 
-  const totalSources = sources.length
+  // Pages of a crawled site are listed under the site
+  const topLevelSources = sources.filter(s => !s.parent_source_id)
+  const pagesByParent = new Map<string, SourceListItem[]>()
+  for (const source of sources) {
+    if (!source.parent_source_id) continue
+    pagesByParent.set(source.parent_source_id, [...(pagesByParent.get(source.parent_source_id) ?? []), source])
+  }
+
+  const totalSources = topLevelSources.length
   const totalAssets = assets.length
-  const hasContext = totalSources > 0 || totalAssets > 0
+  const hasContext = totalSources > 0 || totalAssets > 0 || examplesUsed.length > 0
 
   // Summary text for collapsed state
   const summaryParts: string[] = []
   if (totalSources > 0) summaryParts.push(`${totalSources} source${totalSources !== 1 ? 's' : ''}`)
   if (totalAssets > 0) summaryParts.push(`${totalAssets} image${totalAssets !== 1 ? 's' : ''}`)
+  if (examplesUsed.length > 0) summaryParts.push(`${examplesUsed.length} example${examplesUsed.length !== 1 ? 's' : ''}`)
   const summaryText = summaryParts.join(', ')
 
   return (
@@ -227,23 +283,68 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
 
               {sources.length === 0 ? (
                 <p className="text-xs text-gray-400 dark:text-gray-500 py-2">
-                  No sources yet. Add notes, files, or URLs to give the AI more context.
+                  No sources yet. Add notes, files, URLs or whole sites to give the AI more context.
                 </p>
               ) : (
                 <div className="space-y-2">
-                  {sources.map(source => (
-                    <SourceItem
-                      key={source.id}
-                      id={source.id}
-                      type={source.type}
-                      title={source.title}
-                      wordCount={source.word_count}
-                      enabled={source.enabled}
-                      onToggle={handleToggleSource}
-                      onDelete={handleDeleteSource}
-                      onPreview={handlePreviewSource}
-                    />
-                  ))}
+                  {topLevelSources.map(source => {
+                    const pages = pagesByParent.get(source.id)
+                    const expanded = expandedSources.has(source.id)
+                    return (
+                      <div key={source.id} className="space-y-2">
+                        <SourceItem
+                          id={source.id}
+                          type={source.type}
+                          title={source.title}
+                          wordCount={source.word_count}
+                          enabled={source.enabled}
+                          onToggle={handleToggleSource}
+                          onDelete={handleDeleteSource}
+                          onPreview={handlePreviewSource}
+                          pageCount={pages?.length}
+                          expanded={expanded}
+                          onToggleExpand={() => handleToggleExpanded(source.id)}
+                        />
+                        {pages && expanded && (
+                          <div className="ml-6 space-y-2">
+                            {pages.map(page => (
+                              <SourceItem
+                                key={page.id}
+                                id={page.id}
+                                type={page.type}
+                                title={page.title}
+                                wordCount={page.word_count}
+                                enabled={page.enabled}
+                                onToggle={handleToggleSource}
+                                onDelete={handleDeleteSource}
+                                onPreview={handlePreviewSource}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {sourceChunksUsed.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    Passages used for the latest draft:
+                  </p>
+                  <ul className="space-y-1.5">
+                    {sourceChunksUsed.map(chunk => (
+                      <li key={chunk.chunk_id} className="text-xs min-w-0">
+                        <span className="block truncate text-gray-700 dark:text-gray-300">
+                          {chunk.source_title}{chunk.heading && ` › ${chunk.heading}`}
+                        </span>
+                        <span className="block truncate text-gray-400 dark:text-gray-500" title={chunk.excerpt}>
+                          {chunk.excerpt}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
               )}
             </div>
@@ -348,6 +449,77 @@ export function ContextPanel({ projectId }: ContextPanelProps) {
                 </div>
               )}
             </div>
+
+            {/* Few-shot examples from top posts and favorites */}
+            <div className="mt-5 pt-4 border-t border-gray-100 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4 text-gray-400" />
+                  <div>
+                    <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                      Learn From Top Posts
+                    </h4>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                      Show the AI your best-performing posts and favorites on this platform as examples
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleToggleExamples}
+                  disabled={isUpdatingExamples}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 ${
+                    examplesEnabled
+                      ? 'bg-blue-600'
+                      : 'bg-gray-200 dark:bg-gray-600'
+                  }`}
+                  role="switch"
+                  aria-checked={examplesEnabled}
+                >
+                  {isUpdatingExamples ? (
+                    <span className="absolute inset-0 flex items-center justify-center">
+                      <Loader2 className="w-3 h-3 animate-spin text-white" />
+                    </span>
+                  ) : (
+                    <span
+                      className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                        examplesEnabled ? 'translate-x-5' : 'translate-x-0'
+                      }`}
+                    />
+                  )}
+                </button>
+              </div>
+              {examplesUsed.length > 0 ? (
+                <div className="mt-3 ml-6">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    Examples used for the latest draft:
+                  </p>
+                  <ul className="space-y-1.5">
+                    {examplesUsed.map((example, index) => (
+                      <li key={index} className="flex items-start gap-2 text-xs">
+                        <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {example.source === 'top_post' ? 'Top' : 'Fav'} {EXAMPLE_KIND_LABELS[example.kind]}
+                        </span>
+                        <span className="min-w-0">
+                          <span className="block truncate text-gray-700 dark:text-gray-300" title={example.content}>
+                            {example.content}
+                          </span>
+                          {example.project_id && (
+                            <a href={`/project/${example.project_id}`} className="text-gray-400 dark:text-gray-500 hover:text-blue-600 dark:hover:text-blue-400">
+                              {example.project_name}
+                              {example.engagement_rate !== null && example.engagement_rate !== undefined && ` · ${(example.engagement_rate * 100).toFixed(1)}% engagement`}
+                            </a>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : examplesEnabled && (
+                <p className="mt-3 ml-6 text-xs text-gray-400 dark:text-gray-500">
+                  Examples are picked when content is next generated. Posts need tracked metrics to count as top posts.
+                </p>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { FileText, File, Link, X, Loader2 } from 'lucide-react'
+import { FileText, File, Link, Globe, ChevronRight, X, Loader2 } from 'lucide-react'
 
 interface SourceItemProps {
   id: string
@@ -12,6 +12,10 @@ interface SourceItemProps {
   onToggle: (id: string, enabled: boolean) => void
   onDelete: (id: string) => void
   onPreview: (id: string) => void
+  // A crawled site: its pages are listed under it and shown or hidden from here
+  pageCount?: number
+  expanded?: boolean
+  onToggleExpand?: () => void
 }
 
 const TYPE_ICONS = {
@@ -20,11 +24,11 @@ const TYPE_ICONS = {
   url: Link,
 }
 
-export function SourceItem({ id, type, title, wordCount, enabled, onToggle, onDelete, onPreview }: SourceItemProps) {
+export function SourceItem({ id, type, title, wordCount, enabled, onToggle, onDelete, onPreview, pageCount, expanded, onToggleExpand }: SourceItemProps) {
   const [isDeleting, setIsDeleting] = useState(false)
   const [isToggling, setIsToggling] = useState(false)
 
-  const Icon = TYPE_ICONS[type]
+  const Icon = pageCount !== undefined ? Globe : TYPE_ICONS[type]
 
   const handleToggle = async () => {
     setIsToggling(true)
@@ -56,9 +60,20 @@ export function SourceItem({ id, type, title, wordCount, enabled, onToggle, onDe
         </span>
       </button>
 
-      <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0 tabular-nums">
-        {wordCount.toLocaleString()} words
-      </span>
+      {pageCount !== undefined ? (
+        <button
+          onClick={onToggleExpand}
+          className="flex items-center gap-0.5 text-xs text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 flex-shrink-0 tabular-nums transition-colors"
+          title={expanded ? 'Hide pages' : 'Show pages'}
+        >
+          {pageCount.toLocaleString()} page{pageCount !== 1 ? 's' : ''}
+          <ChevronRight className={`w-3.5 h-3.5 transition-transform duration-200 ${expanded ? 'rotate-90' : ''}`} />
+        </button>
+      ) : (
+        <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0 tabular-nums">
+          {wordCount.toLocaleString()} words
+        </span>
+      )}
 
       <div className="flex items-center gap-2 flex-shrink-0">
         <button
@@ -2,6 +2,14 @@
 
 import { useState, useRef, useCallback } from 'react'
 import { X, FileText, Upload, Link, Loader2, AlertCircle } from 'lucide-react'
+import {
+  CRAWL_DEFAULT_DEPTH,
+  CRAWL_DEFAULT_PAGES,
+  CRAWL_MAX_DEPTH,
+  CRAWL_MAX_PAGES,
+  SOURCE_FILE_EXTENSIONS,
+  type CrawlMode,
+} from '@/types'
 
 interface SourceUploadModalProps {
   projectId: string
@@ -11,6 +19,8 @@ interface SourceUploadModalProps {
 
 type Tab = 'text' | 'file' | 'url'
 
+const SUPPORTED_FILE_TYPES_LABEL = SOURCE_FILE_EXTENSIONS.filter(ext => ext !== 'htm').map(ext => `.${ext}`).join(', ')
+
 export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceUploadModalProps) {
   const [activeTab, setActiveTab] = useState<Tab>('text')
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -27,6 +37,10 @@ export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceU
 
   // URL tab state
   const [urlInput, setUrlInput] = useState('')
+  const [crawlSite, setCrawlSite] = useState(false)
+  const [crawlMode, setCrawlMode] = useState<CrawlMode>('links')
+  const [crawlDepth, setCrawlDepth] = useState(CRAWL_DEFAULT_DEPTH)
+  const [crawlPages, setCrawlPages] = useState(CRAWL_DEFAULT_PAGES)
 
   const handleSubmitText = async () => {
     if (!textTitle.trim() || !textContent.trim()) {
@@ -140,6 +154,36 @@ export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceU
     setIsSubmitting(true)
     setError(null)
 
+    if (crawlSite) {
+      try {
+        // Crawl the site into one source per page, saved under a source for the site
+        const response = await fetch('/api/sources/crawl', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            project_id: projectId,
+            url: urlInput.trim(),
+            mode: crawlMode,
+            max_depth: crawlDepth,
+            max_pages: crawlPages,
+          }),
+        })
+
+        if (!response.ok) {
+          const data = await response.json()
+          throw new Error(data.error || 'Failed to crawl site')
+        }
+
+        onSourceAdded()
+        onClose()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to crawl site')
+      } finally {
+        setIsSubmitting(false)
+      }
+      return
+    }
+
     try {
       // Extract text content from URL
       const extractResponse = await fetch('/api/sources/extract', {
@@ -203,7 +247,7 @@ export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceU
       setSelectedFile(file)
       setError(null)
     } else {
-      setError('Unsupported file type. Please use .txt, .md, or .pdf')
+      setError(`Unsupported file type. Please use ${SUPPORTED_FILE_TYPES_LABEL}`)
     }
   }, [])
 
@@ -316,14 +360,14 @@ export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceU
                     <p className="text-sm text-gray-600 dark:text-gray-300">
                       Drop a file here or <span className="text-blue-500 font-medium">browse</span>
                     </p>
-                    <p className="text-xs text-gray-400 mt-1">Supports .txt, .md, .pdf</p>
+                    <p className="text-xs text-gray-400 mt-1">Supports {SUPPORTED_FILE_TYPES_LABEL}</p>
                   </div>
                 )}
               </div>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".txt,.md,.pdf,text/plain,text/markdown,application/pdf"
+                accept={SOURCE_FILE_EXTENSIONS.map(ext => `.${ext}`).join(',')}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -341,8 +385,57 @@ export function SourceUploadModal({ projectId, onClose, onSourceAdded }: SourceU
                 className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
               />
               <p className="text-xs text-gray-400">
-                We&apos;ll fetch the page and extract the main text content.
+                {crawlSite
+                  ? "We'll crawl pages on the same site, respecting robots.txt and skipping near-duplicates. Each page becomes its own source."
+                  : "We'll fetch the page and extract the main text content."}
               </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={crawlSite}
+                  onChange={(e) => setCrawlSite(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                />
+                Crawl the whole site
+              </label>
+              {crawlSite && (
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="space-y-1">
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">Find pages by</span>
+                    <select
+                      value={crawlMode}
+                      onChange={(e) => setCrawlMode(e.target.value as CrawlMode)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="links">Following links</option>
+                      <option value="sitemap">Sitemap</option>
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">Link depth</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={CRAWL_MAX_DEPTH}
+                      value={crawlDepth}
+                      disabled={crawlMode === 'sitemap'}
+                      onChange={(e) => setCrawlDepth(Math.min(Math.max(Number(e.target.value) || 0, 0), CRAWL_MAX_DEPTH))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">Max pages</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={CRAWL_MAX_PAGES}
+                      value={crawlPages}
+                      onChange={(e) => setCrawlPages(Math.min(Math.max(Number(e.target.value) || 1, 1), CRAWL_MAX_PAGES))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    />
+                  </label>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -389,7 +482,7 @@ function fileToBase64(file: File): Promise<string> {
 
 function isAcceptedFileType(file: File): boolean {
   const ext = file.name.toLowerCase().split('.').pop()
-  return ['txt', 'md', 'pdf'].includes(ext || '')
+  return (SOURCE_FILE_EXTENSIONS as readonly string[]).includes(ext || '')
 }
 
 function formatFileSize(bytes: number): string {
@@ -15,4 +15,3 @@ export { AssistantPanel } from './assistant/AssistantPanel'
 
 // Layout components
 export { default as Sidebar } from './layout/Sidebar'
-export { default as Dashboard } from './layout/Dashboard'
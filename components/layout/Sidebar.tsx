@@ -5,22 +5,22 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useTheme } from '@/contexts/ThemeContext'
 import { cn, formatRelativeTime, truncate } from '@/lib/utils'
-import type { Session } from '@/types'
+import type { Project } from '@/types'
 
 interface SidebarProps {
-  sessions: Session[]
+  projects: Project[]
   onRefresh: () => void
 }
 
-export default function Sidebar({ sessions, onRefresh }: SidebarProps) {
+export default function Sidebar({ projects, onRefresh }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const pathname = usePathname()
   const { theme, toggleTheme } = useTheme()
 
-  const filteredSessions = sessions.filter(session =>
-    session.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    session.original_idea.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredProjects = projects.filter(project =>
+    project.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    project.topic.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
   return (
@@ -65,7 +65,7 @@ export default function Sidebar({ sessions, onRefresh }: SidebarProps) {
       {/* New Idea Button */}
       <div className="p-4">
         <Link
-          href="/session/new"
+          href="/project/new"
           className={cn(
             'btn-primary w-full gap-2',
             isCollapsed ? 'px-2 justify-center' : ''
@@ -83,7 +83,7 @@ export default function Sidebar({ sessions, onRefresh }: SidebarProps) {
         <div className="px-4 pb-4">
           <input
             type="text"
-            placeholder="Search sessions..."
+            placeholder="Search projects..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="input text-sm"
@@ -91,41 +91,41 @@ export default function Sidebar({ sessions, onRefresh }: SidebarProps) {
         </div>
       )}
 
-      {/* Session List */}
+      {/* Project List */}
       <nav className="flex-1 overflow-y-auto scrollbar-thin px-2">
         {!isCollapsed && (
           <div className="space-y-1">
-            {filteredSessions.length === 0 ? (
+            {filteredProjects.length === 0 ? (
               <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary px-2 py-4">
-                {searchQuery ? 'No sessions found' : 'No sessions yet'}
+                {searchQuery ? 'No projects found' : 'No projects yet'}
               </p>
             ) : (
-              filteredSessions.map((session) => (
+              filteredProjects.map((project) => (
                 <Link
-                  key={session.id}
-                  href={`/session/${session.id}`}
+                  key={project.id}
+                  href={`/project/${project.id}`}
                   className={cn(
                     'block p-3 rounded-lg transition-colors',
-                    pathname === `/session/${session.id}`
+                    pathname === `/project/${project.id}`
                       ? 'bg-linkedin/10 border border-linkedin/20'
                       : 'hover:bg-gray-100 dark:hover:bg-gray-800'
                   )}
                 >
                   <p className="text-sm font-medium text-light-text-primary dark:text-dark-text-primary truncate">
-                    {truncate(session.title, 30)}
+                    {truncate(project.name, 30)}
                   </p>
                   <div className="flex items-center gap-2 mt-1">
                     <span className={cn(
                       'text-xs px-1.5 py-0.5 rounded',
-                      session.status === 'published' && 'bg-success/10 text-success',
-                      session.status === 'complete' && 'bg-linkedin/10 text-linkedin',
-                      session.status === 'in_progress' && 'bg-warning/10 text-warning'
+                      project.status === 'published' && 'bg-success/10 text-success',
+                      project.status === 'complete' && 'bg-linkedin/10 text-linkedin',
+                      project.status === 'in_progress' && 'bg-warning/10 text-warning'
                     )}>
-                      {session.status === 'in_progress' ? 'In Progress' :
-                       session.status === 'complete' ? 'Complete' : 'Published'}
+                      {project.status === 'in_progress' ? 'In Progress' :
+                       project.status === 'complete' ? 'Complete' : 'Published'}
                     </span>
                     <span className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
-                      {formatRelativeTime(session.created_at)}
+                      {formatRelativeTime(project.created_at)}
                     </span>
                   </div>
                 </Link>
@@ -153,6 +153,20 @@ export default function Sidebar({ sessions, onRefresh }: SidebarProps) {
               </svg>
               Favorites
             </Link>
+            <Link
+              href="/calendar"
+              className={cn(
+                'flex items-center gap-2 p-2 rounded-lg text-sm transition-colors',
+                pathname === '/calendar'
+                  ? 'bg-linkedin/10 text-linkedin'
+                  : 'text-light-text-secondary dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-gray-800'
+              )}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              Calendar
+            </Link>
             <Link
               href="/published"
               className={cn(
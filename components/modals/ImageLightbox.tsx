@@ -79,7 +79,7 @@ export function ImageLightbox({
             {currentIndex + 1} of {images.length}
           </span>
           {currentImage.is_upscaled && (
-            <span className="ml-2 px-2 py-0.5 text-xs bg-green-500 rounded">4K</span>
+            <span className="ml-2 px-2 py-0.5 text-xs bg-green-500 rounded">Upscaled {currentImage.width}×{currentImage.height}</span>
           )}
         </div>
 
@@ -98,7 +98,7 @@ export function ImageLightbox({
             <button
               onClick={() => onUpscale(currentImage)}
               className="p-2 text-white/75 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
-              title="Upscale to 4K"
+              title="Upscale image"
             >
               <ZoomIn className="w-5 h-5" />
             </button>
@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { X, Loader2, BarChart3, Trash2 } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { DerivedSnapshot, PerformanceNotes } from '@/types'
+
+interface PerformanceModalProps {
+  isOpen: boolean
+  onClose: () => void
+  projectId: string
+  // Called after metrics are saved or a snapshot is removed
+  onSaved?: () => void
+}
+
+type MetricField = 'views' | 'likes' | 'comments' | 'reposts'
+
+const METRIC_FIELDS: { id: MetricField; label: string }[] = [
+  { id: 'views', label: 'Views' },
+  { id: 'likes', label: 'Likes' },
+  { id: 'comments', label: 'Comments' },
+  { id: 'reposts', label: 'Reposts' },
+]
+
+type PerformanceForm = Record<MetricField | 'notes', string>
+
+const EMPTY_FORM: PerformanceForm = { views: '', likes: '', comments: '', reposts: '', notes: '' }
+
+export function PerformanceModal({
+  isOpen,
+  onClose,
+  projectId,
+  onSaved,
+}: PerformanceModalProps) {
+  const [form, setForm] = useState<PerformanceForm>(EMPTY_FORM)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<DerivedSnapshot[]>([])
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/performance-notes/${projectId}`)
+      if (response.ok) {
+        const data = await response.json()
+        const note = data.note as PerformanceNotes | null
+        setForm(note ? {
+          views: note.views?.toString() || '',
+          likes: note.likes?.toString() || '',
+          comments: note.comments?.toString() || '',
+          reposts: note.reposts?.toString() || '',
+          notes: note.notes || '',
+        } : EMPTY_FORM)
+      }
+    } catch {
+      // Performance notes might not exist yet, that's fine
+    }
+  }, [projectId])
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/performance/snapshots/${projectId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setHistory([...data.series.snapshots].reverse())
+      }
+    } catch {
+      // History is optional
+    }
+  }, [projectId])
+
+  // Load any metrics already recorded for this project
+  useEffect(() => {
+    if (!isOpen) return
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+      await Promise.all([fetchNotes(), fetchHistory()])
+      setIsLoading(false)
+    }
+
+    load()
+  }, [isOpen, fetchNotes, fetchHistory])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/performance-notes/${projectId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          views: form.views ? parseInt(form.views) : null,
+          likes: form.likes ? parseInt(form.likes) : null,
+          comments: form.comments ? parseInt(form.comments) : null,
+          reposts: form.reposts ? parseInt(form.reposts) : null,
+          notes: form.notes,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to save performance notes')
+      }
+
+      onSaved?.()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save performance notes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/performance/snapshots/${projectId}?snapshotId=${snapshotId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error('Failed to delete snapshot')
+
+      await Promise.all([fetchNotes(), fetchHistory()])
+      onSaved?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot')
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+              <BarChart3 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Track Performance
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Record engagement metrics for this published post
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {METRIC_FIELDS.map(field => (
+                  <div key={field.id}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      {field.label}
+                    </label>
+                    <input
+                      type="number"
+                      value={form[field.id]}
+                      onChange={(e) => setForm(prev => ({ ...prev, [field.id]: e.target.value }))}
+                      placeholder="0"
+                      min="0"
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="What worked well? What could be improved?"
+                  rows={3}
+                  className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {history.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    History
+                  </div>
+                  <div className="max-h-40 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                    {history.map(snapshot => (
+                      <div key={snapshot.id} className="flex items-center justify-between gap-2 py-1.5">
+                        <div className="min-w-0">
+                          <div className="text-gray-900 dark:text-white">
+                            {snapshot.views ?? '-'} views · {snapshot.engagements ?? '-'} engagements
+                            {snapshot.engagement_rate !== null && (
+                              <span className="text-gray-500 dark:text-gray-400"> ({(snapshot.engagement_rate * 100).toFixed(1)}%)</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatDate(snapshot.recorded_at)}
+                            {snapshot.age_hours !== null && snapshot.age_hours >= 0 && ` · ${Math.round(snapshot.age_hours)}h after publishing`}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteSnapshot(snapshot.id)}
+                          className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                          title="Delete snapshot"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Performance'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import {
+  CUSTOM_PLATFORM_FORMATS,
+  CUSTOM_PLATFORM_STEPS,
+  defaultGenerationPrompt,
+  defaultOutputFocus,
+} from '@/lib/platforms/builtin'
+import { ASPECT_RATIO_OPTIONS, STEP_LABELS } from '@/types'
+import type { CustomPlatformFormat, CustomPlatformRequest, PlatformDefinition, WorkflowStep } from '@/types'
+
+interface PlatformFormProps {
+  isOpen: boolean
+  onClose: () => void
+  // Throws with the API's message when the platform can't be saved
+  onSubmit: (data: CustomPlatformRequest) => Promise<void>
+  // The custom platform being edited; a new one is created without it
+  platform?: PlatformDefinition | null
+  tonePrompt?: string
+}
+
+const inputClass = 'w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+function optionalSteps(format: CustomPlatformFormat): WorkflowStep[] {
+  return CUSTOM_PLATFORM_STEPS[format].filter(s => s.optional).map(s => s.step)
+}
+
+export function PlatformForm({ isOpen, onClose, onSubmit, platform, tonePrompt }: PlatformFormProps) {
+  const [label, setLabel] = useState('')
+  const [id, setId] = useState('')
+  const [description, setDescription] = useState('')
+  const [format, setFormat] = useState<CustomPlatformFormat>('post')
+  const [steps, setSteps] = useState<WorkflowStep[]>(optionalSteps('post'))
+  const [characterLimit, setCharacterLimit] = useState('')
+  const [hashtagLimit, setHashtagLimit] = useState('')
+  const [aspectRatio, setAspectRatio] = useState(ASPECT_RATIO_OPTIONS[0].ratio)
+  const [generationPrompt, setGenerationPrompt] = useState('')
+  const [outputFocus, setOutputFocus] = useState('')
+  const [tone, setTone] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset form when opened for another platform
+  useEffect(() => {
+    const platformFormat = (platform?.format === 'caption' ? 'caption' : 'post') as CustomPlatformFormat
+    const limit = platform?.characterLimit ?? null
+    setLabel(platform?.label || '')
+    setId(platform?.id || '')
+    setDescription(platform?.description || '')
+    setFormat(platformFormat)
+    setSteps(platform ? platform.steps : optionalSteps('post'))
+    setCharacterLimit(limit ? String(limit) : '')
+    setHashtagLimit(platform?.hashtagLimit ? String(platform.hashtagLimit) : '')
+    setAspectRatio(platform?.aspectRatio.ratio || ASPECT_RATIO_OPTIONS[0].ratio)
+    // Prompts that are still the defaults stay blank so they keep following the label and limit
+    setGenerationPrompt(platform && platform.generationPrompt !== defaultGenerationPrompt(platform.label, platformFormat, limit) ? platform.generationPrompt : '')
+    setOutputFocus(platform && platform.outputFocus !== defaultOutputFocus(platform.label, platformFormat, limit) ? platform.outputFocus : '')
+    setTone(tonePrompt || '')
+    setError(null)
+  }, [platform, tonePrompt, isOpen])
+
+  const handleFormatChange = (value: CustomPlatformFormat) => {
+    setFormat(value)
+    setSteps(optionalSteps(value))
+  }
+
+  const toggleStep = (step: WorkflowStep) => {
+    setSteps(prev => prev.includes(step) ? prev.filter(s => s !== step) : [...prev, step])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!label.trim()) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit({
+        ...(platform ? {} : { id: id.trim() || undefined }),
+        label: label.trim(),
+        description: description.trim(),
+        format,
+        steps,
+        character_limit: characterLimit.trim() ? Number(characterLimit) : null,
+        hashtag_limit: format === 'caption' && hashtagLimit.trim() ? Number(hashtagLimit) : null,
+        aspect_ratio: aspectRatio,
+        generation_prompt: generationPrompt.trim(),
+        output_focus: outputFocus.trim(),
+        tone_prompt: tone.trim(),
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save platform')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const limit = characterLimit.trim() && Number(characterLimit) > 0 ? Number(characterLimit) : null
+  const previewLabel = label.trim() || 'Custom'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {platform ? `Edit ${platform.label}` : 'Add Platform'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="platform-label" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Name *
+              </label>
+              <input
+                id="platform-label"
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g., Slack Announcements"
+                maxLength={40}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="platform-id" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Id
+              </label>
+              <input
+                id="platform-id"
+                type="text"
+                value={id}
+                onChange={(e) => setId(e.target.value)}
+                placeholder="Made from the name"
+                disabled={!!platform}
+                className={`${inputClass} font-mono text-sm disabled:opacity-60`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="platform-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Description
+            </label>
+            <input
+              id="platform-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown when choosing a platform for a new project"
+              className={inputClass}
+            />
+          </div>
+
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Format
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {CUSTOM_PLATFORM_FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleFormatChange(option.value)}
+                  className={`
+                    text-left p-3 rounded-xl border-2 transition-all
+                    ${format === option.value
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                    }
+                  `}
+                >
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Steps */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Steps
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {CUSTOM_PLATFORM_STEPS[format].map(({ step, optional }) => {
+                const included = !optional || steps.includes(step)
+                return (
+                  <button
+                    key={step}
+                    type="button"
+                    onClick={() => optional && toggleStep(step)}
+                    disabled={!optional}
+                    className={`
+                      px-3 py-1.5 text-sm rounded-lg border transition-colors
+                      ${included
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:border-gray-300'
+                      }
+                      ${optional ? '' : 'cursor-default opacity-70'}
+                    `}
+                  >
+                    {STEP_LABELS[step]}
+                  </button>
+                )
+              })}
+            </div>
+            {format === 'caption' && steps.includes('alt_text') && !steps.includes('visuals') && (
+              <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+                Alt text is left out without the visuals step.
+              </p>
+            )}
+          </div>
+
+          {/* Limits and image shape */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="platform-characters" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Character limit
+              </label>
+              <input
+                id="platform-characters"
+                type="number"
+                min={1}
+                value={characterLimit}
+                onChange={(e) => setCharacterLimit(e.target.value)}
+                placeholder="None"
+                className={inputClass}
+              />
+            </div>
+            {format === 'caption' && (
+              <div>
+                <label htmlFor="platform-hashtags" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Hashtag limit
+                </label>
+                <input
+                  id="platform-hashtags"
+                  type="number"
+                  min={1}
+                  value={hashtagLimit}
+                  onChange={(e) => setHashtagLimit(e.target.value)}
+                  placeholder="None"
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="platform-aspect" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Image shape
+              </label>
+              <select
+                id="platform-aspect"
+                value={aspectRatio}
+                onChange={(e) => setAspectRatio(e.target.value)}
+                className={inputClass}
+              >
+                {ASPECT_RATIO_OPTIONS.map(option => (
+                  <option key={option.ratio} value={option.ratio}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Prompts */}
+          <div>
+            <label htmlFor="platform-prompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Generation prompt
+            </label>
+            <textarea
+              id="platform-prompt"
+              value={generationPrompt}
+              onChange={(e) => setGenerationPrompt(e.target.value)}
+              placeholder={defaultGenerationPrompt(previewLabel, format, limit)}
+              rows={6}
+              className={`${inputClass} resize-none font-mono text-sm`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="platform-focus" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Output focus
+            </label>
+            <textarea
+              id="platform-focus"
+              value={outputFocus}
+              onChange={(e) => setOutputFocus(e.target.value)}
+              placeholder={defaultOutputFocus(previewLabel, format, limit)}
+              rows={3}
+              className={`${inputClass} resize-none font-mono text-sm`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="platform-tone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Tone
+            </label>
+            <textarea
+              id="platform-tone"
+              value={tone}
+              onChange={(e) => setTone(e.target.value)}
+              placeholder={`${previewLabel} tone modifier: how posts here should sound compared with your master voice`}
+              rows={4}
+              className={`${inputClass} resize-none font-mono text-sm`}
+            />
+          </div>
+
+          {/* Submit */}
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !label.trim()}
+              className="px-6 py-2.5 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Saving...' : platform ? 'Save Platform' : 'Add Platform'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default PlatformForm
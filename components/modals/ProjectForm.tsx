@@ -1,8 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { X, Linkedin, Youtube, Facebook, Globe, Search } from 'lucide-react'
-import type { Platform, CreateProjectRequest } from '@/types'
+import { X, Globe, Search } from 'lucide-react'
+import { PlatformIcon } from '@/components/ui/PlatformIcon'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
+import type { Platform, PlatformDefinition, CreateProjectRequest } from '@/types'
 
 interface ProjectFormProps {
   isOpen: boolean
@@ -11,14 +13,10 @@ interface ProjectFormProps {
   initialData?: Partial<CreateProjectRequest>
   title?: string
   submitLabel?: string
+  // Built-in and custom platforms from /api/platforms
+  platforms?: PlatformDefinition[]
 }
 
-const PLATFORMS: { value: Platform; label: string; icon: typeof Linkedin }[] = [
-  { value: 'linkedin', label: 'LinkedIn', icon: Linkedin },
-  { value: 'youtube', label: 'YouTube', icon: Youtube },
-  { value: 'facebook', label: 'Facebook', icon: Facebook },
-]
-
 export function ProjectForm({
   isOpen,
   onClose,
@@ -26,6 +24,7 @@ export function ProjectForm({
   initialData,
   title = 'Create New Project',
   submitLabel = 'Create Project',
+  platforms = BUILT_IN_PLATFORMS,
 }: ProjectFormProps) {
   const [name, setName] = useState(initialData?.name || '')
   const [topic, setTopic] = useState(initialData?.topic || '')
@@ -90,7 +89,7 @@ export function ProjectForm({
               Platform
             </label>
             <div className="grid grid-cols-3 gap-3">
-              {PLATFORMS.map(({ value, label, icon: Icon }) => (
+              {platforms.map(({ id: value, label }) => (
                 <button
                   key={value}
                   type="button"
@@ -103,7 +102,7 @@ export function ProjectForm({
                     }
                   `}
                 >
-                  <Icon className="w-6 h-6" />
+                  <PlatformIcon platform={value} className="w-6 h-6" />
                   <span className="text-sm font-medium">{label}</span>
                 </button>
               ))}
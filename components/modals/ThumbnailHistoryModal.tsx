@@ -129,10 +129,10 @@ export function ThumbnailHistoryModal({
                         v{images.length - idx}
                       </div>
 
-                      {/* 4K badge */}
+                      {/* Upscaled badge */}
                       {image.is_upscaled && (
                         <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-green-500 text-white text-xs font-medium rounded">
-                          4K
+                          Upscaled {image.width}×{image.height}
                         </div>
                       )}
                     </div>
@@ -13,7 +13,20 @@ interface UpscaleModalProps {
     width: number
     height: number
   }
-  onUpscale: () => Promise<void>
+  onUpscale: (target: { width: number; height: number }) => Promise<void>
+}
+
+type UpscalePreset = '2x' | '4k'
+
+const PRESETS: { id: UpscalePreset; label: string; description: string }[] = [
+  { id: '2x', label: '2×', description: 'Double size' },
+  { id: '4k', label: '4K', description: 'Long side 3840px' },
+]
+
+// Target size for a preset, keeping the image's aspect ratio
+function getTargetSize(preset: UpscalePreset, width: number, height: number): { width: number; height: number } {
+  const scale = preset === '2x' ? 2 : 3840 / Math.max(width, height)
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
 }
 
 export function UpscaleModal({
@@ -24,15 +37,15 @@ export function UpscaleModal({
 }: UpscaleModalProps) {
   const [isUpscaling, setIsUpscaling] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [preset, setPreset] = useState<UpscalePreset>('4k')
 
-  const targetWidth = 3840
-  const targetHeight = 2160
+  const target = getTargetSize(preset, currentImage.width, currentImage.height)
 
   const handleUpscale = async () => {
     setIsUpscaling(true)
     setError(null)
     try {
-      await onUpscale()
+      await onUpscale(target)
       onClose()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to upscale image')
@@ -54,7 +67,7 @@ export function UpscaleModal({
             </div>
             <div>
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-                Upscale to 4K
+                Upscale Image
               </h2>
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 Increase image resolution
@@ -81,6 +94,24 @@ export function UpscaleModal({
             />
           </div>
 
+          {/* Target Size */}
+          <div className="grid grid-cols-2 gap-2">
+            {PRESETS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setPreset(option.id)}
+                className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                  preset === option.id
+                    ? 'border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                    : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span className="font-semibold">{option.label}</span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+              </button>
+            ))}
+          </div>
+
           {/* Resolution Comparison */}
           <div className="flex items-center justify-center gap-4">
             <div className="text-center">
@@ -94,18 +125,18 @@ export function UpscaleModal({
             <ArrowRight className="w-6 h-6 text-green-500" />
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                {targetWidth}×{targetHeight}
+                {target.width}×{target.height}
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400 uppercase">
-                Target (4K UHD)
+                Target
               </div>
             </div>
           </div>
 
           <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl">
             <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
-              Upscaling will create a higher resolution version while preserving image quality.
-              This process may take a few moments.
+              Upscaling enlarges this exact image and sharpens it, so the composition stays the same.
+              The original is kept in the image history.
             </p>
           </div>
 
@@ -137,7 +168,7 @@ export function UpscaleModal({
             ) : (
               <>
                 <Maximize2 className="w-4 h-4" />
-                Upscale to 4K
+                Upscale
               </>
             )}
           </button>
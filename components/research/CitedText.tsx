@@ -0,0 +1,34 @@
+'use client'
+
+import { splitCitationMarkers } from '@/lib/citations'
+import type { Citation } from '@/types'
+
+interface CitedTextProps {
+  text: string
+  citations: Citation[]
+}
+
+// Text with its citation markers ([^2]) shown as numbered links to the sources
+export function CitedText({ text, citations }: CitedTextProps) {
+  return (
+    <>
+      {splitCitationMarkers(text, citations).map((part, index) => part.type === 'text' ? (
+        <span key={index}>{part.text}</span>
+      ) : (
+        <sup key={index}>
+          <a
+            href={part.citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-0.5 text-blue-600 dark:text-blue-400 hover:underline"
+            title={part.citation.title || part.citation.url}
+          >
+            [{part.number}]
+          </a>
+        </sup>
+      ))}
+    </>
+  )
+}
+
+export default CitedText
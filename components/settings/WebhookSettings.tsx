@@ -0,0 +1,314 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, Loader2, Send, RefreshCw, ChevronDown, ChevronUp, CheckCircle2, XCircle, Clock, Eye, EyeOff } from 'lucide-react'
+import { formatRelativeTime } from '@/lib/utils'
+import { WEBHOOK_EVENT_LABELS } from '@/types'
+import type { WebhookDelivery, WebhookEndpoint, WebhookEndpointRequest, WebhookEvent } from '@/types'
+
+const EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]
+
+const inputClass = 'w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+function DeliveryStatusIcon({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.status === 'succeeded') return <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" />
+  if (delivery.status === 'failed') return <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-red-500" />
+  return <Clock className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-500" />
+}
+
+// Endpoints that receive signed project events, with a test send and each one's delivery log
+export function WebhookSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [isAdding, setIsAdding] = useState(false)
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/webhooks')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setEndpoints(result) })
+      .catch(err => console.error('Failed to load webhooks:', err))
+  }, [])
+
+  const loadDeliveries = async (id: string) => {
+    try {
+      const response = await fetch(`/api/webhooks/${id}/deliveries`)
+      if (response.ok) setDeliveries(await response.json())
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err)
+    }
+  }
+
+  const toggleExpanded = (id: string) => {
+    setDeliveries([])
+    setExpandedId(prev => prev === id ? null : id)
+    if (expandedId !== id) loadDeliveries(id)
+  }
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event])
+  }
+
+  const handleAdd = async () => {
+    setBusyId('new')
+    setError(null)
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description, events }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add webhook')
+
+      setEndpoints(prev => [...prev, data])
+      setRevealedId(data.id)
+      setIsAdding(false)
+      setUrl('')
+      setDescription('')
+      setEvents([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add webhook')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUpdate = async (endpoint: WebhookEndpoint, changes: WebhookEndpointRequest) => {
+    setBusyId(endpoint.id)
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update webhook')
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? data : e))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update webhook')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    if (!confirm('Issue a new signing secret? Receivers checking the old one will reject deliveries until updated.')) return
+    await handleUpdate(endpoint, { rotate_secret: true })
+    setRevealedId(endpoint.id)
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook to ${endpoint.url} and its delivery log?`)) return
+    setBusyId(endpoint.id)
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete webhook')
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete webhook')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setBusyId(endpoint.id)
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/test`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to send test webhook')
+
+      const delivery = data.delivery as WebhookDelivery
+      alert(delivery.status === 'succeeded'
+        ? `Delivered (HTTP ${delivery.response_status})`
+        : `Delivery failed: ${delivery.error}`)
+      if (expandedId === endpoint.id) loadDeliveries(endpoint.id)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send test webhook')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {endpoints.map(endpoint => (
+          <div key={endpoint.id} className="px-6 py-4">
+            <div className="flex items-center gap-4">
+              <input
+                type="checkbox"
+                checked={endpoint.enabled}
+                onChange={(e) => handleUpdate(endpoint, { enabled: e.target.checked })}
+                disabled={busyId === endpoint.id}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                title={endpoint.enabled ? 'Enabled' : 'Disabled'}
+              />
+              <div className="min-w-0 flex-1">
+                <h3 className={`font-semibold truncate ${endpoint.enabled ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>
+                  {endpoint.description || endpoint.url}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                  {endpoint.description && `${endpoint.url} · `}
+                  {endpoint.events.length === 0 ? 'All events' : endpoint.events.map(e => WEBHOOK_EVENT_LABELS[e]).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleTest(endpoint)}
+                  disabled={busyId === endpoint.id}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                  title="Send test"
+                >
+                  {busyId === endpoint.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(endpoint)}
+                  disabled={busyId === endpoint.id}
+                  className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => toggleExpanded(endpoint.id)}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  title="Secret and deliveries"
+                >
+                  {expandedId === endpoint.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+
+            {(expandedId === endpoint.id || revealedId === endpoint.id) && (
+              <div className="mt-4 space-y-4">
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 uppercase mb-1">Signing Secret</div>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 min-w-0 px-3 py-1.5 text-xs bg-gray-50 dark:bg-gray-900 rounded-lg text-gray-700 dark:text-gray-300 truncate">
+                      {revealedId === endpoint.id ? endpoint.secret : '•'.repeat(32)}
+                    </code>
+                    <button
+                      onClick={() => setRevealedId(prev => prev === endpoint.id ? null : endpoint.id)}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg"
+                      title={revealedId === endpoint.id ? 'Hide' : 'Show'}
+                    >
+                      {revealedId === endpoint.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleRotate(endpoint)}
+                      disabled={busyId === endpoint.id}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg disabled:opacity-50"
+                      title="Rotate secret"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {expandedId === endpoint.id && (
+                  <div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 uppercase mb-1">Recent Deliveries</div>
+                    {deliveries.length === 0 ? (
+                      <p className="text-sm text-gray-400 dark:text-gray-500">No deliveries yet.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {deliveries.map(delivery => (
+                          <li key={delivery.id} className="flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400">
+                            <DeliveryStatusIcon delivery={delivery} />
+                            <span className="min-w-0">
+                              <span className="font-medium text-gray-700 dark:text-gray-300">{delivery.event}</span>
+                              {' · '}{formatRelativeTime(delivery.created_at)}
+                              {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                              {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                              {delivery.status === 'pending' && delivery.attempts > 0 && ` · retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                              {delivery.error && delivery.status !== 'succeeded' && `: ${delivery.error}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAdding && (
+          <div className="px-6 py-4 space-y-3">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://hooks.example.com/li-creator"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional), e.g. Slack #content"
+              className={inputClass}
+            />
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">Events (none selected sends all)</div>
+              <div className="flex flex-wrap gap-2">
+                {EVENTS.map(event => (
+                  <button
+                    key={event}
+                    type="button"
+                    onClick={() => toggleEvent(event)}
+                    className={`
+                      px-3 py-1.5 text-sm rounded-lg border transition-colors
+                      ${events.includes(event)
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                      }
+                    `}
+                  >
+                    {WEBHOOK_EVENT_LABELS[event]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => { setIsAdding(false); setError(null) }}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={busyId === 'new' || !url.trim()}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {busyId === 'new' && <Loader2 className="w-4 h-4 animate-spin" />}
+                Add Webhook
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!isAdding && (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="mt-3 flex items-center gap-1.5 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Add Webhook
+        </button>
+      )}
+    </div>
+  )
+}
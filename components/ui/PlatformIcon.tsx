@@ -0,0 +1,36 @@
+'use client'
+
+import { Linkedin, Youtube, Facebook, Twitter, Instagram, AtSign, Mail, Megaphone } from 'lucide-react'
+import type { BuiltInPlatform, Platform } from '@/types'
+
+const PLATFORM_ICONS: Record<BuiltInPlatform, typeof Linkedin> = {
+  linkedin: Linkedin,
+  youtube: Youtube,
+  facebook: Facebook,
+  x: Twitter,
+  instagram: Instagram,
+  threads: AtSign,
+  newsletter: Mail,
+}
+
+const PLATFORM_COLORS: Record<BuiltInPlatform, string> = {
+  linkedin: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  youtube: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  facebook: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
+  x: 'bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-gray-100',
+  instagram: 'bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-300',
+  threads: 'bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-gray-100',
+  newsletter: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+}
+
+// Custom platforms share one icon and color
+const CUSTOM_COLOR = 'bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300'
+
+export function platformColor(platform: Platform): string {
+  return PLATFORM_COLORS[platform as BuiltInPlatform] || CUSTOM_COLOR
+}
+
+export function PlatformIcon({ platform, className }: { platform: Platform; className?: string }) {
+  const Icon = PLATFORM_ICONS[platform as BuiltInPlatform] || Megaphone
+  return <Icon className={className} />
+}
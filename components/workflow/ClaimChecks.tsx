@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, ShieldCheck, AlertCircle, CheckCircle2, HelpCircle, XCircle, ExternalLink, FileText } from 'lucide-react'
+import { formatRelativeTime } from '@/lib/utils'
+import { CLAIM_STATUS_LABELS, type ClaimCheck, type ClaimLocation, type ClaimStatus, type ClaimVerification } from '@/types'
+
+interface ClaimChecksProps {
+  projectId: string
+  // Only show claims from here (the check itself always covers body, hooks and slides)
+  location?: ClaimLocation
+  // Reload the stored check when this changes, e.g. after the body is regenerated
+  refreshKey?: string | null
+}
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  supported: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  unsupported: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  contradicted: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+}
+
+const STATUS_ICONS: Record<ClaimStatus, typeof CheckCircle2> = {
+  supported: CheckCircle2,
+  unsupported: HelpCircle,
+  contradicted: XCircle,
+}
+
+// Contradictions first: they're the ones to fix before posting
+const STATUS_ORDER: ClaimStatus[] = ['contradicted', 'unsupported', 'supported']
+
+function describeLocation(claim: ClaimCheck): string {
+  if (claim.location === 'body') return 'Body'
+  return claim.location === 'hook' ? `Hook ${claim.location_index + 1}` : `Slide ${claim.location_index + 1}`
+}
+
+// Check the post's factual claims against the project's sources and research
+export function ClaimChecks({ projectId, location, refreshKey }: ClaimChecksProps) {
+  const [verification, setVerification] = useState<ClaimVerification | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchVerification = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/claims`)
+      if (!response.ok) return
+      const data = await response.json()
+      setVerification(data.verification)
+    } catch (err) {
+      console.error('Failed to load claim verification:', err)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchVerification()
+  }, [fetchVerification, refreshKey])
+
+  const handleVerify = async () => {
+    setIsChecking(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/claims`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to verify claims')
+
+      setVerification(data.verification)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify claims')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const claims = (verification?.claims ?? [])
+    .filter(claim => !location || claim.location === location)
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status))
+  const counts = STATUS_ORDER
+    .map(status => ({ status, count: claims.filter(claim => claim.status === status).length }))
+    .filter(({ count }) => count > 0)
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg text-blue-600 dark:text-blue-400">
+          <ShieldCheck className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium text-gray-900 dark:text-white">Fact Check</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {verification
+              ? `Checked ${formatRelativeTime(verification.checked_at)} against your sources and research`
+              : 'Check statistics, dates and other claims against your sources and research'}
+          </p>
+        </div>
+        <button
+          onClick={handleVerify}
+          disabled={isChecking}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+          {verification ? 'Re-check' : 'Verify Claims'}
+        </button>
+      </div>
+
+      {verification?.stale && (
+        <p className="flex items-center gap-1.5 text-sm text-amber-600 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          The content has changed since this check. Re-check to update it.
+        </p>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {verification && claims.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No factual claims found{location ? ' here' : ''}.</p>
+      )}
+
+      {counts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {counts.map(({ status, count }) => (
+            <span key={status} className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+              {count} {CLAIM_STATUS_LABELS[status].toLowerCase()}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {claims.length > 0 && (
+        <ul className="space-y-3">
+          {claims.map(claim => {
+            const Icon = STATUS_ICONS[claim.status]
+            return (
+              <li key={claim.id} className="flex items-start gap-3">
+                <span className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${STATUS_STYLES[claim.status]}`}>
+                  <Icon className="w-3.5 h-3.5" />
+                  {CLAIM_STATUS_LABELS[claim.status]}
+                </span>
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm text-gray-900 dark:text-white">
+                    {claim.claim}
+                    {!location && <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">{describeLocation(claim)}</span>}
+                  </p>
+                  {claim.evidence ? (
+                    <blockquote className="pl-3 border-l-2 border-gray-200 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-400">
+                      <p className="italic">&ldquo;{claim.evidence.snippet}&rdquo;</p>
+                      <p className="flex items-center gap-1 mt-1 text-gray-400 dark:text-gray-500">
+                        {claim.evidence.kind === 'source' ? <FileText className="w-3 h-3" /> : <ExternalLink className="w-3 h-3" />}
+                        {claim.evidence.url ? (
+                          <a href={claim.evidence.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                            {claim.evidence.title}
+                          </a>
+                        ) : (
+                          <span className="truncate">{claim.evidence.title}</span>
+                        )}
+                      </p>
+                    </blockquote>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{claim.explanation}</p>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,37 @@
 'use client'
 
 import { useState } from 'react'
-import { Check, ChevronDown, ChevronUp, Copy, ExternalLink, Image, FileText, MessageCircle, Target, Sparkles, Globe, Download, LayoutGrid } from 'lucide-react'
-import type { Project, Output, VisualConcept, Citation, Platform, GeneratedImage } from '@/types'
-import { WORKFLOW_CONFIGS, STEP_LABELS } from '@/types'
+import { Check, ChevronDown, ChevronUp, Copy, ExternalLink, Image, FileText, MessageCircle, Target, Sparkles, Globe, Download, LayoutGrid, Send, BarChart3, Mail, Loader2, ShieldCheck, AlertCircle, AlertTriangle, Eye, CalendarClock } from 'lucide-react'
+import type { Project, Output, VisualConcept, Citation, PlatformDefinition, GeneratedImage, RepurposedProject, CarouselSlide, CarouselAspectRatio } from '@/types'
+import { STEP_LABELS } from '@/types'
+import { formatRelativeTime } from '@/lib/utils'
+import { TWEET_LIMIT, buildThread, formatThread, numberTweet, numberedTweetLength } from '@/lib/thread'
+import { buildCaption, captionLength, selectedHashtags } from '@/lib/caption'
+import { SUBJECT_LINE_LIMIT, PREVIEW_TEXT_LIMIT } from '@/lib/newsletter'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
+import { feedFoldFor, formatPost } from '@/lib/preview'
+import { formatSourcesComment, stripCitationMarkers } from '@/lib/citations'
+import { RepurposePanel } from './RepurposePanel'
+import { PublishPanel } from './PublishPanel'
+import { ClaimChecks } from './ClaimChecks'
+import { FeedPreview } from './FeedPreview'
 
 interface CompleteSummaryProps {
   project: Project
+  platform: PlatformDefinition
   output: Output
   onNavigateToStep: (step: string) => void
   generatedImages?: Omit<GeneratedImage, 'image_data'>[]
+  // Its first rendered slide leads the feed preview
+  carousel?: { slides: CarouselSlide[]; aspect_ratio: CarouselAspectRatio } | null
+  onMarkPublished?: () => Promise<void>
+  // Sets the planned publish date (null clears it)
+  onSchedule?: (scheduledAt: string | null) => Promise<void>
+  // Shows the auto-publish panel; called when a publish job changes the project
+  onPublishChanged?: () => void
+  onTrackPerformance?: () => void
+  // Shows the repurpose panel; called with the variants it created
+  onRepurposed?: (results: RepurposedProject[]) => void
 }
 
 interface SectionProps {
@@ -63,9 +85,28 @@ function Section({ title, icon, children, defaultExpanded = false, onEdit }: Sec
   )
 }
 
-export function CompleteSummary({ project, output, onNavigateToStep, generatedImages = [] }: CompleteSummaryProps) {
+// datetime-local inputs take local time without a zone
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().substring(0, 16)
+}
+
+export function CompleteSummary({
+  project,
+  platform,
+  output,
+  onNavigateToStep,
+  generatedImages = [],
+  carousel,
+  onMarkPublished,
+  onSchedule,
+  onPublishChanged,
+  onTrackPerformance,
+  onRepurposed,
+}: CompleteSummaryProps) {
   const [copiedField, setCopiedField] = useState<string | null>(null)
-  const config = WORKFLOW_CONFIGS[project.platform]
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [exportingFormat, setExportingFormat] = useState<'html' | 'markdown' | null>(null)
 
   // Find the generated image for the selected visual concept
   const selectedVisualImage = (() => {
@@ -83,14 +124,105 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
     setTimeout(() => setCopiedField(null), 2000)
   }
 
+  const handleMarkPublished = async () => {
+    if (!onMarkPublished) return
+    setIsPublishing(true)
+    try {
+      await onMarkPublished()
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  // Download the newsletter as an HTML email or a Markdown article
+  const handleExportNewsletter = async (format: 'html' | 'markdown') => {
+    setExportingFormat(format)
+    try {
+      const response = await fetch('/api/export/newsletter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project_id: project.id, format }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to export newsletter')
+      }
+
+      const blob = await response.blob()
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `newsletter.${format === 'html' ? 'html' : 'md'}`
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Newsletter export error:', err)
+      alert(err instanceof Error ? err.message : 'Failed to export newsletter')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   const selectedHook = output.hooks[output.selected_hook_index] || ''
   const selectedIntro = output.intros[output.selected_intro_index] || ''
   const selectedTitle = output.titles[output.selected_title_index] || ''
   const selectedCta = output.selected_cta_index === -1 ? null : output.ctas[output.selected_cta_index]
   const selectedVisual = output.visual_concepts[output.selected_visual_index]
-  const bodyContent = output.body_content || ''
+  // The body as posted; the research its citation markers point at goes in the first comment
+  const bodyContent = stripCitationMarkers(output.body_content || '')
+  const sourcesComment = formatSourcesComment(output.body_content || '', output.citations || [])
+
+  const isVideo = platform.format === 'video'
+  const isThread = platform.steps.includes('thread')
+  const thread = isThread ? buildThread(selectedHook, output.thread, selectedCta ?? null) : []
+  const isCaption = platform.format === 'caption'
+  const hashtags = selectedHashtags(output.hashtag_sets || [], output.selected_hashtag_index)
+  const caption = isCaption ? buildCaption(selectedHook, bodyContent, selectedCta ?? null, hashtags) : ''
+  const captionLimit = platform.characterLimit
+  const isNewsletter = platform.format === 'newsletter'
+  const newsletterSections = output.newsletter_sections || []
+  const selectedSubject = (output.subject_lines || [])[output.selected_subject_index] || ''
+  const selectedPreview = (output.preview_texts || [])[output.selected_preview_index] || ''
 
-  const isYouTube = project.platform === 'youtube'
+  const validation = validatePost(platform, {
+    hook: selectedHook,
+    body: bodyContent,
+    cta: selectedCta ?? null,
+    title: selectedTitle,
+    intro: selectedIntro,
+    thread,
+    hashtags,
+    subjectLine: selectedSubject,
+    previewText: selectedPreview,
+  })
+  // LinkedIn and Facebook: the post as the clipboard export assembles it, in a feed card
+  const hasFeedPreview = feedFoldFor(platform.id, 'desktop') !== null
+  const renderedSlides = (carousel?.slides || []).filter(slide => slide.rendered_image)
+  const feedImage = renderedSlides.length > 0
+    ? {
+        src: `data:image/png;base64,${renderedSlides[0].rendered_image}`,
+        alt: renderedSlides[0].alt_text || renderedSlides[0].headline,
+        slideCount: renderedSlides.length,
+        ratio: carousel?.aspect_ratio,
+      }
+    : selectedVisualImage
+      ? {
+          src: `/api/images/${selectedVisualImage.id}?format=image`,
+          alt: selectedVisualImage.alt_text || selectedVisual?.description || 'Generated visual',
+        }
+      : null
+
+  const errorCount = validation.issues.filter(issue => issue.severity === 'error').length
+  const warningCount = validation.issues.length - errorCount
+
+  // Content past a hard limit gets rejected or cut off, so exporting it takes a second click
+  const confirmExport = () => !validation.blocking || confirm(
+    `This content breaks ${platform.label}'s rules: ${describeBlockingIssues(validation.issues)}.\n\nExport anyway?`
+  )
 
   return (
     <div className="max-w-3xl mx-auto space-y-4">
@@ -103,8 +235,47 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
           Content Ready!
         </h2>
         <p className="text-gray-500 dark:text-gray-400">
-          Your {project.platform} content is ready. Review and export below.
+          Your {platform.label} content is ready. Review and export below.
         </p>
+        {project.status === 'published' ? (
+          <div className="mt-4 flex items-center justify-center gap-3">
+            <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded-full text-sm">
+              <Send className="w-4 h-4" />
+              Published {project.published_at ? formatRelativeTime(project.published_at) : ''}
+            </span>
+            {onTrackPerformance && (
+              <button
+                onClick={onTrackPerformance}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Track Performance
+              </button>
+            )}
+          </div>
+        ) : onMarkPublished && (
+          <button
+            onClick={handleMarkPublished}
+            disabled={isPublishing}
+            className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {isPublishing ? 'Marking...' : 'Mark as Published'}
+          </button>
+        )}
+        {project.status !== 'published' && onSchedule && (
+          <div className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <CalendarClock className="w-4 h-4" />
+            <label htmlFor="scheduled-at">Planned for</label>
+            <input
+              id="scheduled-at"
+              type="datetime-local"
+              value={project.scheduled_at ? toLocalInputValue(project.scheduled_at) : ''}
+              onChange={(e) => onSchedule(e.target.value ? new Date(e.target.value).toISOString() : null)}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+        )}
       </div>
 
       {/* Project Info */}
@@ -133,8 +304,57 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
         </div>
       </Section>
 
+      {/* Platform Checks */}
+      <Section
+        title={validation.issues.length === 0
+          ? 'Platform Checks'
+          : `Platform Checks (${[errorCount && `${errorCount} error${errorCount === 1 ? '' : 's'}`, warningCount && `${warningCount} warning${warningCount === 1 ? '' : 's'}`].filter(Boolean).join(', ')})`}
+        icon={<ShieldCheck className="w-5 h-5" />}
+        defaultExpanded={validation.blocking}
+      >
+        {validation.issues.length > 0 ? (
+          <ul className="space-y-2">
+            {validation.issues.map((issue, idx) => (
+              <li
+                key={idx}
+                className={`flex items-start gap-2 text-sm ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}
+              >
+                {issue.severity === 'error'
+                  ? <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  : <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Fits {platform.label}&apos;s length, hashtag, link and formatting rules.
+          </p>
+        )}
+        {validation.blocking && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Errors would get the post rejected or cut off. Fix them before exporting, or confirm to export anyway.
+          </p>
+        )}
+      </Section>
+
+      {/* Feed Preview (LinkedIn/Facebook) */}
+      {hasFeedPreview && (
+        <Section
+          title="Feed Preview"
+          icon={<Eye className="w-5 h-5" />}
+          defaultExpanded
+        >
+          <FeedPreview
+            platform={platform}
+            text={formatPost(selectedHook, bodyContent, selectedCta ?? null)}
+            image={feedImage}
+          />
+        </Section>
+      )}
+
       {/* Hook */}
-      {config.steps.includes('hooks') && (
+      {platform.steps.includes('hooks') && (
         <Section
           title="Selected Hook"
           icon={<Sparkles className="w-5 h-5" />}
@@ -159,7 +379,7 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
       )}
 
       {/* Title (YouTube) */}
-      {isYouTube && config.steps.includes('titles') && (
+      {isVideo && platform.steps.includes('titles') && (
         <Section
           title="Selected Title"
           icon={<FileText className="w-5 h-5" />}
@@ -184,7 +404,7 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
       )}
 
       {/* Intro (YouTube) */}
-      {isYouTube && config.steps.includes('intros') && (
+      {isVideo && platform.steps.includes('intros') && (
         <Section
           title="Selected Intro"
           icon={<MessageCircle className="w-5 h-5" />}
@@ -208,7 +428,7 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
       )}
 
       {/* Body Content (LinkedIn/Facebook) */}
-      {!isYouTube && config.steps.includes('body') && (
+      {!isVideo && platform.steps.includes('body') && (
         <Section
           title="Body Content"
           icon={<FileText className="w-5 h-5" />}
@@ -231,8 +451,153 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
         </Section>
       )}
 
-      {/* CTA (LinkedIn/Facebook) */}
-      {!isYouTube && config.steps.includes('ctas') && (
+      {/* Thread (X): the selected hook, tweets and CTA as posted */}
+      {isThread && (
+        <Section
+          title={`Thread (${thread.length} tweets)`}
+          icon={<FileText className="w-5 h-5" />}
+          onEdit={() => onNavigateToStep('thread')}
+          defaultExpanded
+        >
+          <div className="relative group">
+            {thread.length > 0 ? (
+              <>
+                <div className="space-y-3 pr-10 max-h-[400px] overflow-auto">
+                  {thread.map((tweet, index) => {
+                    const length = numberedTweetLength(tweet, index, thread.length)
+                    return (
+                      <div key={index} className="border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                        <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                          {numberTweet(tweet, index, thread.length)}
+                        </p>
+                        <p className={`text-xs mt-1 ${length > TWEET_LIMIT ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                          {length}/{TWEET_LIMIT}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+                <button
+                  onClick={() => handleCopy(formatThread(thread), 'thread')}
+                  className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Copy thread"
+                >
+                  {copiedField === 'thread' ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400 italic">No thread</p>
+            )}
+          </div>
+        </Section>
+      )}
+
+      {/* Caption (Instagram/Threads): the selected hook, body, CTA and hashtags as posted */}
+      {isCaption && (
+        <Section
+          title="Caption"
+          icon={<FileText className="w-5 h-5" />}
+          onEdit={() => onNavigateToStep('caption')}
+          defaultExpanded
+        >
+          <div className="relative group">
+            <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap pr-10 max-h-[400px] overflow-auto">
+              {caption || 'No caption'}
+            </p>
+            <p className={`text-xs mt-2 ${captionLimit !== null && captionLength(caption) > captionLimit ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+              {captionLength(caption).toLocaleString()}{captionLimit !== null ? `/${captionLimit.toLocaleString()}` : ' characters'}
+            </p>
+            {caption && (
+              <button
+                onClick={() => handleCopy(caption, 'caption')}
+                className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                title="Copy caption"
+              >
+                {copiedField === 'caption' ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+              </button>
+            )}
+          </div>
+        </Section>
+      )}
+
+      {/* Subject line and preview text (Newsletter): what readers see in the inbox */}
+      {isNewsletter && (
+        <Section
+          title="Subject Line & Preview Text"
+          icon={<Mail className="w-5 h-5" />}
+          onEdit={() => onNavigateToStep('subject_lines')}
+          defaultExpanded
+        >
+          <div className="space-y-3">
+            {[
+              { label: 'Subject Line', field: 'subject', text: selectedSubject, limit: SUBJECT_LINE_LIMIT },
+              { label: 'Preview Text', field: 'preview', text: selectedPreview, limit: PREVIEW_TEXT_LIMIT },
+            ].map(({ label, field, text, limit }) => (
+              <div key={field} className="relative group">
+                <div className="text-xs text-gray-500 dark:text-gray-400 uppercase mb-1">{label}</div>
+                <p className="text-gray-700 dark:text-gray-300 pr-10">
+                  {text || `No ${label.toLowerCase()} selected`}
+                </p>
+                {text && (
+                  <>
+                    <p className={`text-xs mt-1 ${text.length > limit ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                      {text.length}/{limit}
+                    </p>
+                    <button
+                      onClick={() => handleCopy(text, field)}
+                      className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      title="Copy"
+                    >
+                      {copiedField === field ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {/* Sections (Newsletter): the drafted article, in outline order */}
+      {isNewsletter && (
+        <Section
+          title={`Article (${newsletterSections.length} sections)`}
+          icon={<FileText className="w-5 h-5" />}
+          onEdit={() => onNavigateToStep('sections')}
+          defaultExpanded
+        >
+          <div className="relative group">
+            {newsletterSections.length > 0 ? (
+              <>
+                <div className="space-y-4 pr-10 max-h-[400px] overflow-auto">
+                  {newsletterSections.map(section => (
+                    <div key={section.id}>
+                      <h4 className="font-semibold text-gray-900 dark:text-white mb-1">{section.heading}</h4>
+                      {section.body ? (
+                        <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{section.body}</p>
+                      ) : (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 italic">Not drafted yet</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => handleCopy(bodyContent, 'sections')}
+                  className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Copy as Markdown"
+                >
+                  {copiedField === 'sections' ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400 italic">No sections</p>
+            )}
+          </div>
+        </Section>
+      )}
+
+      {/* CTA (LinkedIn/Facebook/X/Instagram/Threads) */}
+      {!isVideo && platform.steps.includes('ctas') && (
         <Section
           title="Call to Action"
           icon={<MessageCircle className="w-5 h-5" />}
@@ -259,12 +624,40 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
         </Section>
       )}
 
+      {/* Hashtags (Instagram/Threads) */}
+      {platform.steps.includes('hashtags') && (
+        <Section
+          title="Hashtags"
+          icon={<Sparkles className="w-5 h-5" />}
+          onEdit={() => onNavigateToStep('hashtags')}
+        >
+          <div className="relative group">
+            {hashtags ? (
+              <>
+                <p className="text-gray-700 dark:text-gray-300 pr-10">
+                  {hashtags}
+                </p>
+                <button
+                  onClick={() => handleCopy(hashtags, 'hashtags')}
+                  className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  title="Copy"
+                >
+                  {copiedField === 'hashtags' ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400 italic">No hashtags (skipped)</p>
+            )}
+          </div>
+        </Section>
+      )}
+
       {/* Visual/Thumbnail */}
-      {(config.steps.includes('visuals') || config.steps.includes('thumbnails')) && (
+      {(platform.steps.includes('visuals') || platform.steps.includes('thumbnails')) && (
         <Section
-          title={isYouTube ? 'Selected Thumbnail' : 'Selected Visual'}
+          title={isVideo ? 'Selected Thumbnail' : isNewsletter ? 'Hero Image' : 'Selected Visual'}
           icon={<Image className="w-5 h-5" />}
-          onEdit={() => onNavigateToStep(isYouTube ? 'thumbnails' : 'visuals')}
+          onEdit={() => onNavigateToStep(isVideo ? 'thumbnails' : 'visuals')}
           defaultExpanded
         >
           {selectedVisualImage ? (
@@ -272,7 +665,7 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
               <div className="relative aspect-square max-w-md mx-auto rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700">
                 <img
                   src={`/api/images/${selectedVisualImage.id}?format=image`}
-                  alt={selectedVisual?.description || 'Generated visual'}
+                  alt={selectedVisualImage.alt_text || selectedVisual?.description || 'Generated visual'}
                   className="w-full h-full object-cover"
                 />
               </div>
@@ -281,12 +674,33 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
                   {selectedVisual.description}
                 </p>
               )}
+              {platform.steps.includes('alt_text') && (
+                <div className="relative group">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 uppercase mb-1">Alt Text</div>
+                  {selectedVisualImage.alt_text ? (
+                    <>
+                      <p className="text-sm text-gray-700 dark:text-gray-300 pr-10">{selectedVisualImage.alt_text}</p>
+                      <button
+                        onClick={() => handleCopy(selectedVisualImage.alt_text || '', 'alt_text')}
+                        className="absolute top-0 right-0 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        title="Copy"
+                      >
+                        {copiedField === 'alt_text' ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                      No alt text yet. <button onClick={() => onNavigateToStep('alt_text')} className="text-blue-600 hover:underline">Write it</button>
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           ) : selectedVisual ? (
             <div className="space-y-3">
               <p className="text-gray-700 dark:text-gray-300">{selectedVisual.description}</p>
               <p className="text-sm text-gray-500 dark:text-gray-400 italic">
-                No image generated yet. <button onClick={() => onNavigateToStep(isYouTube ? 'thumbnails' : 'visuals')} className="text-blue-600 hover:underline">Generate one</button>
+                No image generated yet. <button onClick={() => onNavigateToStep(isVideo ? 'thumbnails' : 'visuals')} className="text-blue-600 hover:underline">Generate one</button>
               </p>
             </div>
           ) : (
@@ -320,14 +734,34 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
         </Section>
       )}
 
+      {/* Fact Check */}
+      <ClaimChecks projectId={project.id} />
+
+      {/* Auto-Publish */}
+      {onPublishChanged && (
+        <PublishPanel
+          projectId={project.id}
+          platform={platform}
+          scheduledAt={project.scheduled_at}
+          isPublished={project.status === 'published'}
+          onChanged={onPublishChanged}
+        />
+      )}
+
+      {/* Repurpose */}
+      {onRepurposed && (
+        <RepurposePanel projectId={project.id} platform={platform} onRepurposed={onRepurposed} />
+      )}
+
       {/* Export Actions */}
       <div className="flex flex-wrap gap-3 justify-center pt-4">
         <button
           onClick={async () => {
-            const fullContent = [
+            if (!confirmExport()) return
+            const fullContent = isThread ? formatThread(thread) : isCaption ? caption : isNewsletter ? bodyContent : [
               selectedHook,
-              isYouTube ? selectedTitle : '',
-              isYouTube ? selectedIntro : bodyContent,
+              isVideo ? selectedTitle : '',
+              isVideo ? selectedIntro : bodyContent,
               selectedCta || '',
             ].filter(Boolean).join('\n\n')
             await navigator.clipboard.writeText(fullContent)
@@ -340,8 +774,33 @@ export function CompleteSummary({ project, output, onNavigateToStep, generatedIm
           {copiedField === 'all' ? 'Copied!' : 'Copy All Text'}
         </button>
 
-        {/* Create Carousel - only for LinkedIn/Facebook */}
-        {!isYouTube && (
+        {/* Sources cited in the body, to paste as the first comment */}
+        {sourcesComment && (
+          <button
+            onClick={() => handleCopy(sourcesComment, 'sources')}
+            className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            title={sourcesComment}
+          >
+            {copiedField === 'sources' ? <Check className="w-4 h-4" /> : <Globe className="w-4 h-4" />}
+            {copiedField === 'sources' ? 'Copied!' : 'Copy Sources Comment'}
+          </button>
+        )}
+
+        {/* Newsletter: an HTML email or a Markdown article with the hero image embedded */}
+        {isNewsletter && (['html', 'markdown'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => confirmExport() && handleExportNewsletter(format)}
+            disabled={exportingFormat !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-medium border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            {exportingFormat === format ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {format === 'html' ? 'Download HTML Email' : 'Download Markdown'}
+          </button>
+        ))}
+
+        {/* Create Carousel - for LinkedIn/Facebook/Instagram/Threads */}
+        {!isVideo && !isThread && !isNewsletter && (
           <button
             onClick={() => onNavigateToStep('carousel')}
             className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition-colors"
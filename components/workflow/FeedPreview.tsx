@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Monitor, Smartphone, Globe, ThumbsUp, MessageSquare, Repeat2, Send, Share2 } from 'lucide-react'
+import { feedFoldFor, truncateAtFold, type FeedDevice } from '@/lib/preview'
+import type { PlatformDefinition, Setting } from '@/types'
+
+interface FeedPreviewProps {
+  platform: PlatformDefinition
+  // The post as copied out: hook, body and CTA
+  text: string
+  // The chosen visual's image, or the carousel's first slide (with the carousel's shape, e.g. '4:5')
+  image?: { src: string; alt: string; slideCount?: number; ratio?: string } | null
+}
+
+// Card widths of the LinkedIn and Facebook feeds
+const DEVICE_WIDTHS: Record<FeedDevice, string> = {
+  desktop: 'max-w-[555px]',
+  mobile: 'max-w-[360px]',
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?'
+}
+
+// The post as it appears in the LinkedIn or Facebook feed, cut off at the "see more" fold
+export function FeedPreview({ platform, text, image }: FeedPreviewProps) {
+  const [device, setDevice] = useState<FeedDevice>('desktop')
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [profile, setProfile] = useState({ name: '', headline: '' })
+
+  useEffect(() => {
+    fetch('/api/settings')
+      .then(res => res.ok ? res.json() : [])
+      .then((settings: Setting[]) => {
+        const value = (key: string) => settings.find(s => s.key === key)?.value || ''
+        setProfile({ name: value('profile_name'), headline: value('profile_headline') })
+      })
+      .catch(err => console.error('Failed to load preview profile:', err))
+  }, [])
+
+  const fold = feedFoldFor(platform.id, device)
+  if (!fold) return null
+
+  const { visible, truncated } = truncateAtFold(text, fold)
+  const isLinkedIn = platform.id === 'linkedin'
+  const name = profile.name || 'Your Name'
+  const actions = isLinkedIn
+    ? [{ label: 'Like', icon: ThumbsUp }, { label: 'Comment', icon: MessageSquare }, { label: 'Repost', icon: Repeat2 }, { label: 'Send', icon: Send }]
+    : [{ label: 'Like', icon: ThumbsUp }, { label: 'Comment', icon: MessageSquare }, { label: 'Share', icon: Share2 }]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {truncated
+            ? `Readers see ${visible.length} of ${text.trim().length} characters before "see more"`
+            : 'The whole post shows without "see more"'}
+        </p>
+        <div className="flex items-center gap-1 p-0.5 bg-gray-100 dark:bg-gray-700 rounded-lg">
+          {([['desktop', Monitor], ['mobile', Smartphone]] as const).map(([option, Icon]) => (
+            <button
+              key={option}
+              onClick={() => {
+                setDevice(option)
+                setIsExpanded(false)
+              }}
+              className={`
+                flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors capitalize
+                ${device === option
+                  ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }
+              `}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${DEVICE_WIDTHS[device]} mx-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden`}>
+        {/* Profile header */}
+        <div className="flex items-start gap-2.5 px-4 pt-3">
+          <div className="w-11 h-11 rounded-full flex-shrink-0 flex items-center justify-center bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 text-sm font-semibold">
+            {initials(name)}
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{name}</p>
+            {isLinkedIn && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {profile.headline || 'Your headline'}
+              </p>
+            )}
+            <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              Now · <Globe className="w-3 h-3" />
+            </p>
+          </div>
+        </div>
+
+        {/* Text, cut off at the fold */}
+        <div className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words">
+          {isExpanded || !truncated ? text.trim() : visible}
+          {truncated && !isExpanded && (
+            <button
+              onClick={() => setIsExpanded(true)}
+              className="text-gray-500 dark:text-gray-400 hover:text-blue-600 hover:underline"
+            >
+              {isLinkedIn ? '...more' : '... See more'}
+            </button>
+          )}
+        </div>
+
+        {/* Image or the carousel's first slide */}
+        {image && (
+          <div
+            className="relative bg-gray-100 dark:bg-gray-800"
+            style={{ aspectRatio: image.ratio ? image.ratio.replace(':', ' / ') : `${platform.aspectRatio.width} / ${platform.aspectRatio.height}` }}
+          >
+            <img src={image.src} alt={image.alt} className="w-full h-full object-cover" />
+            {(image.slideCount ?? 0) > 1 && (
+              <span className="absolute top-2 right-2 px-2 py-0.5 text-xs font-medium bg-black/60 text-white rounded-full">
+                1 / {image.slideCount}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-around px-2 py-1 border-t border-gray-100 dark:border-gray-800">
+          {actions.map(({ label, icon: Icon }) => (
+            <span key={label} className="flex items-center gap-1.5 px-2 py-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+              <Icon className="w-4 h-4" />
+              {device === 'desktop' && label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default FeedPreview
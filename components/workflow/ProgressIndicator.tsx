@@ -2,12 +2,13 @@
 
 import { Fragment } from 'react'
 import { Check } from 'lucide-react'
-import type { WorkflowStep, Platform } from '@/types'
-import { WORKFLOW_CONFIGS, STEP_LABELS } from '@/types'
+import type { WorkflowStep } from '@/types'
+import { STEP_LABELS } from '@/types'
 
 interface ProgressIndicatorProps {
   currentStep: WorkflowStep
-  platform: Platform
+  // The platform's workflow (PlatformDefinition.steps)
+  steps: WorkflowStep[]
   onStepClick?: (step: WorkflowStep) => void
   completedSteps?: WorkflowStep[]
 }
@@ -30,13 +31,10 @@ const labelStyles: Record<StepStatus, string> = {
 
 export function ProgressIndicator({
   currentStep,
-  platform,
+  steps,
   onStepClick,
   completedSteps = [],
 }: ProgressIndicatorProps) {
-  const config = WORKFLOW_CONFIGS[platform]
-  const steps = config.steps
-
   const getStepStatus = (step: WorkflowStep): StepStatus => {
     if (step === currentStep) return 'current'
     if (completedSteps.includes(step)) return 'completed'
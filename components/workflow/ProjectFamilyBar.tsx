@@ -0,0 +1,62 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { GitBranch } from 'lucide-react'
+import { PlatformIcon } from '@/components/ui/PlatformIcon'
+import type { ProjectFamily } from '@/types'
+
+interface ProjectFamilyBarProps {
+  projectId: string
+  // Bumped after repurposing so new variants show up
+  refreshKey?: number
+}
+
+// Links between a project, the original it was repurposed from, and its other variants
+export function ProjectFamilyBar({ projectId, refreshKey = 0 }: ProjectFamilyBarProps) {
+  const [family, setFamily] = useState<ProjectFamily | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/projects/${projectId}/family`)
+      .then(res => res.ok ? res.json() : null)
+      .then(result => setFamily(result))
+      .catch(err => console.error('Failed to load project family:', err))
+  }, [projectId, refreshKey])
+
+  if (!family || family.projects.length < 2) return null
+
+  return (
+    <div className="px-4 py-2 flex items-center gap-2 overflow-x-auto border-t border-gray-100 dark:border-gray-700">
+      <span className="flex items-center gap-1.5 text-xs font-medium text-gray-500 dark:text-gray-400 flex-shrink-0">
+        <GitBranch className="w-3.5 h-3.5" />
+        Variants
+      </span>
+      {family.projects.map(member => {
+        const isCurrent = member.id === projectId
+        return (
+          <Link
+            key={member.id}
+            href={`/project/${member.id}`}
+            title={member.name}
+            className={`
+              flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border flex-shrink-0 transition-colors
+              ${isCurrent
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+              }
+            `}
+          >
+            <PlatformIcon platform={member.platform} className="w-3.5 h-3.5" />
+            {member.platform_label}
+            {member.id === family.root_id && (
+              <span className="text-gray-400 dark:text-gray-500">· original</span>
+            )}
+            {member.status !== 'in_progress' && (
+              <span className="text-gray-400 dark:text-gray-500">· {member.status}</span>
+            )}
+          </Link>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Send, AlertCircle, CheckCircle2, Clock, XCircle, ExternalLink } from 'lucide-react'
+import { formatRelativeTime } from '@/lib/utils'
+import type { PlatformDefinition, ProjectPublishState, PublisherId, PublisherInfo, PublishJobStatus } from '@/types'
+
+interface PublishPanelProps {
+  projectId: string
+  platform: PlatformDefinition
+  scheduledAt?: string | null
+  isPublished: boolean
+  // Called when the job changes the project (its planned date, or publishing it)
+  onChanged?: () => void
+}
+
+// While a job is waiting or running, check back this often so success shows up on the page
+const POLL_MS = 30000
+
+const STATUS_LABELS: Record<PublishJobStatus, string> = {
+  pending: 'Queued',
+  running: 'Publishing...',
+  succeeded: 'Published',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+// Queue the post to go out automatically at its planned time through a publisher
+export function PublishPanel({ projectId, platform, scheduledAt, isPublished, onChanged }: PublishPanelProps) {
+  const [publishers, setPublishers] = useState<PublisherInfo[]>([])
+  const [selected, setSelected] = useState<PublisherId | ''>('')
+  const [state, setState] = useState<ProjectPublishState>({ job: null, attempts: [] })
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchState = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/publish`)
+      if (!response.ok) return
+      setState(await response.json())
+    } catch (err) {
+      console.error('Failed to load publish state:', err)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetch('/api/publishers')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setPublishers(result.publishers) })
+      .catch(err => console.error('Failed to load publishers:', err))
+  }, [])
+
+  // Moving the planned date moves a queued job, so reload when it changes
+  useEffect(() => {
+    fetchState()
+  }, [fetchState, scheduledAt])
+
+  const job = state.job
+  const isActive = job?.status === 'pending' || job?.status === 'running'
+
+  useEffect(() => {
+    if (!isActive) return
+    const timer = setInterval(fetchState, POLL_MS)
+    return () => clearInterval(timer)
+  }, [isActive, fetchState])
+
+  // The worker published it while the page was open
+  const hasSucceeded = job?.status === 'succeeded'
+  useEffect(() => {
+    if (hasSucceeded && !isPublished) onChanged?.()
+  }, [hasSucceeded, isPublished, onChanged])
+
+  const available = publishers.filter(p => p.configured && (!p.platforms || p.platforms.includes(platform.id)))
+  const publisher = selected || job?.publisher || available[0]?.id || ''
+
+  const handleQueue = async () => {
+    if (!publisher) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publisher }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to queue post')
+
+      setState(data)
+      onChanged?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue post')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/publish`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel')
+
+      setState(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isPublished && !job) return null
+
+  const statusIcon = job?.status === 'succeeded' ? <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+    : job?.status === 'failed' ? <XCircle className="w-4 h-4 text-red-600 dark:text-red-400" />
+    : job?.status === 'running' ? <Loader2 className="w-4 h-4 animate-spin text-blue-600 dark:text-blue-400" />
+    : <Clock className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg text-blue-600 dark:text-blue-400">
+          <Send className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white">Auto-Publish</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {scheduledAt
+              ? `Goes out ${new Date(scheduledAt).toLocaleString()} with its image or carousel, retrying if it fails`
+              : 'Set a planned date above, or queue it to go out now'}
+          </p>
+        </div>
+      </div>
+
+      {job && job.status !== 'cancelled' && (
+        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          {statusIcon}
+          <span>
+            {STATUS_LABELS[job.status]} via {publishers.find(p => p.id === job.publisher)?.label ?? job.publisher}
+            {job.status === 'pending' && ` · ${job.attempts > 0 ? 'retrying' : 'due'} ${new Date(job.next_attempt_at).toLocaleString()}`}
+            {job.attempts > 0 && ` · attempt ${job.attempts} of ${job.max_attempts}`}
+          </span>
+          {job.external_url && (
+            <a href={job.external_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+        </div>
+      )}
+
+      {job?.last_error && job.status !== 'succeeded' && (
+        <p className="flex items-start gap-1.5 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {job.last_error}
+        </p>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {!isPublished && (
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          {available.length === 0 ? (
+            <p className="flex-1 text-xs text-gray-400 dark:text-gray-500">
+              No publisher is set up for {platform.label}. {publishers.find(p => !p.configured && p.platforms?.includes(platform.id))?.configurationHint}
+            </p>
+          ) : (
+            <select
+              value={publisher}
+              onChange={(e) => setSelected(e.target.value as PublisherId)}
+              disabled={isSaving || isActive}
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+            >
+              {available.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          )}
+          {isActive ? (
+            <button
+              onClick={handleCancel}
+              disabled={isSaving || job?.status === 'running'}
+              className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleQueue}
+              disabled={isSaving || !publisher}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              {job?.status === 'failed' ? 'Retry' : scheduledAt ? 'Queue' : 'Publish Now'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {state.attempts.length > 0 && (
+        <ul className="space-y-1 pt-2 border-t border-gray-100 dark:border-gray-700">
+          {state.attempts.map(attempt => (
+            <li key={attempt.id} className="flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400">
+              {attempt.status === 'succeeded'
+                ? <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" />
+                : <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-red-500" />}
+              <span className="min-w-0">
+                {formatRelativeTime(attempt.started_at)} via {attempt.publisher}
+                {attempt.error && `: ${attempt.error}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Loader2, Repeat, AlertCircle, ArrowRight } from 'lucide-react'
+import { PlatformIcon } from '@/components/ui/PlatformIcon'
+import { BUILT_IN_PLATFORMS } from '@/lib/platforms/builtin'
+import type { Platform, PlatformDefinition, RepurposedProject } from '@/types'
+
+interface RepurposePanelProps {
+  projectId: string
+  platform: PlatformDefinition
+  onRepurposed?: (results: RepurposedProject[]) => void
+}
+
+// Pick other platforms and generate linked variants of a finished project for them
+export function RepurposePanel({ projectId, platform, onRepurposed }: RepurposePanelProps) {
+  const [platforms, setPlatforms] = useState<PlatformDefinition[]>(BUILT_IN_PLATFORMS)
+  const [selected, setSelected] = useState<Platform[]>([])
+  const [isRepurposing, setIsRepurposing] = useState(false)
+  const [results, setResults] = useState<RepurposedProject[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/platforms')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => { if (result) setPlatforms(result) })
+      .catch(err => console.error('Failed to load platforms:', err))
+  }, [])
+
+  const targets = platforms.filter(p => p.id !== platform.id)
+
+  const toggle = (id: Platform) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id])
+  }
+
+  const handleRepurpose = async () => {
+    if (selected.length === 0) return
+    setIsRepurposing(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/repurpose`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platforms: selected }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to repurpose project')
+
+      setResults(prev => [...prev, ...data.projects])
+      setSelected([])
+      onRepurposed?.(data.projects)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to repurpose project')
+    } finally {
+      setIsRepurposing(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg text-blue-600 dark:text-blue-400">
+          <Repeat className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white">Repurpose for Other Platforms</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Creates a linked project for each platform, written from your chosen hook, body, CTA and visual
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {targets.map(target => (
+          <button
+            key={target.id}
+            type="button"
+            onClick={() => toggle(target.id)}
+            disabled={isRepurposing}
+            className={`
+              flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50
+              ${selected.includes(target.id)
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+              }
+            `}
+          >
+            <PlatformIcon platform={target.id} className="w-4 h-4" />
+            {target.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          {isRepurposing
+            ? `Writing ${selected.length} variant${selected.length === 1 ? '' : 's'}; this can take a minute...`
+            : `${selected.length} selected`}
+        </p>
+        <button
+          onClick={handleRepurpose}
+          disabled={isRepurposing || selected.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRepurposing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Repeat className="w-4 h-4" />}
+          Repurpose
+        </button>
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+          {results.map(({ project, error: resultError }) => (
+            <Link
+              key={project.id}
+              href={`/project/${project.id}`}
+              className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors group"
+            >
+              <PlatformIcon platform={project.platform} className="w-4 h-4 text-gray-500" />
+              <span className="flex-1 min-w-0 text-sm text-gray-700 dark:text-gray-300 truncate">{project.name}</span>
+              {resultError && (
+                <span className="text-xs text-amber-600 dark:text-amber-400">Generate on its page</span>
+              )}
+              <ArrowRight className="w-4 h-4 text-gray-400 group-hover:text-blue-500" />
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,12 +2,13 @@
 
 import { ReactNode } from 'react'
 import { ArrowLeft, ArrowRight, RefreshCw, Plus } from 'lucide-react'
-import type { WorkflowStep, Platform } from '@/types'
-import { WORKFLOW_CONFIGS, STEP_LABELS } from '@/types'
+import type { WorkflowStep } from '@/types'
+import { STEP_LABELS } from '@/types'
 
 interface StepContainerProps {
   currentStep: WorkflowStep
-  platform: Platform
+  // The platform's workflow (PlatformDefinition.steps)
+  steps: WorkflowStep[]
   title?: string
   description?: string
   children: ReactNode
@@ -22,7 +23,7 @@ interface StepContainerProps {
 
 export function StepContainer({
   currentStep,
-  platform,
+  steps: workflowSteps,
   title,
   description,
   children,
@@ -34,8 +35,7 @@ export function StepContainer({
   canProceed = true,
   showAddMore = true,
 }: StepContainerProps) {
-  const config = WORKFLOW_CONFIGS[platform]
-  const steps = config.steps.filter((step): step is Exclude<WorkflowStep, 'complete'> => step !== 'complete')
+  const steps = workflowSteps.filter((step): step is Exclude<WorkflowStep, 'complete'> => step !== 'complete')
   const currentIndex = steps.indexOf(currentStep as Exclude<WorkflowStep, 'complete'>)
   const isFirstStep = currentIndex === 0
   const isLastStep = currentIndex === steps.length - 1
@@ -0,0 +1,116 @@
+'use client'
+
+import { Loader2, Square } from 'lucide-react'
+import type { Output, WorkflowStep } from '@/types'
+import { STEP_LABELS } from '@/types'
+
+export type StreamingContent = Partial<Pick<Output, 'hooks' | 'body_content' | 'thread' | 'newsletter_sections' | 'subject_lines' | 'preview_texts' | 'intros' | 'titles' | 'ctas' | 'hashtag_sets' | 'visual_concepts'>>
+
+interface StreamingPreviewProps {
+  step: WorkflowStep
+  content: StreamingContent
+  onCancel: () => void
+}
+
+// Items for the current step, in the order the model writes them
+function getStepItems(step: WorkflowStep, content: StreamingContent): string[] {
+  switch (step) {
+    case 'hooks':
+      return content.hooks || []
+    case 'body':
+    case 'caption':
+      return content.body_content ? [content.body_content] : []
+    case 'thread':
+      return content.thread || []
+    case 'outline':
+    case 'sections':
+      return (content.newsletter_sections || []).map(s => s.summary ? `${s.heading}\n${s.summary}` : s.heading)
+    case 'subject_lines':
+      return content.subject_lines || []
+    case 'preview_texts':
+      return content.preview_texts || []
+    case 'intros':
+      return content.intros || []
+    case 'titles':
+      return content.titles || []
+    case 'ctas':
+      return content.ctas || []
+    case 'hashtags':
+      return content.hashtag_sets || []
+    case 'visuals':
+    case 'thumbnails':
+      return (content.visual_concepts || []).map(v => v.description)
+    default:
+      return []
+  }
+}
+
+// Short summary of everything received so far, e.g. "5 hooks · body · 2 CTAs"
+function summarize(content: StreamingContent): string {
+  const parts: string[] = []
+  if (content.hooks?.length) parts.push(`${content.hooks.length} hooks`)
+  if (content.body_content) parts.push('body')
+  if (content.thread?.length) parts.push(`${content.thread.length} tweets`)
+  if (content.newsletter_sections?.length) parts.push(`${content.newsletter_sections.length} sections`)
+  if (content.subject_lines?.length) parts.push(`${content.subject_lines.length} subject lines`)
+  if (content.preview_texts?.length) parts.push(`${content.preview_texts.length} preview texts`)
+  if (content.intros?.length) parts.push(`${content.intros.length} intros`)
+  if (content.titles?.length) parts.push(`${content.titles.length} titles`)
+  if (content.ctas?.length) parts.push(`${content.ctas.length} CTAs`)
+  if (content.hashtag_sets?.length) parts.push(`${content.hashtag_sets.length} hashtag sets`)
+  if (content.visual_concepts?.length) parts.push(`${content.visual_concepts.length} visuals`)
+  return parts.join(' · ')
+}
+
+export function StreamingPreview({ step, content, onCancel }: StreamingPreviewProps) {
+  const items = getStepItems(step, content)
+  const summary = summarize(content)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>
+            Writing {STEP_LABELS[step].toLowerCase()}...
+            {summary && <span className="ml-2 text-gray-400 dark:text-gray-500">{summary}</span>}
+          </span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+        >
+          <Square className="w-3.5 h-3.5" />
+          Stop
+        </button>
+      </div>
+
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className="relative rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+        >
+          <div className="absolute top-3 right-3 text-xs font-medium text-gray-400 dark:text-gray-500">
+            #{index + 1}
+          </div>
+          <div className="p-4 pr-16">
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+              {item}
+              {index === items.length - 1 && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-blue-500 animate-pulse" />
+              )}
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {items.length === 0 && (
+        <div className="rounded-xl border-2 border-dashed border-gray-200 dark:border-gray-700 p-8 text-center text-sm text-gray-400 dark:text-gray-500">
+          {STEP_LABELS[step]} will appear here as they are written
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StreamingPreview
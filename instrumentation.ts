@@ -0,0 +1,10 @@
+// Runs once when the server starts: begin polling for scheduled posts to publish and
+// webhook deliveries to retry
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startPublishWorker } = await import('@/lib/publishing/worker')
+    const { startWebhookWorker } = await import('@/lib/webhooks')
+    startPublishWorker()
+    startWebhookWorker()
+  }
+}
@@ -0,0 +1,308 @@
+// Attribution: which content choices go with better results on published posts.
+//
+// Each published post with metrics is described by the choices that went into it
+// (selected hook and its style/length, CTA, body length, media, publish weekday/time),
+// then posts are grouped per choice and each group's average is compared with the
+// overall average. This shows correlation within one account's posts, not causation.
+
+import db from '@/lib/db'
+import { countWords, safeJsonParse } from '@/lib/utils'
+import { stripCitationMarkers } from '@/lib/citations'
+import { engagementRate, parseTimestamp, totalEngagements } from './metrics'
+import type {
+  AttributedPost,
+  AttributionBreakdown,
+  AttributionCorrelation,
+  AttributionDimension,
+  AttributionMetric,
+  AttributionReport,
+  Platform,
+} from '@/types'
+
+// Groups smaller than this are flagged rather than hidden
+const MIN_GROUP_POSTS = 3
+
+const DIMENSIONS: { dimension: AttributionDimension; label: string; values: [string, string][] }[] = [
+  {
+    dimension: 'hook_style',
+    label: 'Hook style',
+    values: [
+      ['question', 'Question'],
+      ['statistic', 'Statistic'],
+      ['list', 'Number / list'],
+      ['contrarian', 'Contrarian'],
+      ['how_to', 'How-to'],
+      ['story', 'Personal story'],
+      ['statement', 'Statement'],
+    ],
+  },
+  {
+    dimension: 'hook_length',
+    label: 'Hook length',
+    values: [
+      ['short', 'Short (≤ 8 words)'],
+      ['medium', 'Medium (9–15 words)'],
+      ['long', 'Long (16+ words)'],
+    ],
+  },
+  {
+    dimension: 'hook_position',
+    label: 'Hook option chosen',
+    values: [['1', 'Option 1'], ['2', 'Option 2'], ['3', 'Option 3'], ['4', 'Option 4'], ['5', 'Option 5+']],
+  },
+  {
+    dimension: 'cta_type',
+    label: 'Call to action',
+    values: [
+      ['question', 'Asks a question'],
+      ['comment', 'Invites comments'],
+      ['share', 'Asks for reposts'],
+      ['follow', 'Asks for a follow'],
+      ['link', 'Points to a link / DM'],
+      ['other', 'Other'],
+      ['none', 'No CTA'],
+    ],
+  },
+  {
+    dimension: 'body_length',
+    label: 'Post length',
+    values: [
+      ['under_150', 'Under 150 words'],
+      ['150_300', '150–300 words'],
+      ['300_500', '300–500 words'],
+      ['500_plus', '500+ words'],
+    ],
+  },
+  {
+    dimension: 'media',
+    label: 'Media',
+    values: [['carousel', 'Carousel'], ['image', 'Image'], ['text_only', 'Text only']],
+  },
+  {
+    dimension: 'weekday',
+    label: 'Day published',
+    values: [['mon', 'Monday'], ['tue', 'Tuesday'], ['wed', 'Wednesday'], ['thu', 'Thursday'], ['fri', 'Friday'], ['sat', 'Saturday'], ['sun', 'Sunday']],
+  },
+  {
+    dimension: 'time_of_day',
+    label: 'Time published',
+    values: [
+      ['early', 'Early morning (5–9)'],
+      ['morning', 'Morning (9–12)'],
+      ['midday', 'Midday (12–15)'],
+      ['afternoon', 'Afternoon (15–18)'],
+      ['evening', 'Evening (18–22)'],
+      ['night', 'Night (22–5)'],
+    ],
+  },
+]
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// ============================================
+// Feature classification
+// ============================================
+
+export function classifyHookStyle(hook: string): string {
+  const text = hook.trim()
+  const firstLine = text.split('\n')[0]
+  if (firstLine.includes('?')) return 'question'
+  if (/\d+(\.\d+)?\s*%|[$€£]\s?\d/.test(firstLine)) return 'statistic'
+  if (/^\d|\b\d+\s+(ways|tips|lessons|things|reasons|steps|mistakes|rules|ideas)\b/i.test(firstLine)) return 'list'
+  if (/^(stop|don'?t|never|forget|quit|unpopular opinion|hot take)\b|\b(myth|wrong|overrated)\b/i.test(firstLine)) return 'contrarian'
+  if (/^how (to|i|we)\b/i.test(firstLine)) return 'how_to'
+  if (/^(i|i'm|i've|we|my|our|last|yesterday|when|\d+ years ago)\b/i.test(firstLine)) return 'story'
+  return 'statement'
+}
+
+export function classifyCta(cta: string | null): string {
+  if (!cta || !cta.trim()) return 'none'
+  if (cta.includes('?')) return 'question'
+  if (/\b(repost|share this|pass it on)\b|♻/i.test(cta)) return 'share'
+  if (/\b(comment|reply|tell me|let me know|drop)\b/i.test(cta)) return 'comment'
+  if (/\bfollow\b/i.test(cta)) return 'follow'
+  if (/\b(link|dm|download|sign up|subscribe|register|book|visit|join)\b/i.test(cta)) return 'link'
+  return 'other'
+}
+
+function hookLengthBucket(words: number): string {
+  return words <= 8 ? 'short' : words <= 15 ? 'medium' : 'long'
+}
+
+function bodyLengthBucket(words: number): string {
+  return words < 150 ? 'under_150' : words < 300 ? '150_300' : words < 500 ? '300_500' : '500_plus'
+}
+
+function timeOfDayBucket(hour: number): string {
+  if (hour >= 5 && hour < 9) return 'early'
+  if (hour >= 9 && hour < 12) return 'morning'
+  if (hour >= 12 && hour < 15) return 'midday'
+  if (hour >= 15 && hour < 18) return 'afternoon'
+  if (hour >= 18 && hour < 22) return 'evening'
+  return 'night'
+}
+
+function countHashtags(text: string): number {
+  return (text.match(/(^|\s)#[A-Za-z0-9_]+/g) || []).length
+}
+
+// ============================================
+// Statistics
+// ============================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < MIN_GROUP_POSTS) return null
+  const mx = mean(xs)
+  const my = mean(ys)
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my)
+    varianceX += (xs[i] - mx) ** 2
+    varianceY += (ys[i] - my) ** 2
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100
+}
+
+function metricValue(post: AttributedPost, metric: AttributionMetric): number | null {
+  return post[metric]
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Describe every published post (optionally one platform's) by its content choices.
+ * `tzOffsetMinutes` is the viewer's Date.getTimezoneOffset(), so weekdays and times
+ * are bucketed in their local time.
+ */
+function loadAttributedPosts(platform: Platform | null, tzOffsetMinutes: number): AttributedPost[] {
+  const rows = db.prepare(`
+    SELECT
+      p.id, p.name, p.published_at,
+      o.hooks, o.selected_hook_index, o.ctas, o.selected_cta_index, o.body_content,
+      pn.views, pn.likes, pn.comments, pn.reposts,
+      EXISTS (SELECT 1 FROM carousel_outputs c WHERE c.project_id = p.id) AS has_carousel,
+      -- Only an image for the chosen visual or thumbnail went out with the post, as the
+      -- publish worker picks it; drafts for other slots, or no chosen visual, don't count
+      EXISTS (
+        SELECT 1 FROM generated_images g
+        WHERE g.project_id = p.id AND o.selected_visual_index >= 0 AND g.visual_concept_index = o.selected_visual_index
+      ) AS has_image
+    FROM projects p
+    LEFT JOIN outputs o ON o.project_id = p.id
+    LEFT JOIN performance_notes pn ON pn.project_id = p.id
+    WHERE p.status = 'published' AND (? IS NULL OR p.platform = ?)
+    ORDER BY p.published_at DESC
+  `).all(platform, platform) as {
+    id: string
+    name: string
+    published_at: string | null
+    hooks: string | null
+    selected_hook_index: number | null
+    ctas: string | null
+    selected_cta_index: number | null
+    body_content: string | null
+    views: number | null
+    likes: number | null
+    comments: number | null
+    reposts: number | null
+    has_carousel: number
+    has_image: number
+  }[]
+
+  return rows.map(row => {
+    const hooks = safeJsonParse<string[]>(row.hooks || '[]', [])
+    const ctas = safeJsonParse<string[]>(row.ctas || '[]', [])
+    const hookIndex = Math.max(0, row.selected_hook_index ?? 0)
+    const hook = hooks[hookIndex] || ''
+    const cta = row.selected_cta_index === -1 ? null : ctas[row.selected_cta_index ?? 0] || null
+    const body = stripCitationMarkers(row.body_content || '')
+    const hookWords = countWords(hook)
+    const bodyWords = countWords(body)
+
+    // Shift to the viewer's local time, then read it with the UTC getters
+    const published = row.published_at ? new Date(parseTimestamp(row.published_at) - tzOffsetMinutes * 60000) : null
+    const metrics = { views: row.views, likes: row.likes, comments: row.comments, reposts: row.reposts }
+
+    return {
+      project_id: row.id,
+      name: row.name,
+      published_at: row.published_at,
+      hook,
+      cta,
+      features: {
+        hook_position: String(Math.min(hookIndex + 1, 5)),
+        hook_style: classifyHookStyle(hook),
+        hook_length: hookLengthBucket(hookWords),
+        cta_type: classifyCta(cta),
+        body_length: bodyLengthBucket(bodyWords),
+        media: row.has_carousel ? 'carousel' : row.has_image ? 'image' : 'text_only',
+        weekday: published ? WEEKDAYS[published.getUTCDay()] : 'unknown',
+        time_of_day: published ? timeOfDayBucket(published.getUTCHours()) : 'unknown',
+      },
+      hook_words: hookWords,
+      body_words: bodyWords,
+      hashtags: countHashtags(body),
+      views: row.views,
+      engagements: totalEngagements(metrics),
+      engagement_rate: engagementRate(metrics),
+    }
+  })
+}
+
+export function buildAttributionReport(
+  metric: AttributionMetric,
+  options: { platform?: Platform | null; tzOffsetMinutes?: number } = {}
+): AttributionReport {
+  const posts = loadAttributedPosts(options.platform ?? null, options.tzOffsetMinutes ?? 0)
+  const measured = posts.filter(post => metricValue(post, metric) !== null)
+  const overall = measured.length > 0 ? mean(measured.map(post => metricValue(post, metric) as number)) : null
+
+  const breakdowns: AttributionBreakdown[] = DIMENSIONS.map(({ dimension, label, values }) => ({
+    dimension,
+    label,
+    groups: values.flatMap(([value, valueLabel]) => {
+      const group = measured.filter(post => post.features[dimension] === value)
+      if (group.length === 0) return []
+      const average = mean(group.map(post => metricValue(post, metric) as number))
+      return [{
+        value,
+        label: valueLabel,
+        posts: group.length,
+        average,
+        lift: overall ? average / overall - 1 : null,
+        low_sample: group.length < MIN_GROUP_POSTS,
+      }]
+    }),
+  }))
+
+  const outcome = measured.map(post => metricValue(post, metric) as number)
+  const correlations: AttributionCorrelation[] = [
+    { feature: 'hook_words' as const, label: 'Hook length (words)' },
+    { feature: 'body_words' as const, label: 'Post length (words)' },
+    { feature: 'hashtags' as const, label: 'Hashtags' },
+  ].map(({ feature, label }) => ({
+    feature,
+    label,
+    r: pearson(measured.map(post => post[feature]), outcome),
+    posts: measured.length,
+  }))
+
+  return {
+    metric,
+    total_published: posts.length,
+    posts_with_metrics: measured.length,
+    overall_average: overall,
+    breakdowns,
+    correlations,
+    posts: measured.sort((a, b) => (metricValue(b, metric) as number) - (metricValue(a, metric) as number)),
+  }
+}
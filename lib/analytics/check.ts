@@ -0,0 +1,83 @@
+// Attribution check against a throwaway database
+//
+//   npm run analytics:check
+//
+// Publishes a few posts with different visual choices and checks which media bucket the
+// attribution report puts each in: a generated image only counts when it is the one for the
+// chosen visual or thumbnail. Exits non-zero if any check fails.
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+let failures = 0
+
+function expectEqual<T>(label: string, actual: T, expected: T) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected)
+  if (!ok) failures++
+  console.log(`  ${ok ? 'ok  ' : 'FAIL'} ${label}`)
+  if (!ok) console.log(`       expected ${JSON.stringify(expected)}\n       got      ${JSON.stringify(actual)}`)
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'li-creator-analytics-'))
+  // The database module opens DATABASE_PATH when it is first imported
+  process.env.DATABASE_PATH = path.join(dir, 'check.db')
+
+  try {
+    const { default: db } = await import('@/lib/db')
+    const { buildAttributionReport } = await import('./attribution')
+
+    // selected_visual_index: the chosen visual slot, -1 for none
+    const posts: { id: string; selectedVisual: number; imageSlots: number[] }[] = [
+      { id: 'unused-image', selectedVisual: -1, imageSlots: [0] },
+      { id: 'other-slot', selectedVisual: 1, imageSlots: [0] },
+      { id: 'chosen-image', selectedVisual: 1, imageSlots: [0, 1] },
+      { id: 'no-image', selectedVisual: 0, imageSlots: [] },
+    ]
+
+    for (const post of posts) {
+      db.prepare(`
+        INSERT INTO projects (id, name, topic, status, published_at)
+        VALUES (?, ?, 'Attribution', 'published', '2026-01-05T09:00:00.000Z')
+      `).run(post.id, post.id)
+      db.prepare(`
+        INSERT INTO outputs (id, project_id, hooks, body_content, selected_hook_index, selected_visual_index)
+        VALUES (?, ?, '["A hook"]', 'A body', 0, ?)
+      `).run(`${post.id}-output`, post.id, post.selectedVisual)
+      db.prepare(`
+        INSERT INTO performance_notes (id, project_id, views, likes, comments, reposts, notes, recorded_at)
+        VALUES (?, ?, 1000, 10, 2, 1, '', '2026-01-06T09:00:00.000Z')
+      `).run(`${post.id}-notes`, post.id)
+      for (const slot of post.imageSlots) {
+        db.prepare(`
+          INSERT INTO generated_images (id, project_id, prompt, image_data, visual_concept_index)
+          VALUES (?, ?, 'A visual', x'00', ?)
+        `).run(`${post.id}-image-${slot}`, post.id, slot)
+      }
+    }
+
+    console.log('Media buckets')
+    const report = buildAttributionReport('engagement_rate')
+    const media = Object.fromEntries(report.posts.map(post => [post.project_id, post.features.media]))
+    expectEqual('image generated but no visual chosen', media['unused-image'], 'text_only')
+    expectEqual('image generated for another slot', media['other-slot'], 'text_only')
+    expectEqual('image for the chosen visual', media['chosen-image'], 'image')
+    expectEqual('visual chosen but never generated', media['no-image'], 'text_only')
+
+    db.close()
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('All analytics checks passed')
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
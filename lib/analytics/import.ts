@@ -0,0 +1,455 @@
+// Import of LinkedIn analytics exports (CSV or XLSX).
+//
+// LinkedIn's exports vary: company page exports have one row per post with the post
+// text ("Update title"), while the creator dashboard's "Top posts" sheet has only URLs
+// and puts two tables (engagements, impressions) side by side. Columns are found by
+// header name, side-by-side tables are split and merged by post, and each row is
+// matched to a published project by comparing its text with the selected hook + body.
+
+import JSZip from 'jszip'
+import db from '@/lib/db'
+import { safeJsonParse } from '@/lib/utils'
+import { parseCsv } from '@/lib/csv'
+import { stripCitationMarkers } from '@/lib/citations'
+import type { AnalyticsImportPreview, AnalyticsImportRow, ImportCandidate, MetricName } from '@/types'
+
+type Field = 'text' | 'url' | 'date' | MetricName
+
+// Normalized header names for each field, as they appear in LinkedIn's exports and common edits of them
+const HEADER_ALIASES: Record<Field, string[]> = {
+  text: ['post text', 'post', 'post title', 'update title', 'post commentary', 'commentary', 'content', 'text', 'title'],
+  url: ['post url', 'post link', 'update link', 'url', 'link'],
+  date: ['post publish date', 'post date', 'publish date', 'published', 'published at', 'created date', 'date', 'posted on'],
+  views: ['impressions', 'post impressions', 'views', 'views excluding off site video views'],
+  likes: ['likes', 'reactions'],
+  comments: ['comments'],
+  reposts: ['reposts', 'shares'],
+}
+
+const METRIC_FIELDS: MetricName[] = ['views', 'likes', 'comments', 'reposts']
+
+// Header rows are usually first, but LinkedIn puts a description line or two above them
+const HEADER_SEARCH_ROWS = 20
+
+// Match thresholds: confident matches must also beat the runner-up by a clear margin
+const MATCH_SCORE = 0.75
+const MATCH_MARGIN = 0.15
+const REVIEW_SCORE = 0.35
+const MAX_CANDIDATES = 3
+
+interface Sheet {
+  name: string | null
+  rows: string[][]
+  // XLSX stores dates as serial day numbers
+  serialDates: boolean
+}
+
+type ParsedRow = Omit<AnalyticsImportRow, 'status' | 'project_id' | 'candidates'>
+
+interface MatchTarget {
+  id: string
+  name: string
+  published_at: string | null
+  text: string
+}
+
+// ============================================
+// File parsing
+// ============================================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// Concatenated <t> runs of a shared or inline string (rich text is split into runs)
+function readTextRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => decodeXml(match[1])).join('')
+}
+
+// "AB12" -> 27 (zero-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase()
+  let index = 0
+  for (const letter of letters.split('')) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+/**
+ * Read every worksheet of an XLSX workbook as rows of cell text
+ */
+export async function parseXlsx(data: Buffer): Promise<Sheet[]> {
+  const zip = await JSZip.loadAsync(data)
+  const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(null)
+
+  const workbookXml = await read('xl/workbook.xml')
+  if (!workbookXml) {
+    throw new Error('Not an Excel workbook')
+  }
+  const relsXml = (await read('xl/_rels/workbook.xml.rels')) || ''
+  const sharedXml = await read('xl/sharedStrings.xml')
+
+  const sharedStrings = sharedXml
+    ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => readTextRuns(match[1]))
+    : []
+
+  const targets = new Map<string, string>()
+  for (const match of Array.from(relsXml.matchAll(/<Relationship\b[^>]*>/g))) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1]
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1]
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    }
+  }
+
+  const sheets: Sheet[] = []
+  for (const match of Array.from(workbookXml.matchAll(/<sheet\b[^>]*>/g))) {
+    const name = decodeXml(match[0].match(/\bname="([^"]*)"/)?.[1] || '')
+    const relId = match[0].match(/\br:id="([^"]+)"/)?.[1]
+    const path = relId ? targets.get(relId) : undefined
+    const sheetXml = path ? await read(path) : null
+    if (!sheetXml) continue
+
+    const rows: string[][] = []
+    for (const rowMatch of Array.from(sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))) {
+      const row: string[] = []
+      for (const cell of Array.from(rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+        const attributes = cell[1]
+        const body = cell[2] || ''
+        const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1]
+        const type = attributes.match(/\bt="([^"]+)"/)?.[1]
+        const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+        let value = ''
+        if (type === 's' && rawValue !== undefined) {
+          value = sharedStrings[parseInt(rawValue, 10)] ?? ''
+        } else if (type === 'inlineStr') {
+          value = readTextRuns(body)
+        } else if (rawValue !== undefined) {
+          value = decodeXml(rawValue)
+        }
+
+        const index = reference ? columnIndex(reference) : row.length
+        while (row.length < index) row.push('')
+        row[index] = value
+      }
+      rows.push(row)
+    }
+
+    sheets.push({ name, rows, serialDates: true })
+  }
+
+  return sheets
+}
+
+// ============================================
+// Column detection
+// ============================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function fieldForHeader(header: string): Field | null {
+  const normalized = normalizeHeader(header)
+  if (!normalized) return null
+  for (const field of Object.keys(HEADER_ALIASES) as Field[]) {
+    if (HEADER_ALIASES[field].includes(normalized)) return field
+  }
+  return null
+}
+
+type ColumnMap = Partial<Record<Field, number>>
+
+interface SheetLayout {
+  headerRow: number
+  // One column map per table; LinkedIn sometimes places tables side by side
+  tables: ColumnMap[]
+}
+
+function detectLayout(rows: string[][]): SheetLayout | null {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+    const fields = rows[r].map(fieldForHeader)
+    const hasKey = fields.includes('text') || fields.includes('url')
+    const hasMetric = fields.some(field => field !== null && (METRIC_FIELDS as string[]).includes(field))
+    if (!hasKey || !hasMetric) continue
+
+    // A repeated key column starts a new table
+    const keyField: Field = fields.includes('text') ? 'text' : 'url'
+    const starts = fields.flatMap((field, index) => field === keyField ? [index] : [])
+    const boundaries = [...starts.slice(1), fields.length]
+
+    const tables = starts.map((start, t) => {
+      const map: ColumnMap = {}
+      for (let c = t === 0 ? 0 : start; c < boundaries[t]; c++) {
+        const field = fields[c]
+        if (field && map[field] === undefined) map[field] = c
+      }
+      return map
+    })
+
+    return { headerRow: r, tables }
+  }
+  return null
+}
+
+// ============================================
+// Row extraction
+// ============================================
+
+function parseMetric(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const cleaned = value.replace(/[,\s]/g, '')
+  if (!cleaned || cleaned.includes('%')) return null
+  const number = Number(cleaned)
+  return Number.isFinite(number) && number >= 0 ? Math.round(number) : null
+}
+
+function parseDate(value: string | undefined, serialDates: boolean): string | null {
+  if (!value || !value.trim()) return null
+  const trimmed = value.trim()
+
+  if (serialDates && /^\d+(\.\d+)?$/.test(trimmed)) {
+    // Excel serial day number (days since 1899-12-30)
+    const date = new Date(Math.round((parseFloat(trimmed) - 25569) * 86400000))
+    return isNaN(date.getTime()) ? null : date.toISOString()
+  }
+
+  const date = new Date(trimmed)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function extractRows(sheet: Sheet, layout: SheetLayout): ParsedRow[] {
+  const byKey = new Map<string, ParsedRow>()
+  const order: string[] = []
+
+  for (let r = layout.headerRow + 1; r < sheet.rows.length; r++) {
+    const cells = sheet.rows[r]
+    for (const map of layout.tables) {
+      const cell = (field: Field) => map[field] === undefined ? undefined : cells[map[field] as number]
+      const text = (cell('text') || '').trim()
+      const url = (cell('url') || '').trim()
+      if (!text && !url) continue
+
+      const parsed: ParsedRow = {
+        row: r + 1,
+        text,
+        post_url: url || null,
+        posted_at: parseDate(cell('date'), sheet.serialDates),
+        views: parseMetric(cell('views')),
+        likes: parseMetric(cell('likes')),
+        comments: parseMetric(cell('comments')),
+        reposts: parseMetric(cell('reposts')),
+      }
+      if (METRIC_FIELDS.every(field => parsed[field] === null)) continue
+
+      // The same post in another table contributes its metrics to the first row seen
+      const key = url || normalizeForMatch(text)
+      const existing = byKey.get(key)
+      if (existing) {
+        for (const field of METRIC_FIELDS) {
+          if (existing[field] === null) existing[field] = parsed[field]
+        }
+        if (!existing.text) existing.text = parsed.text
+        if (!existing.posted_at) existing.posted_at = parsed.posted_at
+      } else {
+        byKey.set(key, parsed)
+        order.push(key)
+      }
+    }
+  }
+
+  return order.map(key => byKey.get(key) as ParsedRow)
+}
+
+/**
+ * Parse an analytics export into one row per post. XLSX workbooks use the first
+ * worksheet that has recognizable post and metric columns.
+ */
+export async function parseAnalyticsFile(
+  data: Buffer,
+  filename: string
+): Promise<{ sheet: string | null; rows: ParsedRow[] }> {
+  const isXlsx = /\.xlsx$/i.test(filename) || data.subarray(0, 2).toString('latin1') === 'PK'
+  const sheets: Sheet[] = isXlsx
+    ? await parseXlsx(data)
+    : [{ name: null, rows: parseCsv(data.toString('utf-8')), serialDates: false }]
+
+  for (const sheet of sheets) {
+    const layout = detectLayout(sheet.rows)
+    if (layout) {
+      return { sheet: sheet.name, rows: extractRows(sheet, layout) }
+    }
+  }
+
+  throw new Error('No post analytics found. Expected a header row with a post text or URL column and at least one of impressions, likes, comments or reposts.')
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^a-z0-9\u00C0-\u024F]+/g, ' ')
+    .trim()
+}
+
+function wordPairs(words: string[]): Set<string> {
+  const pairs = new Set<string>()
+  for (let i = 0; i < words.length - 1; i++) {
+    pairs.add(`${words[i]} ${words[i + 1]}`)
+  }
+  return pairs
+}
+
+function countShared(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  a.forEach(item => {
+    if (b.has(item)) shared++
+  })
+  return shared
+}
+
+/**
+ * Similarity (0-1) between an exported post text and a project's post text.
+ * Exports often cut the text short, so a prefix or a well-contained excerpt scores high.
+ */
+export function textSimilarity(exported: string, post: string): number {
+  const a = normalizeForMatch(exported)
+  const b = normalizeForMatch(post)
+  if (!a || !b) return 0
+  if (a === b) return 1
+  if (a.length >= 30 && b.startsWith(a)) return 0.95
+
+  const pairsA = wordPairs(a.split(' '))
+  const pairsB = wordPairs(b.split(' '))
+  if (pairsA.size === 0 || pairsB.size === 0) return 0
+
+  const shared = countShared(pairsA, pairsB)
+  const dice = (2 * shared) / (pairsA.size + pairsB.size)
+  // How much of the (possibly truncated) export appears in the post; needs a few words to be meaningful
+  const containment = pairsA.size >= 5 ? (shared / pairsA.size) * 0.9 : 0
+  return Math.max(dice, containment)
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000
+}
+
+function scoreRow(row: ParsedRow, target: MatchTarget): number {
+  const datesKnown = row.posted_at !== null && target.published_at !== null
+  const days = datesKnown ? daysApart(row.posted_at as string, target.published_at as string) : null
+
+  // Without post text, the publish date is the only signal, and never enough to skip review
+  if (!row.text) {
+    if (days === null) return 0
+    return days < 1 ? 0.5 : days < 2 ? 0.4 : 0
+  }
+
+  let score = textSimilarity(row.text, target.text)
+  if (days !== null) {
+    if (days < 3) score += 0.05
+    else if (days > 14) score -= 0.1
+  }
+  return Math.max(0, Math.min(1, score))
+}
+
+// Published LinkedIn projects with the text that was actually posted (selected hook + body).
+// Repurposed variants on other platforms share most of their text, so they are left out.
+function loadMatchTargets(): MatchTarget[] {
+  const rows = db.prepare(`
+    SELECT p.id, p.name, p.published_at, o.hooks, o.selected_hook_index, o.body_content
+    FROM projects p
+    LEFT JOIN outputs o ON o.project_id = p.id
+    WHERE p.status = 'published' AND p.platform = 'linkedin'
+    ORDER BY p.published_at DESC
+  `).all() as {
+    id: string
+    name: string
+    published_at: string | null
+    hooks: string | null
+    selected_hook_index: number | null
+    body_content: string | null
+  }[]
+
+  return rows.map(row => {
+    const hooks = safeJsonParse<string[]>(row.hooks || '[]', [])
+    const hook = hooks[row.selected_hook_index ?? 0] || ''
+    const text = [hook, stripCitationMarkers(row.body_content || '')].filter(Boolean).join('\n\n')
+    return {
+      id: row.id,
+      name: row.name,
+      published_at: row.published_at,
+      text,
+    }
+  })
+}
+
+/**
+ * Match parsed rows to published projects. Rows only get a project_id when the match is
+ * clear; a project can be the confident match for at most one row.
+ */
+export function buildImportPreview(
+  filename: string,
+  sheet: string | null,
+  rows: ParsedRow[]
+): AnalyticsImportPreview {
+  const targets = loadMatchTargets()
+
+  const matched: AnalyticsImportRow[] = rows.map(row => {
+    const candidates: ImportCandidate[] = targets
+      .map(target => ({ project_id: target.id, score: Math.round(scoreRow(row, target) * 100) / 100 }))
+      .filter(candidate => candidate.score >= REVIEW_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES)
+
+    const best = candidates[0]
+    const runnerUp = candidates[1]?.score ?? 0
+    const confident = !!best && best.score >= MATCH_SCORE && best.score - runnerUp >= MATCH_MARGIN
+
+    return {
+      ...row,
+      status: confident ? 'matched' : best ? 'ambiguous' : 'unmatched',
+      project_id: confident ? best.project_id : null,
+      candidates,
+    }
+  })
+
+  // Two rows claiming the same project: keep the stronger one, send the rest to review
+  const claimed = new Map<string, AnalyticsImportRow>()
+  for (const row of matched) {
+    if (!row.project_id) continue
+    const other = claimed.get(row.project_id)
+    if (!other) {
+      claimed.set(row.project_id, row)
+      continue
+    }
+    const weaker = other.candidates[0].score >= row.candidates[0].score ? row : other
+    if (weaker === other) claimed.set(row.project_id, row)
+    weaker.status = 'ambiguous'
+    weaker.project_id = null
+  }
+
+  return {
+    filename,
+    sheet,
+    rows: matched,
+    projects: targets.map(target => ({
+      id: target.id,
+      name: target.name,
+      published_at: target.published_at,
+      excerpt: target.text.slice(0, 160),
+    })),
+  }
+}
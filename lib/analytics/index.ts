@@ -0,0 +1,142 @@
+// Performance analytics: time-series metric snapshots for published projects
+
+export * from './metrics'
+
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { METRIC_NAMES, deriveSnapshots } from './metrics'
+import type { MetricName, MetricSnapshot, MetricSource, ProjectMetricSeries } from '@/types'
+
+export type SnapshotMetrics = Record<MetricName, number | null>
+
+export function hasAnyMetric(metrics: SnapshotMetrics): boolean {
+  return Object.values(metrics).some(value => value !== null)
+}
+
+/**
+ * Read views/likes/comments/reposts from a request body. Missing or empty values become
+ * null; anything else must be a non-negative whole number.
+ */
+export function parseSnapshotMetrics(body: Record<string, unknown>): { metrics: SnapshotMetrics } | { error: string } {
+  const metrics = {} as SnapshotMetrics
+  for (const name of METRIC_NAMES) {
+    const value = body[name]
+    if (value === undefined || value === null || value === '') {
+      metrics[name] = null
+    } else if (Number.isInteger(Number(value)) && Number(value) >= 0) {
+      metrics[name] = Number(value)
+    } else {
+      return { error: `${name} must be a non-negative whole number` }
+    }
+  }
+  return { metrics }
+}
+
+/**
+ * Store a snapshot of a project's cumulative metrics.
+ * If it is now the newest snapshot, the project's performance notes are updated to match.
+ * Metrics are only tracked for published projects; every route that calls this checks that first.
+ */
+export function recordSnapshot(
+  projectId: string,
+  metrics: SnapshotMetrics,
+  options: { recordedAt?: string; source?: MetricSource } = {}
+): MetricSnapshot {
+  const snapshot: MetricSnapshot = {
+    id: generateId(),
+    project_id: projectId,
+    ...metrics,
+    source: options.source ?? 'manual',
+    recorded_at: options.recordedAt ?? new Date().toISOString(),
+  }
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO metric_snapshots (id, project_id, views, likes, comments, reposts, source, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      snapshot.id,
+      snapshot.project_id,
+      snapshot.views,
+      snapshot.likes,
+      snapshot.comments,
+      snapshot.reposts,
+      snapshot.source,
+      snapshot.recorded_at
+    )
+    syncLatestMetrics(projectId)
+  })()
+
+  return snapshot
+}
+
+export function deleteSnapshot(projectId: string, snapshotId: string): boolean {
+  const result = db.prepare('DELETE FROM metric_snapshots WHERE id = ? AND project_id = ?').run(snapshotId, projectId)
+  if (result.changes > 0) syncLatestMetrics(projectId)
+  return result.changes > 0
+}
+
+// Keep performance_notes (the "current numbers" shown on the published page) in line
+// with the newest snapshot. Notes text is left alone.
+function syncLatestMetrics(projectId: string) {
+  const latest = db.prepare(`
+    SELECT * FROM metric_snapshots WHERE project_id = ? ORDER BY recorded_at DESC LIMIT 1
+  `).get(projectId) as MetricSnapshot | undefined
+  if (!latest) return
+
+  const existing = db.prepare('SELECT id FROM performance_notes WHERE project_id = ?').get(projectId) as { id: string } | undefined
+  if (existing) {
+    db.prepare(`
+      UPDATE performance_notes
+      SET views = ?, likes = ?, comments = ?, reposts = ?, recorded_at = ?
+      WHERE project_id = ?
+    `).run(latest.views, latest.likes, latest.comments, latest.reposts, latest.recorded_at, projectId)
+  } else {
+    db.prepare(`
+      INSERT INTO performance_notes (id, project_id, views, likes, comments, reposts, notes, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, '', ?)
+    `).run(generateId(), projectId, latest.views, latest.likes, latest.comments, latest.reposts, latest.recorded_at)
+  }
+}
+
+/**
+ * A project's snapshots with derived metrics, or null if the project doesn't exist
+ */
+export function getProjectSeries(projectId: string): ProjectMetricSeries | null {
+  const project = db.prepare('SELECT id, name, published_at FROM projects WHERE id = ?')
+    .get(projectId) as { id: string; name: string; published_at: string | null } | undefined
+  if (!project) return null
+
+  const snapshots = db.prepare('SELECT * FROM metric_snapshots WHERE project_id = ? ORDER BY recorded_at')
+    .all(projectId) as MetricSnapshot[]
+
+  return {
+    project_id: project.id,
+    name: project.name,
+    published_at: project.published_at,
+    snapshots: deriveSnapshots(snapshots, project.published_at),
+  }
+}
+
+/**
+ * Series for every published project (or the given ones), newest publish first
+ */
+export function getPublishedSeries(projectIds?: string[]): ProjectMetricSeries[] {
+  const projects = db.prepare(`
+    SELECT id, name, published_at FROM projects
+    WHERE status = 'published'
+    ORDER BY published_at DESC
+  `).all() as { id: string; name: string; published_at: string | null }[]
+
+  const wanted = projectIds ? new Set(projectIds) : null
+  const snapshotsStmt = db.prepare('SELECT * FROM metric_snapshots WHERE project_id = ? ORDER BY recorded_at')
+
+  return projects
+    .filter(project => !wanted || wanted.has(project.id))
+    .map(project => ({
+      project_id: project.id,
+      name: project.name,
+      published_at: project.published_at,
+      snapshots: deriveSnapshots(snapshotsStmt.all(project.id) as MetricSnapshot[], project.published_at),
+    }))
+}
@@ -0,0 +1,109 @@
+// Derived performance metrics. Pure functions so both the API routes and the
+// published page chart can use them.
+
+import type { DerivedSnapshot, MetricName, MetricSnapshot } from '@/types'
+
+export const METRIC_NAMES: MetricName[] = ['views', 'likes', 'comments', 'reposts']
+
+// Post ages at which posts are compared ("how was it doing after a day?")
+export const AGE_CHECKPOINTS: { hours: number; label: string }[] = [
+  { hours: 1, label: '1h' },
+  { hours: 24, label: '24h' },
+  { hours: 24 * 7, label: '7d' },
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone designator; Date would read it as local time
+export function parseTimestamp(value: string): number {
+  const normalized = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`
+  return new Date(normalized).getTime()
+}
+
+export function postAgeHours(publishedAt: string | null, recordedAt: string): number | null {
+  if (!publishedAt) return null
+  return (parseTimestamp(recordedAt) - parseTimestamp(publishedAt)) / HOUR_MS
+}
+
+export function totalEngagements(metrics: Pick<MetricSnapshot, 'likes' | 'comments' | 'reposts'>): number | null {
+  const values = [metrics.likes, metrics.comments, metrics.reposts]
+  if (values.every(value => value === null)) return null
+  return values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+}
+
+/**
+ * Engagements (likes + comments + reposts) per view, or null without views
+ */
+export function engagementRate(metrics: Pick<MetricSnapshot, 'views' | 'likes' | 'comments' | 'reposts'>): number | null {
+  const engagements = totalEngagements(metrics)
+  if (engagements === null || !metrics.views) return null
+  return engagements / metrics.views
+}
+
+function perHour(current: number | null, previous: number | null, hours: number): number | null {
+  if (current === null || previous === null || hours <= 0) return null
+  return (current - previous) / hours
+}
+
+/**
+ * Sort a project's snapshots by time and add post age, engagement rate and velocity.
+ * Velocity is measured against the previous snapshot; the first snapshot is measured
+ * against the publish time, when every metric was zero.
+ */
+export function deriveSnapshots(snapshots: MetricSnapshot[], publishedAt: string | null): DerivedSnapshot[] {
+  const sorted = [...snapshots].sort((a, b) => parseTimestamp(a.recorded_at) - parseTimestamp(b.recorded_at))
+
+  return sorted.map((snapshot, index) => {
+    const previous = index > 0 ? sorted[index - 1] : null
+    const engagements = totalEngagements(snapshot)
+
+    let hours: number | null = null
+    let previousViews: number | null = null
+    let previousEngagements: number | null = null
+    if (previous) {
+      hours = (parseTimestamp(snapshot.recorded_at) - parseTimestamp(previous.recorded_at)) / HOUR_MS
+      previousViews = previous.views
+      previousEngagements = totalEngagements(previous)
+    } else if (publishedAt) {
+      hours = postAgeHours(publishedAt, snapshot.recorded_at)
+      previousViews = 0
+      previousEngagements = 0
+    }
+
+    return {
+      ...snapshot,
+      age_hours: postAgeHours(publishedAt, snapshot.recorded_at),
+      engagements,
+      engagement_rate: engagementRate(snapshot),
+      views_per_hour: hours === null ? null : perHour(snapshot.views, previousViews, hours),
+      engagements_per_hour: hours === null ? null : perHour(engagements, previousEngagements, hours),
+    }
+  })
+}
+
+/**
+ * Estimate a cumulative metric at a given post age by interpolating between snapshots
+ * (every metric is zero at publish time). Returns null past the last snapshot, since
+ * growth after that point is unknown.
+ */
+export function metricAtAge(snapshots: DerivedSnapshot[], metric: MetricName, ageHours: number): number | null {
+  const points: { age: number; value: number }[] = [{ age: 0, value: 0 }]
+  for (const snapshot of snapshots) {
+    const value = snapshot[metric]
+    if (snapshot.age_hours === null || snapshot.age_hours < 0 || value === null) continue
+    points.push({ age: snapshot.age_hours, value })
+  }
+
+  if (points.length === 1 || ageHours > points[points.length - 1].age) return null
+
+  for (let i = 1; i < points.length; i++) {
+    const before = points[i - 1]
+    const after = points[i]
+    if (ageHours <= after.age) {
+      const span = after.age - before.age
+      if (span === 0) return after.value
+      return Math.round(before.value + (after.value - before.value) * ((ageHours - before.age) / span))
+    }
+  }
+  return null
+}
@@ -0,0 +1,100 @@
+// Date helpers for the content calendar: the days each view shows, local day keys, and
+// same-day conflicts. Works in the browser's local time; no database access.
+
+import type { CalendarConflict, CalendarEntry } from '@/types'
+
+export type CalendarView = 'month' | 'week' | 'day'
+
+// Time given to posts dropped on a day that had no time yet
+const DEFAULT_PUBLISH_HOUR = 9
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes())
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date)
+  return addDays(day, -((day.getDay() + 6) % 7))
+}
+
+/**
+ * Local YYYY-MM-DD for a date, to group posts by the day they go out
+ */
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * First day shown and the day after the last one: whole weeks for the month view
+ */
+export function viewRange(view: CalendarView, anchor: Date): { start: Date; end: Date } {
+  if (view === 'day') {
+    const start = startOfDay(anchor)
+    return { start, end: addDays(start, 1) }
+  }
+  if (view === 'week') {
+    const start = startOfWeek(anchor)
+    return { start, end: addDays(start, 7) }
+  }
+  const start = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+  const end = addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 7)
+  return { start, end }
+}
+
+/**
+ * The anchor date one view earlier (-1) or later (1)
+ */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'day') return addDays(anchor, direction)
+  if (view === 'week') return addDays(anchor, 7 * direction)
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+}
+
+export function daysBetween(start: Date, end: Date): Date[] {
+  const days: Date[] = []
+  for (let day = startOfDay(start); day < end; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+/**
+ * A post's date moved to another day, keeping its time of day
+ */
+export function moveToDay(date: string | null, day: Date): string {
+  const current = date ? new Date(date) : null
+  const moved = new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    current ? current.getHours() : DEFAULT_PUBLISH_HOUR,
+    current ? current.getMinutes() : 0
+  )
+  return moved.toISOString()
+}
+
+/**
+ * Days with more than one post for the same platform
+ */
+export function findConflicts(entries: CalendarEntry[]): CalendarConflict[] {
+  const groups: Record<string, CalendarEntry[]> = {}
+  for (const entry of entries) {
+    if (!entry.date) continue
+    const key = `${dayKey(new Date(entry.date))}|${entry.platform}`
+    groups[key] = [...(groups[key] || []), entry]
+  }
+
+  return Object.keys(groups)
+    .filter(key => groups[key].length > 1)
+    .sort()
+    .map(key => ({
+      day: key.split('|')[0],
+      platform: groups[key][0].platform,
+      platform_label: groups[key][0].platform_label,
+      project_ids: groups[key].map(entry => entry.project_id),
+    }))
+}
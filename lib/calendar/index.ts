@@ -0,0 +1,123 @@
+// The content calendar: projects laid out by their planned or actual publish date, and the
+// same queue as an ICS feed for calendar apps. Date math for the page is in ./dates.
+
+import db from '@/lib/db'
+import { getProjectPlatform } from '@/lib/platforms'
+import type { CalendarEntry, CalendarEntryKind, Project } from '@/types'
+
+type CalendarRow = Pick<Project, 'id' | 'name' | 'platform' | 'status' | 'published_at' | 'scheduled_at'>
+
+// Calendar apps show each post as a short event
+const EVENT_MINUTES = 30
+
+function toEntry(row: CalendarRow): CalendarEntry {
+  const kind: CalendarEntryKind = row.status === 'published' ? 'published'
+    : row.status === 'complete' ? 'scheduled'
+    : 'draft'
+  return {
+    project_id: row.id,
+    name: row.name,
+    platform: row.platform,
+    platform_label: getProjectPlatform(row.platform).label,
+    status: row.status,
+    kind,
+    date: (row.status === 'published' ? row.published_at : row.scheduled_at) ?? null,
+  }
+}
+
+/**
+ * Posts dated within [from, to): published ones by publish date, the rest by planned date.
+ * Without a range, every dated post.
+ */
+export function getCalendarEntries(range?: { from: string; to: string }): CalendarEntry[] {
+  // ISO dates compare as strings; the defaults sit before and after any year
+  const from = range?.from ?? '0000'
+  const to = range?.to ?? '9999'
+  const rows = db.prepare(`
+    SELECT id, name, platform, status, published_at, scheduled_at FROM projects
+    WHERE (status = 'published' AND published_at IS NOT NULL AND published_at >= ? AND published_at < ?)
+       OR (status != 'published' AND scheduled_at IS NOT NULL AND scheduled_at >= ? AND scheduled_at < ?)
+    ORDER BY COALESCE(CASE WHEN status = 'published' THEN published_at END, scheduled_at)
+  `).all(from, to, from, to) as CalendarRow[]
+  return rows.map(toEntry)
+}
+
+/**
+ * Unpublished projects with no planned date, most recently worked on first
+ */
+export function getUnscheduledEntries(): CalendarEntry[] {
+  const rows = db.prepare(`
+    SELECT id, name, platform, status, published_at, scheduled_at FROM projects
+    WHERE status != 'published' AND scheduled_at IS NULL
+    ORDER BY updated_at DESC
+  `).all() as CalendarRow[]
+  return rows.map(toEntry)
+}
+
+// RFC 5545 text: escape separators and fold lines past 75 octets
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+const ICS_LINE_OCTETS = 75
+
+// Folds by UTF-8 length, between code points so a character is never split across lines.
+// Continuation lines start with a space, which counts towards their 75 octets.
+function icsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * The entries as an iCalendar feed, one event per post linking back to its project
+ */
+export function buildIcsCalendar(entries: CalendarEntry[], origin: string): string {
+  const now = icsDate(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LI-Creator//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Content Calendar',
+  ]
+
+  for (const entry of entries) {
+    if (!entry.date) continue
+    const start = new Date(entry.date)
+    const url = `${origin}/project/${entry.project_id}`
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.project_id}@li-creator`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${icsDate(start)}`,
+      `DTEND:${icsDate(new Date(start.getTime() + EVENT_MINUTES * 60000))}`,
+      `SUMMARY:${icsText(`[${entry.platform_label}] ${entry.name}`)}`,
+      `DESCRIPTION:${icsText(`${entry.kind === 'draft' ? 'Draft' : entry.kind === 'scheduled' ? 'Scheduled' : 'Published'} ${entry.platform_label} post\n${url}`)}`,
+      `URL:${url}`,
+      `CATEGORIES:${icsText(entry.platform_label)}`,
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(icsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,49 @@
+// Captions (Instagram, Threads and custom caption platforms): assembling the posted
+// caption from the chosen hook, body, CTA and hashtag set, and keeping it within the
+// platform's limits (characterLimit and hashtagLimit in lib/platforms).
+// Shared by the API routes and the caption editor.
+
+/**
+ * Length of a caption as Instagram and Threads count it: one per character, emoji included
+ */
+export function captionLength(text: string): number {
+  return Array.from(text).length
+}
+
+/**
+ * The caption as posted: hook, body, CTA and hashtags as separate paragraphs
+ */
+export function buildCaption(hook: string, body: string, cta: string | null, hashtags: string): string {
+  return [hook, body, cta || '', hashtags].map(part => part.trim()).filter(Boolean).join('\n\n')
+}
+
+/**
+ * The hashtags in a set, each with a single leading #, without duplicates.
+ * Accepts space- or comma-separated tags, with or without the #.
+ */
+export function parseHashtags(set: string): string[] {
+  const seen = new Set<string>()
+  const tags: string[] = []
+  for (const raw of set.match(/[^\s,#]+/g) || []) {
+    const key = raw.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    tags.push(`#${raw}`)
+  }
+  return tags
+}
+
+/**
+ * A hashtag set cleaned up and cut to the platform's hashtag limit (null for no limit)
+ */
+export function normalizeHashtagSet(set: string, limit: number | null): string {
+  const tags = parseHashtags(set)
+  return (limit === null ? tags : tags.slice(0, limit)).join(' ')
+}
+
+/**
+ * The selected hashtag set, or none when the step was skipped (-2) or not reached (-1)
+ */
+export function selectedHashtags(sets: string[], selectedIndex: number): string {
+  return selectedIndex >= 0 ? sets[selectedIndex] || '' : ''
+}
@@ -0,0 +1,30 @@
+// Carousel documents: rendered slides as one PDF page each, the format LinkedIn takes for
+// document (carousel) posts.
+
+import { jsPDF } from 'jspdf'
+import { CAROUSEL_DIMENSIONS } from '@/types'
+import type { CarouselAspectRatio, CarouselSlide } from '@/types'
+
+/**
+ * The rendered slides as a PDF, one full-bleed page per slide. Slides must be rendered first.
+ */
+export function renderCarouselPdf(slides: CarouselSlide[], aspectRatio: CarouselAspectRatio): Buffer {
+  const { width, height } = CAROUSEL_DIMENSIONS[aspectRatio] || CAROUSEL_DIMENSIONS['1:1']
+
+  const pdf = new jsPDF({
+    orientation: 'portrait',
+    unit: 'px',
+    format: [width, height]
+  })
+
+  for (let i = 0; i < slides.length; i++) {
+    if (i > 0) {
+      pdf.addPage([width, height])
+    }
+
+    // Add image to page
+    pdf.addImage(`data:image/png;base64,${slides[i].rendered_image}`, 'PNG', 0, 0, width, height)
+  }
+
+  return Buffer.from(pdf.output('arraybuffer'))
+}
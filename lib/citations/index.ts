@@ -0,0 +1,135 @@
+// Citation anchors: generated body text marks the sentences that draw on web research with
+// Markdown footnote markers like [^2], numbered by the research citation (Output.citations)
+// they came from. The markers stay in body_content through edits and version history; posts
+// and previews strip them, and the exports turn them into footnotes or a sources comment.
+// Shared by the API routes and the client.
+
+import type { Citation } from '@/types'
+
+// A footnote marker, e.g. [^3]
+const MARKER_PATTERN = /\[\^(\d+)\]/g
+// A marker with the space before it, so stripping doesn't leave "word ."
+const MARKER_WITH_SPACE_PATTERN = /[ \t]*\[\^\d+\]/g
+
+// Citations listed in a generation prompt
+const PROMPT_CITATION_LIMIT = 10
+
+export interface Footnote {
+  // The footnote's number in the export, in order of first use
+  number: number
+  citation: Citation
+}
+
+export type CitedTextPart =
+  | { type: 'text'; text: string }
+  | { type: 'marker'; number: number; citation: Citation }
+
+/**
+ * The text as posted: every citation marker removed
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(MARKER_WITH_SPACE_PATTERN, '')
+}
+
+/**
+ * Renumber the markers 1, 2, 3... in order of first use and list the citations behind them.
+ * Markers pointing at a citation that doesn't exist are dropped.
+ */
+export function numberFootnotes(text: string, citations: Citation[]): { text: string; footnotes: Footnote[] } {
+  // Keyed by URL: research often cites the same page more than once
+  const numbers = new Map<string, number>()
+  const footnotes: Footnote[] = []
+
+  const numbered = text.replace(MARKER_WITH_SPACE_PATTERN, (match) => {
+    const citation = citations[parseInt(match.replace(/\D/g, ''), 10) - 1]
+    if (!citation) return ''
+    if (!numbers.has(citation.url)) {
+      numbers.set(citation.url, footnotes.length + 1)
+      footnotes.push({ number: footnotes.length + 1, citation })
+    }
+    return `[^${numbers.get(citation.url)}]`
+  })
+
+  return { text: numbered, footnotes }
+}
+
+/**
+ * Body text with Markdown footnotes: renumbered markers and their definitions at the end
+ */
+export function renderMarkdownFootnotes(text: string, citations: Citation[]): string {
+  const { text: numbered, footnotes } = numberFootnotes(text, citations)
+  if (footnotes.length === 0) return numbered
+
+  const definitions = footnotes.map(({ number, citation }) =>
+    `[^${number}]: ${citation.title ? `[${citation.title}](${citation.url})` : `<${citation.url}>`}`
+  )
+  return `${numbered}\n\n${definitions.join('\n')}`
+}
+
+/**
+ * Body text with plain [1]-style references, for formats without footnotes (PDF)
+ */
+export function renderBracketReferences(text: string, citations: Citation[]): { text: string; footnotes: Footnote[] } {
+  const { text: numbered, footnotes } = numberFootnotes(text, citations)
+  return { text: numbered.replace(MARKER_PATTERN, ' [$1]'), footnotes }
+}
+
+/**
+ * The "Sources" block to post as the first comment, so links don't cost the post its reach.
+ * Null when the text cites nothing.
+ */
+export function formatSourcesComment(text: string, citations: Citation[]): string | null {
+  const { footnotes } = numberFootnotes(text, citations)
+  if (footnotes.length === 0) return null
+
+  return [
+    'Sources:',
+    ...footnotes.map(({ number, citation }) => `[${number}] ${citation.title ? `${citation.title}: ` : ''}${citation.url}`),
+  ].join('\n')
+}
+
+/**
+ * Text split into plain runs and citation markers, for rendering the markers as links
+ */
+export function splitCitationMarkers(text: string, citations: Citation[]): CitedTextPart[] {
+  const parts: CitedTextPart[] = []
+  let lastIndex = 0
+
+  for (const match of Array.from(text.matchAll(MARKER_PATTERN))) {
+    const cited = parseInt(match[1], 10)
+    const citation = citations[cited - 1]
+    if (!citation) continue
+    // The space before a marker belongs to the marker, as when stripping
+    const before = text.substring(lastIndex, match.index).replace(/[ \t]+$/, '')
+    if (before) parts.push({ type: 'text', text: before })
+    parts.push({ type: 'marker', number: cited, citation })
+    lastIndex = match.index! + match[0].length
+  }
+  if (lastIndex < text.length) parts.push({ type: 'text', text: text.substring(lastIndex) })
+
+  return parts
+}
+
+/**
+ * The research citations as a numbered list for a prompt, with the instruction to mark the
+ * sentences that use them. Numbers are positions in the citations array, so the markers the
+ * model writes point straight at Output.citations.
+ */
+export function formatCitationsForPrompt(citations: Citation[]): string {
+  const seenUrls = new Set<string>()
+  const listed: { number: number; line: string }[] = []
+
+  citations.forEach((citation, index) => {
+    if (listed.length >= PROMPT_CITATION_LIMIT || !citation.url || seenUrls.has(citation.url)) return
+    seenUrls.add(citation.url)
+    const excerpt = citation.citedText ? `: "${citation.citedText.replace(/\s+/g, ' ').trim().substring(0, 300)}"` : ''
+    listed.push({ number: index + 1, line: `[^${index + 1}] ${citation.title || citation.url} (${citation.url})${excerpt}` })
+  })
+  if (listed.length === 0) return ''
+
+  return `\n\n--- CITABLE SOURCES ---
+${listed.map(item => item.line).join('\n')}
+
+In the body text, put the matching marker (e.g. [^${listed[0].number}]) straight after each sentence that uses a fact, figure or quote from one of these sources. Only mark sentences that really rely on the source, and never put markers in hooks, CTAs or anything else.
+--- END SOURCES ---\n\n`
+}
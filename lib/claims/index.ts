@@ -0,0 +1,274 @@
+// Claim verification: factual claims in a project's body, hooks and carousel slides are checked
+// against its enabled sources and stored web research. Each is labelled supported, unsupported
+// or contradicted, with the passage that decided it.
+
+import crypto from 'crypto'
+import db from '@/lib/db'
+import { generateId, safeJsonParse } from '@/lib/utils'
+import { generateText, type ModelSelection } from '@/lib/llm'
+import { extractSearchTerms, searchSourceChunks } from '@/lib/sources'
+import { stripCitationMarkers } from '@/lib/citations'
+import type { CarouselSlide, Citation, ClaimCheck, ClaimEvidence, ClaimLocation, ClaimStatus, ClaimVerification, SearchResultItem } from '@/types'
+
+// A piece of content claims are taken from
+interface CheckableText {
+  location: ClaimLocation
+  index: number
+  text: string
+}
+
+interface EvidenceCandidate extends ClaimEvidence {
+  id: string
+  text: string
+}
+
+// Evidence handed to the model per claim, from each kind
+const SOURCE_EVIDENCE_LIMIT = 3
+const RESEARCH_EVIDENCE_LIMIT = 3
+const EVIDENCE_CHARS = 700
+
+const CLAIM_STATUSES: ClaimStatus[] = ['supported', 'unsupported', 'contradicted']
+
+const EXTRACT_PROMPT = `List the checkable factual claims in the numbered content below: statistics, numbers, dates, named studies or reports, quotes attributed to people, and statements of fact about the world.
+
+Skip opinions, advice, predictions, personal anecdotes and rhetorical questions. Write each claim so it stands alone (resolve "it" and "this"), staying close to the original wording. Don't list the same claim twice.
+
+Return a JSON array of objects: {"claim": "the claim", "item": <the number of the content it came from>}. Return [] if there are none.`
+
+const VERIFY_PROMPT = `Check each claim below against its evidence, and only its evidence:
+- "supported": the evidence states the claim (the same figures, dates and names)
+- "contradicted": the evidence states something incompatible with it, such as a different number or date
+- "unsupported": the evidence doesn't settle it either way
+
+Return a JSON array with one object per claim, in the same order:
+{"status": "supported" | "contradicted" | "unsupported", "evidence": "<the id of the deciding evidence, like E2, or null>", "quote": "<the exact words from that evidence>", "explanation": "<one short sentence>"}`
+
+function parseJsonArray(text: string): unknown[] {
+  let jsonStr = text.trim()
+  const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1].trim()
+  }
+  const parsed = JSON.parse(jsonStr)
+  return Array.isArray(parsed) ? parsed : []
+}
+
+/**
+ * The body, every hook and every carousel slide: the content claims are checked in
+ */
+export function collectCheckableText(projectId: string): CheckableText[] {
+  const items: CheckableText[] = []
+
+  const output = db.prepare('SELECT body_content, hooks FROM outputs WHERE project_id = ?')
+    .get(projectId) as { body_content: string | null; hooks: string } | undefined
+  if (output?.body_content?.trim()) {
+    items.push({ location: 'body', index: 0, text: stripCitationMarkers(output.body_content) })
+  }
+  safeJsonParse<string[]>(output?.hooks || '[]', []).forEach((hook, index) => {
+    if (typeof hook === 'string' && hook.trim()) items.push({ location: 'hook', index, text: hook })
+  })
+
+  const carousel = db.prepare('SELECT slides FROM carousel_outputs WHERE project_id = ?')
+    .get(projectId) as { slides: string } | undefined
+  for (const slide of safeJsonParse<CarouselSlide[]>(carousel?.slides || '[]', [])) {
+    const text = [slide.headline, slide.body, slide.cta].filter(Boolean).join('\n')
+    if (text.trim()) items.push({ location: 'slide', index: slide.position, text })
+  }
+
+  return items
+}
+
+// Changes to any checked text make a stored check stale
+function contentSignature(items: CheckableText[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(items)).digest('hex')
+}
+
+function describeItem(item: CheckableText): string {
+  if (item.location === 'body') return 'Body'
+  return item.location === 'hook' ? `Hook ${item.index + 1}` : `Slide ${item.index + 1}`
+}
+
+// Snippets from the project's stored web research, deduplicated
+function loadResearchEvidence(projectId: string): Omit<EvidenceCandidate, 'id'>[] {
+  const rows = db.prepare('SELECT results, citations FROM research_results WHERE project_id = ? ORDER BY created_at DESC')
+    .all(projectId) as { results: string; citations: string }[]
+
+  const seen = new Set<string>()
+  const evidence: Omit<EvidenceCandidate, 'id'>[] = []
+  const add = (title: string, url: string, text: string) => {
+    const key = text.trim().toLowerCase()
+    if (!key || seen.has(key)) return
+    seen.add(key)
+    evidence.push({ kind: 'research', title: title || url, url, snippet: '', text: text.trim() })
+  }
+
+  for (const row of rows) {
+    safeJsonParse<Citation[]>(row.citations, []).forEach(c => add(c.title, c.url, c.citedText || ''))
+    safeJsonParse<SearchResultItem[]>(row.results, []).forEach(r => add(r.title, r.url, r.snippet || ''))
+  }
+  return evidence
+}
+
+// The source passages and research snippets that share the most words with the claim
+function gatherEvidence(projectId: string, claim: string, research: Omit<EvidenceCandidate, 'id'>[]): Omit<EvidenceCandidate, 'id'>[] {
+  const fromSources = searchSourceChunks(projectId, claim, SOURCE_EVIDENCE_LIMIT).map(chunk => ({
+    kind: 'source' as const,
+    title: chunk.heading ? `${chunk.source_title} › ${chunk.heading}` : chunk.source_title,
+    source_id: chunk.source_id,
+    snippet: '',
+    text: chunk.content,
+  }))
+
+  const terms = extractSearchTerms(claim)
+  // A snippet has to share at least two words with the claim (or its only word)
+  const minOverlap = Math.min(2, terms.length)
+  const fromResearch = research
+    .map(item => {
+      const words = new Set(extractSearchTerms(item.text))
+      return { item, overlap: terms.filter(term => words.has(term)).length }
+    })
+    .filter(({ overlap }) => minOverlap > 0 && overlap >= minOverlap)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, RESEARCH_EVIDENCE_LIMIT)
+    .map(({ item }) => item)
+
+  return [...fromSources, ...fromResearch]
+}
+
+// The model's quote if it really comes from the evidence, otherwise the start of the evidence
+function pickSnippet(evidenceText: string, quote: unknown): string {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+  if (typeof quote === 'string' && quote.trim() && normalize(evidenceText).toLowerCase().includes(normalize(quote).toLowerCase())) {
+    return normalize(quote)
+  }
+  const text = normalize(evidenceText)
+  return text.length > 300 ? `${text.substring(0, 300)}...` : text
+}
+
+async function extractClaims(selection: ModelSelection, items: CheckableText[]): Promise<{ claim: string; item: CheckableText }[]> {
+  const response = await generateText(selection, {
+    maxTokens: 2048,
+    task: 'claims:extract',
+    messages: [{
+      role: 'user',
+      content: `${EXTRACT_PROMPT}
+
+${items.map((item, i) => `${i + 1}. [${describeItem(item)}]\n${item.text}`).join('\n\n')}`,
+    }],
+  })
+
+  let parsed: unknown[] = []
+  try {
+    parsed = parseJsonArray(response.text)
+  } catch {
+    console.error('Failed to parse claim extraction response:', response.text)
+    throw new Error('Could not read the claims from the model response')
+  }
+
+  const claims: { claim: string; item: CheckableText }[] = []
+  for (const entry of parsed as { claim?: unknown; item?: unknown }[]) {
+    const item = items[Number(entry?.item) - 1]
+    if (typeof entry?.claim === 'string' && entry.claim.trim() && item) {
+      claims.push({ claim: entry.claim.trim(), item })
+    }
+  }
+  return claims
+}
+
+/**
+ * Extract the project's factual claims and check each against its sources and research.
+ * The result replaces the project's previous check.
+ */
+export async function verifyProjectClaims(selection: ModelSelection, projectId: string): Promise<ClaimVerification> {
+  const items = collectCheckableText(projectId)
+  if (items.length === 0) {
+    throw new Error('There is no content to check yet')
+  }
+
+  const claims = await extractClaims(selection, items)
+  const research = loadResearchEvidence(projectId)
+
+  // Evidence ids run across all claims (E1, E2, ...) so the model can't mix them up
+  let evidenceCount = 0
+  const withEvidence = claims.map(claim => ({
+    ...claim,
+    evidence: gatherEvidence(projectId, claim.claim, research).map(evidence => ({ ...evidence, id: `E${++evidenceCount}` })),
+  }))
+
+  // Claims with nothing to check against are unsupported without asking
+  const toJudge = withEvidence.filter(claim => claim.evidence.length > 0)
+  let verdicts: { status?: unknown; evidence?: unknown; quote?: unknown; explanation?: unknown }[] = []
+  if (toJudge.length > 0) {
+    const response = await generateText(selection, {
+      maxTokens: 2048,
+      task: 'claims:verify',
+      messages: [{
+        role: 'user',
+        content: `${VERIFY_PROMPT}
+
+${toJudge.map((claim, i) => `Claim ${i + 1}: ${claim.claim}
+Evidence:
+${claim.evidence.map(e => `[${e.id}] (${e.title}) ${e.text.substring(0, EVIDENCE_CHARS)}`).join('\n')}`).join('\n\n')}`,
+      }],
+    })
+
+    try {
+      verdicts = parseJsonArray(response.text) as typeof verdicts
+    } catch {
+      console.error('Failed to parse claim verification response:', response.text)
+      throw new Error('Could not read the verdicts from the model response')
+    }
+  }
+
+  const checks: ClaimCheck[] = withEvidence.map(claim => {
+    const verdict = claim.evidence.length > 0 ? verdicts[toJudge.indexOf(claim)] : undefined
+    const deciding = claim.evidence.find(e => e.id === verdict?.evidence)
+    let status: ClaimStatus = CLAIM_STATUSES.includes(verdict?.status as ClaimStatus) ? verdict!.status as ClaimStatus : 'unsupported'
+    // Supported or contradicted needs a passage to show for it
+    if (!deciding) status = 'unsupported'
+
+    return {
+      id: generateId(),
+      claim: claim.claim,
+      location: claim.item.location,
+      location_index: claim.item.index,
+      status,
+      evidence: deciding && status !== 'unsupported'
+        ? {
+            kind: deciding.kind,
+            title: deciding.title,
+            snippet: pickSnippet(deciding.text, verdict?.quote),
+            ...(deciding.source_id ? { source_id: deciding.source_id } : {}),
+            ...(deciding.url ? { url: deciding.url } : {}),
+          }
+        : null,
+      explanation: typeof verdict?.explanation === 'string' && verdict.explanation.trim()
+        ? verdict.explanation.trim()
+        : claim.evidence.length === 0 ? 'Nothing in the sources or research mentions this.' : 'The sources and research don\'t settle this.',
+    }
+  })
+
+  const checkedAt = new Date().toISOString()
+  db.prepare(`
+    INSERT INTO claim_verifications (project_id, claims, content_signature, checked_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(project_id) DO UPDATE SET claims = excluded.claims, content_signature = excluded.content_signature, checked_at = excluded.checked_at
+  `).run(projectId, JSON.stringify(checks), contentSignature(items), checkedAt)
+
+  return { claims: checks, checked_at: checkedAt, stale: false }
+}
+
+/**
+ * The project's latest claim check, or null if it has never been checked
+ */
+export function getClaimVerification(projectId: string): ClaimVerification | null {
+  const row = db.prepare('SELECT claims, content_signature, checked_at FROM claim_verifications WHERE project_id = ?')
+    .get(projectId) as { claims: string; content_signature: string; checked_at: string } | undefined
+  if (!row) return null
+
+  return {
+    claims: safeJsonParse<ClaimCheck[]>(row.claims, []),
+    checked_at: row.checked_at,
+    stale: row.content_signature !== contentSignature(collectCheckableText(projectId)),
+  }
+}
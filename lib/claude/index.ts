@@ -1,12 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk'
-
-// Initialize the Anthropic client
-// Uses ANTHROPIC_API_KEY from environment variables
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
-
-export default anthropic
+// Prompt library shared by the text generation routes.
+// Model calls go through the provider layer in lib/llm.
 
 // System prompt for LinkedIn content strategist
 export const SYSTEM_PROMPT = `You are an expert LinkedIn content strategist and copywriter with deep knowledge of:
@@ -75,8 +68,3 @@ Respond with valid JSON array only (no markdown, no code blocks):
 Respond with valid JSON array only (no markdown, no code blocks):
 [{"description": "concept1"}, {"description": "concept2"}, {"description": "concept3"}]`
 }
-
-// Check if Claude API is configured
-export function isConfigured(): boolean {
-  return !!process.env.ANTHROPIC_API_KEY
-}
@@ -110,7 +110,7 @@ export const UI_MANIPULATION_TOOLS: Tool[] = [
         },
         aspect_ratio: {
           type: 'string',
-          enum: ['1:1', '16:9', '9:16', '4:3'],
+          enum: ['1:1', '4:5', '16:9', '9:16', '4:3'],
           description: 'Aspect ratio for the image. Default is 1:1.'
         }
       },
@@ -159,7 +159,7 @@ export const UI_MANIPULATION_TOOLS: Tool[] = [
         },
         aspect_ratio: {
           type: 'string',
-          enum: ['1:1', '16:9', '9:16', '4:3'],
+          enum: ['1:1', '4:5', '16:9', '9:16', '4:3'],
           description: 'Aspect ratio for the image. Default is 1:1.'
         }
       },
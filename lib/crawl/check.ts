@@ -0,0 +1,167 @@
+// Crawl check against a local fixture site
+//
+//   npm run crawl:check
+//
+// Serves a small site on localhost and crawls it in both modes, checking that robots.txt
+// (our agent's group, longest-match Allow/Disallow), robots meta tags, the depth and page
+// budgets, sitemaps and near-duplicate detection behave. Exits non-zero if any check fails.
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { crawlSite, type CrawlResult } from './index'
+
+interface FixturePage {
+  type: string
+  body: string
+}
+
+function page(title: string, paragraphs: string[], links: string[] = [], head = ''): FixturePage {
+  return {
+    type: 'text/html; charset=utf-8',
+    body: `<!doctype html><html><head><title>${title}</title>${head}</head><body><main>
+      <h1>${title}</h1>
+      ${paragraphs.map(text => `<p>${text}</p>`).join('\n')}
+      <nav>${links.map(href => `<a href="${href}">${href}</a>`).join(' ')}</nav>
+    </main></body></html>`,
+  }
+}
+
+const GUIDE_TEXT = [
+  'Writing a strong opening line is the single most important part of a post that people actually finish reading.',
+  'Start with a concrete claim, a number or a short story, and cut every word that does not move the reader forward.',
+  'Short paragraphs with plenty of white space keep people scrolling on a phone, where most of the audience reads.',
+  'End with one clear question or next step, so the comments have somewhere to go and the post keeps getting shown.',
+  'Post when your audience is at their desks, then stay around for the first hour to answer every comment quickly.',
+  'Finally, look back at what worked each month and write more of the posts that people saved, shared and discussed.',
+]
+
+function fixtureSite(origin: string): Record<string, FixturePage> {
+  return {
+    // "*" shuts everything; our own group wins and only keeps /private/ out, bar one page
+    '/robots.txt': {
+      type: 'text/plain',
+      body: [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: li-creator',
+        'Disallow: /private/',
+        'Allow: /private/open$',
+        '',
+        `Sitemap: ${origin}/sitemap.xml`,
+      ].join('\n'),
+    },
+    '/sitemap.xml': {
+      type: 'application/xml',
+      body: `<?xml version="1.0" encoding="UTF-8"?>
+        <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <sitemap><loc>${origin}/sitemap-pages.xml</loc></sitemap>
+        </sitemapindex>`,
+    },
+    '/sitemap-pages.xml': {
+      type: 'application/xml',
+      body: `<?xml version="1.0" encoding="UTF-8"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>${origin}/guide</loc></url>
+          <url><loc>${origin}/listed-only</loc></url>
+          <url><loc>${origin}/private/secret</loc></url>
+        </urlset>`,
+    },
+    '/': page('Home', ['A fixture site for checking the crawler, with a few pages about writing posts.'], [
+      '/about',
+      '/guide',
+      '/guide-copy',
+      '/private/secret',
+      '/private/open',
+      '/hidden',
+      '/logo.png',
+      'https://elsewhere.example/page',
+    ]),
+    '/about': page('About', ['Who writes these guides and why they started collecting what works in the feed.'], ['/about/team']),
+    '/about/team': page('Team', ['The people behind the guides, two levels below the start page.'], ['/about/team/history']),
+    '/about/team/history': page('History', ['Three levels deep, so a crawl limited to depth two never reaches it.']),
+    '/guide': page('Guide', GUIDE_TEXT),
+    // The same guide at a second address, with one word changed
+    '/guide-copy': page('Guide', GUIDE_TEXT.map(text => text.replace('single', 'one'))),
+    '/private/secret': page('Secret', ['Disallowed for our agent by robots.txt.']),
+    '/private/open': page('Open', ['Allowed by a longer, more specific rule than the /private/ disallow.']),
+    '/hidden': page('Hidden', ['This page asks not to be indexed.'], ['/hidden-child'], '<meta name="robots" content="noindex">'),
+    '/hidden-child': page('Hidden child', ['Linked only from a noindex page, whose links are still followed.']),
+    '/listed-only': page('Listed only', ['Only the sitemap points here; no page links to it.']),
+  }
+}
+
+function startFixtureServer(): Promise<{ origin: string; close: () => Promise<void> }> {
+  let pages: Record<string, FixturePage> = {}
+  const server = http.createServer((request, response) => {
+    const fixture = pages[new URL(request.url || '/', 'http://localhost').pathname]
+    if (!fixture) {
+      response.writeHead(404, { 'Content-Type': 'text/plain' })
+      response.end('Not found')
+      return
+    }
+    response.writeHead(200, { 'Content-Type': fixture.type })
+    response.end(fixture.body)
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      pages = fixtureSite(origin)
+      resolve({ origin, close: () => new Promise(done => server.close(() => done())) })
+    })
+  })
+}
+
+let failures = 0
+
+function expectEqual<T>(label: string, actual: T, expected: T) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected)
+  if (!ok) failures++
+  console.log(`  ${ok ? 'ok  ' : 'FAIL'} ${label}`)
+  if (!ok) console.log(`       expected ${JSON.stringify(expected)}\n       got      ${JSON.stringify(actual)}`)
+}
+
+function paths(urls: string[]): string[] {
+  return urls.map(url => new URL(url).pathname).sort()
+}
+
+function skippedFor(result: CrawlResult, reason: string): string[] {
+  return paths(result.skipped.filter(skip => skip.reason === reason).map(skip => skip.url))
+}
+
+async function main() {
+  const { origin, close } = await startFixtureServer()
+  try {
+    console.log('Following links (depth 2, 20 pages)')
+    const links = await crawlSite(`${origin}/`, { mode: 'links', maxDepth: 2, maxPages: 20 })
+    expectEqual('kept pages', paths(links.pages.map(p => p.url)), ['/', '/about', '/about/team', '/guide', '/hidden-child', '/private/open'])
+    expectEqual('start page comes first', new URL(links.pages[0].url).pathname, '/')
+    expectEqual('skipped by robots.txt', skippedFor(links, 'robots'), ['/private/secret'])
+    expectEqual('skipped as noindex', skippedFor(links, 'noindex'), ['/hidden'])
+    expectEqual('skipped as near-duplicate', skippedFor(links, 'duplicate'), ['/guide-copy'])
+    expectEqual('depths', links.pages.map(p => p.depth).sort(), [0, 1, 1, 1, 2, 2])
+
+    console.log('Following links within a 3-page budget')
+    const budget = await crawlSite(`${origin}/`, { mode: 'links', maxDepth: 2, maxPages: 3 })
+    expectEqual('kept pages', budget.pages.length, 3)
+
+    console.log('Reading the sitemap')
+    const sitemap = await crawlSite(`${origin}/`, { mode: 'sitemap', maxDepth: 0, maxPages: 20 })
+    expectEqual('kept pages', paths(sitemap.pages.map(p => p.url)), ['/', '/guide', '/listed-only'])
+    expectEqual('skipped by robots.txt', skippedFor(sitemap, 'robots'), ['/private/secret'])
+  } finally {
+    await close()
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('All crawl checks passed')
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,204 @@
+// Crawling a site into sources: from a start URL, follow links on the same site breadth-first
+// (or take the pages its sitemap lists) within a depth and page budget, skipping what
+// robots.txt or a page's robots meta tag rules out and pages that repeat one already kept.
+
+import {
+  extractFromPage,
+  extractLinksFromHtml,
+  extractRobotsDirectives,
+  fetchPage,
+  parseWebUrl,
+  type ExtractedSource,
+  type FetchedPage,
+} from '@/lib/extract'
+import type { CrawlMode, CrawlSkipReason } from '@/types'
+import { fetchRobots } from './robots'
+import { collectSitemapUrls } from './sitemap'
+
+export { parseRobots, type RobotsPolicy } from './robots'
+export { parseSitemap } from './sitemap'
+
+// Longest pause between requests a robots.txt Crawl-delay can ask of us, in seconds
+const MAX_CRAWL_DELAY = 5
+// The whole crawl stops after this, with whatever pages it has
+const CRAWL_TIME_LIMIT_MS = 120000
+// Pages sharing this much of their text (word 5-grams, Jaccard) count as the same page
+const NEAR_DUPLICATE_SIMILARITY = 0.9
+const SHINGLE_SIZE = 5
+
+// Links to files that aren't pages
+const NON_PAGE_EXTENSION = /\.(jpe?g|png|gif|webp|svg|ico|css|js|json|xml|rss|pdf|zip|gz|tar|mp3|mp4|mov|avi|webm|woff2?|ttf|eot|docx?|xlsx?|pptx?|epub|csv)$/i
+
+export interface CrawlOptions {
+  mode: CrawlMode
+  maxDepth: number
+  maxPages: number
+}
+
+export interface CrawledPage extends ExtractedSource {
+  url: string
+  depth: number
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[]
+  skipped: { url: string; reason: CrawlSkipReason }[]
+}
+
+// Hosts are the same site with or without "www."
+function siteKey(url: URL): string {
+  return url.hostname.replace(/^www\./, '')
+}
+
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url)
+  parsed.hash = ''
+  return parsed.href
+}
+
+// FNV-1a, enough to tell shingles apart
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function shingleSet(text: string): Set<number> {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  const shingles = new Set<number>()
+  if (words.length <= SHINGLE_SIZE) {
+    shingles.add(hashString(words.join(' ')))
+    return shingles
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')))
+  }
+  return shingles
+}
+
+function similarity(a: Set<number>, b: Set<number>): number {
+  let shared = 0
+  a.forEach(shingle => { if (b.has(shingle)) shared++ })
+  const union = a.size + b.size - shared
+  return union === 0 ? 1 : shared / union
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Crawl a site from `startUrl`. Pages are fetched one at a time, in breadth-first order; the
+ * start page is always first. Throws if the URL is invalid or, in sitemap mode, the site has
+ * no sitemap; pages that fail to load are reported in `skipped`.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions): Promise<CrawlResult> {
+  const start = parseWebUrl(startUrl)
+  const site = siteKey(start)
+  const robots = await fetchRobots(start.origin)
+  const delayMs = Math.min(robots.crawlDelay ?? 0, MAX_CRAWL_DELAY) * 1000
+  const deadline = Date.now() + CRAWL_TIME_LIMIT_MS
+
+  const isCrawlable = (url: URL) =>
+    (url.protocol === 'http:' || url.protocol === 'https:') && siteKey(url) === site && !NON_PAGE_EXTENSION.test(url.pathname)
+
+  const queue: { url: string; depth: number }[] = [{ url: normalizeUrl(start.href), depth: 0 }]
+  const queued = new Set<string>([queue[0].url])
+
+  if (options.mode === 'sitemap') {
+    const listed = (await collectSitemapUrls(start.origin, robots.sitemaps, options.maxPages * 5))
+      .filter(url => { try { return isCrawlable(new URL(url)) } catch { return false } })
+    if (listed.length === 0) {
+      throw new Error('No sitemap listing pages on this site was found. Try following links instead.')
+    }
+    for (const url of listed) {
+      const normalized = normalizeUrl(url)
+      if (queued.has(normalized)) continue
+      queued.add(normalized)
+      queue.push({ url: normalized, depth: 0 })
+    }
+  }
+
+  const result: CrawlResult = { pages: [], skipped: [] }
+  const fingerprints: Set<number>[] = []
+  let fetched = 0
+
+  while (queue.length > 0 && fetched < options.maxPages && Date.now() < deadline) {
+    const { url, depth } = queue.shift()!
+
+    if (!robots.isAllowed(new URL(url))) {
+      result.skipped.push({ url, reason: 'robots' })
+      continue
+    }
+
+    if (fetched > 0 && delayMs > 0) await sleep(delayMs)
+    fetched++
+
+    let page: FetchedPage
+    try {
+      page = await fetchPage(url)
+    } catch (error) {
+      console.error(`Failed to crawl ${url}:`, error)
+      result.skipped.push({ url, reason: 'failed' })
+      continue
+    }
+
+    // A redirect can land somewhere already crawled or off the site
+    const finalUrl = normalizeUrl(page.url)
+    if (finalUrl !== url) {
+      if (queued.has(finalUrl)) {
+        result.skipped.push({ url, reason: 'duplicate' })
+        continue
+      }
+      queued.add(finalUrl)
+      if (!isCrawlable(new URL(finalUrl))) {
+        result.skipped.push({ url, reason: 'off_site' })
+        continue
+      }
+    }
+
+    const isHtml = /html/i.test(page.content_type)
+    if (!isHtml && !page.content_type.includes('text/plain')) {
+      result.skipped.push({ url, reason: 'not_html' })
+      continue
+    }
+
+    const directives = isHtml ? extractRobotsDirectives(page.body) : []
+
+    if (options.mode === 'links' && depth < options.maxDepth && !directives.includes('nofollow') && !directives.includes('none')) {
+      for (const link of extractLinksFromHtml(page.body, finalUrl)) {
+        if (queued.has(link) || !isCrawlable(new URL(link))) continue
+        queued.add(link)
+        queue.push({ url: link, depth: depth + 1 })
+      }
+    }
+
+    if (directives.includes('noindex') || directives.includes('none')) {
+      result.skipped.push({ url, reason: 'noindex' })
+      continue
+    }
+
+    let extracted: ExtractedSource
+    try {
+      extracted = extractFromPage(page)
+    } catch {
+      // Nothing but page chrome
+      result.skipped.push({ url, reason: 'failed' })
+      continue
+    }
+
+    const fingerprint = shingleSet(extracted.content)
+    if (fingerprints.some(kept => similarity(kept, fingerprint) >= NEAR_DUPLICATE_SIMILARITY)) {
+      result.skipped.push({ url, reason: 'duplicate' })
+      continue
+    }
+    fingerprints.push(fingerprint)
+
+    result.pages.push({ ...extracted, url: finalUrl, depth })
+  }
+
+  return result
+}
@@ -0,0 +1,119 @@
+// robots.txt as RFC 9309 reads it: the group for our user agent (or "*" when there isn't one),
+// Allow/Disallow with * and $ wildcards where the longest matching rule wins, plus the
+// Crawl-delay and Sitemap lines most sites still use.
+
+import { USER_AGENT } from '@/lib/extract'
+
+// The product token from our User-Agent header
+const ROBOTS_AGENT = 'li-creator'
+
+const ROBOTS_TIMEOUT_MS = 10000
+
+interface RobotsRule {
+  allow: boolean
+  length: number
+  pattern: RegExp
+}
+
+export interface RobotsPolicy {
+  isAllowed(url: URL): boolean
+  // Seconds between requests the site asks for, if any
+  crawlDelay: number | null
+  sitemaps: string[]
+}
+
+interface RobotsGroup {
+  agents: string[]
+  rules: RobotsRule[]
+  crawlDelay: number | null
+}
+
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$')
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Read a robots.txt file. Groups for our agent win over "*"; with neither, everything is allowed.
+ */
+export function parseRobots(text: string): RobotsPolicy {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let inAgentLines = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.substring(0, separator).trim().toLowerCase()
+    const value = line.substring(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      inAgentLines = true
+      continue
+    }
+    inAgentLines = false
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value)
+    } else if (current && (key === 'allow' || key === 'disallow')) {
+      // An empty Disallow allows everything, which is the default anyway
+      if (value) current.rules.push({ allow: key === 'allow', length: value.length, pattern: toPattern(value) })
+    } else if (current && key === 'crawl-delay') {
+      const seconds = parseFloat(value)
+      if (!isNaN(seconds) && seconds >= 0) current.crawlDelay = seconds
+    }
+  }
+
+  const ours = groups.filter(group => group.agents.includes(ROBOTS_AGENT))
+  const applicable = ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'))
+  const rules = applicable.flatMap(group => group.rules)
+  const delays = applicable.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null)
+
+  return {
+    isAllowed(url: URL) {
+      const path = url.pathname + url.search
+      let best: RobotsRule | null = null
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) continue
+        // Longest match wins; on a tie Allow does
+        if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule
+      }
+      return best ? best.allow : true
+    },
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+    sitemaps,
+  }
+}
+
+const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true, crawlDelay: null, sitemaps: [] }
+const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false, crawlDelay: null, sitemaps: [] }
+
+/**
+ * Fetch a site's robots.txt. A missing file (4xx) allows everything; a server error or no
+ * answer disallows everything, as the RFC says.
+ */
+export async function fetchRobots(origin: string): Promise<RobotsPolicy> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/plain' },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+    })
+    if (response.ok) return parseRobots(await response.text())
+    return response.status >= 400 && response.status < 500 ? ALLOW_ALL : DISALLOW_ALL
+  } catch {
+    return DISALLOW_ALL
+  }
+}
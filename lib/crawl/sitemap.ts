@@ -0,0 +1,48 @@
+// XML sitemaps: the page URLs a site lists, following sitemap index files. Gzipped sitemaps
+// aren't read.
+
+import { decodeEntities } from '@/lib/extract/html'
+import { fetchPage } from '@/lib/extract'
+
+// Sitemap files read per crawl, index files included
+const MAX_SITEMAP_FILES = 10
+
+/**
+ * The <loc> URLs of a sitemap, and whether it is an index of other sitemaps
+ */
+export function parseSitemap(xml: string): { urls: string[]; isIndex: boolean } {
+  const urls = Array.from(xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi))
+    .map(match => decodeEntities(match[1].replace(/^<!\[CDATA\[|\]\]>$/g, '').trim()))
+    .filter(Boolean)
+  return { urls, isIndex: /<sitemapindex\b/i.test(xml) }
+}
+
+/**
+ * Page URLs from the given sitemaps (robots.txt's, or /sitemap.xml when it lists none), in
+ * the order they're listed, stopping once there are `limit` of them. Sitemaps that fail to
+ * load are skipped.
+ */
+export async function collectSitemapUrls(origin: string, sitemaps: string[], limit: number): Promise<string[]> {
+  const queue = sitemaps.length > 0 ? [...sitemaps] : [`${origin}/sitemap.xml`]
+  const seen = new Set<string>()
+  const pages: string[] = []
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAP_FILES && pages.length < limit) {
+    const sitemapUrl = queue.shift()!
+    if (seen.has(sitemapUrl) || /\.gz$/i.test(sitemapUrl)) continue
+    seen.add(sitemapUrl)
+
+    try {
+      const { urls, isIndex } = parseSitemap((await fetchPage(sitemapUrl, 'application/xml,text/xml')).body)
+      if (isIndex) {
+        queue.push(...urls)
+      } else {
+        pages.push(...urls.slice(0, limit - pages.length))
+      }
+    } catch (error) {
+      console.error(`Failed to read sitemap ${sitemapUrl}:`, error)
+    }
+  }
+
+  return pages
+}
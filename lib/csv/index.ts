@@ -0,0 +1,53 @@
+// CSV parsing shared by source extraction and the analytics import. It has no other imports,
+// so loading it never opens the database.
+
+function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 5).join('\n')
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: sample.split(delimiter).length }))
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+/**
+ * Parse CSV (RFC 4180 quoting, comma, semicolon or tab separated) into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
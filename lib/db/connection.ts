@@ -0,0 +1,29 @@
+import Database from 'better-sqlite3'
+import path from 'path'
+import fs from 'fs'
+
+/**
+ * Resolve the database file: DATABASE_PATH, or data/app.db in the project root
+ */
+export function getDatabasePath(): string {
+  if (process.env.DATABASE_PATH) return process.env.DATABASE_PATH
+
+  // Ensure data directory exists
+  const dataDir = path.join(process.cwd(), 'data')
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true })
+  }
+  return path.join(dataDir, 'app.db')
+}
+
+/**
+ * Open the database with foreign keys enforced. Does not touch the schema.
+ */
+export function openDatabase(): Database.Database {
+  const db = new Database(getDatabasePath())
+
+  // Enable foreign keys
+  db.pragma('foreign_keys = ON')
+
+  return db
+}
@@ -0,0 +1,63 @@
+// Command-line migration runner
+//
+//   npm run db:migrate                 Apply pending migrations
+//   npm run db:migrate -- --dry-run    Run pending migrations and roll them back
+//   npm run db:status                  List applied and pending migrations
+
+import { getDatabasePath, openDatabase } from './connection'
+import { getMigrationStatus, runMigrations } from './migrator'
+import { migrations } from './migrations'
+
+function printStatus() {
+  const db = openDatabase()
+  const { applied, pending, unknown } = getMigrationStatus(db, migrations)
+  const knownNames = new Map(migrations.map(m => [m.version, m.name]))
+
+  console.log(`Database: ${getDatabasePath()}`)
+  console.log('')
+  for (const migration of applied) {
+    const marker = knownNames.has(migration.version) ? 'applied' : 'unknown'
+    console.log(`  [${marker}] ${String(migration.version).padStart(3, '0')} ${migration.name} (${migration.applied_at})`)
+  }
+  for (const migration of pending) {
+    console.log(`  [pending] ${String(migration.version).padStart(3, '0')} ${migration.name}`)
+  }
+  console.log('')
+  console.log(`${applied.length} applied, ${pending.length} pending`)
+
+  if (unknown.length > 0) {
+    console.log(`Warning: ${unknown.length} applied migration(s) are not known to this version of the app`)
+  }
+  db.close()
+}
+
+function migrate(dryRun: boolean) {
+  const db = openDatabase()
+  console.log(`Database: ${getDatabasePath()}`)
+
+  const result = runMigrations(db, migrations, { dryRun })
+  if (result.applied.length === 0) {
+    console.log('Schema is up to date')
+  } else {
+    for (const migration of result.applied) {
+      console.log(`  ${dryRun ? 'would apply' : 'applied'} ${String(migration.version).padStart(3, '0')} ${migration.name}`)
+    }
+    console.log(dryRun
+      ? `Dry run: ${result.applied.length} migration(s) ran cleanly and were rolled back`
+      : `Applied ${result.applied.length} migration(s)`)
+  }
+  db.close()
+}
+
+const args = process.argv.slice(2)
+
+try {
+  if (args[0] === 'status') {
+    printStatus()
+  } else {
+    migrate(args.includes('--dry-run'))
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+}
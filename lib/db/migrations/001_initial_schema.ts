@@ -0,0 +1,268 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Baseline schema. Uses IF NOT EXISTS and addColumnIfNotExists throughout so it is also
+// safe to run against databases created before versioned migrations existed.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(db: Database.Database) {
+    db.exec(`
+      -- Projects table (expanded from sessions)
+      CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        topic TEXT NOT NULL,
+        target_audience TEXT NOT NULL DEFAULT '',
+        content_style TEXT NOT NULL DEFAULT '',
+        platform TEXT NOT NULL DEFAULT 'linkedin' CHECK (platform IN ('linkedin', 'youtube', 'facebook')),
+        status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+        current_step TEXT NOT NULL DEFAULT 'setup' CHECK (current_step IN ('setup', 'hooks', 'body', 'intros', 'titles', 'ctas', 'visuals', 'thumbnails', 'carousel', 'complete')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        published_at DATETIME,
+        remix_of_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL
+      );
+
+      -- Legacy sessions table (keep for backward compatibility during migration)
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        original_idea TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        published_at DATETIME,
+        remix_of_session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL
+      );
+
+      -- Messages table (works with both projects and sessions)
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      );
+
+      -- Outputs table (works with both projects and sessions)
+      CREATE TABLE IF NOT EXISTS outputs (
+        id TEXT PRIMARY KEY,
+        session_id TEXT UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        hooks TEXT NOT NULL DEFAULT '[]',
+        hooks_original TEXT NOT NULL DEFAULT '[]',
+        body_content TEXT NOT NULL DEFAULT '',
+        body_content_original TEXT NOT NULL DEFAULT '',
+        intros TEXT NOT NULL DEFAULT '[]',
+        intros_original TEXT NOT NULL DEFAULT '[]',
+        titles TEXT NOT NULL DEFAULT '[]',
+        titles_original TEXT NOT NULL DEFAULT '[]',
+        ctas TEXT NOT NULL DEFAULT '[]',
+        ctas_original TEXT NOT NULL DEFAULT '[]',
+        visual_concepts TEXT NOT NULL DEFAULT '[]',
+        visual_concepts_original TEXT NOT NULL DEFAULT '[]',
+        selected_hook_index INTEGER DEFAULT 0,
+        selected_body_index INTEGER DEFAULT 0,
+        selected_intro_index INTEGER DEFAULT 0,
+        selected_title_index INTEGER DEFAULT 0,
+        selected_cta_index INTEGER DEFAULT 0,
+        selected_visual_index INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      );
+
+      -- Project assets table (uploaded reference images, logos, etc.)
+      CREATE TABLE IF NOT EXISTS project_assets (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        type TEXT NOT NULL CHECK (type IN ('reference_image', 'logo', 'icon', 'other')),
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        data BLOB NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Generated images table (AI-generated thumbnails)
+      CREATE TABLE IF NOT EXISTS generated_images (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        prompt TEXT NOT NULL,
+        image_data BLOB,
+        image_url TEXT,
+        width INTEGER NOT NULL DEFAULT 1024,
+        height INTEGER NOT NULL DEFAULT 1024,
+        model TEXT NOT NULL DEFAULT 'nano-banana',
+        is_upscaled INTEGER NOT NULL DEFAULT 0,
+        parent_image_id TEXT REFERENCES generated_images(id) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Content versions table (edit history)
+      CREATE TABLE IF NOT EXISTS content_versions (
+        id TEXT PRIMARY KEY,
+        project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+        session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE,
+        content_type TEXT NOT NULL CHECK (content_type IN ('hook', 'body', 'intro', 'title', 'cta', 'visual')),
+        content_index INTEGER NOT NULL,
+        old_content TEXT NOT NULL,
+        new_content TEXT NOT NULL,
+        edited_by TEXT NOT NULL DEFAULT 'user' CHECK (edited_by IN ('user', 'assistant')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (project_id IS NOT NULL OR session_id IS NOT NULL)
+      );
+
+      -- Settings table (user-customizable prompts)
+      CREATE TABLE IF NOT EXISTS settings (
+        id TEXT PRIMARY KEY,
+        key TEXT NOT NULL UNIQUE,
+        value TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Favorites table
+      CREATE TABLE IF NOT EXISTS favorites (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL CHECK (type IN ('hook', 'cta', 'body', 'visual', 'template', 'intro', 'title', 'thumbnail')),
+        content TEXT NOT NULL,
+        source_session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL,
+        source_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Performance notes table
+      CREATE TABLE IF NOT EXISTS performance_notes (
+        id TEXT PRIMARY KEY,
+        session_id TEXT UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        views INTEGER,
+        likes INTEGER,
+        comments INTEGER,
+        reposts INTEGER,
+        notes TEXT NOT NULL DEFAULT '',
+        recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      );
+
+      -- Research results table (stores web search results)
+      CREATE TABLE IF NOT EXISTS research_results (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        query TEXT NOT NULL,
+        results TEXT NOT NULL DEFAULT '[]',
+        citations TEXT NOT NULL DEFAULT '[]',
+        provider TEXT NOT NULL CHECK (provider IN ('claude', 'perplexity')),
+        summary TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Project search settings table
+      CREATE TABLE IF NOT EXISTS project_search_settings (
+        id TEXT PRIMARY KEY,
+        project_id TEXT UNIQUE NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        web_search_enabled INTEGER NOT NULL DEFAULT 0,
+        search_provider TEXT NOT NULL DEFAULT 'claude' CHECK (search_provider IN ('claude', 'perplexity', 'auto')),
+        max_searches INTEGER NOT NULL DEFAULT 5,
+        allowed_domains TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Project sources table (text-based context for AI generation)
+      CREATE TABLE IF NOT EXISTS project_sources (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        type TEXT NOT NULL CHECK (type IN ('text', 'file', 'url')),
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        original_filename TEXT,
+        original_url TEXT,
+        mime_type TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Carousel templates table
+      CREATE TABLE IF NOT EXISTS carousel_templates (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        slide_count INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Carousel template slides table
+      CREATE TABLE IF NOT EXISTS carousel_template_slides (
+        id TEXT PRIMARY KEY,
+        template_id TEXT NOT NULL REFERENCES carousel_templates(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        background_data BLOB,
+        text_zones TEXT NOT NULL DEFAULT '[]'
+      );
+
+      -- Carousel outputs table (generated carousel content)
+      CREATE TABLE IF NOT EXISTS carousel_outputs (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        template_id TEXT REFERENCES carousel_templates(id) ON DELETE SET NULL,
+        slides TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `)
+
+    // Columns added to tables after their first release
+    addColumnIfNotExists(db, 'messages', 'project_id', 'TEXT REFERENCES projects(id) ON DELETE CASCADE')
+
+    // Older databases have a NOT NULL session_id here; 002 rebuilds the table
+    addColumnIfNotExists(db, 'outputs', 'project_id', 'TEXT')
+    addColumnIfNotExists(db, 'outputs', 'intros', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'intros_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'titles', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'titles_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'selected_intro_index', 'INTEGER DEFAULT 0')
+    addColumnIfNotExists(db, 'outputs', 'selected_title_index', 'INTEGER DEFAULT 0')
+    addColumnIfNotExists(db, 'outputs', 'selected_body_index', 'INTEGER DEFAULT 0')
+    addColumnIfNotExists(db, 'outputs', 'research_context', 'TEXT')
+    addColumnIfNotExists(db, 'outputs', 'citations', "TEXT NOT NULL DEFAULT '[]'")
+
+    addColumnIfNotExists(db, 'favorites', 'source_project_id', 'TEXT REFERENCES projects(id) ON DELETE SET NULL')
+
+    // UNIQUE can't be added with ALTER TABLE; 002 rebuilds the table
+    addColumnIfNotExists(db, 'performance_notes', 'project_id', 'TEXT')
+
+    addColumnIfNotExists(db, 'content_versions', 'project_id', 'TEXT REFERENCES projects(id) ON DELETE CASCADE')
+
+    // Per-project text provider override, NULL = use global setting
+    addColumnIfNotExists(db, 'projects', 'llm_provider', 'TEXT')
+    addColumnIfNotExists(db, 'projects', 'llm_model', 'TEXT')
+
+    // Thumbnail-to-visual-concept linkage
+    addColumnIfNotExists(db, 'generated_images', 'visual_concept_index', 'INTEGER')
+
+    // Indexes last: some cover columns that older databases only have after the additions above
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
+      CREATE INDEX IF NOT EXISTS idx_messages_project_id ON messages(project_id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at);
+      CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
+      CREATE INDEX IF NOT EXISTS idx_projects_platform ON projects(platform);
+      CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at);
+      CREATE INDEX IF NOT EXISTS idx_favorites_type ON favorites(type);
+      CREATE INDEX IF NOT EXISTS idx_project_assets_project_id ON project_assets(project_id);
+      CREATE INDEX IF NOT EXISTS idx_generated_images_project_id ON generated_images(project_id);
+      CREATE INDEX IF NOT EXISTS idx_content_versions_project_id ON content_versions(project_id);
+      CREATE INDEX IF NOT EXISTS idx_research_results_project_id ON research_results(project_id);
+      CREATE INDEX IF NOT EXISTS idx_research_results_created_at ON research_results(created_at);
+      CREATE INDEX IF NOT EXISTS idx_project_sources_project_id ON project_sources(project_id);
+      CREATE INDEX IF NOT EXISTS idx_carousel_templates_project_id ON carousel_templates(project_id);
+      CREATE INDEX IF NOT EXISTS idx_carousel_template_slides_template_id ON carousel_template_slides(template_id);
+      CREATE INDEX IF NOT EXISTS idx_carousel_outputs_project_id ON carousel_outputs(project_id);
+      CREATE INDEX IF NOT EXISTS idx_generated_images_visual_concept ON generated_images(project_id, visual_concept_index);
+    `)
+  },
+}
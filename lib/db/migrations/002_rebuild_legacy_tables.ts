@@ -0,0 +1,112 @@
+import type Database from 'better-sqlite3'
+import { rebuildTable, type Migration } from '../migrator'
+
+// Databases created before projects replaced sessions have session_id NOT NULL on
+// messages, outputs, content versions and performance notes (so project rows can't be
+// saved), and project_id columns added by ALTER TABLE that lack UNIQUE and the foreign key.
+// Rebuild those tables into the current shape; tables that already match are left alone.
+
+function isColumnNotNull(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string; notnull: number }[]
+  return columns.some(col => col.name === column && col.notnull === 1)
+}
+
+function hasUniqueIndexOn(db: Database.Database, table: string, column: string): boolean {
+  const indexes = db.prepare(`PRAGMA index_list("${table}")`).all() as { name: string; unique: number }[]
+  return indexes.some(index => {
+    if (index.unique !== 1) return false
+    const columns = db.prepare(`PRAGMA index_info("${index.name}")`).all() as { name: string }[]
+    return columns.length === 1 && columns[0].name === column
+  })
+}
+
+function hasForeignKey(db: Database.Database, table: string, column: string): boolean {
+  const keys = db.prepare(`PRAGMA foreign_key_list("${table}")`).all() as { from: string }[]
+  return keys.some(key => key.from === column)
+}
+
+function isCurrentShape(db: Database.Database, table: string, uniqueProject: boolean): boolean {
+  return !isColumnNotNull(db, table, 'session_id')
+    && hasForeignKey(db, table, 'project_id')
+    && (!uniqueProject || hasUniqueIndexOn(db, table, 'project_id'))
+}
+
+export const rebuildLegacyTables: Migration = {
+  version: 2,
+  name: 'rebuild_legacy_tables',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    if (!isCurrentShape(db, 'messages', false)) {
+      rebuildTable(db, 'messages', `
+        id TEXT PRIMARY KEY,
+        session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      `)
+    }
+
+    if (!isCurrentShape(db, 'outputs', true)) {
+      rebuildTable(db, 'outputs', `
+        id TEXT PRIMARY KEY,
+        session_id TEXT UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        hooks TEXT NOT NULL DEFAULT '[]',
+        hooks_original TEXT NOT NULL DEFAULT '[]',
+        body_content TEXT NOT NULL DEFAULT '',
+        body_content_original TEXT NOT NULL DEFAULT '',
+        intros TEXT NOT NULL DEFAULT '[]',
+        intros_original TEXT NOT NULL DEFAULT '[]',
+        titles TEXT NOT NULL DEFAULT '[]',
+        titles_original TEXT NOT NULL DEFAULT '[]',
+        ctas TEXT NOT NULL DEFAULT '[]',
+        ctas_original TEXT NOT NULL DEFAULT '[]',
+        visual_concepts TEXT NOT NULL DEFAULT '[]',
+        visual_concepts_original TEXT NOT NULL DEFAULT '[]',
+        selected_hook_index INTEGER DEFAULT 0,
+        selected_body_index INTEGER DEFAULT 0,
+        selected_intro_index INTEGER DEFAULT 0,
+        selected_title_index INTEGER DEFAULT 0,
+        selected_cta_index INTEGER DEFAULT 0,
+        selected_visual_index INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        research_context TEXT,
+        citations TEXT NOT NULL DEFAULT '[]',
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      `)
+    }
+
+    if (!isCurrentShape(db, 'content_versions', false)) {
+      rebuildTable(db, 'content_versions', `
+        id TEXT PRIMARY KEY,
+        project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+        session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE,
+        content_type TEXT NOT NULL CHECK (content_type IN ('hook', 'body', 'intro', 'title', 'cta', 'visual')),
+        content_index INTEGER NOT NULL,
+        old_content TEXT NOT NULL,
+        new_content TEXT NOT NULL,
+        edited_by TEXT NOT NULL DEFAULT 'user' CHECK (edited_by IN ('user', 'assistant')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (project_id IS NOT NULL OR session_id IS NOT NULL)
+      `)
+    }
+
+    if (!isCurrentShape(db, 'performance_notes', true)) {
+      rebuildTable(db, 'performance_notes', `
+        id TEXT PRIMARY KEY,
+        session_id TEXT UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+        project_id TEXT UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        views INTEGER,
+        likes INTEGER,
+        comments INTEGER,
+        reposts INTEGER,
+        notes TEXT NOT NULL DEFAULT '',
+        recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (session_id IS NOT NULL OR project_id IS NOT NULL)
+      `)
+    }
+  },
+}
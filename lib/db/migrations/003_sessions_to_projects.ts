@@ -0,0 +1,160 @@
+import type Database from 'better-sqlite3'
+import { rebuildTable, type Migration } from '../migrator'
+
+// Convert every legacy session into a LinkedIn project with the same id (so old /session/:id
+// links redirect to it and favorites resolve), move its messages, output, performance notes and
+// content versions across, then drop the session columns and the sessions table.
+
+interface SessionRow {
+  id: string
+  title: string
+  original_idea: string
+  status: string
+  created_at: string | null
+  updated_at: string | null
+  published_at: string | null
+  remix_of_session_id: string | null
+}
+
+// Tables whose rows belong to either a session or a project
+const CHILD_TABLES = ['messages', 'outputs', 'performance_notes', 'content_versions']
+
+function convertSessions(db: Database.Database) {
+  const sessions = db.prepare('SELECT * FROM sessions ORDER BY created_at').all() as SessionRow[]
+  const projectExists = db.prepare('SELECT 1 FROM projects WHERE id = ?')
+  const hasOutput = db.prepare('SELECT 1 FROM outputs WHERE session_id = ?')
+  const insertProject = db.prepare(`
+    INSERT INTO projects (id, name, topic, platform, status, current_step, created_at, updated_at, published_at)
+    VALUES (?, ?, ?, 'linkedin', ?, ?, ?, ?, ?)
+  `)
+
+  // Re-keying a session would send its old links to whichever project has its id, so stop
+  // instead (the migration rolls back and the database is left as it was)
+  const collisions = sessions.filter(session => projectExists.get(session.id))
+  if (collisions.length > 0) {
+    throw new Error(`Sessions share an id with an existing project: ${collisions.map(session => session.id).join(', ')}`)
+  }
+
+  const sessionIds = new Set(sessions.map(session => session.id))
+  for (const session of sessions) {
+    // Sessions had no step-by-step workflow: finished ones land on the summary,
+    // ones with generated content on the first step, the rest on setup
+    const currentStep = !hasOutput.get(session.id)
+      ? 'setup'
+      : session.status === 'in_progress' ? 'hooks' : 'complete'
+
+    const now = new Date().toISOString()
+    insertProject.run(
+      session.id,
+      session.title,
+      session.original_idea,
+      session.status,
+      currentStep,
+      session.created_at || now,
+      session.updated_at || now,
+      session.published_at
+    )
+  }
+
+  // Remix links can point at sessions created later, so resolve them once every project exists
+  const setRemix = db.prepare('UPDATE projects SET remix_of_project_id = ? WHERE id = ?')
+  for (const session of sessions) {
+    if (session.remix_of_session_id && sessionIds.has(session.remix_of_session_id)) {
+      setRemix.run(session.remix_of_session_id, session.id)
+    }
+  }
+
+  for (const table of CHILD_TABLES) {
+    db.prepare(`UPDATE ${table} SET project_id = session_id WHERE session_id IN (SELECT id FROM sessions) AND project_id IS NULL`).run()
+    // Rows whose session no longer exists have nowhere to go
+    db.prepare(`DELETE FROM ${table} WHERE project_id IS NULL`).run()
+  }
+
+  db.prepare(`
+    UPDATE favorites SET source_project_id = source_session_id
+    WHERE source_session_id IN (SELECT id FROM sessions) AND source_project_id IS NULL
+  `).run()
+}
+
+export const sessionsToProjects: Migration = {
+  version: 3,
+  name: 'sessions_to_projects',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    convertSessions(db)
+
+    // These would be re-created by the rebuilds below, but their columns are going away
+    db.exec(`
+      DROP INDEX IF EXISTS idx_messages_session_id;
+      DROP INDEX IF EXISTS idx_sessions_status;
+      DROP INDEX IF EXISTS idx_sessions_created_at;
+    `)
+
+    rebuildTable(db, 'messages', `
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+      content TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `)
+
+    rebuildTable(db, 'outputs', `
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+      hooks TEXT NOT NULL DEFAULT '[]',
+      hooks_original TEXT NOT NULL DEFAULT '[]',
+      body_content TEXT NOT NULL DEFAULT '',
+      body_content_original TEXT NOT NULL DEFAULT '',
+      intros TEXT NOT NULL DEFAULT '[]',
+      intros_original TEXT NOT NULL DEFAULT '[]',
+      titles TEXT NOT NULL DEFAULT '[]',
+      titles_original TEXT NOT NULL DEFAULT '[]',
+      ctas TEXT NOT NULL DEFAULT '[]',
+      ctas_original TEXT NOT NULL DEFAULT '[]',
+      visual_concepts TEXT NOT NULL DEFAULT '[]',
+      visual_concepts_original TEXT NOT NULL DEFAULT '[]',
+      selected_hook_index INTEGER DEFAULT 0,
+      selected_body_index INTEGER DEFAULT 0,
+      selected_intro_index INTEGER DEFAULT 0,
+      selected_title_index INTEGER DEFAULT 0,
+      selected_cta_index INTEGER DEFAULT 0,
+      selected_visual_index INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      research_context TEXT,
+      citations TEXT NOT NULL DEFAULT '[]'
+    `)
+
+    rebuildTable(db, 'content_versions', `
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      content_type TEXT NOT NULL CHECK (content_type IN ('hook', 'body', 'intro', 'title', 'cta', 'visual')),
+      content_index INTEGER NOT NULL,
+      old_content TEXT NOT NULL,
+      new_content TEXT NOT NULL,
+      edited_by TEXT NOT NULL DEFAULT 'user' CHECK (edited_by IN ('user', 'assistant')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `)
+
+    rebuildTable(db, 'performance_notes', `
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+      views INTEGER,
+      likes INTEGER,
+      comments INTEGER,
+      reposts INTEGER,
+      notes TEXT NOT NULL DEFAULT '',
+      recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `)
+
+    rebuildTable(db, 'favorites', `
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL CHECK (type IN ('hook', 'cta', 'body', 'visual', 'template', 'intro', 'title', 'thumbnail')),
+      content TEXT NOT NULL,
+      source_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    `)
+
+    db.exec('DROP TABLE sessions')
+  },
+}
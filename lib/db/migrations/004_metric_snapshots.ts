@@ -0,0 +1,48 @@
+import type Database from 'better-sqlite3'
+import { generateId } from '@/lib/utils'
+import type { Migration } from '../migrator'
+
+// Time series of cumulative metrics per project, so growth over a post's first hours and
+// days can be tracked. performance_notes keeps the latest numbers and the notes text.
+export const metricSnapshots: Migration = {
+  version: 4,
+  name: 'metric_snapshots',
+  up(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE metric_snapshots (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        views INTEGER,
+        likes INTEGER,
+        comments INTEGER,
+        reposts INTEGER,
+        source TEXT NOT NULL DEFAULT 'manual',
+        recorded_at DATETIME NOT NULL
+      );
+
+      CREATE INDEX idx_metric_snapshots_project_recorded ON metric_snapshots(project_id, recorded_at);
+    `)
+
+    // Existing notes become each project's first snapshot
+    const notes = db.prepare(`
+      SELECT project_id, views, likes, comments, reposts, recorded_at FROM performance_notes
+      WHERE views IS NOT NULL OR likes IS NOT NULL OR comments IS NOT NULL OR reposts IS NOT NULL
+    `).all() as { project_id: string; views: number | null; likes: number | null; comments: number | null; reposts: number | null; recorded_at: string | null }[]
+
+    const insert = db.prepare(`
+      INSERT INTO metric_snapshots (id, project_id, views, likes, comments, reposts, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    for (const note of notes) {
+      insert.run(
+        generateId(),
+        note.project_id,
+        note.views,
+        note.likes,
+        note.comments,
+        note.reposts,
+        note.recorded_at || new Date().toISOString()
+      )
+    }
+  },
+}
@@ -0,0 +1,13 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Per-project opt-in for using our top posts and favorites as few-shot examples, and the
+// examples that went into each output so the draft's influences stay visible.
+export const generationExamples: Migration = {
+  version: 5,
+  name: 'generation_examples',
+  up(db: Database.Database) {
+    addColumnIfNotExists(db, 'projects', 'use_performance_examples', 'INTEGER NOT NULL DEFAULT 0')
+    addColumnIfNotExists(db, 'outputs', 'examples_used', "TEXT NOT NULL DEFAULT '[]'")
+  },
+}
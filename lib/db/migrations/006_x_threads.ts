@@ -0,0 +1,32 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, rebuildTable, type Migration } from '../migrator'
+
+// X (Twitter) projects: allow the 'x' platform and the 'thread' workflow step on projects,
+// and store a thread's tweets (plus the generated originals) on outputs.
+export const xThreads: Migration = {
+  version: 6,
+  name: 'x_threads',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    rebuildTable(db, 'projects', `
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      topic TEXT NOT NULL,
+      target_audience TEXT NOT NULL DEFAULT '',
+      content_style TEXT NOT NULL DEFAULT '',
+      platform TEXT NOT NULL DEFAULT 'linkedin' CHECK (platform IN ('linkedin', 'youtube', 'facebook', 'x')),
+      status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+      current_step TEXT NOT NULL DEFAULT 'setup' CHECK (current_step IN ('setup', 'hooks', 'body', 'thread', 'intros', 'titles', 'ctas', 'visuals', 'thumbnails', 'carousel', 'complete')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      published_at DATETIME,
+      remix_of_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      llm_provider TEXT,
+      llm_model TEXT,
+      use_performance_examples INTEGER NOT NULL DEFAULT 0
+    `)
+
+    addColumnIfNotExists(db, 'outputs', 'thread', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'thread_original', "TEXT NOT NULL DEFAULT '[]'")
+  },
+}
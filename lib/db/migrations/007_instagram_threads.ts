@@ -0,0 +1,36 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, rebuildTable, type Migration } from '../migrator'
+
+// Instagram and Threads projects: allow both platforms and their caption, hashtag and
+// alt-text steps on projects, store hashtag sets on outputs, alt text on images, and
+// the aspect ratio (1:1 or 4:5) each carousel is rendered at.
+export const instagramThreads: Migration = {
+  version: 7,
+  name: 'instagram_threads',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    rebuildTable(db, 'projects', `
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      topic TEXT NOT NULL,
+      target_audience TEXT NOT NULL DEFAULT '',
+      content_style TEXT NOT NULL DEFAULT '',
+      platform TEXT NOT NULL DEFAULT 'linkedin' CHECK (platform IN ('linkedin', 'youtube', 'facebook', 'x', 'instagram', 'threads')),
+      status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+      current_step TEXT NOT NULL DEFAULT 'setup' CHECK (current_step IN ('setup', 'hooks', 'body', 'thread', 'caption', 'intros', 'titles', 'ctas', 'hashtags', 'visuals', 'thumbnails', 'alt_text', 'carousel', 'complete')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      published_at DATETIME,
+      remix_of_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      llm_provider TEXT,
+      llm_model TEXT,
+      use_performance_examples INTEGER NOT NULL DEFAULT 0
+    `)
+
+    addColumnIfNotExists(db, 'outputs', 'hashtag_sets', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'hashtag_sets_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'selected_hashtag_index', 'INTEGER DEFAULT -1')
+    addColumnIfNotExists(db, 'generated_images', 'alt_text', "TEXT NOT NULL DEFAULT ''")
+    addColumnIfNotExists(db, 'carousel_outputs', 'aspect_ratio', "TEXT NOT NULL DEFAULT '1:1' CHECK (aspect_ratio IN ('1:1', '4:5'))")
+  },
+}
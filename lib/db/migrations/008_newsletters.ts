@@ -0,0 +1,39 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, rebuildTable, type Migration } from '../migrator'
+
+// Newsletter projects: allow the platform and its outline, section, subject line and
+// preview text steps on projects, and store the sections, subject lines and preview
+// texts on outputs.
+export const newsletters: Migration = {
+  version: 8,
+  name: 'newsletters',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    rebuildTable(db, 'projects', `
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      topic TEXT NOT NULL,
+      target_audience TEXT NOT NULL DEFAULT '',
+      content_style TEXT NOT NULL DEFAULT '',
+      platform TEXT NOT NULL DEFAULT 'linkedin' CHECK (platform IN ('linkedin', 'youtube', 'facebook', 'x', 'instagram', 'threads', 'newsletter')),
+      status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+      current_step TEXT NOT NULL DEFAULT 'setup' CHECK (current_step IN ('setup', 'hooks', 'body', 'thread', 'caption', 'outline', 'sections', 'subject_lines', 'preview_texts', 'intros', 'titles', 'ctas', 'hashtags', 'visuals', 'thumbnails', 'alt_text', 'carousel', 'complete')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      published_at DATETIME,
+      remix_of_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      llm_provider TEXT,
+      llm_model TEXT,
+      use_performance_examples INTEGER NOT NULL DEFAULT 0
+    `)
+
+    addColumnIfNotExists(db, 'outputs', 'newsletter_sections', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'newsletter_sections_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'subject_lines', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'subject_lines_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'selected_subject_index', 'INTEGER DEFAULT -1')
+    addColumnIfNotExists(db, 'outputs', 'preview_texts', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'preview_texts_original', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'outputs', 'selected_preview_index', 'INTEGER DEFAULT -1')
+  },
+}
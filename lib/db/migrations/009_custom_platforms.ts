@@ -0,0 +1,48 @@
+import type Database from 'better-sqlite3'
+import { rebuildTable, type Migration } from '../migrator'
+
+// Custom platforms defined from settings. Projects no longer restrict platform to the
+// built-in list; the routes check it against the registry (lib/platforms) instead.
+export const customPlatforms: Migration = {
+  version: 9,
+  name: 'custom_platforms',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE custom_platforms (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        format TEXT NOT NULL CHECK (format IN ('post', 'caption')),
+        steps TEXT NOT NULL DEFAULT '[]',
+        character_limit INTEGER,
+        hashtag_limit INTEGER,
+        aspect_ratio TEXT NOT NULL DEFAULT '1.91:1',
+        width INTEGER NOT NULL DEFAULT 1200,
+        height INTEGER NOT NULL DEFAULT 630,
+        generation_prompt TEXT NOT NULL DEFAULT '',
+        output_focus TEXT NOT NULL DEFAULT '',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    rebuildTable(db, 'projects', `
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      topic TEXT NOT NULL,
+      target_audience TEXT NOT NULL DEFAULT '',
+      content_style TEXT NOT NULL DEFAULT '',
+      platform TEXT NOT NULL DEFAULT 'linkedin',
+      status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'complete', 'published')),
+      current_step TEXT NOT NULL DEFAULT 'setup' CHECK (current_step IN ('setup', 'hooks', 'body', 'thread', 'caption', 'outline', 'sections', 'subject_lines', 'preview_texts', 'intros', 'titles', 'ctas', 'hashtags', 'visuals', 'thumbnails', 'alt_text', 'carousel', 'complete')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      published_at DATETIME,
+      remix_of_project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      llm_provider TEXT,
+      llm_model TEXT,
+      use_performance_examples INTEGER NOT NULL DEFAULT 0
+    `)
+  },
+}
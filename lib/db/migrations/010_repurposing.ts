@@ -0,0 +1,13 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Projects repurposed from another project for a different platform point back at their
+// source, so the original and its variants can be shown together as a family.
+export const repurposing: Migration = {
+  version: 10,
+  name: 'repurposing',
+  up(db: Database.Database) {
+    addColumnIfNotExists(db, 'projects', 'repurposed_from_project_id', 'TEXT REFERENCES projects(id) ON DELETE SET NULL')
+    db.exec('CREATE INDEX IF NOT EXISTS idx_projects_repurposed_from ON projects(repurposed_from_project_id)')
+  },
+}
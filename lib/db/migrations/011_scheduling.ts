@@ -0,0 +1,13 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Planned publish dates, so projects can be laid out on the content calendar and
+// exported as an ICS feed.
+export const scheduling: Migration = {
+  version: 11,
+  name: 'scheduling',
+  up(db: Database.Database) {
+    addColumnIfNotExists(db, 'projects', 'scheduled_at', 'TEXT')
+    db.exec('CREATE INDEX IF NOT EXISTS idx_projects_scheduled_at ON projects(scheduled_at)')
+  },
+}
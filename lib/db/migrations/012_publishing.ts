@@ -0,0 +1,44 @@
+import type Database from 'better-sqlite3'
+import type { Migration } from '../migrator'
+
+// Automatic publishing: one job per project handing the post to a publisher at its planned
+// time, and a log of every attempt so failures can be retried and inspected.
+export const publishing: Migration = {
+  version: 12,
+  name: 'publishing',
+  up(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE publish_jobs (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        publisher TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        next_attempt_at DATETIME NOT NULL,
+        last_error TEXT,
+        external_url TEXT,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL
+      );
+
+      CREATE INDEX idx_publish_jobs_due ON publish_jobs(status, next_attempt_at);
+
+      CREATE TABLE publish_attempts (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL REFERENCES publish_jobs(id) ON DELETE CASCADE,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        publisher TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+        external_id TEXT,
+        external_url TEXT,
+        error TEXT,
+        started_at DATETIME NOT NULL,
+        finished_at DATETIME NOT NULL
+      );
+
+      CREATE INDEX idx_publish_attempts_project ON publish_attempts(project_id, started_at);
+    `)
+  },
+}
@@ -0,0 +1,49 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Sources split into passages with a full-text (FTS5) index, so prompts get the passages
+// relevant to the request instead of the first few thousand characters of every source.
+// Outputs and assistant messages record which passages they were given.
+export const sourceChunks: Migration = {
+  version: 14,
+  name: 'source_chunks',
+  up(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE source_chunks (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL REFERENCES project_sources(id) ON DELETE CASCADE,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        chunk_index INTEGER NOT NULL,
+        heading TEXT NOT NULL DEFAULT '',
+        content TEXT NOT NULL,
+        char_start INTEGER NOT NULL,
+        char_end INTEGER NOT NULL,
+        embedding TEXT,
+        embedding_model TEXT,
+        created_at DATETIME NOT NULL
+      );
+
+      CREATE INDEX idx_source_chunks_source ON source_chunks(source_id, chunk_index);
+      CREATE INDEX idx_source_chunks_project ON source_chunks(project_id);
+
+      CREATE VIRTUAL TABLE source_chunks_fts USING fts5(
+        heading,
+        content,
+        chunk_id UNINDEXED,
+        tokenize = 'porter unicode61'
+      );
+
+      -- The index follows the table, including cascaded deletes of sources and projects
+      CREATE TRIGGER source_chunks_fts_insert AFTER INSERT ON source_chunks BEGIN
+        INSERT INTO source_chunks_fts (heading, content, chunk_id) VALUES (new.heading, new.content, new.id);
+      END;
+
+      CREATE TRIGGER source_chunks_fts_delete AFTER DELETE ON source_chunks BEGIN
+        DELETE FROM source_chunks_fts WHERE chunk_id = old.id;
+      END;
+    `)
+
+    addColumnIfNotExists(db, 'outputs', 'source_chunks_used', "TEXT NOT NULL DEFAULT '[]'")
+    addColumnIfNotExists(db, 'messages', 'source_chunks', 'TEXT')
+  },
+}
@@ -0,0 +1,19 @@
+import type Database from 'better-sqlite3'
+import type { Migration } from '../migrator'
+
+// The latest claim check for each project: every factual claim found in its content, how
+// the sources and research bear on it, and a signature of the content that was checked.
+export const claimVerifications: Migration = {
+  version: 15,
+  name: 'claim_verifications',
+  up(db: Database.Database) {
+    db.exec(`
+      CREATE TABLE claim_verifications (
+        project_id TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+        claims TEXT NOT NULL DEFAULT '[]',
+        content_signature TEXT NOT NULL,
+        checked_at DATETIME NOT NULL
+      );
+    `)
+  },
+}
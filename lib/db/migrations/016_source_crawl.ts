@@ -0,0 +1,13 @@
+import type Database from 'better-sqlite3'
+import { addColumnIfNotExists, type Migration } from '../migrator'
+
+// Crawled sites: each page is its own source, grouped under the source for the site it was
+// crawled from. Deleting that source deletes its pages.
+export const sourceCrawl: Migration = {
+  version: 16,
+  name: 'source_crawl',
+  up(db: Database.Database) {
+    addColumnIfNotExists(db, 'project_sources', 'parent_source_id', 'TEXT REFERENCES project_sources(id) ON DELETE CASCADE')
+    db.exec('CREATE INDEX IF NOT EXISTS idx_project_sources_parent ON project_sources(parent_source_id)')
+  },
+}
@@ -0,0 +1,60 @@
+import type Database from 'better-sqlite3'
+import { rebuildTable, type Migration } from '../migrator'
+
+// The passage index deleted its rows by an unindexed chunk_id, which scanned the whole index
+// for every deleted passage. Passages now get an integer key (kept through VACUUM, unlike a
+// bare rowid) and the index reads its text from source_chunks by that key, so the triggers
+// delete index rows directly.
+export const sourceChunksFtsRowid: Migration = {
+  version: 17,
+  name: 'source_chunks_fts_rowid',
+  rebuildsTables: true,
+  up(db: Database.Database) {
+    db.exec(`
+      DROP TRIGGER IF EXISTS source_chunks_fts_insert;
+      DROP TRIGGER IF EXISTS source_chunks_fts_delete;
+      DROP TABLE IF EXISTS source_chunks_fts;
+    `)
+
+    rebuildTable(db, 'source_chunks', `
+      seq INTEGER PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      source_id TEXT NOT NULL REFERENCES project_sources(id) ON DELETE CASCADE,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      chunk_index INTEGER NOT NULL,
+      heading TEXT NOT NULL DEFAULT '',
+      content TEXT NOT NULL,
+      char_start INTEGER NOT NULL,
+      char_end INTEGER NOT NULL,
+      embedding TEXT,
+      embedding_model TEXT,
+      created_at DATETIME NOT NULL
+    `)
+
+    db.exec(`
+      CREATE VIRTUAL TABLE source_chunks_fts USING fts5(
+        heading,
+        content,
+        content = 'source_chunks',
+        content_rowid = 'seq',
+        tokenize = 'porter unicode61'
+      );
+
+      -- The index follows the table, including cascaded deletes of sources and projects
+      CREATE TRIGGER source_chunks_fts_insert AFTER INSERT ON source_chunks BEGIN
+        INSERT INTO source_chunks_fts (rowid, heading, content) VALUES (new.seq, new.heading, new.content);
+      END;
+
+      CREATE TRIGGER source_chunks_fts_delete AFTER DELETE ON source_chunks BEGIN
+        INSERT INTO source_chunks_fts (source_chunks_fts, rowid, heading, content) VALUES ('delete', old.seq, old.heading, old.content);
+      END;
+
+      CREATE TRIGGER source_chunks_fts_update AFTER UPDATE OF heading, content ON source_chunks BEGIN
+        INSERT INTO source_chunks_fts (source_chunks_fts, rowid, heading, content) VALUES ('delete', old.seq, old.heading, old.content);
+        INSERT INTO source_chunks_fts (rowid, heading, content) VALUES (new.seq, new.heading, new.content);
+      END;
+
+      INSERT INTO source_chunks_fts (source_chunks_fts) VALUES ('rebuild');
+    `)
+  },
+}
@@ -0,0 +1,21 @@
+import type Database from 'better-sqlite3'
+import type { Migration } from '../migrator'
+
+// Rows written before metric history existed carry SQLite's CURRENT_TIMESTAMP format
+// ("YYYY-MM-DD HH:MM:SS", UTC), which sorts before any ISO string from the same day.
+// Rewrite them as ISO so ORDER BY recorded_at picks the real latest snapshot.
+const LEGACY_TIMESTAMP = '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9] [0-9][0-9]:[0-9][0-9]:[0-9][0-9]*'
+
+export const isoRecordedAt: Migration = {
+  version: 18,
+  name: 'iso_recorded_at',
+  up(db: Database.Database) {
+    for (const table of ['metric_snapshots', 'performance_notes']) {
+      db.prepare(`
+        UPDATE ${table}
+        SET recorded_at = strftime('%Y-%m-%dT%H:%M:%fZ', recorded_at)
+        WHERE recorded_at GLOB ?
+      `).run(LEGACY_TIMESTAMP)
+    }
+  },
+}
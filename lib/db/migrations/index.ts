@@ -0,0 +1,43 @@
+// Schema migrations, in version order. Add new migrations to the end of this list
+// as NNN_description.ts; never edit or renumber one that has shipped.
+
+import type { Migration } from '../migrator'
+import { initialSchema } from './001_initial_schema'
+import { rebuildLegacyTables } from './002_rebuild_legacy_tables'
+import { sessionsToProjects } from './003_sessions_to_projects'
+import { metricSnapshots } from './004_metric_snapshots'
+import { generationExamples } from './005_generation_examples'
+import { xThreads } from './006_x_threads'
+import { instagramThreads } from './007_instagram_threads'
+import { newsletters } from './008_newsletters'
+import { customPlatforms } from './009_custom_platforms'
+import { repurposing } from './010_repurposing'
+import { scheduling } from './011_scheduling'
+import { publishing } from './012_publishing'
+import { webhooks } from './013_webhooks'
+import { sourceChunks } from './014_source_chunks'
+import { claimVerifications } from './015_claim_verifications'
+import { sourceCrawl } from './016_source_crawl'
+import { sourceChunksFtsRowid } from './017_source_chunks_fts_rowid'
+import { isoRecordedAt } from './018_iso_recorded_at'
+
+export const migrations: Migration[] = [
+  initialSchema,
+  rebuildLegacyTables,
+  sessionsToProjects,
+  metricSnapshots,
+  generationExamples,
+  xThreads,
+  instagramThreads,
+  newsletters,
+  customPlatforms,
+  repurposing,
+  scheduling,
+  publishing,
+  webhooks,
+  sourceChunks,
+  claimVerifications,
+  sourceCrawl,
+  sourceChunksFtsRowid,
+  isoRecordedAt,
+]
@@ -0,0 +1,242 @@
+import type Database from 'better-sqlite3'
+
+// Versioned schema migrations
+//
+// Each migration runs in its own transaction and is recorded in schema_migrations,
+// so it is applied exactly once. Transactions take the write lock up front (BEGIN
+// IMMEDIATE) and re-check schema_migrations, so processes migrating the same file at
+// once don't race. Migrations are append-only: never edit one that has shipped, add
+// a new version instead.
+
+export interface Migration {
+  version: number
+  name: string
+  // Set for migrations that rebuild tables (e.g. to change a CHECK constraint).
+  // Foreign keys are switched off while they run so DROP TABLE can't cascade,
+  // and PRAGMA foreign_key_check must pass before the transaction commits.
+  rebuildsTables?: boolean
+  up(db: Database.Database): void
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  applied_at: string
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[]
+  pending: Migration[]
+  // Versions recorded in the database that this build doesn't know about (database is newer than the code)
+  unknown: AppliedMigration[]
+}
+
+export interface MigrationRunResult {
+  applied: Migration[]
+  dryRun: boolean
+}
+
+// Thrown inside the transaction to roll back a dry run
+class DryRunRollback extends Error {}
+
+function ensureMigrationsTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+}
+
+function validateMigrations(migrations: Migration[]) {
+  const seen = new Set<number>()
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= 0) {
+      throw new Error(`Invalid migration version: ${migration.version} (${migration.name})`)
+    }
+    if (seen.has(migration.version)) {
+      throw new Error(`Duplicate migration version: ${migration.version}`)
+    }
+    seen.add(migration.version)
+  }
+}
+
+/**
+ * Compare the migrations recorded in the database with the ones in the code
+ */
+export function getMigrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus {
+  validateMigrations(migrations)
+  ensureMigrationsTable(db)
+
+  const applied = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    .all() as AppliedMigration[]
+  const appliedVersions = new Set(applied.map(m => m.version))
+  const knownVersions = new Set(migrations.map(m => m.version))
+
+  return {
+    applied,
+    pending: migrations
+      .filter(m => !appliedVersions.has(m.version))
+      .sort((a, b) => a.version - b.version),
+    unknown: applied.filter(m => !knownVersions.has(m.version)),
+  }
+}
+
+function checkForeignKeys(db: Database.Database, migration: Migration) {
+  const violations = db.pragma('foreign_key_check') as unknown[]
+  if (violations.length > 0) {
+    throw new Error(`Migration ${migration.version} (${migration.name}) left ${violations.length} foreign key violation(s)`)
+  }
+}
+
+function isApplied(db: Database.Database, migration: Migration): boolean {
+  return db.prepare('SELECT 1 FROM schema_migrations WHERE version = ?').get(migration.version) !== undefined
+}
+
+function recordMigration(db: Database.Database, migration: Migration) {
+  db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name)
+}
+
+function describeFailure(migration: Migration, error: unknown): Error {
+  return new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`)
+}
+
+// Run a callback with foreign key enforcement off (it can't be changed inside a transaction)
+function withForeignKeysOff<T>(db: Database.Database, fn: () => T): T {
+  const wasOn = db.pragma('foreign_keys', { simple: true }) === 1
+  if (wasOn) db.pragma('foreign_keys = OFF')
+  try {
+    return fn()
+  } finally {
+    if (wasOn) db.pragma('foreign_keys = ON')
+  }
+}
+
+// Returns false when another process applied the migration first
+function applyMigration(db: Database.Database, migration: Migration): boolean {
+  const run = db.transaction(() => {
+    if (isApplied(db, migration)) return false
+    migration.up(db)
+    if (migration.rebuildsTables) checkForeignKeys(db, migration)
+    recordMigration(db, migration)
+    return true
+  })
+
+  try {
+    if (migration.rebuildsTables) {
+      return withForeignKeysOff(db, () => run.immediate())
+    }
+    return run.immediate()
+  } catch (error) {
+    throw describeFailure(migration, error)
+  }
+}
+
+// Run every pending migration in a single transaction and roll it back.
+// Foreign keys stay off throughout (rebuilds need that), so integrity is checked after each step instead.
+function dryRunMigrations(db: Database.Database, pending: Migration[]) {
+  const run = db.transaction(() => {
+    for (const migration of pending) {
+      if (isApplied(db, migration)) continue
+      try {
+        migration.up(db)
+        checkForeignKeys(db, migration)
+        recordMigration(db, migration)
+      } catch (error) {
+        throw describeFailure(migration, error)
+      }
+    }
+    throw new DryRunRollback()
+  })
+
+  try {
+    withForeignKeysOff(db, () => run.immediate())
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error
+  }
+}
+
+/**
+ * Apply all pending migrations in version order.
+ * With dryRun, the pending migrations are executed and then rolled back, so
+ * failures surface without changing the database.
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[],
+  options: { dryRun?: boolean } = {}
+): MigrationRunResult {
+  const dryRun = options.dryRun ?? false
+  const { pending } = getMigrationStatus(db, migrations)
+
+  if (dryRun) {
+    if (pending.length > 0) dryRunMigrations(db, pending)
+    return { applied: pending, dryRun }
+  }
+
+  // pending is only a candidate list: each migration re-checks under the write lock
+  const applied = pending.filter(migration => applyMigration(db, migration))
+
+  return { applied, dryRun }
+}
+
+/**
+ * Rebuild a table with a new definition, keeping its rows, indexes and triggers.
+ * This is how SQLite changes CHECK/UNIQUE/NOT NULL constraints, which ALTER TABLE can't.
+ *
+ * `definition` is the column and constraint list (the part inside CREATE TABLE's parentheses).
+ * Columns present in both the old and new table are copied as-is; `expressions` maps new
+ * column names to SQL expressions over the old table (for renamed or transformed columns).
+ * Only call this from a migration with `rebuildsTables: true`.
+ */
+export function rebuildTable(
+  db: Database.Database,
+  table: string,
+  definition: string,
+  expressions: Record<string, string> = {}
+) {
+  const tempTable = `${table}__rebuild`
+  const oldColumns = new Set(
+    (db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]).map(col => col.name)
+  )
+  if (oldColumns.size === 0) {
+    throw new Error(`Cannot rebuild missing table: ${table}`)
+  }
+
+  // Explicit indexes and triggers are dropped along with the table; re-create them afterwards
+  const dependents = db.prepare(`
+    SELECT sql FROM sqlite_master
+    WHERE tbl_name = ? AND type IN ('index', 'trigger') AND sql IS NOT NULL
+  `).all(table) as { sql: string }[]
+
+  db.exec(`CREATE TABLE "${tempTable}" (${definition})`)
+
+  const newColumns = (db.prepare(`PRAGMA table_info("${tempTable}")`).all() as { name: string }[])
+    .map(col => col.name)
+  const copied = newColumns.filter(col => col in expressions || oldColumns.has(col))
+
+  if (copied.length > 0) {
+    const targetList = copied.map(col => `"${col}"`).join(', ')
+    const selectList = copied.map(col => expressions[col] ?? `"${col}"`).join(', ')
+    db.exec(`INSERT INTO "${tempTable}" (${targetList}) SELECT ${selectList} FROM "${table}"`)
+  }
+
+  db.exec(`DROP TABLE "${table}"`)
+  db.exec(`ALTER TABLE "${tempTable}" RENAME TO "${table}"`)
+
+  for (const { sql } of dependents) {
+    db.exec(sql)
+  }
+}
+
+/**
+ * Add a column unless it already exists (for migrations that must also run
+ * against databases created before versioned migrations existed)
+ */
+export function addColumnIfNotExists(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE "${table}" ADD COLUMN ${column} ${definition}`)
+  }
+}
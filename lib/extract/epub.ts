@@ -0,0 +1,56 @@
+// EPUB books to Markdown: chapters in reading (spine) order, each through the HTML converter
+
+import JSZip from 'jszip'
+import { decodeEntities, htmlToMarkdown } from './html'
+
+function directoryOf(path: string): string {
+  return path.includes('/') ? path.substring(0, path.lastIndexOf('/') + 1) : ''
+}
+
+/**
+ * Every chapter of the book as Markdown, with the title from its package metadata
+ */
+export async function extractEpub(data: Buffer): Promise<{ title: string | null; content: string }> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    throw new Error('Not a valid EPUB file')
+  }
+  const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(null)
+
+  // The container names the package (OPF) file, which lists the chapters
+  const container = await read('META-INF/container.xml')
+  const packagePath = container?.match(/<rootfile\b[^>]*\bfull-path="([^"]+)"/)?.[1]
+  const packageXml = packagePath ? await read(packagePath) : null
+  if (!packagePath || !packageXml) {
+    throw new Error('Not a valid EPUB file')
+  }
+
+  const baseDir = directoryOf(packagePath)
+  const manifest = new Map<string, { href: string; mediaType: string }>()
+  for (const match of Array.from(packageXml.matchAll(/<item\b[^>]*>/g))) {
+    const id = match[0].match(/\bid="([^"]+)"/)?.[1]
+    const href = match[0].match(/\bhref="([^"]+)"/)?.[1]
+    const mediaType = match[0].match(/\bmedia-type="([^"]+)"/)?.[1] || ''
+    if (id && href) manifest.set(id, { href: decodeURIComponent(decodeEntities(href)), mediaType })
+  }
+
+  const chapters: string[] = []
+  for (const match of Array.from(packageXml.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"[^>]*>/g))) {
+    // Non-linear items (pop-up notes and the like) aren't part of the reading order
+    if (/\blinear="no"/.test(match[0])) continue
+    const item = manifest.get(match[1])
+    if (!item || !/html/.test(item.mediaType)) continue
+
+    const html = await read(baseDir + item.href)
+    const markdown = html ? htmlToMarkdown(html) : ''
+    if (markdown) chapters.push(markdown)
+  }
+
+  const title = packageXml.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1]
+  return {
+    title: title ? decodeEntities(title).trim() || null : null,
+    content: chapters.join('\n\n'),
+  }
+}
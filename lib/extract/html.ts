@@ -0,0 +1,134 @@
+// HTML to Markdown for extracted sources: keeps headings, lists, quotes and tables so the
+// text injected into prompts keeps its outline. Pages and EPUB chapters both go through here.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘',
+  rdquo: '”', ldquo: '“', bull: '•', copy: '©', reg: '®', trade: '™',
+}
+
+/**
+ * Decode numeric and common named entities (XML's five included)
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (match, name: string) => NAMED_ENTITIES[name.toLowerCase()] ?? match)
+}
+
+function removeElements(html: string, tags: string[]): string {
+  return tags.reduce(
+    (text, tag) => text.replace(new RegExp(`<${tag}\\b[^<]*(?:(?!<\\/${tag}>)<[^<]*)*<\\/${tag}>`, 'gi'), ''),
+    html
+  )
+}
+
+// Inline text of a fragment: tags dropped, entities decoded, whitespace collapsed
+function inlineText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim()
+}
+
+function tableToMarkdown(tableHtml: string): string {
+  const rows = Array.from(tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)).map(row =>
+    Array.from(row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(cell => inlineText(cell[1]).replace(/\|/g, '\\|'))
+  ).filter(row => row.length > 0)
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map(row => row.length))
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n')
+}
+
+/**
+ * Convert an HTML page or fragment to Markdown. Page chrome (scripts, navigation, headers,
+ * footers, asides) is dropped and, when present, only the <article> or <main> is kept.
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = removeElements(html, ['script', 'style', 'noscript', 'nav', 'footer', 'header', 'aside', 'form', 'svg'])
+    .replace(/<!--[\s\S]*?-->/g, '')
+
+  const articleMatch = text.match(/<article[^>]*>([\s\S]*?)<\/article>/i)
+  const mainMatch = text.match(/<main[^>]*>([\s\S]*?)<\/main>/i)
+  const bodyMatch = text.match(/<body[^>]*>([\s\S]*?)<\/body>/i)
+  text = articleMatch?.[1] ?? mainMatch?.[1] ?? bodyMatch?.[1] ?? text
+
+  text = text
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => `\n\n${tableToMarkdown(table)}\n\n`)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, heading: string) => {
+      const title = inlineText(heading)
+      return title ? `\n\n${'#'.repeat(Number(level))} ${title}\n\n` : '\n\n'
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, quote: string) =>
+      `\n\n> ${inlineText(quote)}\n\n`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|ul|ol|dl|dt|dd|pre|figure|figcaption|tr)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n- *\n+/g, '\n- ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * The page title: og:title, then <title>, then the first <h1>
+ */
+export function extractTitleFromHtml(html: string): string | null {
+  const ogMatch = html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i)
+  if (ogMatch) return decodeEntities(ogMatch[1])
+
+  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
+  if (titleMatch?.[1].trim()) return decodeEntities(titleMatch[1].trim())
+
+  const h1Match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)
+  if (h1Match) return inlineText(h1Match[1]) || null
+
+  return null
+}
+
+/**
+ * Absolute http(s) URLs of a page's links, resolved against its <base> or URL, without
+ * fragments or repeats. rel="nofollow" links are left out.
+ */
+export function extractLinksFromHtml(html: string, pageUrl: string): string[] {
+  const baseMatch = html.match(/<base\b[^>]*href\s*=\s*["']([^"']+)["']/i)
+  let base = pageUrl
+  try {
+    if (baseMatch) base = new URL(decodeEntities(baseMatch[1]), pageUrl).href
+  } catch {
+    // A broken <base> is ignored
+  }
+
+  const links = new Set<string>()
+  for (const match of Array.from(html.matchAll(/<a\b([^>]*)>/gi))) {
+    const attributes = match[1]
+    if (/\brel\s*=\s*["'][^"']*\bnofollow\b/i.test(attributes)) continue
+    const href = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i)
+    if (!href) continue
+
+    try {
+      const url = new URL(decodeEntities((href[1] ?? href[2] ?? href[3]).trim()), base)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue
+      url.hash = ''
+      links.add(url.href)
+    } catch {
+      // Not a URL
+    }
+  }
+  return Array.from(links)
+}
+
+/**
+ * The page's <meta name="robots"> directives, lowercased (e.g. "noindex", "nofollow")
+ */
+export function extractRobotsDirectives(html: string): string[] {
+  return Array.from(html.matchAll(/<meta\b[^>]*>/gi))
+    .map(match => match[0])
+    .filter(tag => /\bname\s*=\s*["']?robots["']?/i.test(tag))
+    .flatMap(tag => (tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1] ?? '').toLowerCase().split(/\s*,\s*/))
+    .filter(Boolean)
+}
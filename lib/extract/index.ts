@@ -0,0 +1,124 @@
+// Text extraction for project sources. Every format comes out as Markdown so headings, lists
+// and tables survive into the prompts; the per-format converters live alongside this file.
+
+import { parseCsv } from '@/lib/csv'
+import { countWords } from '@/lib/utils'
+import { SOURCE_FILE_EXTENSIONS, type SourceFileExtension } from '@/types'
+import { extractEpub } from './epub'
+import { extractDocx, extractPptx } from './office'
+import { extractTitleFromHtml, htmlToMarkdown } from './html'
+
+export { extractLinksFromHtml, extractRobotsDirectives, extractTitleFromHtml, htmlToMarkdown } from './html'
+export { extractFromPage, extractFromUrl, fetchPage, parseWebUrl, USER_AGENT, type FetchedPage } from './url'
+
+export interface ExtractedSource {
+  title: string
+  content: string
+  word_count: number
+}
+
+const MIME_TYPES: Record<string, SourceFileExtension> = {
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/epub+zip': 'epub',
+  'text/csv': 'csv',
+}
+
+// The extension decides; the MIME type is the fallback for names without a known one
+function detectFileType(filename: string, mimeType: string): SourceFileExtension | null {
+  const ext = filename.toLowerCase().split('.').pop() || ''
+  if ((SOURCE_FILE_EXTENSIONS as readonly string[]).includes(ext)) return ext as SourceFileExtension
+  const type = mimeType.split(';')[0].trim().toLowerCase()
+  return MIME_TYPES[type] ?? null
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  try {
+    // Dynamic import to avoid issues if pdf-parse has initialization side effects
+    const { PDFParse } = await import('pdf-parse')
+    const parser = new PDFParse({ data: buffer })
+    const pdfData = await parser.getText()
+    const content = pdfData.text
+
+    if (!content.trim()) {
+      throw new Error('PDF appears to be image-only or contains no extractable text')
+    }
+    return content
+  } catch (err) {
+    if (err instanceof Error && err.message.includes('image-only')) {
+      throw err
+    }
+    throw new Error(`Failed to parse PDF: ${err instanceof Error ? err.message : 'Unknown error'}`)
+  }
+}
+
+// A CSV as a Markdown table, first row as the header
+function csvToMarkdown(text: string): string {
+  const rows = parseCsv(text).filter(row => row.some(cell => cell.trim()))
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map(row => row.length))
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (cells[i] || '').replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')).join(' | ')} |`
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n')
+}
+
+/**
+ * Extract the text of an uploaded file as Markdown. The title falls back to the file name
+ * when the document doesn't carry one.
+ */
+export async function extractFromFile(buffer: Buffer, filename: string, mimeType: string): Promise<ExtractedSource> {
+  const type = detectFileType(filename, mimeType)
+  const fallbackTitle = filename.replace(/\.[^.]+$/, '')
+  let title: string | null = null
+  let content: string
+
+  switch (type) {
+    case 'txt':
+    case 'md':
+      content = buffer.toString('utf-8')
+      break
+    case 'pdf':
+      content = await extractPdf(buffer)
+      break
+    case 'docx':
+      ({ title, content } = await extractDocx(buffer))
+      break
+    case 'pptx':
+      ({ title, content } = await extractPptx(buffer))
+      break
+    case 'html':
+    case 'htm': {
+      const html = buffer.toString('utf-8')
+      title = extractTitleFromHtml(html)
+      content = htmlToMarkdown(html)
+      break
+    }
+    case 'epub':
+      ({ title, content } = await extractEpub(buffer))
+      break
+    case 'csv':
+      content = csvToMarkdown(buffer.toString('utf-8'))
+      break
+    default: {
+      const ext = filename.toLowerCase().split('.').pop()
+      const supported = SOURCE_FILE_EXTENSIONS.map(e => `.${e}`).join(', ')
+      throw new Error(`Unsupported file type: ${ext || mimeType}. Supported: ${supported}`)
+    }
+  }
+
+  if (type !== 'txt' && type !== 'md' && !content.trim()) {
+    throw new Error(`No text could be extracted from ${filename}`)
+  }
+
+  return {
+    title: title || fallbackTitle,
+    content: type === 'txt' || type === 'md' ? content : content.trim(),
+    word_count: countWords(content),
+  }
+}
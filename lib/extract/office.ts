@@ -0,0 +1,226 @@
+// Word and PowerPoint files (Office Open XML zips) to Markdown. Word heading styles become
+// Markdown headings; each slide becomes a section with its text and speaker notes.
+
+import JSZip from 'jszip'
+import { decodeEntities } from './html'
+
+type ReadFile = (path: string) => Promise<string | null>
+
+async function openPackage(data: Buffer, kind: string): Promise<ReadFile> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    throw new Error(`Not a valid ${kind} file`)
+  }
+  return (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(null)
+}
+
+/**
+ * The document title from docProps/core.xml, if the author set one
+ */
+async function readCoreTitle(read: ReadFile): Promise<string | null> {
+  const core = await read('docProps/core.xml')
+  const title = core?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1]
+  return title ? decodeEntities(title).trim() || null : null
+}
+
+// Relationship id -> target path, resolved against the part's folder
+function readRelationships(relsXml: string | null, baseDir: string): Map<string, string> {
+  const targets = new Map<string, string>()
+  for (const match of Array.from((relsXml || '').matchAll(/<Relationship\b[^>]*>/g))) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1]
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1]
+    if (id && target) targets.set(id, resolvePath(baseDir, target))
+  }
+  return targets
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = baseDir.split('/').filter(Boolean)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+// ============================================
+// DOCX
+// ============================================
+
+// Text of a <w:p>: runs joined, tabs and breaks kept
+function wordParagraphText(paragraphXml: string): string {
+  return Array.from(paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g))
+    .map(match => match[2] === 'tab' ? '\t' : match[2] ? '\n' : decodeEntities(match[1]))
+    .join('')
+    .trim()
+}
+
+// "Heading2" -> 2, "Title" -> 1; custom styles based on headings are named like them
+function headingLevel(paragraphXml: string): number | null {
+  const style = paragraphXml.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1]
+  const outline = paragraphXml.match(/<w:outlineLvl\s+w:val="(\d)"/)?.[1]
+  if (style && /^title$/i.test(style)) return 1
+  const level = style?.match(/^heading\s*(\d)$/i)?.[1] ?? (outline !== undefined ? String(Number(outline) + 1) : undefined)
+  return level ? Math.min(Number(level), 6) : null
+}
+
+function wordTableToMarkdown(tableXml: string): string {
+  const rows = Array.from(tableXml.matchAll(/<w:tr\b[^>]*>([\s\S]*?)<\/w:tr>/g)).map(row =>
+    Array.from(row[1].matchAll(/<w:tc\b[^>]*>([\s\S]*?)<\/w:tc>/g)).map(cell =>
+      Array.from(cell[1].matchAll(/<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g)).map(p => wordParagraphText(p[1])).filter(Boolean).join(' ').replace(/\|/g, '\\|')
+    )
+  ).filter(row => row.length > 0)
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map(row => row.length))
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n')
+}
+
+/**
+ * A Word document's body as Markdown: headings, list items and tables in document order
+ */
+export async function extractDocx(data: Buffer): Promise<{ title: string | null; content: string }> {
+  const read = await openPackage(data, 'Word')
+  const documentXml = await read('word/document.xml')
+  if (!documentXml) {
+    throw new Error('Not a valid Word file')
+  }
+
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || documentXml
+  const blocks: string[] = []
+  let title: string | null = null
+
+  // Top-level tables and paragraphs in order; paragraphs inside tables are handled by the table
+  for (const match of Array.from(body.matchAll(/<w:tbl\b[^>]*>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*?(?:\/>|>[\s\S]*?<\/w:p>)/g))) {
+    const xml = match[0]
+    if (xml.startsWith('<w:tbl')) {
+      const table = wordTableToMarkdown(xml)
+      if (table) blocks.push(table)
+      continue
+    }
+
+    const text = wordParagraphText(xml)
+    if (!text) continue
+
+    const level = headingLevel(xml)
+    if (level) {
+      if (!title && level === 1) title = text
+      blocks.push(`${'#'.repeat(level)} ${text.replace(/\s+/g, ' ')}`)
+    } else if (/<w:numPr>/.test(xml)) {
+      const depth = Number(xml.match(/<w:ilvl\s+w:val="(\d)"/)?.[1] || 0)
+      blocks.push(`${'  '.repeat(depth)}- ${text}`)
+    } else {
+      blocks.push(text)
+    }
+  }
+
+  // Consecutive list items stay together as one list
+  const content = blocks.reduce((out, block, i) => {
+    const joinsList = i > 0 && /^\s*- /.test(block) && /^\s*- /.test(blocks[i - 1])
+    return out + (i === 0 ? '' : joinsList ? '\n' : '\n\n') + block
+  }, '')
+
+  return { title: (await readCoreTitle(read)) || title, content }
+}
+
+// ============================================
+// PPTX
+// ============================================
+
+interface SlideText {
+  title: string | null
+  lines: string[]
+}
+
+// Placeholder types that aren't content: slide numbers, dates, footers, the notes page's slide image
+const SKIPPED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg']
+
+function readShapes(slideXml: string): SlideText {
+  let title: string | null = null
+  const lines: string[] = []
+
+  for (const shape of Array.from(slideXml.matchAll(/<p:sp\b[^>]*>([\s\S]*?)<\/p:sp>/g))) {
+    const placeholder = shape[1].match(/<p:ph\b[^>]*>/)?.[0]
+    // A placeholder without a type is a body placeholder
+    const placeholderType = placeholder ? placeholder.match(/\btype="([^"]+)"/)?.[1] || 'body' : null
+    if (placeholderType && SKIPPED_PLACEHOLDERS.includes(placeholderType)) continue
+
+    const paragraphs = Array.from(shape[1].matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)).map(p => ({
+      text: Array.from(p[1].matchAll(/<a:t>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g))
+        .map(run => run[1] !== undefined ? decodeEntities(run[1]) : '\n')
+        .join('')
+        .trim(),
+      level: Number(p[1].match(/<a:pPr\b[^>]*\blvl="(\d)"/)?.[1] || 0),
+    })).filter(p => p.text)
+
+    if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !title) {
+      title = paragraphs.map(p => p.text).join(' ').replace(/\s+/g, ' ')
+      continue
+    }
+
+    // Body text is usually bullets; free text boxes are kept as paragraphs
+    const bulleted = placeholderType === 'body' || placeholderType === 'obj'
+    for (const p of paragraphs) {
+      lines.push(bulleted ? `${'  '.repeat(p.level)}- ${p.text}` : p.text)
+    }
+  }
+
+  // Tables on slides
+  for (const table of Array.from(slideXml.matchAll(/<a:tbl>([\s\S]*?)<\/a:tbl>/g))) {
+    for (const row of Array.from(table[1].matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g))) {
+      const cells = Array.from(row[1].matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g))
+        .map(cell => Array.from(cell[1].matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)).map(t => decodeEntities(t[1])).join(' ').trim())
+      if (cells.some(Boolean)) lines.push(`| ${cells.join(' | ')} |`)
+    }
+  }
+
+  return { title, lines }
+}
+
+/**
+ * A slide deck as Markdown: one "## Slide N: title" section per slide, in presentation order,
+ * with its text and then its speaker notes
+ */
+export async function extractPptx(data: Buffer): Promise<{ title: string | null; content: string }> {
+  const read = await openPackage(data, 'PowerPoint')
+  const presentationXml = await read('ppt/presentation.xml')
+  if (!presentationXml) {
+    throw new Error('Not a valid PowerPoint file')
+  }
+
+  const presentationRels = readRelationships(await read('ppt/_rels/presentation.xml.rels'), 'ppt')
+  const slidePaths = Array.from(presentationXml.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+    .map(match => presentationRels.get(match[1]))
+    .filter((path): path is string => !!path)
+
+  const sections: string[] = []
+  let deckTitle: string | null = null
+
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slidePath = slidePaths[i]
+    const slideXml = await read(slidePath)
+    if (!slideXml) continue
+
+    const slide = readShapes(slideXml)
+    if (!deckTitle && slide.title) deckTitle = slide.title
+
+    // Notes are linked from the slide's own relationships
+    const slideDir = slidePath.substring(0, slidePath.lastIndexOf('/'))
+    const slideName = slidePath.substring(slidePath.lastIndexOf('/') + 1)
+    const slideRelsXml = await read(`${slideDir}/_rels/${slideName}.rels`)
+    const notesPath = Array.from(readRelationships(slideRelsXml, slideDir).values()).find(path => /notesSlide\d*\.xml$/.test(path))
+    const notesXml = notesPath ? await read(notesPath) : null
+    const notes = notesXml ? readShapes(notesXml).lines.map(line => line.replace(/^\s*- /, '')) : []
+
+    const parts = [`## Slide ${i + 1}${slide.title ? `: ${slide.title}` : ''}`]
+    if (slide.lines.length > 0) parts.push(slide.lines.join('\n'))
+    if (notes.length > 0) parts.push(`**Speaker notes:**\n\n${notes.join('\n')}`)
+    sections.push(parts.join('\n\n'))
+  }
+
+  return { title: (await readCoreTitle(read)) || deckTitle, content: sections.join('\n\n') }
+}
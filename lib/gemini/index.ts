@@ -1,4 +1,5 @@
 import { GoogleGenAI } from '@google/genai'
+import type { ReferenceImage, ImageGenerationOptions, GeneratedImageResult } from '@/lib/images/types'
 
 // Initialize Google GenAI client
 let ai: GoogleGenAI | null = null
@@ -20,35 +21,16 @@ function getClient(): GoogleGenAI {
   return ai
 }
 
-// Reference image for multimodal input
-export interface ReferenceImage {
-  base64Data: string
-  mimeType: string
-}
-
-// Image generation options
-export interface ImageGenerationOptions {
-  prompt: string
-  sourceImage?: ReferenceImage  // The original image to modify (for refinement/editing)
-  referenceImages?: ReferenceImage[]  // Style/person references for guidance
-  width?: number
-  height?: number
-  numberOfImages?: number
-  negativePrompt?: string
-  aspectRatio?: '1:1' | '3:4' | '4:3' | '9:16' | '16:9'
-}
+// Shared with the other image providers
+export type { ReferenceImage, ImageGenerationOptions, GeneratedImageResult } from '@/lib/images/types'
 
-// Generated image result
-export interface GeneratedImageResult {
-  base64Data: string
-  mimeType: string
-  width: number
-  height: number
-}
+// Nano Banana (Gemini 2.5 Flash Image)
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image'
 
 // Generate an image using Nano Banana (Gemini 2.5 Flash Image)
-export async function generateImage(options: ImageGenerationOptions): Promise<GeneratedImageResult[]> {
+export async function generateImage(options: ImageGenerationOptions & { model?: string }): Promise<GeneratedImageResult[]> {
   const {
+    model = DEFAULT_IMAGE_MODEL,
     prompt,
     sourceImage,
     referenceImages,
@@ -108,9 +90,9 @@ export async function generateImage(options: ImageGenerationOptions): Promise<Ge
     console.log('[Gemini] Using reference images:', referenceImages?.length || 0)
     console.log('[Gemini] Using source image (refinement):', !!sourceImage)
 
-    // Generate the image using Nano Banana (gemini-2.5-flash-image)
+    // Generate the image (Nano Banana unless another Gemini image model is selected)
     const response = await client.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model,
       contents,
       config: {
         responseModalities: ['TEXT', 'IMAGE'],
@@ -0,0 +1,686 @@
+// Generates a project's structured output (hooks, body, CTAs and the rest) with the
+// selected text provider and saves it. Used by /api/outputs and repurposing.
+
+import db from '@/lib/db'
+import { generateId, safeJsonParse } from '@/lib/utils'
+import { SYSTEM_PROMPT, CONTENT_GENERATION_PROMPT } from '@/lib/claude'
+import { generateText, streamText, parsePartialJson, type ModelSelection } from '@/lib/llm'
+import { composeSystemPrompt } from '@/lib/prompts/compose'
+import { selectGenerationExamples, usesPerformanceExamples } from '@/lib/prompts/examples'
+import { fitTweets, splitIntoTweets } from '@/lib/thread'
+import { normalizeHashtagSet } from '@/lib/caption'
+import { getProjectPlatform } from '@/lib/platforms'
+import { normalizeSections, sectionsToMarkdown } from '@/lib/newsletter'
+import { buildRepurposeContext } from '@/lib/repurpose'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { buildGenerationQuery, retrieveSourceChunks, formatSourceChunksForPrompt, toChunkReferences } from '@/lib/sources'
+import { isSearchConfigured, conductResearch, buildResearchContext, formatResearchForPrompt } from '@/lib/search'
+import { formatCitationsForPrompt } from '@/lib/citations'
+import type { Output, Message, VisualConcept, Platform, PlatformDefinition, PlatformFormat, Citation, ResearchContext, SearchResult, GenerationExample, NewsletterSection, SourceChunkReference } from '@/types'
+
+export interface GeneratedContent {
+  hooks: string[]
+  body_content: string
+  thread: string[]
+  newsletter_sections: NewsletterSection[]
+  subject_lines: string[]
+  preview_texts: string[]
+  intros: string[]
+  titles: string[]
+  ctas: string[]
+  hashtag_sets: string[]
+  visual_concepts: VisualConcept[]
+  citations?: Citation[]
+  researchContext?: ResearchContext
+  examples?: GenerationExample[]
+  sourceChunks?: SourceChunkReference[]
+}
+
+export type PartialContent = Partial<Pick<GeneratedContent, 'hooks' | 'body_content' | 'thread' | 'newsletter_sections' | 'subject_lines' | 'preview_texts' | 'intros' | 'titles' | 'ctas' | 'hashtag_sets' | 'visual_concepts'>>
+
+export interface StreamOptions {
+  signal: AbortSignal
+  onPartial: (partial: PartialContent) => void
+}
+
+// Webhook payload: the generated options, without the research and originals
+function emitContentGenerated(output: Output): void {
+  emitProjectEvent('content.generated', output.project_id, {
+    output_id: output.id,
+    content: {
+      hooks: output.hooks,
+      body_content: output.body_content,
+      thread: output.thread,
+      subject_lines: output.subject_lines,
+      intros: output.intros,
+      titles: output.titles,
+      ctas: output.ctas,
+      hashtag_sets: output.hashtag_sets,
+    },
+  })
+}
+
+// Save generated content as the project's output, creating or updating it
+export function saveGeneratedContent(
+  generatedContent: GeneratedContent,
+  topic: string,
+  { projectId, existingOutput }: { projectId: string; existingOutput?: Output }
+): Output {
+  const now = new Date().toISOString()
+
+  // Save research result to database if we have one
+  if (generatedContent.researchContext && generatedContent.citations?.length) {
+    try {
+      const researchId = generateId()
+      const insertResearchStmt = db.prepare(`
+        INSERT INTO research_results (id, project_id, query, results, citations, provider, summary, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      insertResearchStmt.run(
+        researchId,
+        projectId,
+        topic,
+        JSON.stringify(generatedContent.researchContext.searchResults),
+        JSON.stringify(generatedContent.citations),
+        'claude', // Default provider for now
+        generatedContent.researchContext.summary,
+        now
+      )
+    } catch (error) {
+      console.error('Failed to save research results:', error)
+    }
+  }
+
+  if (existingOutput) {
+    // Update existing output
+    const updateStmt = db.prepare(`
+      UPDATE outputs
+      SET hooks = ?, body_content = ?, thread = ?, newsletter_sections = ?, subject_lines = ?, preview_texts = ?,
+          intros = ?, titles = ?, ctas = ?, hashtag_sets = ?, visual_concepts = ?,
+          research_context = ?, citations = ?, examples_used = ?, source_chunks_used = ?, updated_at = ?
+      WHERE project_id = ?
+    `)
+    updateStmt.run(
+      JSON.stringify(generatedContent.hooks),
+      generatedContent.body_content,
+      JSON.stringify(generatedContent.thread),
+      JSON.stringify(generatedContent.newsletter_sections),
+      JSON.stringify(generatedContent.subject_lines),
+      JSON.stringify(generatedContent.preview_texts),
+      JSON.stringify(generatedContent.intros),
+      JSON.stringify(generatedContent.titles),
+      JSON.stringify(generatedContent.ctas),
+      JSON.stringify(generatedContent.hashtag_sets),
+      JSON.stringify(generatedContent.visual_concepts),
+      generatedContent.researchContext ? JSON.stringify(generatedContent.researchContext) : null,
+      JSON.stringify(generatedContent.citations || []),
+      JSON.stringify(generatedContent.examples || []),
+      JSON.stringify(generatedContent.sourceChunks || []),
+      now,
+      projectId
+    )
+
+    const output: Output = {
+      ...existingOutput,
+      hooks: generatedContent.hooks,
+      body_content: generatedContent.body_content,
+      thread: generatedContent.thread,
+      newsletter_sections: generatedContent.newsletter_sections,
+      subject_lines: generatedContent.subject_lines,
+      preview_texts: generatedContent.preview_texts,
+      intros: generatedContent.intros,
+      titles: generatedContent.titles,
+      ctas: generatedContent.ctas,
+      hashtag_sets: generatedContent.hashtag_sets,
+      visual_concepts: generatedContent.visual_concepts,
+      research_context: generatedContent.researchContext,
+      citations: generatedContent.citations,
+      examples_used: generatedContent.examples || [],
+      source_chunks_used: generatedContent.sourceChunks || [],
+      updated_at: now,
+    }
+
+    emitContentGenerated(output)
+    return output
+  } else {
+    // Create new output
+    const outputId = generateId()
+
+    const insertStmt = db.prepare(`
+      INSERT INTO outputs (
+        id, project_id, hooks, hooks_original, body_content, body_content_original,
+        thread, thread_original, newsletter_sections, newsletter_sections_original,
+        subject_lines, subject_lines_original, preview_texts, preview_texts_original,
+        intros, intros_original, titles, titles_original,
+        ctas, ctas_original, hashtag_sets, hashtag_sets_original, visual_concepts, visual_concepts_original,
+        selected_hook_index, selected_body_index, selected_subject_index, selected_preview_index, selected_intro_index,
+        selected_title_index, selected_cta_index, selected_hashtag_index, selected_visual_index,
+        research_context, citations, examples_used, source_chunks_used,
+        created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    insertStmt.run(
+      outputId,
+      projectId,
+      JSON.stringify(generatedContent.hooks),
+      JSON.stringify(generatedContent.hooks),
+      generatedContent.body_content,
+      generatedContent.body_content,
+      JSON.stringify(generatedContent.thread),
+      JSON.stringify(generatedContent.thread),
+      JSON.stringify(generatedContent.newsletter_sections),
+      JSON.stringify(generatedContent.newsletter_sections),
+      JSON.stringify(generatedContent.subject_lines),
+      JSON.stringify(generatedContent.subject_lines),
+      JSON.stringify(generatedContent.preview_texts),
+      JSON.stringify(generatedContent.preview_texts),
+      JSON.stringify(generatedContent.intros),
+      JSON.stringify(generatedContent.intros),
+      JSON.stringify(generatedContent.titles),
+      JSON.stringify(generatedContent.titles),
+      JSON.stringify(generatedContent.ctas),
+      JSON.stringify(generatedContent.ctas),
+      JSON.stringify(generatedContent.hashtag_sets),
+      JSON.stringify(generatedContent.hashtag_sets),
+      JSON.stringify(generatedContent.visual_concepts),
+      JSON.stringify(generatedContent.visual_concepts),
+      -1, // selected_hook_index
+      -1, // selected_body_index
+      -1, // selected_subject_index
+      -1, // selected_preview_index
+      -1, // selected_intro_index
+      -1, // selected_title_index
+      -1, // selected_cta_index
+      -1, // selected_hashtag_index
+      -1, // selected_visual_index
+      generatedContent.researchContext ? JSON.stringify(generatedContent.researchContext) : null,
+      JSON.stringify(generatedContent.citations || []),
+      JSON.stringify(generatedContent.examples || []),
+      JSON.stringify(generatedContent.sourceChunks || []),
+      now,
+      now
+    )
+
+    const output: Output = {
+      id: outputId,
+      project_id: projectId,
+      hooks: generatedContent.hooks,
+      hooks_original: generatedContent.hooks,
+      selected_hook_index: -1,
+      body_content: generatedContent.body_content,
+      body_content_original: generatedContent.body_content,
+      selected_body_index: -1,
+      thread: generatedContent.thread,
+      thread_original: generatedContent.thread,
+      newsletter_sections: generatedContent.newsletter_sections,
+      newsletter_sections_original: generatedContent.newsletter_sections,
+      subject_lines: generatedContent.subject_lines,
+      subject_lines_original: generatedContent.subject_lines,
+      selected_subject_index: -1,
+      preview_texts: generatedContent.preview_texts,
+      preview_texts_original: generatedContent.preview_texts,
+      selected_preview_index: -1,
+      intros: generatedContent.intros,
+      intros_original: generatedContent.intros,
+      selected_intro_index: -1,
+      titles: generatedContent.titles,
+      titles_original: generatedContent.titles,
+      selected_title_index: -1,
+      ctas: generatedContent.ctas,
+      ctas_original: generatedContent.ctas,
+      selected_cta_index: -1,
+      hashtag_sets: generatedContent.hashtag_sets,
+      hashtag_sets_original: generatedContent.hashtag_sets,
+      selected_hashtag_index: -1,
+      visual_concepts: generatedContent.visual_concepts,
+      visual_concepts_original: generatedContent.visual_concepts,
+      selected_visual_index: -1,
+      research_context: generatedContent.researchContext,
+      citations: generatedContent.citations,
+      examples_used: generatedContent.examples || [],
+      source_chunks_used: generatedContent.sourceChunks || [],
+      created_at: now,
+      updated_at: now,
+    }
+
+    emitContentGenerated(output)
+    return output
+  }
+}
+
+// Parse a database output row into an Output object
+export function parseOutputRow(row: Record<string, unknown>): Output {
+  return {
+    id: row.id as string,
+    project_id: row.project_id as string,
+    hooks: safeJsonParse(row.hooks as string, []),
+    hooks_original: safeJsonParse(row.hooks_original as string, []),
+    selected_hook_index: (row.selected_hook_index as number) ?? -1,
+    body_content: row.body_content as string || '',
+    body_content_original: row.body_content_original as string || '',
+    selected_body_index: (row.selected_body_index as number) ?? -1,
+    thread: safeJsonParse(row.thread as string, []),
+    thread_original: safeJsonParse(row.thread_original as string, []),
+    newsletter_sections: safeJsonParse(row.newsletter_sections as string, []),
+    newsletter_sections_original: safeJsonParse(row.newsletter_sections_original as string, []),
+    subject_lines: safeJsonParse(row.subject_lines as string, []),
+    subject_lines_original: safeJsonParse(row.subject_lines_original as string, []),
+    selected_subject_index: (row.selected_subject_index as number) ?? -1,
+    preview_texts: safeJsonParse(row.preview_texts as string, []),
+    preview_texts_original: safeJsonParse(row.preview_texts_original as string, []),
+    selected_preview_index: (row.selected_preview_index as number) ?? -1,
+    intros: safeJsonParse(row.intros as string, []),
+    intros_original: safeJsonParse(row.intros_original as string, []),
+    selected_intro_index: (row.selected_intro_index as number) ?? -1,
+    titles: safeJsonParse(row.titles as string, []),
+    titles_original: safeJsonParse(row.titles_original as string, []),
+    selected_title_index: (row.selected_title_index as number) ?? -1,
+    ctas: safeJsonParse(row.ctas as string, []),
+    ctas_original: safeJsonParse(row.ctas_original as string, []),
+    selected_cta_index: (row.selected_cta_index as number) ?? -1,
+    hashtag_sets: safeJsonParse(row.hashtag_sets as string, []),
+    hashtag_sets_original: safeJsonParse(row.hashtag_sets_original as string, []),
+    selected_hashtag_index: (row.selected_hashtag_index as number) ?? -1,
+    visual_concepts: safeJsonParse(row.visual_concepts as string, []),
+    visual_concepts_original: safeJsonParse(row.visual_concepts_original as string, []),
+    selected_visual_index: (row.selected_visual_index as number) ?? -1,
+    research_context: row.research_context ? safeJsonParse(row.research_context as string, undefined) : undefined,
+    citations: safeJsonParse(row.citations as string, []),
+    examples_used: safeJsonParse(row.examples_used as string, []),
+    source_chunks_used: safeJsonParse(row.source_chunks_used as string, []),
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
+  }
+}
+
+// Get project search settings from database
+function getProjectSearchSettings(projectId: string): { enabled: boolean; provider: 'claude' | 'perplexity' | 'auto'; maxSearches: number } {
+  try {
+    const stmt = db.prepare('SELECT * FROM project_search_settings WHERE project_id = ?')
+    const settings = stmt.get(projectId) as { web_search_enabled: number; search_provider: string; max_searches: number } | undefined
+
+    if (settings) {
+      return {
+        enabled: settings.web_search_enabled === 1,
+        provider: settings.search_provider as 'claude' | 'perplexity' | 'auto',
+        maxSearches: settings.max_searches
+      }
+    }
+  } catch {
+    // Table might not exist or other error, use defaults
+  }
+
+  // Default: web search disabled (can cause timeouts)
+  return { enabled: false, provider: 'claude', maxSearches: 5 }
+}
+
+// Generate structured content using the selected text provider with optional web search
+export async function generateStructuredContent(
+  selection: ModelSelection,
+  contextInfo: { topic: string; platform: Platform; targetAudience?: string; contentStyle?: string },
+  messages: Message[],
+  projectId: string,
+  streamOptions?: StreamOptions
+): Promise<GeneratedContent> {
+  // Get search settings for this project
+  const searchSettings = getProjectSearchSettings(projectId)
+  const useWebSearch = searchSettings.enabled && isSearchConfigured()
+
+  // Conduct research if enabled
+  let researchContext: ResearchContext | undefined
+  let researchSearchResult: SearchResult | undefined
+
+  if (useWebSearch) {
+    try {
+      const researchQuery = contextInfo.targetAudience
+        ? `${contextInfo.topic} - trends, insights, and best practices for ${contextInfo.targetAudience}`
+        : `${contextInfo.topic} - trends, insights, and best practices`
+
+      researchSearchResult = await conductResearch(researchQuery, {
+        enabled: true,
+        provider: searchSettings.provider,
+        maxSearches: searchSettings.maxSearches
+      })
+
+      researchContext = buildResearchContext([researchSearchResult])
+      console.log(`Research conducted: ${researchSearchResult.citations.length} citations found`)
+    } catch (error) {
+      console.error('Research failed, proceeding without:', error)
+    }
+  }
+
+  // Build conversation context
+  const conversationContext = messages.map(m => `${m.role}: ${m.content}`).join('\n\n')
+
+  // Build context description
+  let contextDesc = `Topic: "${contextInfo.topic}"`
+  if (contextInfo.targetAudience) {
+    contextDesc += `\nTarget audience: ${contextInfo.targetAudience}`
+  }
+  if (contextInfo.contentStyle) {
+    contextDesc += `\nContent style/tone: ${contextInfo.contentStyle}`
+  }
+
+  // Add the source passages most relevant to the topic and the latest requests
+  let sourceChunks: SourceChunkReference[] = []
+  try {
+    const chunks = await retrieveSourceChunks(projectId, buildGenerationQuery(contextInfo, messages), 8000)
+    if (chunks.length > 0) {
+      contextDesc += '\n\n--- Reference Materials ---\n'
+      contextDesc += 'Use these sources to inform your content:\n\n'
+      contextDesc += formatSourceChunksForPrompt(chunks) + '\n\n'
+      sourceChunks = toChunkReferences(chunks)
+    }
+
+    const assetsStmt = db.prepare(
+      'SELECT type, filename FROM project_assets WHERE project_id = ?'
+    )
+    const assets = assetsStmt.all(projectId) as { type: string; filename: string }[]
+    if (assets.length > 0) {
+      contextDesc += '\n\n--- Visual References ---\n'
+      contextDesc += 'Reference images provided: '
+      contextDesc += assets.map(a => `${a.filename} (${a.type.replace('_', ' ')})`).join(', ')
+      contextDesc += '\nUse their style/branding in visual concept descriptions.\n'
+    }
+  } catch (err) {
+    console.error('Failed to load project sources:', err)
+  }
+
+  // Projects repurposed from another platform adapt the source's chosen content
+  contextDesc += buildRepurposeContext(projectId)
+
+  // Add research context if available
+  if (researchContext) {
+    contextDesc += formatResearchForPrompt(researchContext)
+  }
+
+  // Few-shot examples from our own top posts and favorites, if the project opted in
+  const examples = usesPerformanceExamples(projectId)
+    ? selectGenerationExamples(projectId, contextInfo.platform)
+    : []
+
+  // The registry supplies what to generate, custom platforms included
+  const platform = getProjectPlatform(contextInfo.platform)
+
+  // Posts and captions mark the sentences that use the research, for footnotes in the exports
+  const citationPrompt = researchSearchResult && (platform.format === 'post' || platform.format === 'caption')
+    ? formatCitationsForPrompt(researchSearchResult.citations)
+    : ''
+
+  const prompt = `${contextDesc}${citationPrompt}
+
+Conversation history:
+${conversationContext || 'No conversation yet.'}
+
+Based on the above context${researchContext ? ' and research findings' : ''}, ${platform.generationPrompt}
+
+${CONTENT_GENERATION_PROMPT}
+
+${researchContext ? 'IMPORTANT: Use the research context provided to make your content factually accurate and up-to-date. Reference specific insights or statistics where relevant.' : ''}
+
+Return your response as a JSON object with this structure:
+{
+  "hooks": ["hook1", "hook2", ...],
+  "body_content": "full body text here",
+  "thread": ["tweet1", "tweet2", ...],
+  "newsletter_sections": [{"heading": "section heading", "summary": "what it covers"}, ...],
+  "subject_lines": ["subject1", "subject2", ...],
+  "preview_texts": ["preview1", "preview2", ...],
+  "intros": ["intro1", "intro2", ...],
+  "titles": ["title1", "title2", ...],
+  "ctas": ["cta1", "cta2", ...],
+  "hashtag_sets": ["#tag1 #tag2 ...", ...],
+  "visual_concepts": [{"description": "visual concept 1"}, ...]
+}
+
+For ${platform.outputFocus}`
+
+  const completionRequest = {
+    maxTokens: 2048,
+    system: composeSystemPrompt(SYSTEM_PROMPT, contextInfo.platform, undefined, examples),
+    messages: [{ role: 'user' as const, content: prompt }],
+    task: 'outputs',
+  }
+
+  let response
+  if (streamOptions) {
+    // Re-parse the accumulated JSON on every delta and push it when it changes
+    let streamedText = ''
+    let lastSent = ''
+    response = await streamText(selection, { ...completionRequest, signal: streamOptions.signal }, (event) => {
+      if (event.type !== 'text') return
+      streamedText += event.text
+      const partial = toPartialContent(parsePartialJson(streamedText))
+      const serialized = JSON.stringify(partial)
+      if (serialized !== lastSent && serialized !== '{}') {
+        lastSent = serialized
+        streamOptions.onPartial(partial)
+      }
+    })
+  } else {
+    response = await generateText(selection, completionRequest)
+  }
+
+  const responseText = response.text
+
+  try {
+    // Try to parse the JSON response
+    // Remove any markdown code blocks if present
+    let jsonStr = responseText.trim()
+    if (jsonStr.startsWith('```json')) {
+      jsonStr = jsonStr.slice(7)
+    } else if (jsonStr.startsWith('```')) {
+      jsonStr = jsonStr.slice(3)
+    }
+    if (jsonStr.endsWith('```')) {
+      jsonStr = jsonStr.slice(0, -3)
+    }
+    jsonStr = jsonStr.trim()
+
+    const parsed = JSON.parse(jsonStr)
+    const { body_content, thread } = normalizeThread(
+      platform.format,
+      parsed.body_content || '',
+      Array.isArray(parsed.thread) ? parsed.thread : []
+    )
+    const isNewsletter = platform.format === 'newsletter'
+    const newsletterSections = isNewsletter ? normalizeSections(parsed.newsletter_sections) : []
+    return {
+      hooks: parsed.hooks || [],
+      // A newsletter's body mirrors its drafted sections, so it starts empty
+      body_content: isNewsletter ? sectionsToMarkdown(newsletterSections) : body_content,
+      thread,
+      newsletter_sections: newsletterSections,
+      subject_lines: isNewsletter && Array.isArray(parsed.subject_lines) ? parsed.subject_lines : [],
+      preview_texts: isNewsletter && Array.isArray(parsed.preview_texts) ? parsed.preview_texts : [],
+      intros: parsed.intros || [],
+      titles: parsed.titles || [],
+      ctas: parsed.ctas || [],
+      hashtag_sets: normalizeHashtagSets(platform, Array.isArray(parsed.hashtag_sets) ? parsed.hashtag_sets : []),
+      visual_concepts: parsed.visual_concepts || [],
+      citations: researchSearchResult?.citations,
+      researchContext,
+      examples,
+      sourceChunks
+    }
+  } catch {
+    // If JSON parsing fails, return a fallback structure
+    console.error('Failed to parse model response as JSON:', responseText)
+    return {
+      ...getDefaultContent(platform.format, responseText),
+      citations: researchSearchResult?.citations,
+      researchContext,
+      examples,
+      sourceChunks
+    }
+  }
+}
+
+// X threads keep to the tweet limit (falling back to splitting the body if the model
+// didn't return tweets), and the body mirrors the thread so word counts and exports work
+function normalizeThread(format: PlatformFormat, bodyContent: string, tweets: string[]): { body_content: string; thread: string[] } {
+  if (format !== 'thread') return { body_content: bodyContent, thread: [] }
+  const thread = fitTweets(tweets.filter(tweet => typeof tweet === 'string'))
+  const fitted = thread.length > 0 ? thread : splitIntoTweets(bodyContent)
+  return { body_content: fitted.join('\n\n'), thread: fitted }
+}
+
+// Only caption platforms use hashtag sets; clean each up and cut it to the platform's limit
+function normalizeHashtagSets(platform: PlatformDefinition, sets: unknown[]): string[] {
+  if (platform.format !== 'caption') return []
+  const normalized = sets
+    .filter((set): set is string => typeof set === 'string')
+    .map(set => normalizeHashtagSet(set, platform.hashtagLimit))
+    .filter(Boolean)
+  return normalized.filter((set, index) => normalized.indexOf(set) === index)
+}
+
+// Keep only well-formed fields from a partially parsed response
+function toPartialContent(value: unknown): PartialContent {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+
+  const parsed = value as Record<string, unknown>
+  const strings = (field: unknown) => Array.isArray(field)
+    ? field.filter((item): item is string => typeof item === 'string' && item.length > 0)
+    : undefined
+
+  const partial: PartialContent = {}
+  const hooks = strings(parsed.hooks)
+  const thread = strings(parsed.thread)
+  const intros = strings(parsed.intros)
+  const titles = strings(parsed.titles)
+  const ctas = strings(parsed.ctas)
+  const hashtagSets = strings(parsed.hashtag_sets)
+  const subjectLines = strings(parsed.subject_lines)
+  const previewTexts = strings(parsed.preview_texts)
+  if (hooks) partial.hooks = hooks
+  if (typeof parsed.body_content === 'string') partial.body_content = parsed.body_content
+  if (thread) partial.thread = thread
+  if (Array.isArray(parsed.newsletter_sections)) {
+    // Ids are assigned when the finished response is saved
+    partial.newsletter_sections = parsed.newsletter_sections
+      .filter((item): item is { heading: string; summary?: unknown } => !!item && typeof item === 'object' && typeof (item as { heading?: unknown }).heading === 'string')
+      .map((item, index) => ({ id: String(index), heading: item.heading, summary: typeof item.summary === 'string' ? item.summary : '', body: '' }))
+  }
+  if (subjectLines) partial.subject_lines = subjectLines
+  if (previewTexts) partial.preview_texts = previewTexts
+  if (intros) partial.intros = intros
+  if (titles) partial.titles = titles
+  if (ctas) partial.ctas = ctas
+  if (hashtagSets) partial.hashtag_sets = hashtagSets
+  if (Array.isArray(parsed.visual_concepts)) {
+    partial.visual_concepts = parsed.visual_concepts.filter(
+      (item): item is VisualConcept => !!item && typeof item === 'object' && typeof (item as VisualConcept).description === 'string'
+    )
+  }
+
+  return partial
+}
+
+// Get default content based on the platform's format
+function getDefaultContent(format: PlatformFormat, fallbackText: string): GeneratedContent {
+  if (format === 'video') {
+    return {
+      hooks: [
+        'In this video, I\'m going to show you something that changed everything...',
+        'What if I told you there\'s a better way?',
+        'Stop what you\'re doing - this is important.'
+      ],
+      body_content: fallbackText || 'Video description pending.',
+      thread: [],
+      newsletter_sections: [],
+      subject_lines: [],
+      preview_texts: [],
+      intros: [
+        'Hey everyone! Welcome back to the channel. Today we\'re diving into something exciting...',
+        'What\'s up! If you\'re new here, hit that subscribe button because this one\'s going to be good...',
+        'Before we get started, I want to share something that completely changed my perspective...'
+      ],
+      titles: [
+        'This Changed Everything (You Need To See This)',
+        'The Secret Most People Don\'t Know',
+        'I Tested This For 30 Days - Here\'s What Happened'
+      ],
+      ctas: [],
+      hashtag_sets: [],
+      visual_concepts: [
+        { description: 'Thumbnail with shocked face expression and bold text overlay' },
+        { description: 'Before/after split image showing transformation' },
+        { description: 'Clean thumbnail with key stat highlighted' }
+      ]
+    }
+  }
+
+  if (format === 'newsletter') {
+    // Without a usable outline, start from a generic one the user can rework
+    const newsletterSections = normalizeSections([
+      { heading: 'Why this matters now', summary: 'The problem or change the issue is about, and who it affects.' },
+      { heading: 'What we learned', summary: 'The main insight, with an example or data point.' },
+      { heading: 'How to apply it', summary: 'Practical steps readers can take this week.' },
+      { heading: 'What to watch next', summary: 'Where this is heading and how to keep up.' },
+    ])
+    return {
+      hooks: [],
+      body_content: '',
+      thread: [],
+      newsletter_sections: newsletterSections,
+      subject_lines: [
+        'The one change worth making this week',
+        'What most teams miss about this',
+        'A quick guide to getting this right'
+      ],
+      preview_texts: [
+        'Why it matters, what we learned, and how to put it to work.',
+        'A practical look at what works, with steps you can use today.'
+      ],
+      intros: [],
+      titles: [],
+      ctas: [],
+      hashtag_sets: [],
+      visual_concepts: [
+        { description: 'A wide editorial illustration of the issue\'s main idea' },
+        { description: 'A clean header graphic with the issue title' },
+        { description: 'A photo-style scene of the topic in practice' }
+      ]
+    }
+  }
+
+  const { body_content, thread } = normalizeThread(
+    format,
+    fallbackText || 'Content generation failed. Please try again.',
+    []
+  )
+
+  return {
+    hooks: [
+      'Here\'s a perspective that might change how you think about this topic...',
+      'I learned something surprising recently that I need to share...',
+      'Most people get this wrong. Here\'s what I discovered...'
+    ],
+    body_content,
+    thread,
+    newsletter_sections: [],
+    subject_lines: [],
+    preview_texts: [],
+    intros: [],
+    titles: [
+      'The Insight That Changed Everything',
+      'Why Most People Get This Wrong',
+      'A Fresh Perspective on What Matters',
+      'The Surprising Truth About Success',
+      'What I Wish I Knew Sooner'
+    ],
+    ctas: [
+      'What\'s your take on this? Share in the comments below.',
+      'If this resonated, follow me for more insights.',
+      'Tag someone who needs to see this.'
+    ],
+    hashtag_sets: [],
+    visual_concepts: [
+      { description: 'A clean infographic highlighting the key points' },
+      { description: 'A quote card with the main insight' },
+      { description: 'A carousel breaking down the topic step by step' }
+    ]
+  }
+}
@@ -0,0 +1,87 @@
+// Upscale check against a throwaway database
+//
+//   npm run images:check
+//
+// Stores an image the way older rows were saved (the requested 1024x1024 recorded for what is
+// really a 16:9 picture), upscales it through POST /api/images/upscale and checks the result
+// keeps the picture's real aspect ratio. Exits non-zero if any check fails.
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import sharp from 'sharp'
+import { NextRequest } from 'next/server'
+
+let failures = 0
+
+function expectEqual<T>(label: string, actual: T, expected: T) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected)
+  if (!ok) failures++
+  console.log(`  ${ok ? 'ok  ' : 'FAIL'} ${label}`)
+  if (!ok) console.log(`       expected ${JSON.stringify(expected)}\n       got      ${JSON.stringify(actual)}`)
+}
+
+// Left half red, right half blue, so a stretch or crop would move the seam
+async function fixtureImage(width: number, height: number): Promise<Buffer> {
+  const half = await sharp({ create: { width: width / 2, height, channels: 3, background: '#0000ff' } }).png().toBuffer()
+  return sharp({ create: { width, height, channels: 3, background: '#ff0000' } })
+    .composite([{ input: half, left: width / 2, top: 0 }])
+    .png()
+    .toBuffer()
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'li-creator-images-'))
+  // The database module opens DATABASE_PATH when it is first imported
+  process.env.DATABASE_PATH = path.join(dir, 'check.db')
+
+  try {
+    const { default: db } = await import('@/lib/db')
+    const { POST } = await import('@/app/api/images/upscale/route')
+
+    db.prepare(`INSERT INTO projects (id, name, topic) VALUES ('project', 'Upscale check', 'Images')`).run()
+    db.prepare(`
+      INSERT INTO generated_images (id, project_id, prompt, image_data, width, height, model)
+      VALUES ('legacy', 'project', 'A split-screen visual', ?, 1024, 1024, 'nano-banana')
+    `).run(await fixtureImage(640, 360))
+
+    console.log('Upscaling a 640x360 image stored as 1024x1024')
+    const response = await POST(new NextRequest('http://localhost/api/images/upscale', {
+      method: 'POST',
+      body: JSON.stringify({ image_id: 'legacy', target_width: 1280, backend: 'lanczos' }),
+    }))
+    expectEqual('status', response.status, 201)
+
+    const upscaled = await response.json() as { id: string; width: number; height: number }
+    expectEqual('reported size', [upscaled.width, upscaled.height], [1280, 720])
+
+    const stored = db.prepare('SELECT image_data, width, height FROM generated_images WHERE id = ?')
+      .get(upscaled.id) as { image_data: Buffer; width: number; height: number }
+    const metadata = await sharp(stored.image_data).metadata()
+    expectEqual('stored size', [stored.width, stored.height], [1280, 720])
+    expectEqual('pixel size', [metadata.width, metadata.height], [1280, 720])
+
+    // The red/blue seam stays in the middle of the picture
+    const { data } = await sharp(stored.image_data).extract({ left: 0, top: 360, width: 1280, height: 1 })
+      .raw().toBuffer({ resolveWithObject: true })
+    const channels = metadata.channels || 3
+    const isRed = (x: number) => data[x * channels] > 200 && data[x * channels + 2] < 50
+    expectEqual('left of the seam is red', isRed(630), true)
+    expectEqual('right of the seam is blue', isRed(650), false)
+
+    db.close()
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('All image checks passed')
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
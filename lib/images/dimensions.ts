@@ -0,0 +1,35 @@
+import type { AspectRatio } from './types'
+
+const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+}
+
+/**
+ * Pick the closest supported aspect ratio for requested pixel dimensions
+ */
+export function aspectRatioForSize(width: number, height: number): AspectRatio {
+  if (width > height * 1.5) return '16:9'
+  if (height > width * 1.5) return '9:16'
+  if (width > height) return '4:3'
+  if (height > width * 1.3) return '3:4'
+  if (height > width) return '4:5'
+  return '1:1'
+}
+
+/**
+ * Pixel dimensions for an aspect ratio, with the long side at `longSide`.
+ * Both sides are rounded to a multiple of 8 (required by diffusion backends).
+ */
+export function sizeForAspectRatio(aspectRatio: AspectRatio = '1:1', longSide: number = 1024): { width: number; height: number } {
+  const ratio = ASPECT_RATIO_VALUES[aspectRatio] ?? 1
+  const roundTo8 = (value: number) => Math.max(8, Math.round(value / 8) * 8)
+
+  return ratio >= 1
+    ? { width: roundTo8(longSide), height: roundTo8(longSide / ratio) }
+    : { width: roundTo8(longSide * ratio), height: roundTo8(longSide) }
+}
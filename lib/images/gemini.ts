@@ -0,0 +1,22 @@
+import { generateImage, isConfigured, DEFAULT_IMAGE_MODEL } from '@/lib/gemini'
+import type { ImageProvider, ImageProviderResult, ImageRequest } from './types'
+
+export { isConfigured }
+
+/**
+ * Generate or edit an image with a Gemini image model
+ */
+export async function generate(request: ImageRequest): Promise<ImageProviderResult> {
+  const { model, ...options } = request
+  const images = await generateImage({ ...options, model })
+  return { images, model }
+}
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini (Nano Banana)',
+  defaultModel: DEFAULT_IMAGE_MODEL,
+  configurationHint: 'Set GOOGLE_API_KEY in .env.local',
+  isConfigured,
+  generate,
+}
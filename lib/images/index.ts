@@ -0,0 +1,154 @@
+// Image Provider Library - Main exports and model selection
+
+export * from './types'
+export { aspectRatioForSize, sizeForAspectRatio } from './dimensions'
+export {
+  resolveUpscaleTarget,
+  getUpscaleBackend,
+  isUpscaleBackendId,
+  readImageSize,
+  upscaleImage,
+  type UpscaleBackend,
+  type UpscaleTarget,
+} from './upscale'
+
+import sharp from 'sharp'
+import db from '@/lib/db'
+import { geminiImageProvider } from './gemini'
+import { openAIImagesProvider } from './openai-images'
+import { sdWebUiProvider } from './sd-webui'
+import { placeholderImageProvider } from './placeholder'
+import type { ImageProviderInfo } from '@/types'
+import type {
+  GeneratedImageResult,
+  ImageGenerationOptions,
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderId,
+  ImageSelection,
+  ReferenceImage,
+} from './types'
+
+const PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiImageProvider,
+  openai: openAIImagesProvider,
+  sdwebui: sdWebUiProvider,
+  placeholder: placeholderImageProvider,
+}
+
+export const IMAGE_PROVIDER_IDS = Object.keys(PROVIDERS) as ImageProviderId[]
+
+export function isImageProviderId(value: unknown): value is ImageProviderId {
+  return typeof value === 'string' && value in PROVIDERS
+}
+
+/**
+ * Get a provider implementation by id
+ */
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+  return PROVIDERS[id]
+}
+
+/**
+ * Describe every provider for the settings UI
+ */
+export function listImageProviders(): ImageProviderInfo[] {
+  return IMAGE_PROVIDER_IDS.map(id => {
+    const provider = PROVIDERS[id]
+    return {
+      id,
+      label: provider.label,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+      configurationHint: provider.configurationHint,
+    }
+  })
+}
+
+/**
+ * Resolve the image provider and model from the settings table,
+ * falling back to IMAGE_PROVIDER / gemini. An empty model means the provider's default.
+ */
+export function resolveImageSelection(): ImageSelection {
+  let provider: ImageProviderId = isImageProviderId(process.env.IMAGE_PROVIDER) ? process.env.IMAGE_PROVIDER : 'gemini'
+  let model = ''
+
+  try {
+    const rows = db.prepare("SELECT key, value FROM settings WHERE key IN ('image_provider', 'image_model')")
+      .all() as { key: string; value: string }[]
+    for (const row of rows) {
+      if (row.key === 'image_provider' && isImageProviderId(row.value)) provider = row.value
+      if (row.key === 'image_model') model = row.value.trim()
+    }
+  } catch {
+    // Settings table unavailable, use environment defaults
+  }
+
+  return {
+    provider,
+    model: model || PROVIDERS[provider].defaultModel,
+  }
+}
+
+/**
+ * Check whether the selected provider has the credentials it needs
+ */
+export function isImageSelectionConfigured(selection: ImageSelection): boolean {
+  return PROVIDERS[selection.provider].isConfigured()
+}
+
+/**
+ * Human-readable error for an unconfigured provider (returned with a 503)
+ */
+export function imageNotConfiguredMessage(selection: ImageSelection): string {
+  const provider = PROVIDERS[selection.provider]
+  return `${provider.label} is not configured. ${provider.configurationHint}`
+}
+
+// Providers often report nominal sizes; read the real dimensions from the image itself
+async function withActualDimensions(image: GeneratedImageResult): Promise<GeneratedImageResult> {
+  try {
+    const metadata = await sharp(Buffer.from(image.base64Data, 'base64')).metadata()
+    return {
+      ...image,
+      width: metadata.width || image.width,
+      height: metadata.height || image.height,
+    }
+  } catch {
+    return image
+  }
+}
+
+/**
+ * Generate images with the selected provider.
+ * The returned model is what should be stored in generated_images.model.
+ */
+export async function generateImages(
+  selection: ImageSelection,
+  options: ImageGenerationOptions
+): Promise<ImageGenerationResult> {
+  const provider = PROVIDERS[selection.provider]
+  const result = await provider.generate({ ...options, model: selection.model })
+
+  return {
+    images: await Promise.all(result.images.map(withActualDimensions)),
+    model: `${provider.id}/${result.model}`,
+  }
+}
+
+/**
+ * Refine an existing image: the original is passed as the source image to edit
+ */
+export async function refineImage(
+  selection: ImageSelection,
+  refinementPrompt: string,
+  base64Data?: string,
+  referenceImages?: ReferenceImage[]
+): Promise<ImageGenerationResult> {
+  return generateImages(selection, {
+    prompt: refinementPrompt,
+    sourceImage: base64Data ? { base64Data, mimeType: 'image/png' } : undefined,
+    referenceImages,
+    numberOfImages: 1,
+  })
+}
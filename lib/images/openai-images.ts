@@ -0,0 +1,132 @@
+import type { AspectRatio, GeneratedImageResult, ImageProvider, ImageProviderResult, ImageRequest, ReferenceImage } from './types'
+
+// Works with OpenAI's Images API and servers that mirror it (LocalAI, etc.)
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+function getBaseUrl(): string {
+  return (process.env.OPENAI_IMAGES_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '')
+}
+
+export function isConfigured(): boolean {
+  return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_IMAGES_BASE_URL
+}
+
+interface ImagesResponse {
+  data?: Array<{ b64_json?: string; url?: string }>
+}
+
+// Each model family only accepts a fixed set of sizes
+function getSize(model: string, aspectRatio: AspectRatio = '1:1'): { width: number; height: number } {
+  const landscape = aspectRatio === '16:9' || aspectRatio === '4:3'
+  const portrait = aspectRatio === '9:16' || aspectRatio === '3:4' || aspectRatio === '4:5'
+
+  if (model.startsWith('dall-e-3')) {
+    if (landscape) return { width: 1792, height: 1024 }
+    if (portrait) return { width: 1024, height: 1792 }
+  } else if (model.startsWith('gpt-image')) {
+    if (landscape) return { width: 1536, height: 1024 }
+    if (portrait) return { width: 1024, height: 1536 }
+  }
+  return { width: 1024, height: 1024 }
+}
+
+function getHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (process.env.OPENAI_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`
+  }
+  return headers
+}
+
+function toBlob(image: ReferenceImage): Blob {
+  return new Blob([new Uint8Array(Buffer.from(image.base64Data, 'base64'))], { type: image.mimeType })
+}
+
+// Hosted models may return URLs instead of base64; download them so everything is stored locally
+async function toResults(data: ImagesResponse, size: { width: number; height: number }): Promise<GeneratedImageResult[]> {
+  const results: GeneratedImageResult[] = []
+  for (const item of data.data || []) {
+    let base64Data = item.b64_json
+    if (!base64Data && item.url) {
+      const response = await fetch(item.url)
+      if (!response.ok) continue
+      base64Data = Buffer.from(await response.arrayBuffer()).toString('base64')
+    }
+    if (base64Data) {
+      results.push({ base64Data, mimeType: 'image/png', ...size })
+    }
+  }
+  return results
+}
+
+/**
+ * Generate with /images/generations, or edit with /images/edits when a source image is given.
+ * gpt-image models also accept the reference images as extra inputs to an edit.
+ */
+export async function generate(request: ImageRequest): Promise<ImageProviderResult> {
+  if (!isConfigured()) {
+    throw new Error('OpenAI-compatible image provider is not configured')
+  }
+
+  const { model, prompt, sourceImage, referenceImages, aspectRatio, numberOfImages = 1 } = request
+  const size = getSize(model, aspectRatio)
+  // dall-e-3 only supports one image per request
+  const n = model.startsWith('dall-e-3') ? 1 : numberOfImages
+  const isGptImage = model.startsWith('gpt-image')
+  const editInputs = [
+    ...(sourceImage ? [sourceImage] : []),
+    ...(isGptImage ? (referenceImages || []).slice(0, 3) : []),
+  ]
+
+  let response: Response
+  if (editInputs.length > 0) {
+    const form = new FormData()
+    form.append('model', model)
+    form.append('prompt', prompt)
+    form.append('n', String(n))
+    form.append('size', `${size.width}x${size.height}`)
+    editInputs.forEach((image, i) => {
+      form.append(editInputs.length > 1 ? 'image[]' : 'image', toBlob(image), `image-${i}.png`)
+    })
+
+    response = await fetch(`${getBaseUrl()}/images/edits`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: form,
+    })
+  } else {
+    response = await fetch(`${getBaseUrl()}/images/generations`, {
+      method: 'POST',
+      headers: { ...getHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        prompt,
+        n,
+        size: `${size.width}x${size.height}`,
+        // gpt-image models always return base64 and reject this parameter
+        ...(!isGptImage && { response_format: 'b64_json' }),
+      }),
+    })
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`OpenAI-compatible images API error (${response.status}): ${errorText}`)
+  }
+
+  const images = await toResults(await response.json() as ImagesResponse, size)
+  if (images.length === 0) {
+    throw new Error('No images were returned by the OpenAI-compatible images API')
+  }
+
+  return { images, model }
+}
+
+export const openAIImagesProvider: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible Images API',
+  defaultModel: process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1',
+  configurationHint: 'Set OPENAI_API_KEY (or OPENAI_IMAGES_BASE_URL for a compatible server) in .env.local',
+  isConfigured,
+  generate,
+}
@@ -0,0 +1,130 @@
+import sharp from 'sharp'
+import { sizeForAspectRatio } from './dimensions'
+import type { GeneratedImageResult, ImageProvider, ImageProviderResult, ImageRequest } from './types'
+
+// Renders the prompt onto a coloured card so the image workflow runs without any network access
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Stable hue per prompt so the same prompt always renders the same colours
+function hashHue(text: string, variant: number): number {
+  let hash = variant * 97
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0
+  }
+  return hash % 360
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ')
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of words) {
+    if ((current + ' ' + word).trim().length > maxChars && current) {
+      lines.push(current)
+      current = word
+      if (lines.length === maxLines) break
+    } else {
+      current = (current + ' ' + word).trim()
+    }
+  }
+  if (current && lines.length < maxLines) lines.push(current)
+
+  const consumed = lines.join(' ').length
+  if (consumed < text.trim().length && lines.length > 0) {
+    lines[lines.length - 1] = lines[lines.length - 1].replace(/.{0,3}$/, '...')
+  }
+  return lines
+}
+
+function textBlock(lines: string[], width: number, top: number, fontSize: number): string {
+  return lines.map((line, i) =>
+    `<text x="${width / 2}" y="${top + i * fontSize * 1.3}" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(line)}</text>`
+  ).join('')
+}
+
+async function renderCard(prompt: string, width: number, height: number, variant: number): Promise<Buffer> {
+  const hue = hashHue(prompt, variant)
+  const fontSize = Math.round(Math.min(width, height) / 18)
+  const maxChars = Math.max(12, Math.floor(width / (fontSize * 0.55)))
+  const lines = wrapText(prompt, maxChars, 8)
+  const top = height / 2 - ((lines.length - 1) * fontSize * 1.3) / 2
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 55%, 38%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 40) % 360}, 60%, 22%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+  <text x="${width / 2}" y="${fontSize * 1.5}" text-anchor="middle" font-family="sans-serif" font-size="${Math.round(fontSize * 0.6)}" fill="#ffffff" fill-opacity="0.6">PLACEHOLDER IMAGE</text>
+  ${textBlock(lines, width, top, fontSize)}
+</svg>`
+
+  return sharp(Buffer.from(svg)).png().toBuffer()
+}
+
+// Refinement: keep the source image and stamp the instruction across the bottom
+async function renderRefinement(source: Buffer, instruction: string): Promise<{ data: Buffer; width: number; height: number }> {
+  const metadata = await sharp(source).metadata()
+  const width = metadata.width || 1024
+  const height = metadata.height || 1024
+  const fontSize = Math.round(Math.min(width, height) / 24)
+  const lines = wrapText(instruction, Math.max(12, Math.floor(width / (fontSize * 0.55))), 3)
+  const bannerHeight = Math.round(lines.length * fontSize * 1.3 + fontSize)
+
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="0" y="${height - bannerHeight}" width="${width}" height="${bannerHeight}" fill="#000000" fill-opacity="0.6"/>
+  ${textBlock(lines, width, height - bannerHeight + fontSize * 1.2, fontSize)}
+</svg>`
+
+  const data = await sharp(source)
+    .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+    .png()
+    .toBuffer()
+
+  return { data, width, height }
+}
+
+// Always available: rendered locally with sharp
+export function isConfigured(): boolean {
+  return true
+}
+
+export async function generate(request: ImageRequest): Promise<ImageProviderResult> {
+  const { prompt, sourceImage, aspectRatio, numberOfImages = 1 } = request
+  const images: GeneratedImageResult[] = []
+
+  if (sourceImage) {
+    const { data, width, height } = await renderRefinement(Buffer.from(sourceImage.base64Data, 'base64'), prompt)
+    images.push({ base64Data: data.toString('base64'), mimeType: 'image/png', width, height })
+  } else {
+    const { width, height } = request.width && request.height
+      ? { width: request.width, height: request.height }
+      : sizeForAspectRatio(aspectRatio)
+    for (let i = 0; i < numberOfImages; i++) {
+      const data = await renderCard(prompt, width, height, i)
+      images.push({ base64Data: data.toString('base64'), mimeType: 'image/png', width, height })
+    }
+  }
+
+  return { images, model: request.model }
+}
+
+export const placeholderImageProvider: ImageProvider = {
+  id: 'placeholder',
+  label: 'Local placeholder (offline)',
+  defaultModel: 'sharp-text-card',
+  configurationHint: 'Always available',
+  isConfigured,
+  generate,
+}
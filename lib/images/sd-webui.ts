@@ -0,0 +1,98 @@
+import { sizeForAspectRatio } from './dimensions'
+import type { ImageProvider, ImageProviderResult, ImageRequest } from './types'
+
+// AUTOMATIC1111 / Forge / SD.Next style API (launch the WebUI with --api)
+// An empty model uses whichever checkpoint is currently loaded in the WebUI
+const CURRENT_CHECKPOINT = 'current-checkpoint'
+
+function getBaseUrl(): string {
+  return (process.env.SD_WEBUI_URL || '').replace(/\/+$/, '')
+}
+
+export function isConfigured(): boolean {
+  return !!process.env.SD_WEBUI_URL
+}
+
+interface SdWebUiResponse {
+  images?: string[]
+  info?: string
+}
+
+function getIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * txt2img, or img2img when a source image is given (refinement)
+ */
+export async function generate(request: ImageRequest): Promise<ImageProviderResult> {
+  if (!isConfigured()) {
+    throw new Error('Stable Diffusion WebUI is not configured')
+  }
+
+  const { model, prompt, negativePrompt, sourceImage, aspectRatio, numberOfImages = 1 } = request
+  const size = request.width && request.height
+    ? sizeForAspectRatio(aspectRatio, Math.max(request.width, request.height))
+    : sizeForAspectRatio(aspectRatio, getIntEnv('SD_WEBUI_SIZE', 1024))
+
+  const payload: Record<string, unknown> = {
+    prompt,
+    negative_prompt: negativePrompt || '',
+    width: size.width,
+    height: size.height,
+    batch_size: numberOfImages,
+    steps: getIntEnv('SD_WEBUI_STEPS', 25),
+    ...(model && model !== CURRENT_CHECKPOINT && {
+      override_settings: { sd_model_checkpoint: model },
+    }),
+  }
+
+  if (sourceImage) {
+    payload.init_images = [sourceImage.base64Data]
+    payload.denoising_strength = 0.55
+  }
+
+  const endpoint = sourceImage ? 'img2img' : 'txt2img'
+  const response = await fetch(`${getBaseUrl()}/sdapi/v1/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Stable Diffusion WebUI error (${response.status}): ${errorText}`)
+  }
+
+  const data = await response.json() as SdWebUiResponse
+  const images = (data.images || []).slice(0, numberOfImages).map(base64Data => ({
+    base64Data,
+    mimeType: 'image/png',
+    ...size,
+  }))
+
+  if (images.length === 0) {
+    throw new Error('Stable Diffusion WebUI returned no images')
+  }
+
+  // The generation info names the checkpoint that was actually used
+  let usedModel = model
+  try {
+    const info = data.info ? JSON.parse(data.info) as { sd_model_name?: string } : {}
+    if (info.sd_model_name) usedModel = info.sd_model_name
+  } catch {
+    // Keep the requested model name
+  }
+
+  return { images, model: usedModel }
+}
+
+export const sdWebUiProvider: ImageProvider = {
+  id: 'sdwebui',
+  label: 'Stable Diffusion WebUI (AUTOMATIC1111-compatible)',
+  defaultModel: process.env.SD_WEBUI_MODEL || CURRENT_CHECKPOINT,
+  configurationHint: 'Set SD_WEBUI_URL (e.g. http://127.0.0.1:7860) in .env.local and start the WebUI with --api',
+  isConfigured,
+  generate,
+}
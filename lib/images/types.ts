@@ -0,0 +1,65 @@
+// Image Provider Types
+
+import type { ImageProviderId } from '@/types'
+
+export type { ImageProviderId }
+
+export type AspectRatio = '1:1' | '4:5' | '3:4' | '4:3' | '9:16' | '16:9'
+
+// Reference image for multimodal input
+export interface ReferenceImage {
+  base64Data: string
+  mimeType: string
+}
+
+// Image generation options
+export interface ImageGenerationOptions {
+  prompt: string
+  sourceImage?: ReferenceImage  // The original image to modify (for refinement/editing)
+  referenceImages?: ReferenceImage[]  // Style/person references for guidance
+  width?: number
+  height?: number
+  numberOfImages?: number
+  negativePrompt?: string
+  aspectRatio?: AspectRatio
+}
+
+// Generated image result
+export interface GeneratedImageResult {
+  base64Data: string
+  mimeType: string
+  width: number
+  height: number
+}
+
+export interface ImageRequest extends ImageGenerationOptions {
+  model: string
+}
+
+// What a provider returns: the images plus the model that actually produced them
+// (some backends report a more specific name than the one requested)
+export interface ImageProviderResult {
+  images: GeneratedImageResult[]
+  model: string
+}
+
+export interface ImageProvider {
+  id: ImageProviderId
+  label: string
+  defaultModel: string
+  isConfigured(): boolean
+  configurationHint: string
+  // Handles both plain generation and editing (when request.sourceImage is set)
+  generate(request: ImageRequest): Promise<ImageProviderResult>
+}
+
+export interface ImageSelection {
+  provider: ImageProviderId
+  model: string
+}
+
+export interface ImageGenerationResult {
+  images: GeneratedImageResult[]
+  // Value stored in generated_images.model, "<provider>/<model>"
+  model: string
+}
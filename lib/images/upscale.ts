@@ -0,0 +1,159 @@
+import sharp from 'sharp'
+import type { UpscaleBackendId } from '@/types'
+
+// Resolution-preserving upscaling. The image is always enlarged as-is (never regenerated);
+// an optional super-resolution backend can do the heavy lifting before the final resize.
+
+export type { UpscaleBackendId }
+
+export interface UpscaleBackend {
+  id: UpscaleBackendId
+  label: string
+  isConfigured(): boolean
+  configurationHint: string
+  // Enlarge by roughly `scale`; the caller resizes the result to the exact target.
+  // Returns the image and a description of the model used (stored in generated_images.model)
+  upscale(image: Buffer, scale: number): Promise<{ data: Buffer; model: string }>
+}
+
+export interface UpscaleTarget {
+  width: number
+  height: number
+}
+
+// Default target: long side at 4K UHD width
+export const DEFAULT_LONG_SIDE = 3840
+const MAX_SIDE = 8192
+
+/**
+ * Work out the output size. Aspect ratio is always preserved: with both target
+ * dimensions the image is fitted inside them, with one the other follows.
+ */
+export function resolveUpscaleTarget(
+  width: number,
+  height: number,
+  targetWidth?: number,
+  targetHeight?: number
+): UpscaleTarget {
+  let scale: number
+  if (targetWidth && targetHeight) {
+    scale = Math.min(targetWidth / width, targetHeight / height)
+  } else if (targetWidth) {
+    scale = targetWidth / width
+  } else if (targetHeight) {
+    scale = targetHeight / height
+  } else {
+    scale = DEFAULT_LONG_SIDE / Math.max(width, height)
+  }
+
+  // Never exceed the maximum side length
+  scale = Math.min(scale, MAX_SIDE / Math.max(width, height))
+
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  }
+}
+
+// Lanczos resampling followed by a light unsharp mask. The image is fitted inside the
+// target rather than stretched to it, so a rounding difference can't distort it.
+async function lanczosResize(image: Buffer, target: UpscaleTarget): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(image)
+    .resize(target.width, target.height, { kernel: sharp.kernel.lanczos3, fit: 'inside' })
+    .sharpen({ sigma: 0.8, m1: 0.5, m2: 2 })
+    .png()
+    .toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+const lanczosBackend: UpscaleBackend = {
+  id: 'lanczos',
+  label: 'Lanczos (local)',
+  configurationHint: 'Always available',
+  isConfigured: () => true,
+  // Nothing to do up front: the final Lanczos resize is the whole upscale
+  upscale: async (image) => ({ data: image, model: 'sharp-lanczos3' }),
+}
+
+// Stable Diffusion WebUI "Extras" tab (R-ESRGAN, SwinIR, ...)
+const sdWebUiBackend: UpscaleBackend = {
+  id: 'sdwebui',
+  label: 'Stable Diffusion WebUI upscaler',
+  configurationHint: 'Set SD_WEBUI_URL (and optionally SD_WEBUI_UPSCALER) in .env.local',
+  isConfigured: () => !!process.env.SD_WEBUI_URL,
+  upscale: async (image, scale) => {
+    const upscaler = process.env.SD_WEBUI_UPSCALER || 'R-ESRGAN 4x+'
+    const response = await fetch(`${(process.env.SD_WEBUI_URL || '').replace(/\/+$/, '')}/sdapi/v1/extra-single-image`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        image: image.toString('base64'),
+        upscaler_1: upscaler,
+        upscaling_resize: Math.min(Math.max(scale, 1), 8),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Stable Diffusion WebUI upscaler error (${response.status}): ${errorText}`)
+    }
+
+    const data = await response.json() as { image?: string }
+    if (!data.image) {
+      throw new Error('Stable Diffusion WebUI upscaler returned no image')
+    }
+
+    return { data: Buffer.from(data.image, 'base64'), model: upscaler }
+  },
+}
+
+const BACKENDS: Record<UpscaleBackendId, UpscaleBackend> = {
+  lanczos: lanczosBackend,
+  sdwebui: sdWebUiBackend,
+}
+
+export function isUpscaleBackendId(value: unknown): value is UpscaleBackendId {
+  return typeof value === 'string' && value in BACKENDS
+}
+
+/**
+ * Backend to use: the requested one, else UPSCALE_BACKEND, else local Lanczos
+ */
+export function getUpscaleBackend(id?: UpscaleBackendId): UpscaleBackend {
+  if (id) return BACKENDS[id]
+  return isUpscaleBackendId(process.env.UPSCALE_BACKEND) ? BACKENDS[process.env.UPSCALE_BACKEND] : lanczosBackend
+}
+
+/**
+ * Read an image's real pixel size. Stored sizes can't be trusted: older rows hold the size
+ * that was requested from the provider, not the one it returned.
+ */
+export async function readImageSize(image: Buffer): Promise<{ width: number; height: number }> {
+  const metadata = await sharp(image).metadata()
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Could not read the image dimensions')
+  }
+  return { width: metadata.width, height: metadata.height }
+}
+
+/**
+ * Upscale an image to fit the target size with the given backend.
+ * Both output sides follow the source's own aspect ratio, and the backend output is
+ * normalised to that size with a Lanczos resize.
+ */
+export async function upscaleImage(
+  image: Buffer,
+  target: UpscaleTarget,
+  backend: UpscaleBackend = lanczosBackend
+): Promise<{ data: Buffer; width: number; height: number; model: string }> {
+  const source = await readImageSize(image)
+  const size = resolveUpscaleTarget(source.width, source.height, target.width, target.height)
+
+  const enlarged = await backend.upscale(image, size.width / source.width)
+  const resized = await lanczosResize(enlarged.data, size)
+
+  return {
+    ...resized,
+    model: `${backend.id}/${enlarged.model}`,
+  }
+}
@@ -0,0 +1,109 @@
+import Anthropic from '@anthropic-ai/sdk'
+import type { Message, MessageCreateParamsBase, Tool } from '@anthropic-ai/sdk/resources/messages'
+import type { CompletionRequest, CompletionResult, LLMToolCall, StopReason, StreamHandler, TextProvider } from './types'
+
+let client: Anthropic | null = null
+
+function getClient(): Anthropic {
+  if (!client) {
+    client = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    })
+  }
+  return client
+}
+
+export function isConfigured(): boolean {
+  return !!process.env.ANTHROPIC_API_KEY
+}
+
+function buildParams(request: CompletionRequest): MessageCreateParamsBase {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    ...(request.system && { system: request.system }),
+    ...(request.tools && request.tools.length > 0 && { tools: request.tools as Tool[] }),
+    messages: request.messages,
+  }
+}
+
+function toResult(response: Message, request: CompletionRequest): CompletionResult {
+  let text = ''
+  const toolCalls: LLMToolCall[] = []
+
+  for (const block of response.content) {
+    if (block.type === 'text') {
+      text += block.text
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        name: block.name,
+        input: block.input as Record<string, unknown>,
+      })
+    }
+  }
+
+  const stopReasons: StopReason[] = ['end_turn', 'max_tokens', 'tool_use', 'stop_sequence']
+  const stopReason = stopReasons.includes(response.stop_reason as StopReason)
+    ? response.stop_reason as StopReason
+    : 'unknown'
+
+  return {
+    text,
+    toolCalls,
+    stopReason,
+    provider: 'anthropic',
+    model: response.model || request.model,
+  }
+}
+
+/**
+ * Run a completion against the Anthropic Messages API
+ */
+export async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  if (!isConfigured()) {
+    throw new Error('Anthropic API key is not configured')
+  }
+
+  const response = await getClient().messages.create(
+    { ...buildParams(request), stream: false },
+    request.signal ? { signal: request.signal } : undefined
+  )
+
+  return toResult(response, request)
+}
+
+/**
+ * Stream a completion, reporting text deltas and finished tool_use blocks
+ */
+export async function stream(request: CompletionRequest, onEvent: StreamHandler): Promise<CompletionResult> {
+  if (!isConfigured()) {
+    throw new Error('Anthropic API key is not configured')
+  }
+
+  const messageStream = getClient().messages.stream(
+    buildParams(request),
+    request.signal ? { signal: request.signal } : undefined
+  )
+
+  messageStream.on('text', (delta) => {
+    onEvent({ type: 'text', text: delta })
+  })
+  messageStream.on('contentBlock', (block) => {
+    if (block.type === 'tool_use') {
+      onEvent({ type: 'tool_call', call: { name: block.name, input: block.input as Record<string, unknown> } })
+    }
+  })
+
+  const response = await messageStream.finalMessage()
+  return toResult(response, request)
+}
+
+export const anthropicProvider: TextProvider = {
+  id: 'anthropic',
+  label: 'Anthropic (Claude)',
+  defaultModel: 'claude-sonnet-4-20250514',
+  configurationHint: 'Set ANTHROPIC_API_KEY in .env.local',
+  isConfigured,
+  complete,
+  stream,
+}
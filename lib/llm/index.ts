@@ -0,0 +1,139 @@
+// Text Provider Library - Main exports and model selection
+
+export * from './types'
+export { resolveFixture } from './mock'
+export { parsePartialJson } from './partial-json'
+
+import db from '@/lib/db'
+import { anthropicProvider } from './anthropic'
+import { openAICompatibleProvider } from './openai-compatible'
+import { mockProvider } from './mock'
+import type { TextProviderInfo } from '@/types'
+import type { CompletionRequest, CompletionResult, ModelSelection, StreamHandler, TextProvider, TextProviderId } from './types'
+
+const PROVIDERS: Record<TextProviderId, TextProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAICompatibleProvider,
+  mock: mockProvider,
+}
+
+export const TEXT_PROVIDER_IDS = Object.keys(PROVIDERS) as TextProviderId[]
+
+export function isTextProviderId(value: unknown): value is TextProviderId {
+  return typeof value === 'string' && value in PROVIDERS
+}
+
+/**
+ * Get a provider implementation by id
+ */
+export function getTextProvider(id: TextProviderId): TextProvider {
+  return PROVIDERS[id]
+}
+
+/**
+ * Describe every provider for the settings UI
+ */
+export function listTextProviders(): TextProviderInfo[] {
+  return TEXT_PROVIDER_IDS.map(id => {
+    const provider = PROVIDERS[id]
+    return {
+      id,
+      label: provider.label,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+      configurationHint: provider.configurationHint,
+    }
+  })
+}
+
+// Global selection from the settings table, falling back to LLM_PROVIDER / anthropic
+function getGlobalSelection(): { provider: TextProviderId; model: string } {
+  let provider: TextProviderId = isTextProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'anthropic'
+  let model = ''
+
+  try {
+    const rows = db.prepare("SELECT key, value FROM settings WHERE key IN ('llm_provider', 'llm_model')")
+      .all() as { key: string; value: string }[]
+    for (const row of rows) {
+      if (row.key === 'llm_provider' && isTextProviderId(row.value)) provider = row.value
+      if (row.key === 'llm_model') model = row.value.trim()
+    }
+  } catch {
+    // Settings table unavailable, use environment defaults
+  }
+
+  return { provider, model }
+}
+
+/**
+ * Resolve which provider and model to use.
+ * A project's own provider/model override the global settings; an empty model
+ * falls back to the provider's default.
+ */
+export function resolveModelSelection(projectId?: string): ModelSelection {
+  const global = getGlobalSelection()
+  let provider = global.provider
+  let model = global.model
+
+  if (projectId) {
+    try {
+      const row = db.prepare('SELECT llm_provider, llm_model FROM projects WHERE id = ?')
+        .get(projectId) as { llm_provider: string | null; llm_model: string | null } | undefined
+
+      if (row && isTextProviderId(row.llm_provider) && row.llm_provider !== provider) {
+        // The global model name belongs to a different provider, so don't carry it over
+        provider = row.llm_provider
+        model = ''
+      }
+      if (row?.llm_model?.trim()) {
+        model = row.llm_model.trim()
+      }
+    } catch {
+      // Columns might not exist yet, use global selection
+    }
+  }
+
+  return {
+    provider,
+    model: model || PROVIDERS[provider].defaultModel,
+  }
+}
+
+/**
+ * Check whether the selected provider has the credentials it needs
+ */
+export function isSelectionConfigured(selection: ModelSelection): boolean {
+  return PROVIDERS[selection.provider].isConfigured()
+}
+
+/**
+ * Human-readable error for an unconfigured provider (returned with a 503)
+ */
+export function notConfiguredMessage(selection: ModelSelection): string {
+  const provider = PROVIDERS[selection.provider]
+  return `${provider.label} is not configured. ${provider.configurationHint}`
+}
+
+/**
+ * Run a completion with the selected provider and model
+ */
+export async function generateText(
+  selection: ModelSelection,
+  request: Omit<CompletionRequest, 'model'>
+): Promise<CompletionResult> {
+  const provider = PROVIDERS[selection.provider]
+  return provider.complete({ ...request, model: selection.model })
+}
+
+/**
+ * Stream a completion with the selected provider and model.
+ * Resolves with the same result as generateText once the stream ends.
+ */
+export async function streamText(
+  selection: ModelSelection,
+  request: Omit<CompletionRequest, 'model'>,
+  onEvent: StreamHandler
+): Promise<CompletionResult> {
+  const provider = PROVIDERS[selection.provider]
+  return provider.stream({ ...request, model: selection.model }, onEvent)
+}
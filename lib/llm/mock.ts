@@ -0,0 +1,121 @@
+import fs from 'fs'
+import path from 'path'
+import defaultFixtures from './fixtures/default.json'
+import type { CompletionRequest, CompletionResult, LLMToolCall, StreamHandler, TextProvider } from './types'
+
+// A fixture is either plain text, a JSON value (serialised as the response text),
+// and/or a list of tool calls to return
+export interface MockFixture {
+  text?: string
+  json?: unknown
+  tool_calls?: LLMToolCall[]
+}
+
+export type MockFixtureSet = Record<string, MockFixture>
+
+let cachedOverrides: { path: string; fixtures: MockFixtureSet } | null = null
+
+// Optional JSON file whose entries override the bundled fixtures (MOCK_LLM_FIXTURES)
+function loadOverrideFixtures(): MockFixtureSet {
+  const overridePath = process.env.MOCK_LLM_FIXTURES
+  if (!overridePath) return {}
+
+  const resolved = path.resolve(process.cwd(), overridePath)
+  if (cachedOverrides && cachedOverrides.path === resolved) {
+    return cachedOverrides.fixtures
+  }
+
+  try {
+    const fixtures = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as MockFixtureSet
+    cachedOverrides = { path: resolved, fixtures }
+    return fixtures
+  } catch (error) {
+    console.error('[LLM] Failed to load mock fixtures from', resolved, error)
+    return {}
+  }
+}
+
+/**
+ * Find the fixture for a task: exact match first ("regenerate:hooks"),
+ * then the task family ("regenerate"), then "default"
+ */
+export function resolveFixture(task?: string): MockFixture {
+  const fixtures: MockFixtureSet = { ...(defaultFixtures as MockFixtureSet), ...loadOverrideFixtures() }
+  const candidates = task ? [task, task.split(':')[0], 'default'] : ['default']
+
+  for (const key of candidates) {
+    if (fixtures[key]) return fixtures[key]
+  }
+
+  return { text: '' }
+}
+
+// Always available: no network, no keys
+export function isConfigured(): boolean {
+  return true
+}
+
+/**
+ * Return the fixture for the request's task. Deterministic for a given task and fixture set.
+ */
+export async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  const fixture = resolveFixture(request.task)
+
+  const text = fixture.json !== undefined
+    ? JSON.stringify(fixture.json, null, 2)
+    : fixture.text || ''
+
+  // Only hand back tool calls the caller actually offered
+  const offeredTools = new Set((request.tools || []).map(t => t.name))
+  const toolCalls = (fixture.tool_calls || []).filter(call => offeredTools.has(call.name))
+
+  return {
+    text,
+    toolCalls,
+    stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+    provider: 'mock',
+    model: request.model,
+  }
+}
+
+const STREAM_CHUNK_SIZE = 24
+
+// Pause between streamed chunks so incremental rendering is visible in development
+function getStreamDelay(): number {
+  const delay = parseInt(process.env.MOCK_LLM_STREAM_DELAY_MS || '', 10)
+  return Number.isFinite(delay) && delay >= 0 ? delay : 15
+}
+
+/**
+ * Stream the fixture text in fixed-size chunks, then report its tool calls
+ */
+export async function stream(request: CompletionRequest, onEvent: StreamHandler): Promise<CompletionResult> {
+  const result = await complete(request)
+  const delay = getStreamDelay()
+
+  for (let i = 0; i < result.text.length; i += STREAM_CHUNK_SIZE) {
+    if (request.signal?.aborted) {
+      throw new DOMException('The operation was aborted', 'AbortError')
+    }
+    onEvent({ type: 'text', text: result.text.slice(i, i + STREAM_CHUNK_SIZE) })
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  for (const call of result.toolCalls) {
+    onEvent({ type: 'tool_call', call })
+  }
+
+  return result
+}
+
+export const mockProvider: TextProvider = {
+  id: 'mock',
+  label: 'Mock (offline fixtures)',
+  defaultModel: 'mock-fixtures',
+  configurationHint: 'Always available',
+  isConfigured,
+  complete,
+  stream,
+}
@@ -0,0 +1,216 @@
+import type { CompletionRequest, CompletionResult, LLMToolCall, StopReason, StreamHandler, TextProvider } from './types'
+
+// Works with any server exposing the OpenAI chat completions API
+// (OpenAI itself, llama.cpp server, Ollama, LM Studio, vLLM, ...)
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+function getBaseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '')
+}
+
+export function isConfigured(): boolean {
+  // Local servers usually need no key, so a custom base URL is enough
+  return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL
+}
+
+interface ChatCompletionResponse {
+  model?: string
+  choices: Array<{
+    index: number
+    finish_reason: string | null
+    message: {
+      role: string
+      content: string | null
+      tool_calls?: Array<{
+        id: string
+        type: 'function'
+        function: { name: string; arguments: string }
+      }>
+    }
+  }>
+}
+
+interface ChatCompletionChunk {
+  model?: string
+  choices: Array<{
+    index: number
+    finish_reason: string | null
+    delta: {
+      content?: string | null
+      tool_calls?: Array<{
+        index: number
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+  }>
+}
+
+const FINISH_REASON_MAP: Record<string, StopReason> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+}
+
+// POST to /chat/completions, translating the request into the OpenAI shape
+async function postChatCompletion(request: CompletionRequest, streaming: boolean): Promise<Response> {
+  if (!isConfigured()) {
+    throw new Error('OpenAI-compatible provider is not configured')
+  }
+
+  const messages = [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    ...request.messages,
+  ]
+
+  const tools = request.tools?.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }))
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (process.env.OPENAI_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`
+  }
+
+  const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages,
+      ...(tools && tools.length > 0 && { tools }),
+      ...(streaming && { stream: true }),
+    }),
+    signal: request.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`OpenAI-compatible API error (${response.status}): ${errorText}`)
+  }
+
+  return response
+}
+
+function parseToolCall(name: string, args: string): LLMToolCall | null {
+  try {
+    return { name, input: JSON.parse(args || '{}') }
+  } catch {
+    console.error('[LLM] Failed to parse tool call arguments:', args)
+    return null
+  }
+}
+
+/**
+ * Run a completion against an OpenAI-compatible /chat/completions endpoint
+ */
+export async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  const response = await postChatCompletion(request, false)
+  const data = await response.json() as ChatCompletionResponse
+  const choice = data.choices?.[0]
+
+  const toolCalls: LLMToolCall[] = []
+  for (const call of choice?.message?.tool_calls || []) {
+    const parsed = parseToolCall(call.function.name, call.function.arguments)
+    if (parsed) toolCalls.push(parsed)
+  }
+
+  return {
+    text: choice?.message?.content || '',
+    toolCalls,
+    stopReason: FINISH_REASON_MAP[choice?.finish_reason || ''] || 'unknown',
+    provider: 'openai',
+    model: data.model || request.model,
+  }
+}
+
+/**
+ * Stream a completion (stream: true). Tool call arguments arrive in fragments,
+ * so tool calls are reported once the stream has finished.
+ */
+export async function stream(request: CompletionRequest, onEvent: StreamHandler): Promise<CompletionResult> {
+  const response = await postChatCompletion(request, true)
+  if (!response.body) {
+    throw new Error('OpenAI-compatible API returned an empty stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const pendingCalls: Array<{ name: string; args: string }> = []
+  let buffer = ''
+  let text = ''
+  let model = request.model
+  let finishReason = ''
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return
+    const payload = line.slice(5).trim()
+    if (!payload || payload === '[DONE]') return
+
+    let chunk: ChatCompletionChunk
+    try {
+      chunk = JSON.parse(payload)
+    } catch {
+      return
+    }
+
+    if (chunk.model) model = chunk.model
+    const choice = chunk.choices?.[0]
+    if (!choice) return
+
+    if (choice.delta?.content) {
+      text += choice.delta.content
+      onEvent({ type: 'text', text: choice.delta.content })
+    }
+    for (const call of choice.delta?.tool_calls || []) {
+      const pending = pendingCalls[call.index] || (pendingCalls[call.index] = { name: '', args: '' })
+      if (call.function?.name) pending.name += call.function.name
+      if (call.function?.arguments) pending.args += call.function.arguments
+    }
+    if (choice.finish_reason) finishReason = choice.finish_reason
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    lines.forEach(handleLine)
+  }
+  handleLine(buffer)
+
+  const toolCalls: LLMToolCall[] = []
+  for (const pending of pendingCalls) {
+    if (!pending) continue
+    const parsed = parseToolCall(pending.name, pending.args)
+    if (parsed) {
+      toolCalls.push(parsed)
+      onEvent({ type: 'tool_call', call: parsed })
+    }
+  }
+
+  return {
+    text,
+    toolCalls,
+    stopReason: FINISH_REASON_MAP[finishReason] || 'unknown',
+    provider: 'openai',
+    model,
+  }
+}
+
+export const openAICompatibleProvider: TextProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (OpenAI, llama.cpp, Ollama)',
+  defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  configurationHint: 'Set OPENAI_BASE_URL (and OPENAI_API_KEY if required) in .env.local',
+  isConfigured,
+  complete,
+  stream,
+}
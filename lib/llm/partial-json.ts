@@ -0,0 +1,78 @@
+// Best-effort parsing of a JSON object that is still being streamed
+
+// Strip a leading ```json fence and anything before the first brace
+function stripPreamble(text: string): string {
+  const start = text.indexOf('{')
+  return start === -1 ? '' : text.slice(start)
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Parse the longest usable prefix of an incomplete JSON document.
+ * Open strings, arrays and objects are closed; a trailing key without a value
+ * (or a half-written key) is dropped. Returns undefined if nothing parses yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const source = stripPreamble(text)
+  if (!source) return undefined
+
+  const complete = tryParse(source.replace(/```\s*$/, '').trim())
+  if (complete !== undefined) return complete
+
+  const closers: string[] = []
+  let inString = false
+  let escaped = false
+  // Position just after the last '{', '[' or ',' outside a string, with the closers open at that point
+  let safeEnd = 0
+  let safeClosers: string[] = []
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']')
+      safeEnd = i + 1
+      safeClosers = [...closers]
+    } else if (char === '}' || char === ']') {
+      closers.pop()
+      if (closers.length === 0) {
+        return tryParse(source.slice(0, i + 1))
+      }
+    } else if (char === ',') {
+      safeEnd = i
+      safeClosers = [...closers]
+    }
+  }
+
+  // First attempt: close the open string (dropping a dangling escape) and containers
+  let attempt = source
+  if (inString) {
+    if (escaped) attempt = attempt.slice(0, -1)
+    attempt += '"'
+  }
+  const closed = tryParse(attempt + [...closers].reverse().join(''))
+  if (closed !== undefined) return closed
+
+  // Fall back to the last structural boundary
+  return tryParse(source.slice(0, safeEnd) + [...safeClosers].reverse().join(''))
+}
@@ -0,0 +1,73 @@
+// Text Provider Types
+
+import type { TextProviderId } from '@/types'
+
+export type { TextProviderId }
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Tool definitions use the Anthropic input_schema shape; other providers translate it
+export interface LLMTool {
+  name: string
+  description?: string
+  input_schema: {
+    type: 'object'
+    properties?: unknown
+    required?: string[]
+    [key: string]: unknown
+  }
+}
+
+export interface LLMToolCall {
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface CompletionRequest {
+  model: string
+  system?: string
+  messages: LLMMessage[]
+  maxTokens: number
+  tools?: LLMTool[]
+  signal?: AbortSignal
+  // Identifies the calling workflow (e.g. 'outputs', 'regenerate:hooks').
+  // Real providers ignore it; the mock provider uses it to pick a fixture.
+  task?: string
+}
+
+export type StopReason = 'end_turn' | 'max_tokens' | 'tool_use' | 'stop_sequence' | 'unknown'
+
+export interface CompletionResult {
+  text: string
+  toolCalls: LLMToolCall[]
+  stopReason: StopReason
+  provider: TextProviderId
+  model: string
+}
+
+// Incremental output pushed while a completion is streaming
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+
+export type StreamHandler = (event: StreamEvent) => void
+
+export interface TextProvider {
+  id: TextProviderId
+  label: string
+  defaultModel: string
+  isConfigured(): boolean
+  configurationHint: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  // Same result as complete(), but text deltas and finished tool calls are
+  // reported through onEvent as they arrive
+  stream(request: CompletionRequest, onEvent: StreamHandler): Promise<CompletionResult>
+}
+
+export interface ModelSelection {
+  provider: TextProviderId
+  model: string
+}
@@ -0,0 +1,160 @@
+// Newsletters and long-form articles: cleaning up outline sections, mirroring them into
+// the body, and rendering the finished issue as Markdown or an HTML email.
+// Shared by the API routes and the newsletter editors.
+
+import { generateId } from '@/lib/utils'
+import type { NewsletterSection } from '@/types'
+
+// Most sections an outline can have
+export const MAX_SECTIONS = 12
+
+// Gmail and most clients show roughly this much of the subject line and preview text
+export const SUBJECT_LINE_LIMIT = 60
+export const PREVIEW_TEXT_LIMIT = 110
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Sections from a model response or an edit: each needs a heading, keeps its id (or gets
+ * one), and has its summary and body trimmed. Anything else is dropped.
+ */
+export function normalizeSections(value: unknown): NewsletterSection[] {
+  if (!Array.isArray(value)) return []
+  const seen = new Set<string>()
+  const sections: NewsletterSection[] = []
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue
+    const raw = item as Record<string, unknown>
+    const heading = text(raw.heading)
+    if (!heading) continue
+    let id = text(raw.id)
+    if (!id || seen.has(id)) id = generateId()
+    seen.add(id)
+    sections.push({ id, heading, summary: text(raw.summary), body: text(raw.body) })
+  }
+  return sections.slice(0, MAX_SECTIONS)
+}
+
+/**
+ * The drafted sections as Markdown, one "## Heading" per section; stored as the output's
+ * body so word counts, carousels and other body-based features see the whole article
+ */
+export function sectionsToMarkdown(sections: NewsletterSection[]): string {
+  return sections
+    .filter(section => section.body)
+    .map(section => `## ${section.heading}\n\n${section.body}`)
+    .join('\n\n')
+}
+
+/**
+ * The outline for a prompt, marking the sections to write when only some are wanted
+ */
+export function formatOutlineForPrompt(sections: NewsletterSection[], targetIds?: string[]): string {
+  return sections.map((section, index) => {
+    const marker = targetIds && targetIds.includes(section.id) ? ' [WRITE THIS SECTION]' : ''
+    return `${index + 1}. ${section.heading}${marker}${section.summary ? `\n   ${section.summary}` : ''}`
+  }).join('\n')
+}
+
+export interface NewsletterIssue {
+  title: string
+  subject: string
+  previewText: string
+  sections: NewsletterSection[]
+  heroImage?: { src: string; alt: string }
+}
+
+/**
+ * The issue as a Markdown article: title, subject and preview text, hero image, sections
+ */
+export function renderNewsletterMarkdown(issue: NewsletterIssue): string {
+  const lines: string[] = [`# ${issue.subject || issue.title}`, '']
+  if (issue.previewText) {
+    lines.push(`*${issue.previewText}*`, '')
+  }
+  if (issue.heroImage) {
+    lines.push(`![${issue.heroImage.alt}](${issue.heroImage.src})`, '')
+  }
+  for (const section of issue.sections) {
+    lines.push(`## ${section.heading}`, '')
+    lines.push(section.body || `_${section.summary || 'Not drafted yet'}_`, '')
+  }
+  return lines.join('\n')
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Bold, italics and links inside a line of already-escaped text
+function inlineHtml(line: string): string {
+  return escapeHtml(line)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" style="color:#0A66C2;">$1</a>')
+}
+
+const PARAGRAPH_STYLE = 'margin:0 0 16px;font-size:16px;line-height:1.6;color:#1f2937;'
+
+// A section body's paragraphs and "- " bullet lists as email-safe HTML
+function bodyToHtml(body: string): string {
+  return body.split(/\n\s*\n/).map(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean)
+    if (lines.length === 0) return ''
+    if (lines.every(line => /^[-*] /.test(line))) {
+      const items = lines.map(line => `<li style="margin:0 0 8px;">${inlineHtml(line.slice(2))}</li>`).join('')
+      return `<ul style="${PARAGRAPH_STYLE}padding-left:24px;">${items}</ul>`
+    }
+    return `<p style="${PARAGRAPH_STYLE}">${lines.map(inlineHtml).join('<br>')}</p>`
+  }).join('\n')
+}
+
+/**
+ * The issue as a self-contained HTML email: table layout and inline styles so it survives
+ * email clients, with the preview text as a hidden preheader
+ */
+export function renderNewsletterHtml(issue: NewsletterIssue): string {
+  const heading = escapeHtml(issue.subject || issue.title)
+  const sections = issue.sections.map(section => `
+            <h2 style="margin:32px 0 12px;font-size:22px;line-height:1.3;color:#111827;">${escapeHtml(section.heading)}</h2>
+            ${bodyToHtml(section.body || section.summary)}`).join('\n')
+  const hero = issue.heroImage
+    ? `
+        <tr>
+          <td><img src="${escapeHtml(issue.heroImage.src)}" alt="${escapeHtml(issue.heroImage.alt)}" width="600" style="display:block;width:100%;height:auto;border:0;"></td>
+        </tr>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${heading}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;">
+  <div style="display:none;max-height:0;overflow:hidden;opacity:0;">${escapeHtml(issue.previewText)}</div>
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">${hero}
+          <tr>
+            <td style="padding:32px;">
+            <h1 style="margin:0 0 8px;font-size:28px;line-height:1.25;color:#111827;">${heading}</h1>
+${sections}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,226 @@
+// The built-in platforms and the templates custom platforms are made from. No database
+// access, so the project pages can import it directly; routes use lib/platforms.
+
+import { TWEET_LIMIT } from '@/lib/thread'
+import type { CustomPlatformFormat, PlatformAspectRatio, PlatformDefinition, PlatformToneKey, WorkflowStep } from '@/types'
+
+export function toneSettingKey(platformId: string): PlatformToneKey {
+  return `${platformId}_tone_prompt`
+}
+
+const WIDE: PlatformAspectRatio = { ratio: '1.91:1', width: 1200, height: 630 }
+const VIDEO: PlatformAspectRatio = { ratio: '16:9', width: 1280, height: 720 }
+const PORTRAIT: PlatformAspectRatio = { ratio: '4:5', width: 1080, height: 1350 }
+const SQUARE: PlatformAspectRatio = { ratio: '1:1', width: 1080, height: 1080 }
+
+export const BUILT_IN_PLATFORMS: PlatformDefinition[] = [
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    description: 'Professional posts with hooks, body content, CTAs, and visuals',
+    builtIn: true,
+    format: 'post',
+    steps: ['setup', 'hooks', 'body', 'ctas', 'titles', 'visuals', 'complete'],
+    // LinkedIn posts allow 3,000 characters
+    characterLimit: 3000,
+    hashtagLimit: null,
+    aspectRatio: WIDE,
+    generationPrompt: `Generate content for a LinkedIn post. Include:
+- 5 attention-grabbing hooks (opening lines)
+- Body content (150-300 words)
+- 3 call-to-action options
+- 5 title options (concise, engaging titles that could be used as the post headline or article title)
+- 3 visual concept descriptions for accompanying images`,
+    outputFocus: 'LinkedIn content, focus on hooks, body_content, titles, ctas, and visual_concepts. intros and thread can be empty arrays but titles should contain 5 options.',
+    toneSettingKey: 'linkedin_tone_prompt',
+  },
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    description: 'Video content with hooks, intros, titles, and thumbnails',
+    builtIn: true,
+    format: 'video',
+    steps: ['setup', 'hooks', 'intros', 'titles', 'thumbnails', 'complete'],
+    // Applies to the video description
+    characterLimit: 5000,
+    hashtagLimit: null,
+    aspectRatio: VIDEO,
+    generationPrompt: `Generate content for a YouTube video. Include:
+- 5 attention-grabbing hooks (video opening lines)
+- 3 video intro scripts (30-60 seconds each)
+- 5 video title options (SEO-optimized, under 60 characters)
+- 3 thumbnail concept descriptions`,
+    outputFocus: 'YouTube content, focus on intros, titles, and visual_concepts (thumbnails). body_content can be a brief description. intros should NOT be empty.',
+    toneSettingKey: 'youtube_tone_prompt',
+  },
+  {
+    id: 'facebook',
+    label: 'Facebook',
+    description: 'Social posts with hooks, body content, CTAs, and visuals',
+    builtIn: true,
+    format: 'post',
+    steps: ['setup', 'hooks', 'body', 'ctas', 'titles', 'visuals', 'complete'],
+    // Facebook posts allow 63,206 characters
+    characterLimit: 63206,
+    hashtagLimit: null,
+    aspectRatio: WIDE,
+    generationPrompt: `Generate content for a Facebook post. Include:
+- 5 attention-grabbing hooks (opening lines)
+- Body content (100-250 words)
+- 3 call-to-action options
+- 5 title options (concise, engaging titles that could be used as the post headline)
+- 3 visual concept descriptions for accompanying images`,
+    outputFocus: 'Facebook content, focus on hooks, body_content, titles, ctas, and visual_concepts. intros and thread can be empty arrays but titles should contain 5 options.',
+    toneSettingKey: 'facebook_tone_prompt',
+  },
+  {
+    id: 'x',
+    label: 'X',
+    description: 'Threads with a hook, numbered tweets, a closing CTA, and an image',
+    builtIn: true,
+    format: 'thread',
+    steps: ['setup', 'hooks', 'thread', 'ctas', 'visuals', 'complete'],
+    characterLimit: TWEET_LIMIT,
+    hashtagLimit: null,
+    aspectRatio: VIDEO,
+    generationPrompt: `Generate content for an X (Twitter) thread. Include:
+- 5 attention-grabbing hooks (the thread's opening tweet, each under 270 characters)
+- The thread: 4-8 tweets that follow the hook, each one standalone and under 270 characters
+- 3 call-to-action options for the closing tweet (under 270 characters)
+- 3 visual concept descriptions for an image to attach to the first tweet`,
+    outputFocus: 'X content, focus on hooks, thread, ctas, and visual_concepts. thread should NOT be empty; do not number the tweets. body_content, intros and titles can be empty.',
+    toneSettingKey: 'x_tone_prompt',
+  },
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    description: 'Captions with hashtag sets, 4:5 images and carousels, and alt text',
+    builtIn: true,
+    format: 'caption',
+    steps: ['setup', 'hooks', 'caption', 'ctas', 'hashtags', 'visuals', 'alt_text', 'complete'],
+    characterLimit: 2200,
+    // Instagram allows 30 hashtags per post
+    hashtagLimit: 30,
+    aspectRatio: PORTRAIT,
+    generationPrompt: `Generate content for an Instagram post caption. Include:
+- 5 attention-grabbing hooks (the caption's first line, shown before "more", under 125 characters)
+- Caption body (80-200 words in short paragraphs)
+- 3 call-to-action options (e.g. save, share or comment prompts)
+- 3 hashtag sets, each with 10-20 relevant hashtags mixing broad and niche tags
+- 3 visual concept descriptions for a 4:5 portrait image or carousel cover`,
+    outputFocus: 'Instagram content, focus on hooks, body_content (the caption), ctas, hashtag_sets and visual_concepts. Hook, body, CTA and hashtags together must stay under 2,200 characters. thread, intros and titles can be empty arrays.',
+    toneSettingKey: 'instagram_tone_prompt',
+  },
+  {
+    id: 'threads',
+    label: 'Threads',
+    description: 'Short posts with a topic tag, square images, and alt text',
+    builtIn: true,
+    format: 'caption',
+    steps: ['setup', 'hooks', 'caption', 'ctas', 'hashtags', 'visuals', 'alt_text', 'complete'],
+    characterLimit: 500,
+    // Threads takes a single topic tag
+    hashtagLimit: 1,
+    aspectRatio: SQUARE,
+    generationPrompt: `Generate content for a Threads post. Include:
+- 5 attention-grabbing hooks (opening lines, under 100 characters)
+- Post body (40-80 words, conversational)
+- 3 call-to-action options (short questions or prompts to reply)
+- 3 hashtag sets, each a single topic tag
+- 3 visual concept descriptions for an accompanying square image`,
+    outputFocus: 'Threads content, focus on hooks, body_content, ctas, hashtag_sets and visual_concepts. Hook, body, CTA and topic tag together must stay under 500 characters, and each hashtag set is one tag. thread, intros and titles can be empty arrays.',
+    toneSettingKey: 'threads_tone_prompt',
+  },
+  {
+    id: 'newsletter',
+    label: 'Newsletter',
+    description: 'Long-form issues with an outline, drafted sections, subject lines, and a hero image',
+    builtIn: true,
+    format: 'newsletter',
+    steps: ['setup', 'outline', 'sections', 'subject_lines', 'preview_texts', 'visuals', 'complete'],
+    characterLimit: null,
+    hashtagLimit: null,
+    aspectRatio: WIDE,
+    generationPrompt: `Generate the plan for a newsletter issue or long-form article. Include:
+- An outline of 4-7 sections in reading order, each with a heading and a one or two sentence summary of what it covers (the sections themselves are drafted later)
+- 5 email subject line options (under 60 characters)
+- 3 preview text options (the line shown after the subject in the inbox, under 110 characters)
+- 3 visual concept descriptions for a wide hero image`,
+    outputFocus: 'newsletter content, focus on newsletter_sections (heading and summary only, no body), subject_lines, preview_texts and visual_concepts. newsletter_sections should NOT be empty. body_content can be empty; hooks, thread, intros, titles, ctas and hashtag_sets can be empty arrays.',
+    toneSettingKey: 'newsletter_tone_prompt',
+  },
+]
+
+export function getBuiltInPlatform(id: string): PlatformDefinition | undefined {
+  return BUILT_IN_PLATFORMS.find(platform => platform.id === id)
+}
+
+export const CUSTOM_PLATFORM_FORMATS: { value: CustomPlatformFormat; label: string; description: string }[] = [
+  { value: 'post', label: 'Post', description: 'Hook, body, call to action, title and image, like LinkedIn' },
+  { value: 'caption', label: 'Caption', description: 'Hook, caption, call to action, hashtags and image, like Instagram' },
+]
+
+// Every step a custom platform of each format can have, in workflow order. Optional
+// steps can be left out; setup and complete are added around them.
+export const CUSTOM_PLATFORM_STEPS: Record<CustomPlatformFormat, { step: WorkflowStep; optional: boolean }[]> = {
+  post: [
+    { step: 'hooks', optional: false },
+    { step: 'body', optional: false },
+    { step: 'ctas', optional: true },
+    { step: 'titles', optional: true },
+    { step: 'visuals', optional: true },
+  ],
+  caption: [
+    { step: 'hooks', optional: false },
+    { step: 'caption', optional: false },
+    { step: 'ctas', optional: true },
+    { step: 'hashtags', optional: true },
+    { step: 'visuals', optional: true },
+    { step: 'alt_text', optional: true },
+  ],
+}
+
+/**
+ * A custom platform's workflow: the format's required steps plus whichever optional
+ * ones were chosen, in the format's order
+ */
+export function buildCustomSteps(format: CustomPlatformFormat, chosen: WorkflowStep[]): WorkflowStep[] {
+  const steps = CUSTOM_PLATFORM_STEPS[format]
+    .filter(({ step, optional }) => !optional || chosen.includes(step))
+    .map(({ step }) => step)
+  // Alt text describes the chosen image, so it needs the visuals step
+  const withoutOrphans = steps.includes('visuals') ? steps : steps.filter(step => step !== 'alt_text')
+  return ['setup', ...withoutOrphans, 'complete']
+}
+
+/**
+ * Generation prompt for a custom platform that doesn't supply its own
+ */
+export function defaultGenerationPrompt(label: string, format: CustomPlatformFormat, characterLimit: number | null): string {
+  const limit = characterLimit ? `, the whole post under ${characterLimit.toLocaleString('en-US')} characters` : ''
+  if (format === 'caption') {
+    return `Generate content for a ${label} post caption. Include:
+- 5 attention-grabbing hooks (the caption's first line)
+- Caption body (short paragraphs${limit})
+- 3 call-to-action options
+- 3 hashtag sets of relevant hashtags
+- 3 visual concept descriptions for an accompanying image`
+  }
+  return `Generate content for a ${label} post. Include:
+- 5 attention-grabbing hooks (opening lines)
+- Body content (short paragraphs${limit})
+- 3 call-to-action options
+- 5 title options (concise, engaging titles that could be used as the post headline)
+- 3 visual concept descriptions for accompanying images`
+}
+
+/**
+ * What a custom platform's JSON response should concentrate on, when it doesn't say
+ */
+export function defaultOutputFocus(label: string, format: CustomPlatformFormat, characterLimit: number | null): string {
+  const limit = characterLimit ? ` Hook, body and CTA together must stay under ${characterLimit.toLocaleString('en-US')} characters.` : ''
+  if (format === 'caption') {
+    return `${label} content, focus on hooks, body_content (the caption), ctas, hashtag_sets and visual_concepts.${limit} thread, intros and titles can be empty arrays.`
+  }
+  return `${label} content, focus on hooks, body_content, titles, ctas, and visual_concepts.${limit} intros, thread and hashtag_sets can be empty arrays.`
+}
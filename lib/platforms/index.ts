@@ -0,0 +1,168 @@
+// Platform registry: the built-in platforms plus the custom ones stored in
+// custom_platforms. Routes look platforms up here instead of switching on their ids.
+
+export * from './builtin'
+
+import db from '@/lib/db'
+import { safeJsonParse } from '@/lib/utils'
+import {
+  BUILT_IN_PLATFORMS,
+  CUSTOM_PLATFORM_FORMATS,
+  buildCustomSteps,
+  defaultGenerationPrompt,
+  defaultOutputFocus,
+  getBuiltInPlatform,
+  toneSettingKey,
+} from './builtin'
+import { ASPECT_RATIO_OPTIONS } from '@/types'
+import type { CustomPlatformFormat, CustomPlatformRequest, PlatformDefinition, WorkflowStep } from '@/types'
+
+export interface CustomPlatformRow {
+  id: string
+  label: string
+  description: string
+  format: CustomPlatformFormat
+  steps: string
+  character_limit: number | null
+  hashtag_limit: number | null
+  aspect_ratio: string
+  width: number
+  height: number
+  generation_prompt: string
+  output_focus: string
+  created_at: string
+  updated_at: string
+}
+
+export function rowToPlatform(row: CustomPlatformRow): PlatformDefinition {
+  return {
+    id: row.id,
+    label: row.label,
+    description: row.description,
+    builtIn: false,
+    format: row.format,
+    steps: safeJsonParse<WorkflowStep[]>(row.steps, ['setup', 'complete']),
+    characterLimit: row.character_limit,
+    hashtagLimit: row.hashtag_limit,
+    aspectRatio: { ratio: row.aspect_ratio, width: row.width, height: row.height },
+    // Blank prompts follow the label, format and limit as they change
+    generationPrompt: row.generation_prompt || defaultGenerationPrompt(row.label, row.format, row.character_limit),
+    outputFocus: row.output_focus || defaultOutputFocus(row.label, row.format, row.character_limit),
+    toneSettingKey: toneSettingKey(row.id),
+  }
+}
+
+/**
+ * Every platform, built-ins first, then custom platforms in the order they were added
+ */
+export function listPlatforms(): PlatformDefinition[] {
+  const rows = db.prepare('SELECT * FROM custom_platforms ORDER BY created_at, label').all() as CustomPlatformRow[]
+  return [...BUILT_IN_PLATFORMS, ...rows.map(rowToPlatform)]
+}
+
+export function getPlatform(id: string): PlatformDefinition | undefined {
+  const builtIn = getBuiltInPlatform(id)
+  if (builtIn) return builtIn
+  const row = db.prepare('SELECT * FROM custom_platforms WHERE id = ?').get(id) as CustomPlatformRow | undefined
+  return row ? rowToPlatform(row) : undefined
+}
+
+/**
+ * A project's platform. Projects whose custom platform has gone missing fall back to
+ * LinkedIn so they still open.
+ */
+export function getProjectPlatform(id: string): PlatformDefinition {
+  return getPlatform(id) || BUILT_IN_PLATFORMS[0]
+}
+
+// Lowercase letters, digits and hyphens; used in URLs and the tone setting key
+const PLATFORM_ID_PATTERN = /^[a-z][a-z0-9-]{1,29}$/
+
+/**
+ * A platform id from a label, e.g. "Slack Announcements" becomes "slack-announcements"
+ */
+export function slugifyPlatformId(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 30).replace(/-+$/, '')
+}
+
+export type CustomPlatformValues = Omit<CustomPlatformRow, 'id' | 'created_at' | 'updated_at'>
+
+function optionalLimit(value: unknown, name: string): { limit: number | null } | { error: string } {
+  if (value === null || value === '') return { limit: null }
+  if (Number.isInteger(Number(value)) && Number(value) > 0) return { limit: Number(value) }
+  return { error: `${name} must be a positive whole number or empty` }
+}
+
+/**
+ * Validate a create or update request. Fields left out of an update keep their current
+ * values; a create needs at least a label and a format.
+ */
+export function parseCustomPlatform(
+  body: CustomPlatformRequest,
+  existing?: CustomPlatformRow
+): { values: CustomPlatformValues } | { error: string } {
+  const label = body.label !== undefined ? String(body.label).trim() : existing?.label || ''
+  if (!label || label.length > 40) {
+    return { error: 'label is required and must be at most 40 characters' }
+  }
+
+  const format = body.format ?? existing?.format
+  if (!format || !CUSTOM_PLATFORM_FORMATS.some(option => option.value === format)) {
+    return { error: `format must be one of: ${CUSTOM_PLATFORM_FORMATS.map(option => option.value).join(', ')}` }
+  }
+
+  // Without a list every optional step is included
+  const chosenSteps = Array.isArray(body.steps)
+    ? body.steps
+    : existing && existing.format === format ? safeJsonParse<WorkflowStep[]>(existing.steps, []) : ['ctas', 'titles', 'hashtags', 'visuals', 'alt_text'] as WorkflowStep[]
+
+  let characterLimit = existing?.character_limit ?? null
+  if (body.character_limit !== undefined) {
+    const parsed = optionalLimit(body.character_limit, 'character_limit')
+    if ('error' in parsed) return parsed
+    characterLimit = parsed.limit
+  }
+
+  let hashtagLimit = existing?.hashtag_limit ?? null
+  if (body.hashtag_limit !== undefined) {
+    const parsed = optionalLimit(body.hashtag_limit, 'hashtag_limit')
+    if ('error' in parsed) return parsed
+    hashtagLimit = parsed.limit
+  }
+
+  const ratio = body.aspect_ratio ?? existing?.aspect_ratio ?? ASPECT_RATIO_OPTIONS[0].ratio
+  const aspectRatio = ASPECT_RATIO_OPTIONS.find(option => option.ratio === ratio)
+  if (!aspectRatio) {
+    return { error: `aspect_ratio must be one of: ${ASPECT_RATIO_OPTIONS.map(option => option.ratio).join(', ')}` }
+  }
+
+  return {
+    values: {
+      label,
+      description: body.description !== undefined ? String(body.description).trim() : existing?.description || '',
+      format,
+      steps: JSON.stringify(buildCustomSteps(format, chosenSteps)),
+      character_limit: characterLimit,
+      // Only captions carry hashtag sets
+      hashtag_limit: format === 'caption' ? hashtagLimit : null,
+      aspect_ratio: aspectRatio.ratio,
+      width: aspectRatio.width,
+      height: aspectRatio.height,
+      generation_prompt: body.generation_prompt !== undefined ? String(body.generation_prompt).trim() : existing?.generation_prompt || '',
+      output_focus: body.output_focus !== undefined ? String(body.output_focus).trim() : existing?.output_focus || '',
+    },
+  }
+}
+
+/**
+ * Check a new platform id: the right shape, and not taken by a built-in or custom platform
+ */
+export function validateNewPlatformId(id: string): string | null {
+  if (!PLATFORM_ID_PATTERN.test(id)) {
+    return 'id must be 2-30 lowercase letters, digits or hyphens, starting with a letter'
+  }
+  if (getPlatform(id)) {
+    return `A platform with the id "${id}" already exists`
+  }
+  return null
+}
@@ -0,0 +1,62 @@
+// Feed previews: a post assembled the way it gets copied out, and cut off where LinkedIn and
+// Facebook fold it behind "see more" on desktop and mobile. No database access, so the
+// summary step and the clipboard export share it.
+
+export type FeedDevice = 'desktop' | 'mobile'
+
+export interface FeedFold {
+  // Characters shown before "see more", when the post has no early line breaks
+  characters: number
+  // Lines shown before "see more"; short lines reach the fold sooner
+  lines: number
+}
+
+// Approximate, as the feeds measure rendered width rather than characters
+export const FEED_FOLDS: Record<'linkedin' | 'facebook', Record<FeedDevice, FeedFold>> = {
+  linkedin: {
+    desktop: { characters: 210, lines: 3 },
+    mobile: { characters: 140, lines: 3 },
+  },
+  facebook: {
+    desktop: { characters: 480, lines: 6 },
+    mobile: { characters: 125, lines: 4 },
+  },
+}
+
+// Room to back up to a space rather than cutting a word in half
+const WORD_BREAK_WINDOW = 20
+
+/**
+ * The fold for a platform's feed, or null for platforms without a feed preview
+ */
+export function feedFoldFor(platformId: string, device: FeedDevice): FeedFold | null {
+  if (platformId !== 'linkedin' && platformId !== 'facebook') return null
+  return FEED_FOLDS[platformId][device]
+}
+
+/**
+ * Hook, body and CTA as one post, blank lines between them
+ */
+export function formatPost(hook: string, body: string, cta: string | null): string {
+  return [hook, body, cta || '']
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * The part of a post shown above the fold, and whether anything was hidden
+ */
+export function truncateAtFold(text: string, fold: FeedFold): { visible: string; truncated: boolean } {
+  const lines = text.split('\n')
+  let visible = lines.slice(0, fold.lines).join('\n')
+
+  if (visible.length > fold.characters) {
+    visible = visible.substring(0, fold.characters)
+    const lastSpace = visible.search(/\s\S*$/)
+    if (lastSpace > fold.characters - WORD_BREAK_WINDOW) visible = visible.substring(0, lastSpace)
+  }
+
+  visible = visible.replace(/\s+$/, '')
+  return { visible, truncated: visible.length < text.trim().length }
+}
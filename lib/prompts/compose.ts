@@ -1,5 +1,7 @@
 import db from '@/lib/db'
-import type { Platform, RegenerateSection, SettingKey } from '@/types'
+import { formatExamplesForPrompt } from './examples'
+import { toneSettingKey } from '@/lib/platforms/builtin'
+import type { GenerationExample, Platform, RegenerateSection, SettingKey } from '@/types'
 
 // Short-lived cache for prompt settings (5 seconds)
 let cachedSettings: Record<string, string> | null = null
@@ -30,10 +32,12 @@ export function invalidatePromptCache(): void {
   cacheTimestamp = 0
 }
 
-// Map regenerate section to setting key
-const SECTION_TO_KEY: Record<RegenerateSection, SettingKey> = {
+// Map regenerate section to setting key (hashtags have no section agent prompt)
+const SECTION_TO_KEY: Partial<Record<RegenerateSection, SettingKey>> = {
   hooks: 'hooks_agent_prompt',
   body: 'body_agent_prompt',
+  thread: 'body_agent_prompt',
+  sections: 'body_agent_prompt',
   intros: 'intros_agent_prompt',
   titles: 'titles_agent_prompt',
   ctas: 'ctas_agent_prompt',
@@ -42,12 +46,14 @@ const SECTION_TO_KEY: Record<RegenerateSection, SettingKey> = {
 
 /**
  * Composes a layered system prompt:
- *   baseSystemPrompt + master_voice + platform_tone + section_agent
+ *   baseSystemPrompt + master_voice + platform_tone + section_agent + examples
+ * Examples (see selectGenerationExamples) are only added when the caller passes them.
  */
 export function composeSystemPrompt(
   baseSystemPrompt: string,
   platform?: Platform,
-  section?: RegenerateSection
+  section?: RegenerateSection,
+  examples?: GenerationExample[]
 ): string {
   const settings = getSettings()
 
@@ -61,8 +67,7 @@ export function composeSystemPrompt(
 
   // Layer 2: Platform tone modifier
   if (platform) {
-    const toneKey = `${platform}_tone_prompt`
-    const platformTone = settings[toneKey]
+    const platformTone = settings[toneSettingKey(platform)]
     if (platformTone?.trim()) {
       composed += `\n\n--- Platform Tone ---\n${platformTone}`
     }
@@ -79,5 +84,12 @@ export function composeSystemPrompt(
     }
   }
 
+  // Layer 4: Few-shot examples from our own best posts and favorites
+  if (examples && examples.length > 0) {
+    composed += '\n\n--- Examples From Our Best Content ---\n'
+    composed += 'These performed well for this account or were saved as favorites. Match their voice, structure and level of specificity, but do not copy them or reuse their topics.\n\n'
+    composed += formatExamplesForPrompt(examples)
+  }
+
   return composed
 }
@@ -0,0 +1,241 @@
+import db from '@/lib/db'
+import { engagementRate, totalEngagements } from '@/lib/analytics/metrics'
+import { safeJsonParse } from '@/lib/utils'
+import { getProjectPlatform } from '@/lib/platforms'
+import { stripCitationMarkers } from '@/lib/citations'
+import type { FavoriteType, GenerationExample, GenerationExampleKind, Platform, PlatformFormat, RegenerateSection, VisualConcept } from '@/types'
+
+const MAX_TOP_POSTS = 3
+const MAX_FAVORITES_PER_KIND = 3
+const MAX_EXAMPLE_CHARS = 1500
+
+// What each generation asks for, and so which kinds of examples are useful
+const SECTION_KINDS: Record<RegenerateSection, GenerationExampleKind[]> = {
+  hooks: ['hook'],
+  body: ['body'],
+  thread: ['body'],
+  outline: [],
+  sections: ['body'],
+  subject_lines: ['title'],
+  preview_texts: [],
+  intros: ['intro'],
+  titles: ['title'],
+  ctas: ['cta'],
+  hashtags: [],
+  visuals: ['visual'],
+}
+
+function kindsFor(format: PlatformFormat, section?: RegenerateSection): GenerationExampleKind[] {
+  if (section) return SECTION_KINDS[section]
+  return format === 'video' ? ['title', 'intro', 'hook'] : ['post', 'hook', 'cta']
+}
+
+function favoriteTypesFor(kind: GenerationExampleKind, format: PlatformFormat): FavoriteType[] {
+  switch (kind) {
+    case 'post': return []
+    case 'visual': return format === 'video' ? ['thumbnail', 'visual'] : ['visual']
+    default: return [kind]
+  }
+}
+
+function clip(text: string): string {
+  return text.length > MAX_EXAMPLE_CHARS ? `${text.substring(0, MAX_EXAMPLE_CHARS)}...` : text
+}
+
+interface TopPostRow {
+  id: string
+  name: string
+  hooks: string
+  body_content: string
+  ctas: string
+  titles: string
+  intros: string
+  visual_concepts: string
+  selected_hook_index: number | null
+  selected_cta_index: number | null
+  selected_title_index: number | null
+  selected_intro_index: number | null
+  selected_visual_index: number | null
+  views: number | null
+  likes: number | null
+  comments: number | null
+  reposts: number | null
+}
+
+// The chosen item of an output list; hooks/titles/intros fall back to the first option
+// since a published post always had one, while a CTA index of -1 means it had none
+function pick(json: string, index: number | null, fallbackToFirst: boolean): string {
+  const items = safeJsonParse<(string | VisualConcept)[]>(json, [])
+  const chosen = index !== null && index >= 0 ? items[index] : fallbackToFirst ? items[0] : undefined
+  if (!chosen) return ''
+  return typeof chosen === 'string' ? chosen : chosen.description || ''
+}
+
+function topPostContent(row: TopPostRow, kind: GenerationExampleKind): string {
+  const hook = pick(row.hooks, row.selected_hook_index, true)
+  switch (kind) {
+    case 'post':
+      return [hook, stripCitationMarkers(row.body_content || ''), pick(row.ctas, row.selected_cta_index, false)].filter(Boolean).join('\n\n')
+    case 'hook': return hook
+    case 'body': return stripCitationMarkers(row.body_content || '')
+    case 'cta': return pick(row.ctas, row.selected_cta_index, false)
+    case 'title': return pick(row.titles, row.selected_title_index, true)
+    case 'intro': return pick(row.intros, row.selected_intro_index, true)
+    case 'visual': return pick(row.visual_concepts, row.selected_visual_index, false)
+  }
+}
+
+/**
+ * Our highest-engagement published posts on the platform, best first. Posts with views
+ * rank by engagement rate; posts with only likes/comments/reposts come after, by total.
+ */
+function getTopPosts(platform: Platform, excludeProjectId: string): (TopPostRow & { rate: number | null; engagements: number })[] {
+  const rows = db.prepare(`
+    SELECT p.id, p.name,
+      o.hooks, o.body_content, o.ctas, o.titles, o.intros, o.visual_concepts,
+      o.selected_hook_index, o.selected_cta_index, o.selected_title_index, o.selected_intro_index, o.selected_visual_index,
+      pn.views, pn.likes, pn.comments, pn.reposts
+    FROM projects p
+    JOIN outputs o ON o.project_id = p.id
+    JOIN performance_notes pn ON pn.project_id = p.id
+    WHERE p.status = 'published' AND p.platform = ? AND p.id != ?
+  `).all(platform, excludeProjectId) as TopPostRow[]
+
+  return rows
+    .map(row => ({ ...row, rate: engagementRate(row), engagements: totalEngagements(row) ?? -1 }))
+    .filter(row => row.engagements >= 0)
+    .sort((a, b) => {
+      if (a.rate !== null && b.rate !== null) return b.rate - a.rate
+      if (a.rate !== null) return -1
+      if (b.rate !== null) return 1
+      return b.engagements - a.engagements
+    })
+    .slice(0, MAX_TOP_POSTS)
+}
+
+function getFavorites(types: FavoriteType[], platform: Platform, excludeProjectId: string): { id: string; content: string; project_id: string; project_name: string }[] {
+  if (types.length === 0) return []
+  const rows = db.prepare(`
+    SELECT f.id, f.content, p.id AS project_id, p.name AS project_name
+    FROM favorites f
+    JOIN projects p ON p.id = f.source_project_id
+    WHERE f.type IN (${types.map(() => '?').join(', ')}) AND p.platform = ? AND p.id != ?
+    ORDER BY f.created_at DESC
+    LIMIT ?
+  `).all(...types, platform, excludeProjectId, MAX_FAVORITES_PER_KIND) as { id: string; content: string; project_id: string; project_name: string }[]
+
+  return rows.map(row => {
+    const content = safeJsonParse<string | VisualConcept>(row.content, '')
+    return { ...row, content: typeof content === 'string' ? content : content?.description || '' }
+  })
+}
+
+/**
+ * Few-shot examples for a generation: the matching parts of our top published posts and
+ * favorited hooks/CTAs/etc. from the same platform. Never includes the project itself.
+ */
+export function selectGenerationExamples(
+  projectId: string,
+  platform: Platform,
+  section?: RegenerateSection
+): GenerationExample[] {
+  const { format } = getProjectPlatform(platform)
+  const kinds = kindsFor(format, section)
+  const topPosts = getTopPosts(platform, projectId)
+  const examples: GenerationExample[] = []
+  const seen = new Set<string>()
+
+  const add = (example: GenerationExample) => {
+    const key = example.content.trim().toLowerCase()
+    if (!key || seen.has(key)) return
+    seen.add(key)
+    examples.push({ ...example, content: clip(example.content.trim()) })
+  }
+
+  for (const kind of kinds) {
+    // A full-post example already shows its hook and CTA
+    if (kind === 'post' || !kinds.includes('post')) {
+      for (const post of topPosts) {
+        add({
+          source: 'top_post',
+          kind,
+          content: topPostContent(post, kind),
+          project_id: post.id,
+          project_name: post.name,
+          engagement_rate: post.rate,
+          views: post.views,
+        })
+      }
+    }
+
+    for (const favorite of getFavorites(favoriteTypesFor(kind, format), platform, projectId)) {
+      add({
+        source: 'favorite',
+        kind,
+        content: favorite.content,
+        project_id: favorite.project_id,
+        project_name: favorite.project_name,
+        favorite_id: favorite.id,
+      })
+    }
+  }
+
+  return examples
+}
+
+// Favorites by favorite id, top posts by the project and part they came from
+function exampleKey(example: GenerationExample): string {
+  return `${example.source}:${example.kind}:${example.favorite_id ?? example.project_id ?? example.content}`
+}
+
+/**
+ * The examples an output was shaped by after regenerating one section: the ones recorded for
+ * the rest of it plus the new ones. Earlier records of the kinds this section uses are dropped,
+ * since the regenerated section no longer reflects them.
+ */
+export function mergeGenerationExamples(
+  existing: GenerationExample[],
+  added: GenerationExample[],
+  section: RegenerateSection
+): GenerationExample[] {
+  const replacedKinds = new Set(SECTION_KINDS[section])
+  const addedKeys = new Set(added.map(exampleKey))
+  const kept = existing.filter(example => !replacedKinds.has(example.kind) && !addedKeys.has(exampleKey(example)))
+  return [...kept, ...added]
+}
+
+/**
+ * Whether the project has opted in to few-shot examples
+ */
+export function usesPerformanceExamples(projectId: string): boolean {
+  const row = db.prepare('SELECT use_performance_examples FROM projects WHERE id = ?')
+    .get(projectId) as { use_performance_examples: number } | undefined
+  return row?.use_performance_examples === 1
+}
+
+const KIND_LABELS: Record<GenerationExampleKind, string> = {
+  post: 'post',
+  hook: 'hook',
+  cta: 'call to action',
+  body: 'post body',
+  intro: 'video intro',
+  title: 'title',
+  visual: 'visual concept',
+}
+
+export function formatExamplesForPrompt(examples: GenerationExample[]): string {
+  return examples.map(example => {
+    let heading: string
+    if (example.source === 'top_post') {
+      const stats: string[] = []
+      if (example.engagement_rate !== null && example.engagement_rate !== undefined) {
+        stats.push(`${(example.engagement_rate * 100).toFixed(1)}% engagement`)
+      }
+      if (example.views) stats.push(`${example.views.toLocaleString()} views`)
+      heading = `Top-performing ${KIND_LABELS[example.kind]}${stats.length > 0 ? ` (${stats.join(', ')})` : ''}`
+    } else {
+      heading = `Favorited ${KIND_LABELS[example.kind]}`
+    }
+    return `### ${heading}\n${example.content}`
+  }).join('\n\n')
+}
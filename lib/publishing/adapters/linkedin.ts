@@ -0,0 +1,126 @@
+import { PublishError, type Publisher, type PublishablePost, type PublishResult } from '../types'
+
+// LinkedIn's versioned REST API (Posts, Images and Documents) with a member or organization token
+// that has the w_member_social (or w_organization_social) scope
+const API_BASE = 'https://api.linkedin.com/rest'
+const DEFAULT_API_VERSION = '202405'
+
+function getAuthor(): string {
+  return process.env.LINKEDIN_AUTHOR_URN || ''
+}
+
+export function isConfigured(): boolean {
+  return !!process.env.LINKEDIN_ACCESS_TOKEN && !!getAuthor()
+}
+
+function headers(extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    Authorization: `Bearer ${process.env.LINKEDIN_ACCESS_TOKEN}`,
+    'LinkedIn-Version': process.env.LINKEDIN_API_VERSION || DEFAULT_API_VERSION,
+    'X-Restli-Protocol-Version': '2.0.0',
+    ...extra,
+  }
+}
+
+/**
+ * Turn a failed response into a PublishError: rate limits and server errors are worth retrying,
+ * anything else (bad token, rejected content) won't fix itself
+ */
+async function responseError(response: Response, action: string): Promise<PublishError> {
+  const errorText = await response.text()
+  const retryable = response.status === 429 || response.status >= 500
+  return new PublishError(`LinkedIn ${action} failed (${response.status}): ${errorText}`, retryable)
+}
+
+async function request(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    throw new PublishError(`Could not reach LinkedIn: ${error instanceof Error ? error.message : String(error)}`, true)
+  }
+}
+
+// Post commentary is "little text": these characters are markup unless escaped
+function escapeCommentary(text: string): string {
+  return text.replace(/[\\|{}@\[\]()<>#*_~]/g, match => `\\${match}`)
+}
+
+/**
+ * Upload an image or document and return its URN
+ */
+async function upload(kind: 'images' | 'documents', data: Buffer): Promise<string> {
+  const init = await request(`${API_BASE}/${kind}?action=initializeUpload`, {
+    method: 'POST',
+    headers: headers({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ initializeUploadRequest: { owner: getAuthor() } }),
+  })
+  if (!init.ok) throw await responseError(init, `${kind} upload`)
+
+  const { value } = await init.json() as { value: { uploadUrl: string; image?: string; document?: string } }
+  const urn = value.image || value.document
+  if (!value.uploadUrl || !urn) {
+    throw new PublishError(`LinkedIn ${kind} upload returned no upload URL`, true)
+  }
+
+  const put = await request(value.uploadUrl, {
+    method: 'PUT',
+    headers: headers({ 'Content-Type': 'application/octet-stream' }),
+    body: new Uint8Array(data),
+  })
+  if (!put.ok) throw await responseError(put, `${kind} upload`)
+
+  return urn
+}
+
+/**
+ * Create the post. A carousel goes out as a document post (LinkedIn shows it as a swipeable
+ * carousel); otherwise the chosen image, if any, is attached.
+ */
+export async function publish(post: PublishablePost): Promise<PublishResult> {
+  if (!isConfigured()) {
+    throw new PublishError('LinkedIn publishing is not configured', false)
+  }
+
+  let media: { id: string; title?: string; altText?: string } | null = null
+  if (post.carouselPdf) {
+    media = { id: await upload('documents', post.carouselPdf), title: post.project.name }
+  } else if (post.images.length > 0) {
+    const image = post.images[0]
+    media = { id: await upload('images', image.data), ...(image.altText && { altText: image.altText }) }
+  }
+
+  const response = await request(`${API_BASE}/posts`, {
+    method: 'POST',
+    headers: headers({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({
+      author: getAuthor(),
+      commentary: escapeCommentary(post.text),
+      visibility: 'PUBLIC',
+      distribution: {
+        feedDistribution: 'MAIN_FEED',
+        targetEntities: [],
+        thirdPartyDistributionChannels: [],
+      },
+      ...(media && { content: { media } }),
+      lifecycleState: 'PUBLISHED',
+      isReshareDisabledByAuthor: false,
+    }),
+  })
+  if (!response.ok) throw await responseError(response, 'post')
+
+  // The new post's URN comes back in a header, not the body
+  const urn = response.headers.get('x-restli-id') || undefined
+  return {
+    externalId: urn,
+    externalUrl: urn ? `https://www.linkedin.com/feed/update/${urn}` : undefined,
+  }
+}
+
+export const linkedInPublisher: Publisher = {
+  id: 'linkedin',
+  label: 'LinkedIn API',
+  configurationHint: 'Set LINKEDIN_ACCESS_TOKEN and LINKEDIN_AUTHOR_URN (urn:li:person:... or urn:li:organization:...) in .env.local',
+  platforms: ['linkedin'],
+  isConfigured,
+  publish,
+}
@@ -0,0 +1,53 @@
+import fs from 'fs'
+import path from 'path'
+import { getDatabasePath } from '@/lib/db/connection'
+import { PublishError, type Publisher, type PublishablePost, type PublishResult } from '../types'
+
+// Writes each post to a folder on disk instead of publishing it, for trying out scheduling
+// without touching a real account. Defaults to an "outbox" folder next to the database.
+
+function getOutboxDir(): string {
+  return process.env.PUBLISH_OUTBOX_DIR || path.join(path.dirname(getDatabasePath()), 'outbox')
+}
+
+export function isConfigured(): boolean {
+  return true
+}
+
+export async function publish(post: PublishablePost): Promise<PublishResult> {
+  const folder = `${new Date().toISOString().replace(/[:.]/g, '-')}-${post.project.id}`
+  const dir = path.join(getOutboxDir(), folder)
+
+  try {
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'post.txt'), post.text)
+    for (const image of post.images) {
+      fs.writeFileSync(path.join(dir, image.filename), image.data)
+    }
+    if (post.carouselPdf) {
+      fs.writeFileSync(path.join(dir, 'carousel.pdf'), post.carouselPdf)
+    }
+    fs.writeFileSync(path.join(dir, 'post.json'), JSON.stringify({
+      project_id: post.project.id,
+      name: post.project.name,
+      platform: post.platform.id,
+      scheduled_at: post.project.scheduled_at ?? null,
+      text: post.text,
+      images: post.images.map(image => ({ filename: image.filename, alt_text: image.altText })),
+      carousel: post.carouselPdf ? { filename: 'carousel.pdf', slide_count: post.carouselSlideCount } : null,
+    }, null, 2))
+  } catch (error) {
+    throw new PublishError(`Could not write to the outbox: ${error instanceof Error ? error.message : String(error)}`, true)
+  }
+
+  return { externalId: folder, externalUrl: `file://${dir}` }
+}
+
+export const outboxPublisher: Publisher = {
+  id: 'outbox',
+  label: 'Local outbox folder',
+  configurationHint: 'Always available. Set PUBLISH_OUTBOX_DIR to change where posts are written (default: data/outbox)',
+  platforms: null,
+  isConfigured,
+  publish,
+}
@@ -0,0 +1,78 @@
+import { PublishError, type Publisher, type PublishablePost, type PublishResult } from '../types'
+
+// Hands the post to any HTTP endpoint (Zapier, Make, n8n, a custom script) as JSON with the
+// media inlined as base64. The endpoint may answer with { id, url } for the published post.
+
+export function isConfigured(): boolean {
+  return !!process.env.PUBLISH_WEBHOOK_URL
+}
+
+interface WebhookResponse {
+  id?: string
+  url?: string
+}
+
+export async function publish(post: PublishablePost): Promise<PublishResult> {
+  if (!isConfigured()) {
+    throw new PublishError('The publish webhook is not configured', false)
+  }
+
+  const payload = {
+    project_id: post.project.id,
+    name: post.project.name,
+    platform: post.platform.id,
+    scheduled_at: post.project.scheduled_at ?? null,
+    text: post.text,
+    images: post.images.map(image => ({
+      filename: image.filename,
+      mime_type: image.mimeType,
+      alt_text: image.altText,
+      data: image.data.toString('base64'),
+    })),
+    carousel: post.carouselPdf ? {
+      filename: 'carousel.pdf',
+      mime_type: 'application/pdf',
+      slide_count: post.carouselSlideCount,
+      data: post.carouselPdf.toString('base64'),
+    } : null,
+  }
+
+  let response: Response
+  try {
+    response = await fetch(process.env.PUBLISH_WEBHOOK_URL as string, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+  } catch (error) {
+    throw new PublishError(`Could not reach the publish webhook: ${error instanceof Error ? error.message : String(error)}`, true)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    const retryable = response.status === 429 || response.status >= 500
+    throw new PublishError(`Publish webhook error (${response.status}): ${errorText}`, retryable)
+  }
+
+  // Any 2xx counts; the body is optional
+  let data: WebhookResponse = {}
+  try {
+    data = await response.json() as WebhookResponse
+  } catch {
+    // No JSON body
+  }
+
+  return {
+    externalId: typeof data.id === 'string' ? data.id : undefined,
+    externalUrl: typeof data.url === 'string' ? data.url : undefined,
+  }
+}
+
+export const webhookPublisher: Publisher = {
+  id: 'webhook',
+  label: 'Webhook',
+  configurationHint: 'Set PUBLISH_WEBHOOK_URL in .env.local to an endpoint that accepts the post as JSON',
+  platforms: null,
+  isConfigured,
+  publish,
+}
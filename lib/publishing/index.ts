@@ -0,0 +1,119 @@
+// Automatic publishing: the publisher registry and each project's publish job. The worker that
+// runs due jobs is in ./worker; the post handed to publishers is assembled in ./post.
+
+export * from './types'
+
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { linkedInPublisher } from './adapters/linkedin'
+import { webhookPublisher } from './adapters/webhook'
+import { outboxPublisher } from './adapters/outbox'
+import type { Platform, ProjectPublishState, PublishAttempt, PublishJob, PublisherInfo } from '@/types'
+import type { Publisher, PublisherId } from './types'
+
+const PUBLISHERS: Record<PublisherId, Publisher> = {
+  linkedin: linkedInPublisher,
+  webhook: webhookPublisher,
+  outbox: outboxPublisher,
+}
+
+export const PUBLISHER_IDS = Object.keys(PUBLISHERS) as PublisherId[]
+
+export function isPublisherId(value: unknown): value is PublisherId {
+  return typeof value === 'string' && value in PUBLISHERS
+}
+
+/**
+ * Get a publisher implementation by id
+ */
+export function getPublisher(id: PublisherId): Publisher {
+  return PUBLISHERS[id]
+}
+
+export function publisherSupportsPlatform(publisher: Publisher, platform: Platform): boolean {
+  return !publisher.platforms || publisher.platforms.includes(platform)
+}
+
+/**
+ * Describe every publisher for the publish controls
+ */
+export function listPublishers(): PublisherInfo[] {
+  return PUBLISHER_IDS.map(id => {
+    const publisher = PUBLISHERS[id]
+    return {
+      id,
+      label: publisher.label,
+      configured: publisher.isConfigured(),
+      configurationHint: publisher.configurationHint,
+      platforms: publisher.platforms,
+    }
+  })
+}
+
+export function getPublishJob(projectId: string): PublishJob | null {
+  const job = db.prepare('SELECT * FROM publish_jobs WHERE project_id = ?').get(projectId) as PublishJob | undefined
+  return job ?? null
+}
+
+/**
+ * The project's job and its attempts, newest first
+ */
+export function getProjectPublishState(projectId: string): ProjectPublishState {
+  const attempts = db.prepare('SELECT * FROM publish_attempts WHERE project_id = ? ORDER BY started_at DESC')
+    .all(projectId) as PublishAttempt[]
+  return { job: getPublishJob(projectId), attempts }
+}
+
+/**
+ * Queue the project to go out through the publisher at the given time. A project has one job:
+ * scheduling again replaces its publisher and time and starts the attempt count over, keeping
+ * the attempt history.
+ */
+export function schedulePublish(projectId: string, publisher: PublisherId, at: string): PublishJob {
+  const now = new Date().toISOString()
+  const existing = getPublishJob(projectId)
+
+  if (existing) {
+    db.prepare(`
+      UPDATE publish_jobs
+      SET publisher = ?, status = 'pending', attempts = 0, next_attempt_at = ?, last_error = NULL, external_url = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(publisher, at, now, existing.id)
+  } else {
+    db.prepare(`
+      INSERT INTO publish_jobs (id, project_id, publisher, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)
+    `).run(generateId(), projectId, publisher, at, now, now)
+  }
+
+  return getPublishJob(projectId) as PublishJob
+}
+
+/**
+ * Stop a job that hasn't gone out yet. Returns false when there was nothing to cancel.
+ */
+export function cancelPublish(projectId: string): boolean {
+  const result = db.prepare(`
+    UPDATE publish_jobs SET status = 'cancelled', updated_at = ?
+    WHERE project_id = ? AND status IN ('pending', 'failed')
+  `).run(new Date().toISOString(), projectId)
+  return result.changes > 0
+}
+
+/**
+ * Keep a pending job in step with the project's planned date: moving the date moves the job,
+ * clearing it cancels the job
+ */
+export function syncPublishSchedule(projectId: string, scheduledAt: string | null): void {
+  if (!scheduledAt) {
+    db.prepare(`
+      UPDATE publish_jobs SET status = 'cancelled', updated_at = ?
+      WHERE project_id = ? AND status = 'pending'
+    `).run(new Date().toISOString(), projectId)
+    return
+  }
+  db.prepare(`
+    UPDATE publish_jobs SET next_attempt_at = ?, updated_at = ?
+    WHERE project_id = ? AND status = 'pending' AND attempts = 0
+  `).run(scheduledAt, new Date().toISOString(), projectId)
+}
@@ -0,0 +1,108 @@
+import db from '@/lib/db'
+import { safeJsonParse } from '@/lib/utils'
+import { getProjectPlatform } from '@/lib/platforms'
+import { buildThread, formatThread } from '@/lib/thread'
+import { buildCaption, selectedHashtags } from '@/lib/caption'
+import { formatPost } from '@/lib/preview'
+import { stripCitationMarkers } from '@/lib/citations'
+import { validatePost, describeBlockingIssues } from '@/lib/validation'
+import { renderCarouselPdf } from '@/lib/carousel'
+import { PublishError, type PublishablePost, type PublishImage } from './types'
+import type { CarouselAspectRatio, CarouselSlide, Project } from '@/types'
+
+interface PostOutputRow {
+  hooks: string
+  body_content: string
+  thread: string
+  ctas: string
+  hashtag_sets: string
+  titles: string
+  selected_hook_index: number
+  selected_cta_index: number
+  selected_hashtag_index: number
+  selected_title_index: number
+  selected_visual_index: number
+}
+
+interface ImageRow {
+  id: string
+  image_data: Buffer | null
+  alt_text: string
+}
+
+interface CarouselRow {
+  aspect_ratio: CarouselAspectRatio
+  slides: string
+}
+
+/**
+ * The project's chosen content as one post, with its image and carousel, ready to hand to a
+ * publisher. Throws a non-retryable PublishError when there's nothing to publish or the post
+ * breaks a hard platform limit.
+ */
+export function assemblePublishablePost(projectId: string): PublishablePost {
+  const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(projectId) as Project | undefined
+  const output = db.prepare('SELECT * FROM outputs WHERE project_id = ?').get(projectId) as PostOutputRow | undefined
+  if (!project || !output) {
+    throw new PublishError('No content to publish. Generate content first.', false)
+  }
+
+  const platform = getProjectPlatform(project.platform)
+  const hooks = safeJsonParse<string[]>(output.hooks, [])
+  const ctas = safeJsonParse<string[]>(output.ctas, [])
+  const titles = safeJsonParse<string[]>(output.titles, [])
+  const hook = hooks[output.selected_hook_index] ?? hooks[0] ?? ''
+  // -1 (none chosen) and -2 (skipped) both mean no CTA
+  const cta = output.selected_cta_index >= 0 ? ctas[output.selected_cta_index] ?? null : null
+  const hashtags = selectedHashtags(safeJsonParse<string[]>(output.hashtag_sets, []), output.selected_hashtag_index)
+  // Citation markers are for the exports; the post itself goes out without them
+  const body = stripCitationMarkers(output.body_content || '')
+
+  const thread = platform.format === 'thread' ? buildThread(hook, safeJsonParse<string[]>(output.thread, []), cta) : []
+  const text = platform.format === 'thread' ? formatThread(thread)
+    : platform.format === 'caption' ? buildCaption(hook, body, cta, hashtags)
+    : platform.format === 'newsletter' ? body
+    : formatPost(hook, body, cta)
+
+  if (!text.trim()) {
+    throw new PublishError('No content to publish. Generate content first.', false)
+  }
+
+  const validation = validatePost(platform, {
+    hook,
+    body,
+    cta,
+    title: titles[output.selected_title_index] ?? titles[0],
+    thread,
+    hashtags,
+  })
+  if (validation.blocking) {
+    throw new PublishError(`The post breaks ${platform.label}'s rules: ${describeBlockingIssues(validation.issues)}`, false)
+  }
+
+  // The chosen visual's newest image
+  const images: PublishImage[] = []
+  const image = db.prepare(`
+    SELECT id, image_data, alt_text FROM generated_images
+    WHERE project_id = ? AND visual_concept_index = ? AND image_data IS NOT NULL
+    ORDER BY created_at DESC LIMIT 1
+  `).get(projectId, output.selected_visual_index) as ImageRow | undefined
+  if (image?.image_data) {
+    images.push({ filename: `image-${image.id}.png`, mimeType: 'image/png', data: image.image_data, altText: image.alt_text || '' })
+  }
+
+  // The carousel goes out as a PDF document once every slide is rendered
+  const carousel = db.prepare('SELECT aspect_ratio, slides FROM carousel_outputs WHERE project_id = ? ORDER BY updated_at DESC LIMIT 1')
+    .get(projectId) as CarouselRow | undefined
+  const slides = carousel ? safeJsonParse<CarouselSlide[]>(carousel.slides, []) : []
+  const rendered = slides.length > 0 && slides.every(slide => slide.rendered_image)
+
+  return {
+    project,
+    platform,
+    text,
+    images,
+    carouselPdf: carousel && rendered ? renderCarouselPdf(slides, carousel.aspect_ratio) : null,
+    carouselSlideCount: rendered ? slides.length : 0,
+  }
+}
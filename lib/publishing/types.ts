@@ -0,0 +1,48 @@
+// Publisher Types
+
+import type { Platform, PlatformDefinition, Project, PublisherId } from '@/types'
+
+export type { PublisherId }
+
+export interface PublishImage {
+  filename: string
+  mimeType: string
+  data: Buffer
+  altText: string
+}
+
+// Everything a publisher needs, assembled the way the clipboard export does
+export interface PublishablePost {
+  project: Project
+  platform: PlatformDefinition
+  text: string
+  // The chosen visual's image, if it has one
+  images: PublishImage[]
+  carouselPdf: Buffer | null // Every carousel slide as one PDF page, once they are all rendered
+  carouselSlideCount: number
+}
+
+export interface PublishResult {
+  externalId?: string
+  externalUrl?: string
+}
+
+export interface Publisher {
+  id: PublisherId
+  label: string
+  isConfigured(): boolean
+  configurationHint: string
+  platforms: Platform[] | null // Platforms it can post to; null for any
+  publish(post: PublishablePost): Promise<PublishResult>
+}
+
+/**
+ * A failed publish. Retryable failures (network errors, rate limits, server errors) are
+ * tried again later; the rest fail the job straight away.
+ */
+export class PublishError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message)
+    this.name = 'PublishError'
+  }
+}
@@ -0,0 +1,163 @@
+// The local publish worker: polls for due jobs, hands each post to its publisher, records the
+// attempt and retries failures with backoff. The project is only marked published on success.
+
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { emitProjectEvent } from '@/lib/webhooks'
+import { getPublisher, isPublisherId, publisherSupportsPlatform } from './index'
+import { assemblePublishablePost } from './post'
+import { PublishError, type PublishResult } from './types'
+import type { PublishJob } from '@/types'
+
+const DEFAULT_INTERVAL_MS = 60000
+// First retry a minute later, then 2, 4, ... minutes
+const RETRY_BASE_MS = 60000
+// A job still running after this long was left behind by a process that stopped mid-attempt
+const INTERRUPTED_AFTER_MS = 15 * 60000
+const INTERRUPTED_ERROR = 'Publishing was interrupted and the post may already be live. Check before retrying.'
+
+function getIntervalMs(): number {
+  const value = parseInt(process.env.PUBLISH_WORKER_INTERVAL_MS || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_INTERVAL_MS
+}
+
+/**
+ * Take every pending job that is due and mark it running, in one transaction so a job is
+ * never picked up twice
+ */
+const claimDueJobs = db.transaction((now: string): PublishJob[] => {
+  const jobs = db.prepare(`
+    SELECT * FROM publish_jobs WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC
+  `).all(now) as PublishJob[]
+
+  const claim = db.prepare(`
+    UPDATE publish_jobs SET status = 'running', attempts = attempts + 1, updated_at = ? WHERE id = ? AND status = 'pending'
+  `)
+  return jobs
+    .filter(job => claim.run(now, job.id).changes > 0)
+    .map(job => ({ ...job, status: 'running' as const, attempts: job.attempts + 1 }))
+})
+
+/**
+ * Fail jobs whose attempt never finished. The publisher may have accepted the post before the
+ * process stopped, so they are not retried automatically.
+ */
+const failInterruptedJobs = db.transaction((now: string): void => {
+  const cutoff = new Date(Date.parse(now) - INTERRUPTED_AFTER_MS).toISOString()
+  const jobs = db.prepare(`
+    SELECT * FROM publish_jobs WHERE status = 'running' AND updated_at <= ?
+  `).all(cutoff) as PublishJob[]
+
+  for (const job of jobs) {
+    db.prepare(`
+      INSERT INTO publish_attempts (id, job_id, project_id, publisher, attempt, status, external_id, external_url, error, started_at, finished_at)
+      VALUES (?, ?, ?, ?, ?, 'failed', NULL, NULL, ?, ?, ?)
+    `).run(generateId(), job.id, job.project_id, job.publisher, job.attempts, INTERRUPTED_ERROR, job.updated_at, now)
+    db.prepare(`
+      UPDATE publish_jobs SET status = 'failed', last_error = ?, updated_at = ? WHERE id = ?
+    `).run(INTERRUPTED_ERROR, now, job.id)
+  }
+})
+
+async function attemptPublish(job: PublishJob): Promise<PublishResult> {
+  if (!isPublisherId(job.publisher)) {
+    throw new PublishError(`Unknown publisher: ${job.publisher}`, false)
+  }
+  const publisher = getPublisher(job.publisher)
+  if (!publisher.isConfigured()) {
+    throw new PublishError(`${publisher.label} is not configured. ${publisher.configurationHint}`, false)
+  }
+
+  const post = assemblePublishablePost(job.project_id)
+  if (post.project.status === 'published') {
+    throw new PublishError('The project is already published', false)
+  }
+  if (!publisherSupportsPlatform(publisher, post.platform.id)) {
+    throw new PublishError(`${publisher.label} cannot publish ${post.platform.label} posts`, false)
+  }
+
+  return publisher.publish(post)
+}
+
+async function runJob(job: PublishJob): Promise<void> {
+  const startedAt = new Date().toISOString()
+  const recordAttempt = db.prepare(`
+    INSERT INTO publish_attempts (id, job_id, project_id, publisher, attempt, status, external_id, external_url, error, started_at, finished_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  try {
+    const result = await attemptPublish(job)
+    const finishedAt = new Date().toISOString()
+
+    db.transaction(() => {
+      recordAttempt.run(generateId(), job.id, job.project_id, job.publisher, job.attempts, 'succeeded',
+        result.externalId ?? null, result.externalUrl ?? null, null, startedAt, finishedAt)
+      db.prepare(`
+        UPDATE publish_jobs SET status = 'succeeded', last_error = NULL, external_url = ?, updated_at = ? WHERE id = ?
+      `).run(result.externalUrl ?? null, finishedAt, job.id)
+      db.prepare(`
+        UPDATE projects SET status = 'published', published_at = ?, updated_at = ? WHERE id = ?
+      `).run(finishedAt, finishedAt, job.project_id)
+    })()
+
+    emitProjectEvent('project.published', job.project_id, { publisher: job.publisher, external_url: result.externalUrl ?? null })
+  } catch (error) {
+    const finishedAt = new Date().toISOString()
+    const message = error instanceof Error ? error.message : String(error)
+    // Anything that isn't a PublishError is unexpected; give it another go
+    const retryable = error instanceof PublishError ? error.retryable : true
+    const retry = retryable && job.attempts < job.max_attempts
+    const nextAttemptAt = retry
+      ? new Date(Date.now() + RETRY_BASE_MS * Math.pow(2, job.attempts - 1)).toISOString()
+      : job.next_attempt_at
+
+    console.error(`Publish attempt ${job.attempts} for project ${job.project_id} failed:`, message)
+
+    db.transaction(() => {
+      recordAttempt.run(generateId(), job.id, job.project_id, job.publisher, job.attempts, 'failed',
+        null, null, message, startedAt, finishedAt)
+      db.prepare(`
+        UPDATE publish_jobs SET status = ?, next_attempt_at = ?, last_error = ?, updated_at = ? WHERE id = ?
+      `).run(retry ? 'pending' : 'failed', nextAttemptAt, message, finishedAt, job.id)
+    })()
+  }
+}
+
+let ticking = false
+
+/**
+ * Run every due job once, one after another. Returns how many were attempted.
+ */
+export async function runDuePublishJobs(): Promise<number> {
+  // A slow publisher shouldn't let the next tick start the same batch
+  if (ticking) return 0
+  ticking = true
+  try {
+    const now = new Date().toISOString()
+    failInterruptedJobs(now)
+    const jobs = claimDueJobs(now)
+    for (const job of jobs) {
+      await runJob(job)
+    }
+    return jobs.length
+  } finally {
+    ticking = false
+  }
+}
+
+const workerState = globalThis as typeof globalThis & { publishWorker?: ReturnType<typeof setInterval> }
+
+/**
+ * Start polling for due jobs in this server process. PUBLISH_WORKER=off disables it; hot
+ * reloads and repeated calls reuse the running interval.
+ */
+export function startPublishWorker(): void {
+  if (process.env.PUBLISH_WORKER === 'off' || workerState.publishWorker) return
+
+  const tick = () => {
+    runDuePublishJobs().catch(error => console.error('Error running publish jobs:', error))
+  }
+  workerState.publishWorker = setInterval(tick, getIntervalMs())
+  tick()
+}
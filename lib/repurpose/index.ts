@@ -0,0 +1,139 @@
+// Repurposing: adapting a finished project's chosen content for other platforms, and the
+// family of projects (the original and its variants) that links them together.
+
+import db from '@/lib/db'
+import { safeJsonParse } from '@/lib/utils'
+import { getProjectPlatform } from '@/lib/platforms'
+import { sectionsToMarkdown } from '@/lib/newsletter'
+import { formatThread } from '@/lib/thread'
+import { stripCitationMarkers } from '@/lib/citations'
+import type { NewsletterSection, Project, ProjectFamily, ProjectFamilyMember, VisualConcept, WorkflowStep } from '@/types'
+
+interface SourceOutputRow {
+  hooks: string
+  body_content: string
+  thread: string
+  newsletter_sections: string
+  subject_lines: string
+  intros: string
+  titles: string
+  ctas: string
+  hashtag_sets: string
+  visual_concepts: string
+  selected_hook_index: number
+  selected_subject_index: number
+  selected_intro_index: number
+  selected_title_index: number
+  selected_cta_index: number
+  selected_hashtag_index: number
+  selected_visual_index: number
+}
+
+// Keeps the source prompt a reasonable size for long newsletters
+const MAX_SOURCE_CHARS = 8000
+
+// The chosen option, the first one when nothing was chosen, or nothing if the step was skipped
+function chosen(items: string[], index: number): string | undefined {
+  if (index === -2) return undefined
+  return items[index] ?? items[0]
+}
+
+/**
+ * The source project's chosen hook, body, CTA, visual and the rest as labelled lines, or
+ * null when it has no content to repurpose yet
+ */
+export function describeSourceContent(projectId: string): string | null {
+  const project = db.prepare('SELECT * FROM projects WHERE id = ?').get(projectId) as Project | undefined
+  const output = db.prepare('SELECT * FROM outputs WHERE project_id = ?').get(projectId) as SourceOutputRow | undefined
+  if (!project || !output) return null
+
+  const platform = getProjectPlatform(project.platform)
+  const format = platform.format
+  const strings = (value: string) => safeJsonParse<string[]>(value, [])
+  const sections = safeJsonParse<NewsletterSection[]>(output.newsletter_sections, [])
+  const thread = strings(output.thread)
+  const visuals = safeJsonParse<VisualConcept[]>(output.visual_concepts, []).map(v => v.description)
+
+  const body = format === 'newsletter' ? sectionsToMarkdown(sections)
+    : format === 'thread' && thread.length > 0 ? formatThread(thread)
+    : stripCitationMarkers(output.body_content || '')
+
+  // Only the steps the source platform actually has; models fill in the other fields too
+  const parts: [WorkflowStep[], string, string | undefined][] = [
+    [['subject_lines'], 'Subject line', chosen(strings(output.subject_lines), output.selected_subject_index)],
+    [['titles'], 'Title', chosen(strings(output.titles), output.selected_title_index)],
+    [['hooks'], 'Hook', chosen(strings(output.hooks), output.selected_hook_index)],
+    [['intros'], 'Video intro', chosen(strings(output.intros), output.selected_intro_index)],
+    [['body', 'thread', 'caption', 'sections'], format === 'newsletter' ? 'Article' : 'Body', body?.trim() ? body.substring(0, MAX_SOURCE_CHARS) : undefined],
+    [['ctas'], 'Call to action', chosen(strings(output.ctas), output.selected_cta_index)],
+    [['hashtags'], 'Hashtags', chosen(strings(output.hashtag_sets), output.selected_hashtag_index)],
+    [['visuals', 'thumbnails'], format === 'video' ? 'Thumbnail' : 'Visual', chosen(visuals, output.selected_visual_index)],
+  ]
+
+  const lines = parts
+    .filter((part): part is [WorkflowStep[], string, string] => !!part[2]?.trim() && part[0].some(step => platform.steps.includes(step)))
+    .map(([, label, value]) => value.includes('\n') ? `${label}:\n${value}` : `${label}: ${value}`)
+
+  // A lone hook or title isn't enough to adapt from
+  if (lines.length < 2) return null
+  return lines.join('\n\n')
+}
+
+/**
+ * Prompt context for a project repurposed from another one: the source's chosen content and
+ * how to treat it. Empty for projects that weren't repurposed.
+ */
+export function buildRepurposeContext(projectId: string): string {
+  const project = db.prepare('SELECT platform, repurposed_from_project_id FROM projects WHERE id = ?')
+    .get(projectId) as Pick<Project, 'platform' | 'repurposed_from_project_id'> | undefined
+  if (!project?.repurposed_from_project_id) return ''
+
+  const source = db.prepare('SELECT name, platform FROM projects WHERE id = ?')
+    .get(project.repurposed_from_project_id) as Pick<Project, 'name' | 'platform'> | undefined
+  const content = source && describeSourceContent(project.repurposed_from_project_id)
+  if (!source || !content) return ''
+
+  const sourceLabel = getProjectPlatform(source.platform).label
+  const targetLabel = getProjectPlatform(project.platform).label
+
+  return `\n\n--- Source Content ---
+This project repurposes "${source.name}", finished for ${sourceLabel}. Adapt it for ${targetLabel}: keep the core message, facts, examples and voice, but rewrite everything for ${targetLabel}'s format, length and audience rather than copying it.
+
+${content}\n`
+}
+
+/**
+ * The family a project belongs to: the original at the top of its repurposing chain and
+ * every project repurposed from it, the original first
+ */
+export function getProjectFamily(projectId: string): ProjectFamily {
+  // Walk up to the original; the visited set guards against a corrupt cycle
+  let rootId = projectId
+  const visited = new Set<string>([rootId])
+  for (;;) {
+    const row = db.prepare('SELECT repurposed_from_project_id FROM projects WHERE id = ?')
+      .get(rootId) as { repurposed_from_project_id: string | null } | undefined
+    const parentId = row?.repurposed_from_project_id
+    if (!parentId || visited.has(parentId)) break
+    visited.add(parentId)
+    rootId = parentId
+  }
+
+  const projects = db.prepare(`
+    WITH RECURSIVE family(id, depth) AS (
+      SELECT ?, 0
+      UNION
+      SELECT p.id, f.depth + 1 FROM projects p JOIN family f ON p.repurposed_from_project_id = f.id
+      WHERE f.depth < 20
+    )
+    SELECT p.id, p.name, p.platform, p.status, p.current_step, p.repurposed_from_project_id, p.updated_at
+    FROM projects p JOIN family f ON p.id = f.id
+    GROUP BY p.id
+    ORDER BY MIN(f.depth), p.created_at
+  `).all(rootId) as Omit<ProjectFamilyMember, 'platform_label'>[]
+
+  return {
+    root_id: rootId,
+    projects: projects.map(member => ({ ...member, platform_label: getProjectPlatform(member.platform).label })),
+  }
+}
@@ -0,0 +1,98 @@
+// Splits a source's text into passages for retrieval. Markdown headings start a new passage
+// and are kept as its heading path; long paragraphs (PDF text often has no blank lines) are
+// cut at line or sentence ends.
+
+export interface TextChunk {
+  // Headings above the passage, outermost first, joined with " › "
+  heading: string
+  content: string
+  // Offsets of the passage in the source text
+  char_start: number
+  char_end: number
+}
+
+// Passages aim for about this many characters; a paragraph longer than the maximum is split
+const TARGET_CHUNK_CHARS = 1200
+const MAX_CHUNK_CHARS = 1600
+
+interface Span {
+  start: number
+  end: number
+}
+
+// Paragraphs: runs of text separated by blank lines
+function splitParagraphs(text: string): Span[] {
+  const spans: Span[] = []
+  let start = 0
+  for (const match of Array.from(text.matchAll(/\n[ \t]*\n/g))) {
+    spans.push({ start, end: match.index! })
+    start = match.index! + match[0].length
+  }
+  spans.push({ start, end: text.length })
+  return spans.filter(span => text.slice(span.start, span.end).trim())
+}
+
+function splitLongParagraph(text: string, span: Span): Span[] {
+  const pieces: Span[] = []
+  let start = span.start
+  while (span.end - start > MAX_CHUNK_CHARS) {
+    const window = text.slice(start, start + TARGET_CHUNK_CHARS)
+    // Prefer a line end, then a sentence end, then any space, in the second half of the window
+    const breaks = [window.lastIndexOf('\n'), window.lastIndexOf('. ') + 1, window.lastIndexOf(' ')]
+    const cut = breaks.find(position => position > TARGET_CHUNK_CHARS / 2) ?? TARGET_CHUNK_CHARS
+    pieces.push({ start, end: start + cut })
+    start += cut
+  }
+  pieces.push({ start, end: span.end })
+  return pieces
+}
+
+/**
+ * Split text into passages of roughly TARGET_CHUNK_CHARS, never across a heading
+ */
+export function chunkSourceText(text: string): TextChunk[] {
+  const chunks: TextChunk[] = []
+  // headings[n] is the current heading at level n + 1
+  const headings: string[] = []
+  let chunkStart = -1
+  let chunkEnd = -1
+
+  const flush = () => {
+    if (chunkStart >= 0) {
+      const content = text.slice(chunkStart, chunkEnd).trim()
+      if (content) {
+        chunks.push({ heading: headings.filter(Boolean).join(' › '), content, char_start: chunkStart, char_end: chunkEnd })
+      }
+    }
+    chunkStart = -1
+  }
+
+  const add = (span: Span) => {
+    for (const piece of span.end - span.start > MAX_CHUNK_CHARS ? splitLongParagraph(text, span) : [span]) {
+      if (chunkStart >= 0 && piece.end - chunkStart > TARGET_CHUNK_CHARS) flush()
+      if (chunkStart < 0) chunkStart = piece.start
+      chunkEnd = piece.end
+    }
+  }
+
+  for (const paragraph of splitParagraphs(text)) {
+    const firstLineEnd = text.indexOf('\n', paragraph.start)
+    const lineEnd = firstLineEnd >= 0 && firstLineEnd < paragraph.end ? firstLineEnd : paragraph.end
+    const heading = text.slice(paragraph.start, lineEnd).match(/^\s*(#{1,6})\s+(.+?)\s*#*\s*$/)
+
+    if (!heading) {
+      add(paragraph)
+      continue
+    }
+
+    // A heading closes the passage before it and replaces headings at its level and below
+    flush()
+    const level = heading[1].length
+    headings.length = level - 1
+    headings[level - 1] = heading[2]
+    if (lineEnd < paragraph.end) add({ start: lineEnd + 1, end: paragraph.end })
+  }
+  flush()
+
+  return chunks
+}
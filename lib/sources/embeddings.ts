@@ -0,0 +1,71 @@
+// Optional embedding backend for source retrieval. Works with any server exposing the OpenAI
+// embeddings API (Ollama, llama.cpp server, LM Studio, ...); off unless SOURCE_EMBEDDINGS_URL
+// is set, in which case passages are ranked by keyword (BM25) and embedding similarity together.
+
+const DEFAULT_MODEL = 'nomic-embed-text'
+// Inputs sent per request
+const BATCH_SIZE = 32
+
+export function isEmbeddingConfigured(): boolean {
+  return !!process.env.SOURCE_EMBEDDINGS_URL
+}
+
+export function getEmbeddingModel(): string {
+  return process.env.SOURCE_EMBEDDINGS_MODEL || DEFAULT_MODEL
+}
+
+interface EmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>
+}
+
+async function embedBatch(texts: string[]): Promise<number[][]> {
+  const baseUrl = (process.env.SOURCE_EMBEDDINGS_URL || '').replace(/\/+$/, '')
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (process.env.SOURCE_EMBEDDINGS_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.SOURCE_EMBEDDINGS_API_KEY}`
+  }
+
+  const response = await fetch(`${baseUrl}/embeddings`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: getEmbeddingModel(), input: texts }),
+    signal: AbortSignal.timeout(30000),
+  })
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new Error(`Embedding request failed: ${response.status} ${detail.substring(0, 200)}`)
+  }
+
+  const data = await response.json() as EmbeddingResponse
+  const vectors = [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+  if (vectors.length !== texts.length) {
+    throw new Error(`Embedding server returned ${vectors.length} vectors for ${texts.length} inputs`)
+  }
+  return vectors
+}
+
+/**
+ * Embed texts with the configured server, in batches
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (!isEmbeddingConfigured()) {
+    throw new Error('Source embeddings are not configured (set SOURCE_EMBEDDINGS_URL)')
+  }
+  const vectors: number[][] = []
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...await embedBatch(texts.slice(i, i + BATCH_SIZE)))
+  }
+  return vectors
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
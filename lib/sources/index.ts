@@ -0,0 +1,260 @@
+// Retrieval over project sources. Sources are split into passages when saved and indexed with
+// SQLite FTS5; prompts get the passages that best match the request instead of the first few
+// thousand characters of every source. Chunking is in ./chunk, the optional embeddings in ./embeddings.
+
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import { chunkSourceText } from './chunk'
+import { cosineSimilarity, embedTexts, getEmbeddingModel, isEmbeddingConfigured } from './embeddings'
+import type { SourceChunkReference } from '@/types'
+
+export { chunkSourceText, type TextChunk } from './chunk'
+export { isEmbeddingConfigured } from './embeddings'
+
+export interface RetrievedChunk {
+  id: string
+  source_id: string
+  source_title: string
+  chunk_index: number
+  heading: string
+  content: string
+}
+
+interface ChunkRow extends RetrievedChunk {
+  embedding: string | null
+  embedding_model: string | null
+}
+
+// Candidates taken from each ranking before they are merged
+const CANDIDATE_LIMIT = 50
+// Reciprocal rank fusion constant: how much the top few ranks dominate
+const RRF_K = 60
+// Budget left over that isn't worth filling with a shorter passage
+const MIN_REMAINING_CHARS = 200
+
+// Words that match almost every passage and only add noise to the keyword query
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'our', 'please', 'should', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your', 'make', 'more', 'about', 'some', 'just', 'like', 'also', 'than',
+])
+
+/**
+ * Split a source into passages and replace its index entries. Embeddings, when configured,
+ * are added separately by embedSourceChunks so saving a source never waits on them failing.
+ */
+export function indexSource(sourceId: string): number {
+  const source = db.prepare('SELECT id, project_id, content FROM project_sources WHERE id = ?')
+    .get(sourceId) as { id: string; project_id: string; content: string } | undefined
+  if (!source) return 0
+
+  const chunks = chunkSourceText(source.content)
+  const now = new Date().toISOString()
+  const insert = db.prepare(`
+    INSERT INTO source_chunks (id, source_id, project_id, chunk_index, heading, content, char_start, char_end, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM source_chunks WHERE source_id = ?').run(sourceId)
+    chunks.forEach((chunk, index) => {
+      insert.run(generateId(), source.id, source.project_id, index, chunk.heading, chunk.content, chunk.char_start, chunk.char_end, now)
+    })
+  })()
+
+  return chunks.length
+}
+
+// Passages with no embedding from the current model, for the whole project or one source
+async function embedMissingChunks(where: 'project_id' | 'source_id', id: string): Promise<void> {
+  const model = getEmbeddingModel()
+  const rows = db.prepare(`
+    SELECT id, heading, content FROM source_chunks
+    WHERE ${where} = ? AND (embedding IS NULL OR embedding_model IS NOT ?)
+    ORDER BY source_id, chunk_index
+  `).all(id, model) as { id: string; heading: string; content: string }[]
+  if (rows.length === 0) return
+
+  const vectors = await embedTexts(rows.map(row => row.heading ? `${row.heading}\n\n${row.content}` : row.content))
+  const update = db.prepare('UPDATE source_chunks SET embedding = ?, embedding_model = ? WHERE id = ?')
+  db.transaction(() => {
+    rows.forEach((row, i) => update.run(JSON.stringify(vectors[i]), model, row.id))
+  })()
+}
+
+/**
+ * Embed a source's passages if an embedding server is configured. Never throws: retrieval
+ * falls back to keyword ranking and fills in missing embeddings later.
+ */
+export async function embedSourceChunks(sourceId: string): Promise<void> {
+  if (!isEmbeddingConfigured()) return
+  try {
+    await embedMissingChunks('source_id', sourceId)
+  } catch (error) {
+    console.error(`Failed to embed chunks for source ${sourceId}:`, error)
+  }
+}
+
+// Sources saved before passages existed are indexed the first time they're needed. Crawled
+// sites' parent sources have no text and are never indexed.
+function ensureProjectIndexed(projectId: string): void {
+  const unindexed = db.prepare(`
+    SELECT s.id FROM project_sources s
+    WHERE s.project_id = ? AND s.content != '' AND NOT EXISTS (SELECT 1 FROM source_chunks c WHERE c.source_id = s.id)
+  `).all(projectId) as { id: string }[]
+  for (const source of unindexed) {
+    indexSource(source.id)
+  }
+}
+
+/**
+ * The distinct words of free text worth searching for, lowercased, stop words removed
+ */
+export function extractSearchTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9\u00C0-\u024F]+/g) || []
+  return Array.from(new Set(words.filter(word => word.length > 1 && !STOP_WORDS.has(word))))
+}
+
+/**
+ * The FTS5 query for free text: any of its search terms may match
+ */
+export function buildMatchQuery(text: string): string | null {
+  const terms = extractSearchTerms(text).slice(0, 40)
+  return terms.length > 0 ? terms.map(term => `"${term}"`).join(' OR ') : null
+}
+
+/**
+ * The retrieval query for generating content: the topic and audience, anything specific to
+ * the request (a section, an outline) and the user's last few messages
+ */
+export function buildGenerationQuery(
+  context: { topic: string; targetAudience?: string },
+  messages: { role: string; content: string }[],
+  extra?: string
+): string {
+  const recentRequests = messages.filter(m => m.role === 'user').slice(-3).map(m => m.content)
+  return [context.topic, context.targetAudience, extra, ...recentRequests].filter(Boolean).join('\n')
+}
+
+/**
+ * Passages of the project's enabled sources ranked by BM25 against the query, best first
+ */
+export function searchSourceChunks(projectId: string, query: string, limit = CANDIDATE_LIMIT): RetrievedChunk[] {
+  const match = buildMatchQuery(query)
+  if (!match) return []
+  ensureProjectIndexed(projectId)
+
+  // Heading words count double: a passage under "Pricing" is about pricing
+  return db.prepare(`
+    SELECT c.id, c.source_id, s.title AS source_title, c.chunk_index, c.heading, c.content
+    FROM source_chunks_fts f
+    JOIN source_chunks c ON c.seq = f.rowid
+    JOIN project_sources s ON s.id = c.source_id
+    WHERE source_chunks_fts MATCH ? AND c.project_id = ? AND s.enabled = 1
+    ORDER BY bm25(source_chunks_fts, 2.0, 1.0)
+    LIMIT ?
+  `).all(match, projectId, limit) as RetrievedChunk[]
+}
+
+// Every passage of the project's enabled sources, in reading order
+function listEnabledChunks(projectId: string): ChunkRow[] {
+  return db.prepare(`
+    SELECT c.id, c.source_id, s.title AS source_title, c.chunk_index, c.heading, c.content, c.embedding, c.embedding_model
+    FROM source_chunks c
+    JOIN project_sources s ON s.id = c.source_id
+    WHERE c.project_id = ? AND s.enabled = 1
+    ORDER BY s.created_at ASC, c.chunk_index ASC
+  `).all(projectId) as ChunkRow[]
+}
+
+async function rankByEmbedding(projectId: string, query: string): Promise<string[]> {
+  await embedMissingChunks('project_id', projectId)
+  const [queryVector] = await embedTexts([query])
+  const model = getEmbeddingModel()
+
+  return listEnabledChunks(projectId)
+    .filter(chunk => chunk.embedding && chunk.embedding_model === model)
+    .map(chunk => ({ id: chunk.id, score: cosineSimilarity(queryVector, JSON.parse(chunk.embedding!) as number[]) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATE_LIMIT)
+    .map(chunk => chunk.id)
+}
+
+/**
+ * The passages of a project's enabled sources to put in a prompt, at most maxChars in total.
+ * When everything fits it all goes in; otherwise passages are ranked against the query and
+ * the best are taken, returned in reading order. With nothing to match, each source's opening
+ * passages are used so the model still gets an overview.
+ */
+export async function retrieveSourceChunks(projectId: string, query: string, maxChars: number): Promise<RetrievedChunk[]> {
+  ensureProjectIndexed(projectId)
+  const chunks = listEnabledChunks(projectId)
+  if (chunks.length === 0) return []
+
+  const toResult = (chunk: ChunkRow): RetrievedChunk => ({
+    id: chunk.id,
+    source_id: chunk.source_id,
+    source_title: chunk.source_title,
+    chunk_index: chunk.chunk_index,
+    heading: chunk.heading,
+    content: chunk.content,
+  })
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.content.length, 0)
+  if (totalChars <= maxChars) return chunks.map(toResult)
+
+  // Reciprocal rank fusion of the keyword ranking and, if available, the embedding ranking
+  const rankings = [searchSourceChunks(projectId, query).map(chunk => chunk.id)]
+  if (isEmbeddingConfigured() && query.trim()) {
+    try {
+      rankings.push(await rankByEmbedding(projectId, query))
+    } catch (error) {
+      console.error('Embedding retrieval failed, using keyword ranking only:', error)
+    }
+  }
+  const scores = new Map<string, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1)))
+  }
+
+  let ranked = chunks.filter(chunk => scores.has(chunk.id)).sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+  if (ranked.length === 0) {
+    // Round-robin over the sources' openings: every first passage, then every second, ...
+    ranked = [...chunks].sort((a, b) => a.chunk_index - b.chunk_index)
+  }
+
+  const selected = new Set<string>()
+  let remaining = maxChars
+  for (const chunk of ranked) {
+    if (remaining < MIN_REMAINING_CHARS) break
+    if (chunk.content.length > remaining) continue
+    selected.add(chunk.id)
+    remaining -= chunk.content.length
+  }
+
+  return chunks.filter(chunk => selected.has(chunk.id)).map(toResult)
+}
+
+/**
+ * Passages as a prompt block, each under its source title and heading
+ */
+export function formatSourceChunksForPrompt(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map(chunk => `### ${chunk.source_title}${chunk.heading ? ` › ${chunk.heading}` : ''}\n${chunk.content}`)
+    .join('\n\n')
+}
+
+/**
+ * What to report back about the passages a prompt was given
+ */
+export function toChunkReferences(chunks: RetrievedChunk[]): SourceChunkReference[] {
+  return chunks.map(chunk => ({
+    chunk_id: chunk.id,
+    source_id: chunk.source_id,
+    source_title: chunk.source_title,
+    heading: chunk.heading,
+    excerpt: chunk.content.length > 200 ? `${chunk.content.substring(0, 200).trim()}...` : chunk.content,
+  }))
+}
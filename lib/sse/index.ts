@@ -0,0 +1,122 @@
+// Server-Sent Events helpers shared by the streaming API routes and the client
+
+export type SendEvent = (event: string, data: unknown) => void
+
+/**
+ * Whether the client asked for a streamed (text/event-stream) response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream')
+}
+
+// Aborted fetches reject with a DOMException, which isn't an Error subclass in every runtime
+export function isAbortError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { name?: unknown }).name === 'AbortError'
+}
+
+/**
+ * Build a text/event-stream response driven by `run`.
+ * The signal passed to `run` aborts when the client disconnects or cancels the request;
+ * uncaught errors are reported as an `error` event before the stream closes.
+ */
+export function createEventStream(
+  request: Request,
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  request.signal.addEventListener('abort', abort)
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SendEvent = (event, data) => {
+        if (controller.signal.aborted) return
+        try {
+          streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+
+      try {
+        await run(send, controller.signal)
+      } catch (error) {
+        if (!controller.signal.aborted && !isAbortError(error)) {
+          console.error('Error in event stream:', error)
+          send('error', { error: error instanceof Error ? error.message : 'Stream failed' })
+        }
+      } finally {
+        request.signal.removeEventListener('abort', abort)
+        try {
+          streamController.close()
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
+}
+
+/**
+ * Read an event stream response on the client, calling onEvent for each event.
+ * Resolves when the server closes the stream; rejects with an AbortError if the fetch is aborted.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (block: string) => {
+    let event = 'message'
+    const dataLines: string[] = []
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+    if (dataLines.length === 0) return
+
+    const raw = dataLines.join('\n')
+    let data: unknown = raw
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      // Not JSON, pass the raw string through
+    }
+    onEvent(event, data)
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer)
+}
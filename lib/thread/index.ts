@@ -0,0 +1,143 @@
+// X (Twitter) threads: tweet length counting, splitting long text into tweets and
+// numbering a thread for posting. Shared by the API routes and the thread editor.
+
+export const TWEET_LIMIT = 280
+
+// X counts every link as a t.co URL of this length
+const URL_LENGTH = 23
+const URL_PATTERN = /https?:\/\/\S+/g
+
+// Room left for the "\n\n12/15" numbering when splitting, so split tweets always fit once numbered
+const NUMBERING_RESERVE = 7
+
+// Code point ranges X counts as one character (Latin, punctuation and similar); everything
+// else, including CJK and emoji, counts as two. Emoji sequences joined with ZWJ are
+// counted per code point, so they can come out slightly longer than X's own count.
+const SINGLE_WEIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+]
+
+function charWeight(char: string): number {
+  const code = char.codePointAt(0) ?? 0
+  return SINGLE_WEIGHT_RANGES.some(([start, end]) => code >= start && code <= end) ? 1 : 2
+}
+
+/**
+ * Length of a tweet the way X counts it against the 280 limit
+ */
+export function tweetLength(text: string): number {
+  let length = 0
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    length += URL_LENGTH
+    return ''
+  })
+  for (const char of Array.from(withoutUrls)) {
+    length += charWeight(char)
+  }
+  return length
+}
+
+/**
+ * A tweet with its position in the thread appended, e.g. "...\n\n2/7"
+ */
+export function numberTweet(text: string, index: number, total: number): string {
+  return total > 1 ? `${text}\n\n${index + 1}/${total}` : text
+}
+
+export function numberedTweetLength(text: string, index: number, total: number): number {
+  return tweetLength(numberTweet(text, index, total))
+}
+
+// Cut a single over-long word at the budget
+function hardSplit(text: string, budget: number): string[] {
+  const parts: string[] = []
+  let current = ''
+  for (const char of Array.from(text)) {
+    if (tweetLength(current + char) > budget) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+// Break a piece of text that doesn't fit into sentences, then words, then characters
+function splitUnit(text: string, budget: number): string[] {
+  if (tweetLength(text) <= budget) return [text]
+
+  // A sentence ends at . ! or ? followed by whitespace, so "3.5" and "e.g.x" stay whole
+  const sentences = (text.match(/(?:[^.!?\n]|[.!?](?!\s|$))+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean)
+  if (sentences.length > 1) return pack(sentences, ' ', budget)
+
+  const words = text.split(/\s+/).filter(Boolean)
+  if (words.length > 1) return pack(words, ' ', budget)
+
+  return hardSplit(text, budget)
+}
+
+// Greedily join units into as few tweets as fit the budget
+function pack(units: string[], separator: string, budget: number): string[] {
+  const tweets: string[] = []
+  let current = ''
+  for (const unit of units) {
+    for (const part of splitUnit(unit, budget)) {
+      const candidate = current ? `${current}${separator}${part}` : part
+      if (tweetLength(candidate) <= budget) {
+        current = candidate
+      } else {
+        if (current) tweets.push(current)
+        current = part
+      }
+    }
+  }
+  if (current) tweets.push(current)
+  return tweets
+}
+
+/**
+ * Split text into tweets, keeping paragraphs together where they fit and otherwise
+ * breaking at sentences, then words. Each tweet leaves room for its numbering.
+ */
+export function splitIntoTweets(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)
+  return pack(paragraphs, '\n\n', TWEET_LIMIT - NUMBERING_RESERVE)
+}
+
+/**
+ * Clean up generated or edited tweets: drop empty ones and split any that are too long
+ */
+export function fitTweets(tweets: string[]): string[] {
+  return tweets
+    .map(tweet => tweet.trim())
+    .filter(Boolean)
+    .flatMap(tweet => tweetLength(tweet) <= TWEET_LIMIT - NUMBERING_RESERVE ? [tweet] : splitIntoTweets(tweet))
+}
+
+/**
+ * The full thread as posted: the hook opens it and the CTA (if any) closes it
+ */
+export function buildThread(hook: string, tweets: string[], cta: string | null): string[] {
+  return [hook, ...tweets, cta || ''].map(tweet => tweet.trim()).filter(Boolean)
+}
+
+/**
+ * Positions (0-based) of the tweets that are over the limit once numbered
+ */
+export function overLimitTweets(thread: string[]): number[] {
+  return thread
+    .map((tweet, index) => numberedTweetLength(tweet, index, thread.length) > TWEET_LIMIT ? index : -1)
+    .filter(index => index >= 0)
+}
+
+/**
+ * A thread as plain text for copying: numbered tweets separated by dividers
+ */
+export function formatThread(thread: string[]): string {
+  return thread.map((tweet, index) => numberTweet(tweet, index, thread.length)).join('\n\n---\n\n')
+}
@@ -0,0 +1,308 @@
+// Platform rule checks for generated content: hard limits (post length, title length,
+// tweet length, hashtag caps) that block export, and softer advice (the "see more" fold,
+// SEO title length, hashtag counts, link placement, emoji density, Unicode bold text).
+// No database access, so the workflow cards and the export routes share it.
+
+import { buildCaption, captionLength } from '@/lib/caption'
+import { TWEET_LIMIT, numberedTweetLength } from '@/lib/thread'
+import { SUBJECT_LINE_LIMIT, PREVIEW_TEXT_LIMIT } from '@/lib/newsletter'
+import { FEED_FOLDS } from '@/lib/preview'
+import { countWords } from '@/lib/utils'
+import type { BuiltInPlatform, PlatformDefinition, ValidatedField, ValidationIssue, ValidationResult } from '@/types'
+
+interface PlatformRules {
+  // Characters shown before the feed cuts the post off with "see more"
+  foldAt: number | null
+  titleLimit: number | null
+  // Longer titles get truncated in search results
+  titleTarget: number | null
+  // More hashtags than this starts to look spammy (the hard cap is hashtagLimit)
+  hashtagTarget: number | null
+  // 'penalized': reach drops for posts with links; 'unclickable': links show as plain text
+  links: 'ok' | 'penalized' | 'unclickable'
+}
+
+const DEFAULT_RULES: PlatformRules = {
+  foldAt: null,
+  titleLimit: null,
+  titleTarget: null,
+  hashtagTarget: null,
+  links: 'ok',
+}
+
+// Limits beyond the registry's characterLimit and hashtagLimit; custom platforms use the defaults
+const PLATFORM_RULES: Partial<Record<BuiltInPlatform, Partial<PlatformRules>>> = {
+  linkedin: { foldAt: FEED_FOLDS.linkedin.desktop.characters, hashtagTarget: 5, links: 'penalized' },
+  youtube: { titleLimit: 100, titleTarget: 60, hashtagTarget: 15 },
+  facebook: { hashtagTarget: 3 },
+  x: { hashtagTarget: 2 },
+  instagram: { foldAt: 125, links: 'unclickable' },
+}
+
+// Flag emoji past one every ten words, once there are more than a few
+const EMOJI_WORDS_PER = 10
+const EMOJI_ALLOWANCE = 3
+
+const FIELD_NAMES: Record<ValidatedField, string> = {
+  post: 'The post',
+  hook: 'The hook',
+  body: 'The body',
+  cta: 'The call to action',
+  title: 'The title',
+  intro: 'The intro',
+  tweet: 'The tweet',
+  hashtags: 'The hashtag set',
+  subject_line: 'The subject line',
+  preview_text: 'The preview text',
+}
+
+function rulesFor(platform: PlatformDefinition): PlatformRules {
+  return { ...DEFAULT_RULES, ...PLATFORM_RULES[platform.id as BuiltInPlatform] }
+}
+
+function count(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length
+}
+
+// Pictographs (surrogate pairs from U+1F000) and the older symbol and dingbat blocks
+const EMOJI_PATTERN = /[\uD83C-\uDBFF][\uDC00-\uDFFF]|[\u2600-\u27BF]/g
+// Mathematical Alphanumeric Symbols (U+1D400-U+1D7FF), used for "bold" and "italic" posts
+const UNICODE_FORMATTING_PATTERN = /\uD835[\uDC00-\uDFFF]/g
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi
+const HASHTAG_PATTERN = /(^|\s)#[A-Za-z0-9_]+/g
+
+/**
+ * Longest text allowed for a field, for length counters on the cards (undefined for none)
+ */
+export function fieldCharacterLimit(platform: PlatformDefinition, field: ValidatedField): number | undefined {
+  if (field === 'subject_line') return SUBJECT_LINE_LIMIT
+  if (field === 'preview_text') return PREVIEW_TEXT_LIMIT
+  if (field === 'title') return rulesFor(platform).titleLimit ?? undefined
+  if (field === 'body') return platform.characterLimit ?? undefined
+  return undefined
+}
+
+function lengthIssues(platform: PlatformDefinition, field: ValidatedField, text: string): ValidationIssue[] {
+  const rules = rulesFor(platform)
+  const length = captionLength(text)
+  const issues: ValidationIssue[] = []
+
+  if (field === 'hook' && rules.foldAt && length > rules.foldAt) {
+    issues.push({
+      rule: 'fold',
+      severity: 'warning',
+      field,
+      message: `The hook is ${length} characters; ${platform.label} cuts posts off with "see more" after about ${rules.foldAt}, so readers won't see all of it`,
+      limit: rules.foldAt,
+      actual: length,
+    })
+  }
+
+  if (field === 'title' && rules.titleLimit && length > rules.titleLimit) {
+    issues.push({
+      rule: 'title_limit',
+      severity: 'error',
+      field,
+      message: `The title is ${length} characters; ${platform.label} allows ${rules.titleLimit}`,
+      limit: rules.titleLimit,
+      actual: length,
+    })
+  } else if (field === 'title' && rules.titleTarget && length > rules.titleTarget) {
+    issues.push({
+      rule: 'title_seo',
+      severity: 'warning',
+      field,
+      message: `The title is ${length} characters; search results cut titles off after about ${rules.titleTarget}`,
+      limit: rules.titleTarget,
+      actual: length,
+    })
+  }
+
+  if (field === 'subject_line' && length > SUBJECT_LINE_LIMIT) {
+    issues.push({
+      rule: 'subject_length',
+      severity: 'warning',
+      field,
+      message: `The subject line is ${length} characters; most inboxes cut it off after about ${SUBJECT_LINE_LIMIT}`,
+      limit: SUBJECT_LINE_LIMIT,
+      actual: length,
+    })
+  }
+
+  if (field === 'preview_text' && length > PREVIEW_TEXT_LIMIT) {
+    issues.push({
+      rule: 'preview_length',
+      severity: 'warning',
+      field,
+      message: `The preview text is ${length} characters; most inboxes show about ${PREVIEW_TEXT_LIMIT}`,
+      limit: PREVIEW_TEXT_LIMIT,
+      actual: length,
+    })
+  }
+
+  return issues
+}
+
+// Checks that apply to any text that gets published: limit, hashtags, links, emoji, Unicode
+function textIssues(platform: PlatformDefinition, field: ValidatedField, text: string, limit: number | null): ValidationIssue[] {
+  const rules = rulesFor(platform)
+  const issues: ValidationIssue[] = []
+  const where = FIELD_NAMES[field]
+
+  const length = captionLength(text)
+  if (limit && length > limit) {
+    issues.push({
+      rule: 'character_limit',
+      severity: 'error',
+      field,
+      message: `${where} is ${length.toLocaleString()} characters; ${platform.label} allows ${limit.toLocaleString()}`,
+      limit,
+      actual: length,
+    })
+  }
+
+  const hashtags = count(text, HASHTAG_PATTERN)
+  if (platform.hashtagLimit && hashtags > platform.hashtagLimit) {
+    issues.push({
+      rule: 'hashtag_limit',
+      severity: 'error',
+      field,
+      message: `${where} has ${hashtags} hashtags; ${platform.label} allows ${platform.hashtagLimit}`,
+      limit: platform.hashtagLimit,
+      actual: hashtags,
+    })
+  } else if (rules.hashtagTarget && hashtags > rules.hashtagTarget) {
+    issues.push({
+      rule: 'hashtag_count',
+      severity: 'warning',
+      field,
+      message: `${where} has ${hashtags} hashtags; more than ${rules.hashtagTarget} on ${platform.label} tends to look spammy`,
+      limit: rules.hashtagTarget,
+      actual: hashtags,
+    })
+  }
+
+  const links = count(text, LINK_PATTERN)
+  if (links > 0 && rules.links === 'penalized') {
+    issues.push({
+      rule: 'link_placement',
+      severity: 'warning',
+      field,
+      message: `${platform.label} shows posts with links to fewer people; put the link in the first comment instead`,
+      actual: links,
+    })
+  } else if (links > 0 && rules.links === 'unclickable') {
+    issues.push({
+      rule: 'link_placement',
+      severity: 'warning',
+      field,
+      message: `Links aren't clickable in ${platform.label} captions; point readers to the link in your bio instead`,
+      actual: links,
+    })
+  }
+
+  const emoji = count(text, EMOJI_PATTERN)
+  const words = countWords(text)
+  if (emoji > EMOJI_ALLOWANCE && emoji * EMOJI_WORDS_PER > words) {
+    issues.push({
+      rule: 'emoji_density',
+      severity: 'warning',
+      field,
+      message: `${emoji} emoji in ${words} words; more than one every ${EMOJI_WORDS_PER} words makes the text hard to read`,
+      actual: emoji,
+    })
+  }
+
+  const formatted = count(text, UNICODE_FORMATTING_PATTERN)
+  if (formatted > 0) {
+    issues.push({
+      rule: 'unicode_formatting',
+      severity: 'warning',
+      field,
+      message: 'Unicode bold or italic letters are read out one symbol at a time by screen readers and are missed by search; use plain text for emphasis',
+      actual: formatted,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Issues with one piece of content on its own, e.g. a hook or title card
+ */
+export function validateField(platform: PlatformDefinition, field: ValidatedField, text: string): ValidationIssue[] {
+  if (!text.trim()) return []
+  const limit = field === 'body' ? platform.characterLimit : null
+  const published = field === 'hook' || field === 'body' || field === 'cta' || field === 'intro' || field === 'hashtags' || field === 'title'
+  return [
+    ...lengthIssues(platform, field, text),
+    ...(published ? textIssues(platform, field, text, limit) : []),
+  ]
+}
+
+export interface PostContent {
+  hook: string
+  body: string
+  cta: string | null
+  title?: string
+  intro?: string
+  // X: the assembled thread, hook first and CTA last
+  thread?: string[]
+  hashtags?: string
+  subjectLine?: string
+  previewText?: string
+}
+
+/**
+ * Issues with the post as it will be published: the chosen pieces, then the assembled
+ * post for limits that apply to the whole thing
+ */
+export function validatePost(platform: PlatformDefinition, content: PostContent): ValidationResult {
+  const issues: ValidationIssue[] = []
+
+  if (content.hook.trim()) issues.push(...lengthIssues(platform, 'hook', content.hook))
+  if (content.title?.trim()) issues.push(...lengthIssues(platform, 'title', content.title))
+  if (content.subjectLine?.trim()) issues.push(...lengthIssues(platform, 'subject_line', content.subjectLine))
+  if (content.previewText?.trim()) issues.push(...lengthIssues(platform, 'preview_text', content.previewText))
+
+  if (platform.format === 'thread') {
+    const thread = content.thread || []
+    thread.forEach((tweet, index) => {
+      const length = numberedTweetLength(tweet, index, thread.length)
+      if (length > TWEET_LIMIT) {
+        issues.push({
+          rule: 'tweet_limit',
+          severity: 'error',
+          field: 'tweet',
+          index,
+          message: `Tweet ${index + 1} is ${length} characters with its number; X allows ${TWEET_LIMIT}`,
+          limit: TWEET_LIMIT,
+          actual: length,
+        })
+      }
+    })
+    issues.push(...textIssues(platform, 'post', thread.join('\n\n'), null))
+  } else if (platform.format === 'caption') {
+    const caption = buildCaption(content.hook, content.body, content.cta, content.hashtags || '')
+    issues.push(...textIssues(platform, 'post', caption, platform.characterLimit))
+  } else if (platform.format === 'video') {
+    // The description is what gets the length limit and hashtags
+    issues.push(...textIssues(platform, 'post', content.body, platform.characterLimit))
+    if (content.title?.trim()) issues.push(...textIssues(platform, 'title', content.title, null))
+  } else if (platform.format === 'post') {
+    const post = [content.hook, content.body, content.cta || ''].map(part => part.trim()).filter(Boolean).join('\n\n')
+    issues.push(...textIssues(platform, 'post', post, platform.characterLimit))
+  }
+
+  return { issues, blocking: issues.some(issue => issue.severity === 'error') }
+}
+
+/**
+ * One line summing up the errors that block export, for API errors and confirm dialogs
+ */
+export function describeBlockingIssues(issues: ValidationIssue[]): string {
+  const errors = issues.filter(issue => issue.severity === 'error')
+  if (errors.length === 0) return ''
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+  return `${errors[0].message}${more}`
+}
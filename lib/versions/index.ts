@@ -0,0 +1,27 @@
+// Edit history for generated content (content_versions), shown by the history modal.
+// The stored text is exactly what was replaced, citation markers included, so restoring a
+// version brings back its footnotes too.
+
+import db from '@/lib/db'
+import { generateId } from '@/lib/utils'
+import type { ContentType, EditedBy } from '@/types'
+
+/**
+ * Record that a piece of content was replaced. Nothing is recorded when it didn't change or
+ * there was nothing before it.
+ */
+export function recordContentVersion(
+  projectId: string,
+  contentType: ContentType,
+  contentIndex: number,
+  oldContent: string | null | undefined,
+  newContent: string,
+  editedBy: EditedBy
+): void {
+  if (!oldContent || oldContent === newContent) return
+
+  db.prepare(`
+    INSERT INTO content_versions (id, project_id, content_type, content_index, old_content, new_content, edited_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(generateId(), projectId, contentType, contentIndex, oldContent, newContent, editedBy)
+}
@@ -0,0 +1,120 @@
+// Sends webhook deliveries: signs each payload, records the response and retries failures with
+// backoff. Deliveries go out as soon as they are queued; a poller picks up the retries.
+
+import crypto from 'crypto'
+import db from '@/lib/db'
+import type { WebhookDelivery } from '@/types'
+
+const TIMEOUT_MS = 10000
+// How long a claimed delivery is held before another tick may try it again
+const LEASE_MS = 5 * 60000
+// First retry a minute later, then 2, 4, 8 minutes
+const RETRY_BASE_MS = 60000
+const RETRY_INTERVAL_MS = 60000
+// Keep enough of the response to see what went wrong
+const RESPONSE_BODY_LIMIT = 1000
+
+/**
+ * The signature receivers check: HMAC-SHA256 of "<timestamp>.<body>" with the endpoint's secret
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Take the delivery for one attempt, unless it's finished, not due, or already being sent.
+ * Pushing next_attempt_at out acts as a lease, so a crash mid-send just delays the retry.
+ */
+function claimDelivery(id: string, now: Date): boolean {
+  const result = db.prepare(`
+    UPDATE webhook_deliveries SET attempts = attempts + 1, next_attempt_at = ?, updated_at = ?
+    WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+  `).run(new Date(now.getTime() + LEASE_MS).toISOString(), now.toISOString(), id, now.toISOString())
+  return result.changes > 0
+}
+
+/**
+ * Make one attempt at a delivery and record the outcome. Returns the delivery as it stands.
+ */
+export async function sendWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  if (!claimDelivery(id, new Date())) {
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDelivery | null
+  }
+
+  const row = db.prepare(`
+    SELECT d.*, e.url, e.secret FROM webhook_deliveries d
+    JOIN webhook_endpoints e ON e.id = d.endpoint_id
+    WHERE d.id = ?
+  `).get(id) as (WebhookDelivery & { url: string; secret: string }) | undefined
+  if (!row) return null
+
+  const timestamp = Math.floor(Date.now() / 1000)
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  try {
+    const response = await fetch(row.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'LI-Creator-Webhooks/1.0',
+        'X-Webhook-Id': row.id,
+        'X-Webhook-Event': row.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(row.secret, timestamp, row.payload),
+      },
+      body: row.payload,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    })
+    responseStatus = response.status
+    responseBody = (await response.text()).substring(0, RESPONSE_BODY_LIMIT)
+    if (!response.ok) error = `HTTP ${response.status}`
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const now = new Date()
+  const retry = error !== null && row.attempts < row.max_attempts
+  const status = error === null ? 'succeeded' : retry ? 'pending' : 'failed'
+  const nextAttemptAt = retry
+    ? new Date(now.getTime() + RETRY_BASE_MS * Math.pow(2, row.attempts - 1)).toISOString()
+    : row.next_attempt_at
+
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, next_attempt_at = ?, response_status = ?, response_body = ?, error = ?, updated_at = ?
+    WHERE id = ?
+  `).run(status, nextAttemptAt, responseStatus, responseBody, error, now.toISOString(), id)
+
+  return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDelivery
+}
+
+/**
+ * Retry every pending delivery that is due, one after another
+ */
+export async function retryDueWebhookDeliveries(): Promise<number> {
+  const due = db.prepare(`
+    SELECT id FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC
+  `).all(new Date().toISOString()) as { id: string }[]
+
+  for (const { id } of due) {
+    await sendWebhookDelivery(id)
+  }
+  return due.length
+}
+
+const workerState = globalThis as typeof globalThis & { webhookWorker?: ReturnType<typeof setInterval> }
+
+/**
+ * Start retrying failed deliveries in this server process; repeated calls reuse the interval
+ */
+export function startWebhookWorker(): void {
+  if (workerState.webhookWorker) return
+
+  const tick = () => {
+    retryDueWebhookDeliveries().catch(error => console.error('Error retrying webhook deliveries:', error))
+  }
+  workerState.webhookWorker = setInterval(tick, RETRY_INTERVAL_MS)
+  tick()
+}
@@ -0,0 +1,147 @@
+// Outbound webhooks: endpoints in settings receive HMAC-signed JSON for project lifecycle
+// events. Sending, signing and retries are in ./delivery.
+
+export { signWebhookPayload, retryDueWebhookDeliveries, startWebhookWorker } from './delivery'
+
+import crypto from 'crypto'
+import db from '@/lib/db'
+import { generateId, safeJsonParse } from '@/lib/utils'
+import { sendWebhookDelivery } from './delivery'
+import { WEBHOOK_EVENT_LABELS } from '@/types'
+import type { Project, WebhookDelivery, WebhookEndpoint, WebhookEndpointRequest, WebhookEvent } from '@/types'
+
+export interface WebhookEndpointRow {
+  id: string
+  url: string
+  description: string
+  secret: string
+  events: string
+  enabled: number
+  created_at: string
+  updated_at: string
+}
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && value in WEBHOOK_EVENT_LABELS
+}
+
+export function rowToWebhookEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    secret: row.secret,
+    events: safeJsonParse<WebhookEvent[]>(row.events, []),
+    enabled: row.enabled === 1,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+export function listWebhookEndpoints(): WebhookEndpoint[] {
+  const rows = db.prepare('SELECT * FROM webhook_endpoints ORDER BY created_at ASC').all() as WebhookEndpointRow[]
+  return rows.map(rowToWebhookEndpoint)
+}
+
+export function getWebhookEndpoint(id: string): WebhookEndpoint | undefined {
+  const row = db.prepare('SELECT * FROM webhook_endpoints WHERE id = ?').get(id) as WebhookEndpointRow | undefined
+  return row ? rowToWebhookEndpoint(row) : undefined
+}
+
+export type WebhookEndpointValues = Pick<WebhookEndpointRow, 'url' | 'description' | 'events' | 'enabled'>
+
+/**
+ * Validate a create or update request. Fields left out of an update keep their current values;
+ * a create needs a URL.
+ */
+export function parseWebhookEndpoint(
+  body: WebhookEndpointRequest,
+  existing?: WebhookEndpoint
+): { values: WebhookEndpointValues } | { error: string } {
+  const url = body.url !== undefined ? String(body.url).trim() : existing?.url || ''
+  if (!/^https?:\/\/\S+$/i.test(url)) {
+    return { error: 'url must be an http:// or https:// address' }
+  }
+
+  const events = body.events !== undefined ? body.events : existing?.events ?? []
+  if (!Array.isArray(events) || !events.every(isWebhookEvent)) {
+    return { error: `events must be a list of: ${WEBHOOK_EVENTS.join(', ')}` }
+  }
+
+  return {
+    values: {
+      url,
+      description: body.description !== undefined ? String(body.description).trim() : existing?.description || '',
+      // Stored in a fixed order, without duplicates
+      events: JSON.stringify(WEBHOOK_EVENTS.filter(event => events.includes(event))),
+      enabled: (body.enabled ?? existing?.enabled ?? true) ? 1 : 0,
+    },
+  }
+}
+
+/**
+ * An endpoint's recent deliveries, newest first
+ */
+export function listWebhookDeliveries(endpointId: string, limit = 50): WebhookDelivery[] {
+  return db.prepare('SELECT * FROM webhook_deliveries WHERE endpoint_id = ? ORDER BY created_at DESC LIMIT ?')
+    .all(endpointId, limit) as WebhookDelivery[]
+}
+
+function queueDelivery(endpointId: string, event: WebhookEvent | 'ping', data: Record<string, unknown>, maxAttempts?: number): string {
+  const id = generateId()
+  const now = new Date().toISOString()
+  const payload = JSON.stringify({ id, event, created_at: now, data })
+  db.prepare(`
+    INSERT INTO webhook_deliveries (id, endpoint_id, event, payload, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 'pending', 0, COALESCE(?, 5), ?, ?, ?)
+  `).run(id, endpointId, event, payload, maxAttempts ?? null, now, now, now)
+  return id
+}
+
+/**
+ * Queue the event for every enabled endpoint subscribed to it and start sending. Never throws:
+ * a broken webhook must not fail the request that raised the event.
+ */
+export function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+  try {
+    const ids = listWebhookEndpoints()
+      .filter(endpoint => endpoint.enabled && (endpoint.events.length === 0 || endpoint.events.includes(event)))
+      .map(endpoint => queueDelivery(endpoint.id, event, data))
+
+    for (const id of ids) {
+      sendWebhookDelivery(id).catch(error => console.error('Error sending webhook:', error))
+    }
+  } catch (error) {
+    console.error(`Error queueing ${event} webhooks:`, error)
+  }
+}
+
+/**
+ * Emit a project event with the project's current details, plus anything event-specific
+ */
+export function emitProjectEvent(event: WebhookEvent, projectId: string, extra: Record<string, unknown> = {}): void {
+  try {
+    const project = db.prepare(`
+      SELECT id, name, topic, platform, status, current_step, scheduled_at, published_at, created_at, updated_at
+      FROM projects WHERE id = ?
+    `).get(projectId) as Partial<Project> | undefined
+    if (!project) return
+    emitWebhookEvent(event, { project, ...extra })
+  } catch (error) {
+    console.error(`Error emitting ${event} webhook:`, error)
+  }
+}
+
+/**
+ * Send a ping to one endpoint right away, once, and return how it went
+ */
+export async function sendTestWebhook(endpoint: WebhookEndpoint): Promise<WebhookDelivery | null> {
+  const id = queueDelivery(endpoint.id, 'ping', { message: 'Test delivery from the webhook settings' }, 1)
+  return sendWebhookDelivery(id)
+}
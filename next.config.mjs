@@ -7,6 +7,14 @@ const nextConfig = {
       allowedOrigins: ['localhost:3000'],
     },
   },
+  // Sessions were converted into projects with the same ids (migration 003 refuses to
+  // re-key one, so these never land on an unrelated project)
+  async redirects() {
+    return [
+      { source: '/session/new', destination: '/project/new', permanent: true },
+      { source: '/session/:id', destination: '/project/:id', permanent: true },
+    ]
+  },
   // Configure webpack for better-sqlite3 compatibility
   webpack: (config, { isServer }) => {
     if (isServer) {
@@ -2,10 +2,11 @@
 // Platform & Status Types
 // ============================================
 
-export type Platform = 'linkedin' | 'youtube' | 'facebook'
+export type BuiltInPlatform = 'linkedin' | 'youtube' | 'facebook' | 'x' | 'instagram' | 'threads' | 'newsletter'
+// A platform id from the registry (lib/platforms): a built-in or a custom platform
+export type Platform = string
 export type ProjectStatus = 'in_progress' | 'complete' | 'published'
-export type SessionStatus = ProjectStatus // Alias for backward compatibility
-export type WorkflowStep = 'setup' | 'hooks' | 'body' | 'intros' | 'titles' | 'ctas' | 'visuals' | 'thumbnails' | 'carousel' | 'complete'
+export type WorkflowStep = 'setup' | 'hooks' | 'body' | 'thread' | 'caption' | 'outline' | 'sections' | 'subject_lines' | 'preview_texts' | 'intros' | 'titles' | 'ctas' | 'hashtags' | 'visuals' | 'thumbnails' | 'alt_text' | 'carousel' | 'complete'
 
 // ============================================
 // Project Types (New)
@@ -23,7 +24,12 @@ export interface Project {
   created_at: string
   updated_at: string
   published_at: string | null
+  scheduled_at?: string | null // Planned publish date and time, shown on the content calendar
   remix_of_project_id: string | null
+  repurposed_from_project_id?: string | null // The project this one was adapted from for another platform
+  llm_provider?: TextProviderId | null // Overrides the global text provider when set
+  llm_model?: string | null
+  use_performance_examples?: number   // 1 = add our top posts and favorites as few-shot examples
 }
 
 export interface CreateProjectRequest {
@@ -32,6 +38,8 @@ export interface CreateProjectRequest {
   target_audience?: string
   content_style?: string
   platform?: Platform
+  llm_provider?: TextProviderId | null
+  llm_model?: string | null
 }
 
 export interface UpdateProjectRequest {
@@ -42,21 +50,38 @@ export interface UpdateProjectRequest {
   platform?: Platform
   status?: ProjectStatus
   current_step?: WorkflowStep
+  scheduled_at?: string | null // ISO date; null unschedules
+  llm_provider?: TextProviderId | null
+  llm_model?: string | null
+  use_performance_examples?: boolean
 }
 
-// ============================================
-// Session Types (Legacy - kept for backward compatibility)
-// ============================================
+export interface RepurposeProjectRequest {
+  platforms: Platform[]
+}
 
-export interface Session {
+// One project created by repurposing; error is set when its content couldn't be generated
+export interface RepurposedProject {
+  project: Project
+  output: Output | null
+  error?: string
+}
+
+// A project's variants: the original and everything repurposed from it, at any depth
+export interface ProjectFamilyMember {
   id: string
-  title: string
-  original_idea: string
-  status: SessionStatus
-  created_at: string
+  name: string
+  platform: Platform
+  platform_label: string
+  status: ProjectStatus
+  current_step: WorkflowStep
+  repurposed_from_project_id: string | null
   updated_at: string
-  published_at: string | null
-  remix_of_session_id: string | null
+}
+
+export interface ProjectFamily {
+  root_id: string
+  projects: ProjectFamilyMember[]
 }
 
 // ============================================
@@ -67,10 +92,11 @@ export type MessageRole = 'user' | 'assistant'
 
 export interface Message {
   id: string
-  session_id?: string
-  project_id?: string
+  project_id: string
   role: MessageRole
   content: string
+  // Source passages the reply was given (assistant and chat replies)
+  source_chunks?: SourceChunkReference[]
   created_at: string
 }
 
@@ -83,10 +109,17 @@ export interface VisualConcept {
   preview_data?: string // Base64 or URL
 }
 
+// One section of a newsletter: the outline gives its heading and summary, the draft its body
+export interface NewsletterSection {
+  id: string
+  heading: string
+  summary: string
+  body: string
+}
+
 export interface Output {
   id: string
-  session_id?: string
-  project_id?: string
+  project_id: string
   // Hooks
   hooks: string[]
   hooks_original: string[]
@@ -95,6 +128,19 @@ export interface Output {
   body_content: string
   body_content_original: string
   selected_body_index: number
+  // Thread tweets (for X), in posting order and without numbering
+  thread: string[]
+  thread_original: string[]
+  // Newsletter sections in reading order; body_content mirrors them as Markdown
+  newsletter_sections: NewsletterSection[]
+  newsletter_sections_original: NewsletterSection[]
+  // Email subject lines and preview (preheader) texts (for newsletters)
+  subject_lines: string[]
+  subject_lines_original: string[]
+  selected_subject_index: number
+  preview_texts: string[]
+  preview_texts_original: string[]
+  selected_preview_index: number
   // Intros (for YouTube)
   intros: string[]
   intros_original: string[]
@@ -107,6 +153,10 @@ export interface Output {
   ctas: string[]
   ctas_original: string[]
   selected_cta_index: number
+  // Hashtag sets (for Instagram/Threads), each a space-separated list like "#a #b"
+  hashtag_sets: string[]
+  hashtag_sets_original: string[]
+  selected_hashtag_index: number
   // Visual concepts
   visual_concepts: VisualConcept[]
   visual_concepts_original: VisualConcept[]
@@ -114,6 +164,10 @@ export interface Output {
   // Research (web search results)
   research_context?: ResearchContext
   citations?: Citation[]
+  // Few-shot examples the latest generation or regeneration was given
+  examples_used?: GenerationExample[]
+  // Source passages the latest generation or regeneration was given
+  source_chunks_used?: SourceChunkReference[]
   // Timestamps
   created_at: string
   updated_at: string
@@ -159,6 +213,8 @@ export interface ProjectSource {
   original_url?: string
   mime_type?: string
   enabled: boolean
+  // Set on the pages of a crawled site: the source that groups them
+  parent_source_id?: string | null
   created_at: string
 }
 
@@ -172,6 +228,47 @@ export interface CreateSourceRequest {
   mime_type?: string
 }
 
+// File types /api/sources/extract can turn into text
+export const SOURCE_FILE_EXTENSIONS = ['txt', 'md', 'pdf', 'docx', 'pptx', 'html', 'htm', 'epub', 'csv'] as const
+
+export type SourceFileExtension = typeof SOURCE_FILE_EXTENSIONS[number]
+
+// How a URL import finds more pages: links on the site's own pages, or its sitemap
+export type CrawlMode = 'links' | 'sitemap'
+
+export const CRAWL_DEFAULT_DEPTH = 2
+export const CRAWL_MAX_DEPTH = 5
+export const CRAWL_DEFAULT_PAGES = 20
+export const CRAWL_MAX_PAGES = 100
+
+export interface CrawlSourceRequest {
+  project_id: string
+  url: string
+  mode?: CrawlMode
+  // Links followed away from the start page (links mode only)
+  max_depth?: number
+  // Pages fetched, including ones skipped as duplicates
+  max_pages?: number
+}
+
+export type CrawlSkipReason = 'robots' | 'noindex' | 'duplicate' | 'off_site' | 'not_html' | 'failed'
+
+export interface CrawlSourceResponse {
+  source: ProjectSource
+  pages: ProjectSource[]
+  skipped: { url: string; reason: CrawlSkipReason }[]
+}
+
+// A source passage that was put in front of the model, as reported back to the UI
+export interface SourceChunkReference {
+  chunk_id: string
+  source_id: string
+  source_title: string
+  // Markdown headings above the passage, outermost first ("Results › Q3")
+  heading: string
+  excerpt: string
+}
+
 // ============================================
 // Generated Image Types
 // ============================================
@@ -184,10 +281,11 @@ export interface GeneratedImage {
   image_url?: string
   width: number
   height: number
-  model: string
+  model: string // "<provider>/<model>", e.g. "gemini/gemini-2.5-flash-image" (legacy rows: "nano-banana")
   is_upscaled: boolean
   parent_image_id?: string
   visual_concept_index?: number // 0-3, links to visual_concepts array index
+  alt_text?: string
   created_at: string
 }
 
@@ -207,8 +305,9 @@ export interface RefineImageRequest {
 
 export interface UpscaleImageRequest {
   image_id: string
-  target_width?: number
+  target_width?: number  // Aspect ratio is preserved; the image is fitted inside the target
   target_height?: number
+  backend?: UpscaleBackendId  // Defaults to UPSCALE_BACKEND, then local Lanczos
 }
 
 // ============================================
@@ -220,8 +319,7 @@ export type EditedBy = 'user' | 'assistant'
 
 export interface ContentVersion {
   id: string
-  project_id?: string
-  session_id?: string
+  project_id: string
   content_type: ContentType
   content_index: number
   old_content: string
@@ -243,15 +341,49 @@ export interface Setting {
 
 export type SettingKey =
   | 'master_voice_prompt'
-  | 'linkedin_tone_prompt'
-  | 'youtube_tone_prompt'
-  | 'facebook_tone_prompt'
+  | PlatformToneKey
   | 'hooks_agent_prompt'
   | 'body_agent_prompt'
   | 'intros_agent_prompt'
   | 'titles_agent_prompt'
   | 'ctas_agent_prompt'
   | 'thumbnails_agent_prompt'
+  | 'llm_provider'
+  | 'llm_model'
+  | 'image_provider'
+  | 'image_model'
+  | 'profile_name'
+  | 'profile_headline'
+
+// ============================================
+// Text Provider Types
+// ============================================
+
+export type TextProviderId = 'anthropic' | 'openai' | 'mock'
+
+export interface TextProviderInfo {
+  id: TextProviderId
+  label: string
+  defaultModel: string
+  configured: boolean
+  configurationHint: string
+}
+
+// ============================================
+// Image Provider Types
+// ============================================
+
+export type ImageProviderId = 'gemini' | 'openai' | 'sdwebui' | 'placeholder'
+
+export interface ImageProviderInfo {
+  id: ImageProviderId
+  label: string
+  defaultModel: string
+  configured: boolean
+  configurationHint: string
+}
+
+export type UpscaleBackendId = 'lanczos' | 'sdwebui'
 
 // ============================================
 // Favorite Types
@@ -263,7 +395,6 @@ export interface Favorite {
   id: string
   type: FavoriteType
   content: string | VisualConcept | TemplateContent | GeneratedImage
-  source_session_id?: string
   source_project_id?: string
   created_at: string
 }
@@ -283,8 +414,7 @@ export interface TemplateContent {
 
 export interface PerformanceNotes {
   id: string
-  session_id?: string
-  project_id?: string
+  project_id: string
   views: number | null
   likes: number | null
   comments: number | null
@@ -293,6 +423,145 @@ export interface PerformanceNotes {
   recorded_at: string
 }
 
+// A published project with its latest metrics (GET /api/published)
+export interface PublishedProject extends Project {
+  performance: PerformanceNotes | null
+}
+
+export type MetricName = 'views' | 'likes' | 'comments' | 'reposts'
+export type MetricSource = 'manual' | 'import'
+
+// Cumulative metrics for a project at one point in time
+export interface MetricSnapshot {
+  id: string
+  project_id: string
+  views: number | null
+  likes: number | null
+  comments: number | null
+  reposts: number | null
+  source: MetricSource
+  recorded_at: string
+}
+
+// A snapshot with metrics derived from the project's publish time and the previous snapshot
+export interface DerivedSnapshot extends MetricSnapshot {
+  age_hours: number | null            // Hours since the project was published
+  engagements: number | null          // likes + comments + reposts
+  engagement_rate: number | null      // engagements / views
+  views_per_hour: number | null       // Since the previous snapshot (or since publishing)
+  engagements_per_hour: number | null
+}
+
+export interface ProjectMetricSeries {
+  project_id: string
+  name: string
+  published_at: string | null
+  snapshots: DerivedSnapshot[]
+}
+
+// Few-shot examples from our own top posts and favorites (lib/prompts/examples.ts)
+export type GenerationExampleSource = 'top_post' | 'favorite'
+export type GenerationExampleKind = 'post' | 'hook' | 'cta' | 'body' | 'intro' | 'title' | 'visual'
+
+export interface GenerationExample {
+  source: GenerationExampleSource
+  kind: GenerationExampleKind
+  content: string
+  project_id: string | null       // Published project it came from (favorites may have none)
+  project_name: string | null
+  favorite_id?: string
+  engagement_rate?: number | null // Top posts only
+  views?: number | null
+}
+
+// Attribution of outcomes to content choices (GET /api/performance/attribution)
+export type AttributionMetric = 'engagement_rate' | 'views' | 'engagements'
+export type AttributionDimension =
+  | 'hook_position'
+  | 'hook_style'
+  | 'hook_length'
+  | 'cta_type'
+  | 'body_length'
+  | 'media'
+  | 'weekday'
+  | 'time_of_day'
+
+export interface AttributionGroup {
+  value: string
+  label: string
+  posts: number
+  average: number             // Mean of the report metric across the group's posts
+  lift: number | null         // Relative to the overall average (0.2 = 20% higher)
+  low_sample: boolean         // Too few posts to read much into
+}
+
+export interface AttributionBreakdown {
+  dimension: AttributionDimension
+  label: string
+  groups: AttributionGroup[]
+}
+
+export interface AttributionCorrelation {
+  feature: 'hook_words' | 'body_words' | 'hashtags'
+  label: string
+  r: number | null            // Pearson correlation with the report metric
+  posts: number
+}
+
+export interface AttributedPost {
+  project_id: string
+  name: string
+  published_at: string | null
+  hook: string
+  cta: string | null
+  features: Record<AttributionDimension, string>
+  hook_words: number
+  body_words: number
+  hashtags: number
+  views: number | null
+  engagements: number | null
+  engagement_rate: number | null
+}
+
+export interface AttributionReport {
+  metric: AttributionMetric
+  total_published: number
+  posts_with_metrics: number
+  overall_average: number | null
+  breakdowns: AttributionBreakdown[]
+  correlations: AttributionCorrelation[]
+  posts: AttributedPost[]
+}
+
+// Analytics spreadsheet import (POST /api/performance/import)
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched'
+
+export interface ImportCandidate {
+  project_id: string
+  score: number                 // 0-1 text similarity to the project's hook + body
+}
+
+export interface AnalyticsImportRow {
+  row: number                   // Row number in the spreadsheet
+  text: string                  // Post text (often truncated by LinkedIn)
+  post_url: string | null
+  posted_at: string | null
+  views: number | null
+  likes: number | null
+  comments: number | null
+  reposts: number | null
+  status: ImportMatchStatus
+  project_id: string | null     // Confident match; ambiguous and unmatched rows need review
+  candidates: ImportCandidate[] // Best first
+}
+
+export interface AnalyticsImportPreview {
+  filename: string
+  sheet: string | null          // Worksheet the rows came from (XLSX only)
+  rows: AnalyticsImportRow[]
+  projects: { id: string; name: string; published_at: string | null; excerpt: string }[]
+}
+
 export interface PerformanceStats {
   total_posts: number
   total_views: number
@@ -309,6 +578,8 @@ export interface PerformanceStats {
 export interface ConnectionStatus {
   connected: boolean
   last_checked: string
+  provider?: TextProviderId
+  model?: string
   error?: string
 }
 
@@ -331,8 +602,7 @@ export interface ApiSuccess<T> {
 // ============================================
 
 export interface ChatRequest {
-  session_id?: string
-  project_id?: string
+  project_id: string
   message: string
 }
 
@@ -371,24 +641,23 @@ export interface AssistantResponse {
 // Regenerate Types
 // ============================================
 
-export type RegenerateSection = 'hooks' | 'body' | 'intros' | 'titles' | 'ctas' | 'visuals'
+export type RegenerateSection = 'hooks' | 'body' | 'thread' | 'outline' | 'sections' | 'subject_lines' | 'preview_texts' | 'intros' | 'titles' | 'ctas' | 'hashtags' | 'visuals'
 
 export interface RegenerateRequest {
-  session_id?: string
-  project_id?: string
+  project_id: string
   section: RegenerateSection
+  section_id?: string // For 'sections': draft only this newsletter section
 }
 
 // ============================================
 // Export Types
 // ============================================
 
-export type ExportFormat = 'markdown' | 'pdf' | 'png' | 'clipboard'
-export type ExportSection = 'hooks' | 'body' | 'intros' | 'titles' | 'ctas' | 'visuals' | 'thumbnails' | 'all'
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'png' | 'clipboard'
+export type ExportSection = 'hooks' | 'body' | 'thread' | 'sections' | 'subject_lines' | 'preview_texts' | 'intros' | 'titles' | 'ctas' | 'hashtags' | 'visuals' | 'thumbnails' | 'all'
 
 export interface ExportRequest {
-  session_id?: string
-  project_id?: string
+  project_id: string
   format: ExportFormat
   section?: ExportSection
   selected_hook_index?: number
@@ -401,54 +670,312 @@ export interface ExportRequest {
 // Workflow Types
 // ============================================
 
-export interface WorkflowConfig {
-  platform: Platform
-  steps: WorkflowStep[]
-}
-
-export const WORKFLOW_CONFIGS: Record<Platform, WorkflowConfig> = {
-  linkedin: {
-    platform: 'linkedin',
-    steps: ['setup', 'hooks', 'body', 'ctas', 'titles', 'visuals', 'complete']
-  },
-  youtube: {
-    platform: 'youtube',
-    steps: ['setup', 'hooks', 'intros', 'titles', 'thumbnails', 'complete']
-  },
-  facebook: {
-    platform: 'facebook',
-    steps: ['setup', 'hooks', 'body', 'ctas', 'titles', 'visuals', 'complete']
-  }
-}
-
 export const STEP_LABELS: Record<WorkflowStep, string> = {
   setup: 'Project Setup',
   hooks: 'Hooks',
   body: 'Body Content',
+  thread: 'Thread',
+  caption: 'Caption',
+  outline: 'Outline',
+  sections: 'Sections',
+  subject_lines: 'Subject Lines',
+  preview_texts: 'Preview Text',
   intros: 'Intros',
   titles: 'Titles',
   ctas: 'Call to Action',
+  hashtags: 'Hashtags',
   visuals: 'Image',
   thumbnails: 'Thumbnail',
+  alt_text: 'Alt Text',
   carousel: 'Carousel',
   complete: 'Summary'
 }
 
-// Platform-specific default aspect ratios for images
-export const PLATFORM_ASPECT_RATIOS: Record<Platform, { ratio: string; width: number; height: number }> = {
-  linkedin: { ratio: '1.91:1', width: 1200, height: 630 },
-  facebook: { ratio: '1.91:1', width: 1200, height: 630 },
-  youtube: { ratio: '16:9', width: 1280, height: 720 },
-}
-
 // Available aspect ratio options for image generation
 export const ASPECT_RATIO_OPTIONS = [
   { label: 'LinkedIn/Facebook (1200×630)', ratio: '1.91:1', width: 1200, height: 630 },
   { label: 'YouTube (16:9)', ratio: '16:9', width: 1280, height: 720 },
   { label: 'Square (1:1)', ratio: '1:1', width: 1024, height: 1024 },
+  { label: 'Instagram Portrait (4:5)', ratio: '4:5', width: 1080, height: 1350 },
   { label: 'Portrait (9:16)', ratio: '9:16', width: 720, height: 1280 },
 ]
 
+// ============================================
+// Validation Types
+// ============================================
+
+// Errors break a hard platform limit and block export unless overridden; warnings are advice
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationRule =
+  | 'character_limit'
+  | 'fold'
+  | 'title_limit'
+  | 'title_seo'
+  | 'tweet_limit'
+  | 'hashtag_limit'
+  | 'hashtag_count'
+  | 'link_placement'
+  | 'emoji_density'
+  | 'unicode_formatting'
+  | 'subject_length'
+  | 'preview_length'
+
+// The piece of content an issue is about; 'post' is the assembled post as published
+export type ValidatedField = 'post' | 'hook' | 'body' | 'cta' | 'title' | 'intro' | 'tweet' | 'hashtags' | 'subject_line' | 'preview_text'
+
+export interface ValidationIssue {
+  rule: ValidationRule
+  severity: ValidationSeverity
+  field: ValidatedField
+  message: string
+  index?: number // Which tweet, for thread issues
+  limit?: number
+  actual?: number
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[]
+  // True when any issue is an error
+  blocking: boolean
+}
+
+// ============================================
+// Calendar Types
+// ============================================
+
+// Published posts sit on their publish date; the rest on their planned date, as scheduled
+// once complete and as drafts while still being written
+export type CalendarEntryKind = 'draft' | 'scheduled' | 'published'
+
+export interface CalendarEntry {
+  project_id: string
+  name: string
+  platform: Platform
+  platform_label: string
+  status: ProjectStatus
+  kind: CalendarEntryKind
+  date: string | null // null for projects that haven't been scheduled yet
+}
+
+export interface CalendarResponse {
+  entries: CalendarEntry[]
+  // Unpublished projects without a date, to drag onto the calendar
+  unscheduled: CalendarEntry[]
+}
+
+// More than one post for the same platform on the same day
+export interface CalendarConflict {
+  day: string // YYYY-MM-DD, local time
+  platform: Platform
+  platform_label: string
+  project_ids: string[]
+}
+
+// ============================================
+// Publishing Types
+// ============================================
+
+export type PublisherId = 'linkedin' | 'webhook' | 'outbox'
+
+export interface PublisherInfo {
+  id: PublisherId
+  label: string
+  configured: boolean
+  configurationHint: string
+  platforms: Platform[] | null // Platforms it can post to; null for any
+}
+
+export type PublishJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface PublishJob {
+  id: string
+  project_id: string
+  publisher: PublisherId
+  status: PublishJobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string // The planned publish time, then when the next retry is due
+  last_error: string | null
+  external_url: string | null // Where the published post lives, once it succeeds
+  created_at: string
+  updated_at: string
+}
+
+export interface PublishAttempt {
+  id: string
+  job_id: string
+  project_id: string
+  publisher: PublisherId
+  attempt: number
+  status: 'succeeded' | 'failed'
+  external_id: string | null
+  external_url: string | null
+  error: string | null
+  started_at: string
+  finished_at: string
+}
+
+export interface SchedulePublishRequest {
+  publisher: PublisherId
+  scheduled_at?: string | null // Defaults to the project's planned date, or now
+}
+
+export interface ProjectPublishState {
+  job: PublishJob | null
+  attempts: PublishAttempt[]
+}
+
+// ============================================
+// Webhook Types
+// ============================================
+
+export type WebhookEvent =
+  | 'project.created'
+  | 'content.generated'
+  | 'project.completed'
+  | 'project.published'
+  | 'image.generated'
+  | 'carousel.rendered'
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'project.created': 'Project created',
+  'content.generated': 'Content generated',
+  'project.completed': 'Project marked complete',
+  'project.published': 'Project published',
+  'image.generated': 'Image generated',
+  'carousel.rendered': 'Carousel rendered',
+}
+
+export interface WebhookEndpoint {
+  id: string
+  url: string
+  description: string
+  secret: string // Signs each payload (HMAC-SHA256)
+  events: WebhookEvent[] // Empty for every event
+  enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookEndpointRequest {
+  url?: string
+  description?: string
+  events?: WebhookEvent[]
+  enabled?: boolean
+  rotate_secret?: boolean
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  endpoint_id: string
+  event: WebhookEvent | 'ping'
+  payload: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  response_status: number | null
+  response_body: string | null // Truncated
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+// ============================================
+// Claim Verification Types
+// ============================================
+
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted'
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  supported: 'Supported',
+  unsupported: 'Unsupported',
+  contradicted: 'Contradicted',
+}
+
+// Where a claim was found; location_index is the hook's index or the slide's position
+export type ClaimLocation = 'body' | 'hook' | 'slide'
+
+// The passage that supports or contradicts a claim: a project source or web research
+export interface ClaimEvidence {
+  kind: 'source' | 'research'
+  title: string
+  snippet: string
+  source_id?: string
+  url?: string
+}
+
+export interface ClaimCheck {
+  id: string
+  claim: string
+  location: ClaimLocation
+  location_index: number
+  status: ClaimStatus
+  evidence: ClaimEvidence | null
+  explanation: string
+}
+
+export interface ClaimVerification {
+  claims: ClaimCheck[]
+  checked_at: string
+  // The body, hooks or slides have changed since the check
+  stale: boolean
+}
+
+// ============================================
+// Platform Registry Types
+// ============================================
+
+// Each platform's tone modifier lives in settings under "<platform id>_tone_prompt"
+export type PlatformToneKey = `${string}_tone_prompt`
+
+// Decides which fields a platform generates, which editors its steps use and how it is
+// exported. Custom platforms can be 'post' or 'caption'.
+export type PlatformFormat = 'post' | 'video' | 'thread' | 'caption' | 'newsletter'
+export type CustomPlatformFormat = Extract<PlatformFormat, 'post' | 'caption'>
+
+export interface PlatformAspectRatio {
+  ratio: string
+  width: number
+  height: number
+}
+
+export interface PlatformDefinition {
+  id: Platform
+  label: string
+  description: string
+  builtIn: boolean
+  format: PlatformFormat
+  steps: WorkflowStep[]
+  // Most characters a post or caption can have, hashtags included (null for no limit)
+  characterLimit: number | null
+  // Most hashtags in a hashtag set (null when the platform doesn't use them)
+  hashtagLimit: number | null
+  // Default image size for visuals and carousels
+  aspectRatio: PlatformAspectRatio
+  // What to generate, and what the JSON response should concentrate on
+  generationPrompt: string
+  outputFocus: string
+  toneSettingKey: PlatformToneKey
+}
+
+export interface CustomPlatformRequest {
+  id?: string
+  label?: string
+  description?: string
+  format?: CustomPlatformFormat
+  steps?: WorkflowStep[]
+  character_limit?: number | null
+  hashtag_limit?: number | null
+  aspect_ratio?: string
+  generation_prompt?: string
+  output_focus?: string
+  tone_prompt?: string
+}
+
 // ============================================
 // Search & Research Types
 // ============================================
@@ -559,12 +1086,22 @@ export interface CarouselSlide {
   visual_prompt?: string // For AI image generation
   background_color?: string
   rendered_image?: string // Base64 of final rendered slide
+  alt_text?: string
+}
+
+export type CarouselAspectRatio = '1:1' | '4:5'
+
+// Rendered slide sizes; templates are designed on the 1080×1080 square
+export const CAROUSEL_DIMENSIONS: Record<CarouselAspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
 }
 
 export interface CarouselOutput {
   id: string
   project_id: string
   template_id?: string
+  aspect_ratio: CarouselAspectRatio
   slides: CarouselSlide[]
   created_at: string
   updated_at: string
@@ -585,11 +1122,13 @@ export interface GenerateCarouselRequest {
   slide_count?: number
   template_id?: string
   source_content?: string // Body content to break into slides
+  aspect_ratio?: CarouselAspectRatio // Defaults to the platform's carousel ratio
 }
 
 export interface RenderCarouselRequest {
   project_id: string
   carousel_id: string
+  aspect_ratio?: CarouselAspectRatio // Defaults to the carousel's current ratio
 }
 
 export interface ExportCarouselRequest {